@@ -0,0 +1,4 @@
+// Services build their API clients when imported; tests never reach the real APIs
+process.env.STRIPE_SECRET_KEY = process.env.STRIPE_SECRET_KEY || 'sk_test_placeholder';
+process.env.RESEND_API_KEY = process.env.RESEND_API_KEY || 're_test_placeholder';
+process.env.DATA_ENCRYPTION_KEY = process.env.DATA_ENCRYPTION_KEY || 'test-encryption-key';
@@ -1,13 +1,22 @@
 import { Request, Response } from 'express';
+import { AuthRequest } from '../types';
 import { User } from '../models/User';
 import { Booking } from '../models/Booking';
 import { Service } from '../models/Service';
 import { TokenTransaction } from '../models/TokenTransaction';
+import { TokenPack } from '../models/TokenPack';
+import { TokenPromotion } from '../models/TokenPromotion';
+import { Coupon } from '../models/Coupon';
 import VerificationRequest from '../models/VerificationRequest';
 import { deleteResource } from '../config/cloudinary'; // Import delete helper
 import { startOfDay, endOfDay, startOfMonth, endOfMonth, subDays, subMonths } from 'date-fns';
 import { RefundService } from '../services/refundService';
 import { PayoutService } from '../services/payoutService';
+import { LedgerService } from '../services/ledgerService';
+import { WebhookService } from '../services/webhookService';
+import { CouponService } from '../services/couponService';
+import { TaxService } from '../services/taxService';
+import { WebhookEventSource, WebhookEventStatus } from '../models/StripeWebhookEvent';
 
 // Admin middleware to check if user is admin
 export const requireAdmin = (req: Request, res: Response, next: any): void => {
@@ -281,9 +290,10 @@ export const getRecentTransactions = async (req: Request, res: Response) => {
       amount: booking.amount || (booking.serviceId as any)?.hourlyRate || 0,
       status: booking.status === 'completed' && booking.payoutStatus === 'paid' ? 'completed' : 
               booking.status === 'failed' || booking.payoutStatus === 'failed' ? 'failed' :
-              booking.status === 'cancelled' || booking.refund?.status === 'processed' ? 'cancelled' : 'pending',
+              booking.status === 'cancelled' || booking.paymentStatus === 'refunded' ? 'cancelled' : 'pending',
       payoutStatus: booking.payoutStatus || 'pending',
       paymentStatus: booking.paymentStatus || 'paid',
+      refundedAmount: booking.refund?.status === 'processed' ? booking.refund.amount : 0,
       createdAt: booking.createdAt,
       scheduledAt: booking.scheduledAt,
       mentor: booking.mentorId,
@@ -1356,7 +1366,7 @@ export const getPlatformStats = async (req: Request, res: Response): Promise<voi
 export const refundTransaction = async (req: Request, res: Response): Promise<void> => {
   try {
     const transactionId = req.params.transactionId as string;
-    const { reason = 'Admin refund' } = req.body;
+    const { reason = 'Admin refund', amount, refundType } = req.body;
 
     const booking = await Booking.findById(transactionId);
     if (!booking) {
@@ -1366,9 +1376,10 @@ export const refundTransaction = async (req: Request, res: Response): Promise<vo
 
     const result = await RefundService.processRefund({
       bookingId: transactionId,
-      refundType: booking.paymentMethod === 'tokens' ? 'tokens' : 'payment_method',
+      refundType: refundType || (booking.paymentMethod === 'tokens' ? 'tokens' : 'payment_method'),
       reason,
-      cancelledBy: 'mentor' // Admin action treated as mentor cancellation for full refund
+      cancelledBy: 'mentor', // Admin action treated as mentor cancellation
+      amount: amount !== undefined ? Number(amount) : undefined // Defaults to whatever is still refundable
     });
 
     if (!result.success) {
@@ -1446,3 +1457,405 @@ export const retryFailedTransaction = async (req: Request, res: Response): Promi
     res.status(500).json({ success: false, error: 'Internal server error' });
   }
 };
+
+// Report wallets whose cached balance differs from their ledger sum
+export const getLedgerReconciliation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const report = await LedgerService.reconcile();
+
+    res.json({
+      success: true,
+      data: {
+        ...report,
+        balanced: report.mismatches.length === 0 && report.unbalancedEntries.length === 0
+      }
+    });
+  } catch (error) {
+    console.error('Error reconciling token ledger:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+};
+
+// Record pre-ledger balances as opening entries (safe to run more than once)
+export const recordLedgerOpeningBalances = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await LedgerService.recordOpeningBalances();
+
+    res.json({
+      success: true,
+      data: result,
+      message: `Recorded ${result.recorded} opening balances`
+    });
+  } catch (error) {
+    console.error('Error recording opening balances:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+};
+
+// List stored Stripe webhook events; failed ones by default
+export const getWebhookEvents = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const status = (req.query.status as string) || 'failed';
+
+    if (!['processing', 'processed', 'failed', 'ignored', 'all'].includes(status)) {
+      res.status(400).json({ success: false, error: 'Invalid status filter' });
+      return;
+    }
+
+    const { events, total } = await WebhookService.getEvents({
+      status: status === 'all' ? undefined : status as WebhookEventStatus,
+      type: req.query.type as string | undefined,
+      source: req.query.source as WebhookEventSource | undefined
+    }, page, limit);
+
+    res.json({
+      success: true,
+      data: {
+        events,
+        total,
+        page,
+        totalPages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching webhook events:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+};
+
+// Run a failed Stripe webhook event again from its stored payload
+export const replayWebhookEvent = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const eventId = req.params.eventId as string;
+
+    const event = await WebhookService.getEvent(eventId);
+    if (!event) {
+      res.status(404).json({ success: false, error: 'Webhook event not found' });
+      return;
+    }
+
+    if (event.status !== 'failed') {
+      res.status(400).json({ success: false, error: `Only failed events can be replayed (event is ${event.status})` });
+      return;
+    }
+
+    const result = await WebhookService.replayEvent(eventId);
+    if (!result) {
+      res.status(409).json({ success: false, error: 'Webhook event is already being replayed' });
+      return;
+    }
+
+    if (result.status === 'failed') {
+      res.status(502).json({ success: false, error: result.error || 'Replay failed' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'Webhook event replayed'
+    });
+  } catch (error) {
+    console.error('Error replaying webhook event:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+};
+
+// List all token packs, inactive ones included
+export const getTokenPacks = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const packs = await TokenPack.find().sort({ sortOrder: 1, price: 1 });
+    res.json({ success: true, data: { packs } });
+  } catch (error) {
+    console.error('Error fetching token packs:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+};
+
+// Create a token pack
+export const createTokenPack = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, description, price, tokens, bonusTokens = 0, isActive = true, sortOrder = 0 } = req.body;
+
+    const error = validateTokenPack({ name, price, tokens, bonusTokens });
+    if (error) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+
+    const pack = await TokenPack.create({ name, description, price, tokens, bonusTokens, isActive, sortOrder });
+    res.status(201).json({ success: true, data: pack });
+  } catch (error) {
+    console.error('Error creating token pack:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+};
+
+// Update a token pack; deactivate rather than delete so past top-ups keep their pack
+export const updateTokenPack = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const pack = await TokenPack.findById(req.params.packId as string);
+    if (!pack) {
+      res.status(404).json({ success: false, error: 'Token pack not found' });
+      return;
+    }
+
+    const { name, description, price, tokens, bonusTokens, isActive, sortOrder } = req.body;
+    const error = validateTokenPack({
+      name: name ?? pack.name,
+      price: price ?? pack.price,
+      tokens: tokens ?? pack.tokens,
+      bonusTokens: bonusTokens ?? pack.bonusTokens
+    });
+    if (error) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+
+    if (name !== undefined) pack.name = name;
+    if (description !== undefined) pack.description = description;
+    if (price !== undefined) pack.price = price;
+    if (tokens !== undefined) pack.tokens = tokens;
+    if (bonusTokens !== undefined) pack.bonusTokens = bonusTokens;
+    if (isActive !== undefined) pack.isActive = !!isActive;
+    if (sortOrder !== undefined) pack.sortOrder = sortOrder;
+    await pack.save();
+
+    res.json({ success: true, data: pack });
+  } catch (error) {
+    console.error('Error updating token pack:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+};
+
+const validateTokenPack = (pack: { name?: string; price: any; tokens: any; bonusTokens: any }): string | null => {
+  if (!pack.name) {
+    return 'Name is required';
+  }
+  if (typeof pack.price !== 'number' || pack.price < 1) {
+    return 'Price must be at least $1';
+  }
+  if (typeof pack.tokens !== 'number' || pack.tokens < 1) {
+    return 'Tokens must be at least 1';
+  }
+  if (typeof pack.bonusTokens !== 'number' || pack.bonusTokens < 0) {
+    return 'Bonus tokens cannot be negative';
+  }
+  return null;
+};
+
+// List all token promotions
+export const getTokenPromotions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const promotions = await TokenPromotion.find().sort({ createdAt: -1 });
+    res.json({ success: true, data: { promotions } });
+  } catch (error) {
+    console.error('Error fetching token promotions:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+};
+
+// Create a time-limited or first-purchase promotion
+export const createTokenPromotion = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const {
+      name, kind, bonusPercent = 0, bonusTokens = 0, minPurchaseTokens = 0,
+      packIds = [], startsAt, endsAt, isActive = true
+    } = req.body;
+
+    const error = validateTokenPromotion({ name, kind, bonusPercent, bonusTokens, startsAt, endsAt });
+    if (error) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+
+    const promotion = await TokenPromotion.create({
+      name, kind, bonusPercent, bonusTokens, minPurchaseTokens, packIds,
+      startsAt: startsAt ? new Date(startsAt) : undefined,
+      endsAt: endsAt ? new Date(endsAt) : undefined,
+      isActive
+    });
+    res.status(201).json({ success: true, data: promotion });
+  } catch (error) {
+    console.error('Error creating token promotion:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+};
+
+// Update or end a token promotion
+export const updateTokenPromotion = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const promotion = await TokenPromotion.findById(req.params.promotionId as string);
+    if (!promotion) {
+      res.status(404).json({ success: false, error: 'Token promotion not found' });
+      return;
+    }
+
+    const { name, bonusPercent, bonusTokens, minPurchaseTokens, packIds, startsAt, endsAt, isActive } = req.body;
+    const error = validateTokenPromotion({
+      name: name ?? promotion.name,
+      kind: promotion.kind,
+      bonusPercent: bonusPercent ?? promotion.bonusPercent,
+      bonusTokens: bonusTokens ?? promotion.bonusTokens,
+      startsAt: startsAt !== undefined ? startsAt : promotion.startsAt,
+      endsAt: endsAt !== undefined ? endsAt : promotion.endsAt
+    });
+    if (error) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+
+    if (name !== undefined) promotion.name = name;
+    if (bonusPercent !== undefined) promotion.bonusPercent = bonusPercent;
+    if (bonusTokens !== undefined) promotion.bonusTokens = bonusTokens;
+    if (minPurchaseTokens !== undefined) promotion.minPurchaseTokens = minPurchaseTokens;
+    if (packIds !== undefined) promotion.packIds = packIds;
+    if (startsAt !== undefined) promotion.startsAt = startsAt ? new Date(startsAt) : undefined;
+    if (endsAt !== undefined) promotion.endsAt = endsAt ? new Date(endsAt) : undefined;
+    if (isActive !== undefined) promotion.isActive = !!isActive;
+    await promotion.save();
+
+    res.json({ success: true, data: promotion });
+  } catch (error) {
+    console.error('Error updating token promotion:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+};
+
+const validateTokenPromotion = (promotion: {
+  name?: string;
+  kind?: string;
+  bonusPercent: any;
+  bonusTokens: any;
+  startsAt?: any;
+  endsAt?: any;
+}): string | null => {
+  if (!promotion.name) {
+    return 'Name is required';
+  }
+  if (!['time_limited', 'first_purchase'].includes(promotion.kind as string)) {
+    return 'Kind must be time_limited or first_purchase';
+  }
+  if (typeof promotion.bonusPercent !== 'number' || promotion.bonusPercent < 0 || promotion.bonusPercent > 100) {
+    return 'Bonus percent must be between 0 and 100';
+  }
+  if (typeof promotion.bonusTokens !== 'number' || promotion.bonusTokens < 0) {
+    return 'Bonus tokens cannot be negative';
+  }
+  if (promotion.bonusPercent === 0 && promotion.bonusTokens === 0) {
+    return 'A promotion needs a bonus percent or bonus tokens';
+  }
+  if (promotion.kind === 'time_limited' && !promotion.endsAt) {
+    return 'Time-limited promotions need an end date';
+  }
+  if (promotion.startsAt && promotion.endsAt && new Date(promotion.startsAt) >= new Date(promotion.endsAt)) {
+    return 'Promotion must end after it starts';
+  }
+  return null;
+};
+
+// List coupons, optionally only platform- or mentor-issued ones
+export const getCoupons = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { issuedBy } = req.query;
+    const filter: any = {};
+    if (issuedBy === 'admin' || issuedBy === 'mentor') {
+      filter.issuedBy = issuedBy;
+    }
+
+    const coupons = await Coupon.find(filter)
+      .populate('mentorId', 'firstName lastName email')
+      .sort({ createdAt: -1 });
+    res.json({ success: true, data: { coupons } });
+  } catch (error) {
+    console.error('Error fetching coupons:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+};
+
+// Create a platform coupon; absorbedBy decides whose share the discount comes out of
+export const createCoupon = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const adminId = req.user!._id.toString();
+    const { values, error } = await CouponService.buildCoupon(req.body, { issuedBy: 'admin', userId: adminId });
+    if (!values) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+
+    const coupon = await Coupon.create({ ...values, issuedBy: 'admin', createdBy: adminId });
+    res.status(201).json({ success: true, data: coupon });
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      res.status(409).json({ success: false, error: 'A coupon with this code already exists' });
+      return;
+    }
+    console.error('Error creating coupon:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+};
+
+// Update or deactivate any coupon, mentor-issued ones included
+export const updateCoupon = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const coupon = await Coupon.findById(req.params.couponId as string);
+    if (!coupon) {
+      res.status(404).json({ success: false, error: 'Coupon not found' });
+      return;
+    }
+
+    const { values, error } = await CouponService.buildCoupon(req.body, {
+      issuedBy: coupon.issuedBy,
+      userId: coupon.mentorId?.toString() || req.user!._id.toString()
+    }, coupon);
+    if (!values) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+
+    coupon.set(values);
+    await coupon.save();
+    res.json({ success: true, data: coupon });
+  } catch (error) {
+    console.error('Error updating coupon:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+};
+
+// Per-mentor gross, commission and net paid out in a calendar year, as JSON or a CSV export;
+// includeTin=true puts full TINs in the export for filing
+export const getTaxSummaries = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const format = (req.query.format as string) || 'json';
+    const includeTin = req.query.includeTin === 'true';
+    if (!['json', 'csv'].includes(format)) {
+      res.status(400).json({ success: false, error: 'Format must be json or csv' });
+      return;
+    }
+
+    const { year, error } = TaxService.parseYear(req.query.year ?? new Date().getUTCFullYear() - 1);
+    if (!year) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+
+    const summaries = await TaxService.getAnnualSummaries(year, { includeTin });
+    if (includeTin) {
+      await TaxService.recordTinExport(req.user!._id.toString(), year, format as 'json' | 'csv', summaries.length);
+    }
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${TaxService.getSummaryFilename(year)}"`);
+      res.send(TaxService.summariesToCSV(summaries, { includeTin }));
+      return;
+    }
+
+    res.json({ success: true, data: { year, threshold: TaxService.getPayoutThreshold(), summaries } });
+  } catch (error) {
+    console.error('Error building tax summaries:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+};
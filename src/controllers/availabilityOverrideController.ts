@@ -0,0 +1,263 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import { User } from '../models/User';
+import { AvailabilityOverride, IAvailabilityOverride } from '../models/AvailabilityOverride';
+import RescheduleRequest from '../models/RescheduleRequest';
+import { AvailabilityService } from '../services/availabilityService';
+import { rescheduleNotificationService } from '../services/rescheduleNotificationService';
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_REGEX = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+const MAX_TIME_OFF_DAYS = 365;
+
+// Validate and normalise override input, returning an error message when invalid
+const parseOverrideInput = (body: any): { data?: Partial<IAvailabilityOverride>; error?: string } => {
+  const { type, startDate, endDate, date, startTime, endTime, reason } = body;
+
+  if (!['extra', 'blackout', 'time_off'].includes(type)) {
+    return { error: 'Type must be one of extra, blackout or time_off' };
+  }
+
+  // Single-day overrides may send `date` instead of a range
+  const from = startDate || date;
+  const to = type === 'time_off' ? endDate : from;
+
+  if (!from || !DATE_REGEX.test(from) || !to || !DATE_REGEX.test(to)) {
+    return { error: 'Dates must be in YYYY-MM-DD format' };
+  }
+
+  if (to < from) {
+    return { error: 'End date must be on or after start date' };
+  }
+
+  if (AvailabilityService.addDays(from, MAX_TIME_OFF_DAYS) < to) {
+    return { error: `Time off cannot exceed ${MAX_TIME_OFF_DAYS} days` };
+  }
+
+  if (type === 'extra') {
+    if (!startTime || !endTime || !TIME_REGEX.test(startTime) || !TIME_REGEX.test(endTime)) {
+      return { error: 'Extra availability requires startTime and endTime in HH:MM format' };
+    }
+
+    if (startTime >= endTime) {
+      return { error: 'End time must be after start time' };
+    }
+  }
+
+  return {
+    data: {
+      type,
+      startDate: from,
+      endDate: to,
+      startTime: type === 'extra' ? startTime : undefined,
+      endTime: type === 'extra' ? endTime : undefined,
+      reason
+    }
+  };
+};
+
+// Collect bookings inside a blocking override and notify the mentor so they can reschedule them
+const surfaceBlockedBookings = async (mentorId: string, override: IAvailabilityOverride) => {
+  if (override.type === 'extra') {
+    return [];
+  }
+
+  const mentor = await User.findById(mentorId);
+  if (!mentor) {
+    return [];
+  }
+
+  const bookings = await AvailabilityService.getBookingsInOverride(mentor, override);
+  const pendingRequests = await RescheduleRequest.find({
+    bookingId: { $in: bookings.map(booking => booking._id) },
+    status: 'pending'
+  }).select('bookingId');
+  const pendingBookingIds = new Set(pendingRequests.map(request => request.bookingId.toString()));
+
+  const conflicts = bookings.map(booking => ({
+    bookingId: booking._id.toString(),
+    studentId: booking.studentId.toString(),
+    scheduledAt: booking.scheduledAtUTC,
+    duration: booking.duration,
+    status: booking.status,
+    hasPendingReschedule: pendingBookingIds.has(booking._id.toString())
+  }));
+
+  try {
+    await rescheduleNotificationService.sendBlackoutConflictNotification(
+      mentorId,
+      conflicts.filter(conflict => !conflict.hasPendingReschedule)
+    );
+  } catch (notificationError) {
+    // Don't fail the override if notification fails
+  }
+
+  return conflicts;
+};
+
+// Get the authenticated mentor's availability overrides
+export const getAvailabilityOverrides = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const { from, to } = req.query;
+    const query: any = { mentorId: userId };
+
+    if (from) {
+      query.endDate = { $gte: from };
+    }
+    if (to) {
+      query.startDate = { $lte: to };
+    }
+
+    const overrides = await AvailabilityOverride.find(query).sort({ startDate: 1, startTime: 1 });
+
+    res.json({
+      success: true,
+      data: overrides
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Create an availability override (extra window, blackout or time off)
+export const createAvailabilityOverride = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const { data, error } = parseOverrideInput(req.body);
+    if (error || !data) {
+      res.status(400).json({
+        success: false,
+        error
+      });
+      return;
+    }
+
+    const override = new AvailabilityOverride({
+      ...data,
+      mentorId: userId
+    });
+    await override.save();
+
+    const conflictingBookings = await surfaceBlockedBookings(userId.toString(), override);
+
+    res.status(201).json({
+      success: true,
+      data: override,
+      conflictingBookings,
+      message: 'Availability override created successfully'
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Update an availability override
+export const updateAvailabilityOverride = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+    const { overrideId } = req.params;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const override = await AvailabilityOverride.findOne({ _id: overrideId, mentorId: userId });
+    if (!override) {
+      res.status(404).json({
+        success: false,
+        error: 'Availability override not found'
+      });
+      return;
+    }
+
+    const { data, error } = parseOverrideInput({ ...override.toObject(), ...req.body });
+    if (error || !data) {
+      res.status(400).json({
+        success: false,
+        error
+      });
+      return;
+    }
+
+    override.set(data);
+    await override.save();
+
+    const conflictingBookings = await surfaceBlockedBookings(userId.toString(), override);
+
+    res.json({
+      success: true,
+      data: override,
+      conflictingBookings,
+      message: 'Availability override updated successfully'
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Delete an availability override
+export const deleteAvailabilityOverride = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+    const { overrideId } = req.params;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const override = await AvailabilityOverride.findOneAndDelete({ _id: overrideId, mentorId: userId });
+    if (!override) {
+      res.status(404).json({
+        success: false,
+        error: 'Availability override not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Availability override deleted successfully'
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
@@ -3,14 +3,21 @@ import { Booking } from '../models/Booking';
 import { Service } from '../models/Service';
 import { User } from '../models/User';
 import { AuthRequest } from '../types';
-import { toZonedTime, fromZonedTime, format } from 'date-fns-tz';
-import { addMinutes, startOfDay, endOfDay, isToday, isPast } from 'date-fns';
+import { toZonedTime } from 'date-fns-tz';
 import { MentorEarningsService } from '../services/mentorEarningsService';
 import { CommissionService } from '../services/commissionService';
 import { bookingNotificationService } from '../services/bookingNotificationService';
 import { payoutNotificationService } from '../services/payoutNotificationService';
 import { RefundService } from '../services/refundService';
 import { ReferralService } from '../services/referralService';
+import { AvailabilityService } from '../services/availabilityService';
+import { SlotHoldService } from '../services/slotHoldService';
+import { PackageService } from '../services/packageService';
+import { GroupSessionService } from '../services/groupSessionService';
+import { WaitlistService } from '../services/waitlistService';
+import { CancellationPolicyService, CancellationPreview } from '../services/cancellationPolicyService';
+import { EscrowService } from '../services/escrowService';
+import { CurrencyService } from '../services/currencyService';
 
 // Create a new booking
 export const createBooking = async (req: AuthRequest, res: Response): Promise<void> => {
@@ -25,7 +32,7 @@ export const createBooking = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
-    const { serviceId, scheduledAt, duration, notes, studentTimezone, paymentMethod = 'stripe' } = req.body;
+    const { serviceId, scheduledAt, duration, notes, studentTimezone, paymentMethod = 'stripe', packagePurchaseId, waitlistEntryId } = req.body;
 
     // Validate required fields
     if (!serviceId || !scheduledAt || !duration) {
@@ -36,8 +43,8 @@ export const createBooking = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
-    // Get student timezone (default to UTC if not provided)
-    const studentTz = studentTimezone || 'UTC';
+    // Get student timezone (default to UTC if not provided or invalid)
+    const studentTz = AvailabilityService.resolveTimezone(studentTimezone);
 
     // Get the service to calculate amount and validate
     const service = await Service.findById(serviceId);
@@ -58,111 +65,86 @@ export const createBooking = async (req: AuthRequest, res: Response): Promise<vo
       });
       return;
     }
-    const mentorTz = (mentor as any).timezone || 'UTC';
-    
-
+    const mentorTz = AvailabilityService.resolveTimezone(mentor.timezone);
 
-    const date = new Date(scheduledAt);
-    if (isPast(date) && !isToday(date)) {
+    // Check if service is active
+    if (!service.isActive) {
       res.status(400).json({
         success: false,
-        error: 'Cannot book a session in the past'
+        error: 'Service is not available'
       });
       return;
     }
 
-    // Double check if today and specifically in the past minutes
-    if (isToday(date) && date < new Date()) {
+    if (service.sessionType === 'group') {
       res.status(400).json({
         success: false,
-        error: 'Cannot book a session in the past'
+        error: 'Group services are booked by seat through their scheduled group sessions'
       });
       return;
     }
 
-    // Check if service is active
-    if (!service.isActive) {
+    // scheduledAt is an absolute instant; the client sends it as ISO with offset
+    const scheduledAtUTC = new Date(scheduledAt);
+    if (isNaN(scheduledAtUTC.getTime())) {
       res.status(400).json({
         success: false,
-        error: 'Service is not available'
+        error: 'Invalid scheduledAt'
       });
       return;
     }
 
-    // Check mentor availability
-    const scheduledDate = new Date(scheduledAt);
-    const dayOfWeek = scheduledDate.toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
-    
+    // A waitlist offer already holds this slot for the student
+    let waitlistEntry;
+    if (waitlistEntryId) {
+      const claimable = await WaitlistService.getClaimableOffer(waitlistEntryId, userId, serviceId, scheduledAtUTC, Number(duration));
+      if (!claimable.entry) {
+        res.status(409).json({
+          success: false,
+          error: claimable.error
+        });
+        return;
+      }
+      waitlistEntry = claimable.entry;
+    }
 
-    
-    const mentorAvailability = mentor.availability?.find(slot => 
-      slot.day === dayOfWeek && slot.isAvailable
+    // Validate against the mentor's availability (in their timezone), notice period, buffers and existing bookings
+    const slotCheck = await AvailabilityService.checkSlot(
+      mentor,
+      scheduledAtUTC,
+      AvailabilityService.getSlotRules(service, Number(duration)),
+      // The offer's own holds don't count against it
+      { excludeBookingId: waitlistEntry?.offer?.holdId?.toString() }
     );
-
-
-
-    if (!mentorAvailability || !mentorAvailability.startTime || !mentorAvailability.endTime) {
-
-      res.status(400).json({
+    if (!slotCheck.available) {
+      res.status(slotCheck.reason === 'conflict' ? 409 : 400).json({
         success: false,
-        error: 'Mentor is not available on this day'
+        error: slotCheck.error
       });
       return;
     }
 
-    // Convert student's scheduled time to mentor's timezone for validation
-    const studentScheduledTime = scheduledDate.toLocaleTimeString('en-US', { 
-      hour12: false, 
-      hour: '2-digit', 
-      minute: '2-digit' 
-    });
-
-    // Convert student time to mentor timezone for comparison
-    const studentTimeInMentorTz = toZonedTime(scheduledDate, mentorTz);
-    const mentorTimeString = studentTimeInMentorTz.toLocaleTimeString('en-US', { 
-      hour12: false, 
-      hour: '2-digit', 
-      minute: '2-digit' 
-    });
-
-    // Check if scheduled time is within mentor's available hours (in mentor's timezone)
-
-    
-    if (mentorTimeString < mentorAvailability.startTime || mentorTimeString >= mentorAvailability.endTime) {
-
-      res.status(400).json({
-        success: false,
-        error: `Mentor is only available between ${mentorAvailability.startTime} and ${mentorAvailability.endTime} on ${dayOfWeek} in their timezone (${mentorTz})`
-      });
-      return;
+    // A package credit pays for the session instead of a payment
+    let packagePurchase;
+    if (packagePurchaseId) {
+      const redeemable = await PackageService.getRedeemablePurchase(packagePurchaseId, userId, service, Number(duration));
+      if (!redeemable.purchase) {
+        res.status(400).json({
+          success: false,
+          error: redeemable.error
+        });
+        return;
+      }
+      packagePurchase = redeemable.purchase;
     }
 
-    // Convert scheduledAt from student timezone to UTC for storage
-    const scheduledAtUTC = new Date(scheduledAt);
-    
-    // Calculate amount based on duration and hourly rate
+    // Calculate amount based on duration and hourly rate, priced in the service's currency and settled in USD
     const hourlyRate = service.hourlyRate;
-    const amount = (hourlyRate * duration) / 60; // Convert minutes to hours
-
-    // Check for booking conflicts (using UTC times)
-    const existingBooking = await Booking.findOne({
-      mentorId: service.mentorId,
-      scheduledAtUTC: {
-        $gte: scheduledAtUTC,
-        $lt: new Date(scheduledAtUTC.getTime() + duration * 60000)
-      },
-      status: { $in: ['pending', 'confirmed'] }
-    });
-
-    if (existingBooking) {
-      res.status(409).json({
-        success: false,
-        error: 'Time slot is already booked'
-      });
-      return;
-    }
+    const { amount, price } = await CurrencyService.toSettlement((hourlyRate * duration) / 60, service.currency); // Convert minutes to hours
 
     const booking = new Booking({
+      // The offer's holds are keyed to this id, so the booking inherits them
+      ...(waitlistEntry ? { _id: waitlistEntry.offer?.holdId } : {}),
       serviceId,
       mentorId: service.mentorId,
       studentId: userId,
@@ -172,18 +154,97 @@ export const createBooking = async (req: AuthRequest, res: Response): Promise<vo
       studentTimezone: studentTz,
       duration,
       amount,
+      price,
       paymentMethod,
       notes,
-      cancellationPolicy: {
-        minimumCancellationHours: mentor.minimumCancellationHours || 24,
+      cancellationPolicy: CancellationPolicyService.buildSnapshot(mentor)
+    });
+
+    // Reserve the slot atomically so concurrent checkouts for the same time cannot both succeed
+    const hold = waitlistEntry
+      ? await SlotHoldService.renewHolds(booking._id)
+      : await SlotHoldService.acquireHolds({
         mentorId: service.mentorId,
-        setAt: new Date()
+        studentId: userId,
+        bookingId: booking._id,
+        startUTC: scheduledAtUTC,
+        duration: Number(duration),
+        bufferBefore: service.bufferBefore,
+        bufferAfter: service.bufferAfter
+      });
+
+    if (!hold.success) {
+      res.status(409).json({
+        success: false,
+        error: hold.error
+      });
+      return;
+    }
+
+    if (packagePurchase) {
+      const redemption = await PackageService.redeemCredit(packagePurchase);
+      if (!redemption.success) {
+        await SlotHoldService.releaseHolds(booking._id);
+        res.status(409).json({
+          success: false,
+          error: redemption.error
+        });
+        return;
       }
-    });
 
-    await booking.save();
+      // Charged at the credit's redeemed value so commission is computed on what the student actually paid
+      booking.amount = redemption.amount as number;
+      await EscrowService.transition(booking, 'captured', {
+        event: 'package_credit_redeemed',
+        actorId: userId,
+        amount: booking.amount,
+        metadata: { packagePurchaseId: packagePurchase._id.toString() }
+      });
+      booking.paymentMethod = 'package';
+      booking.packagePurchaseId = packagePurchase._id;
+      booking.paymentStatus = 'paid';
+      booking.status = 'confirmed';
+    }
+
+    try {
+      await booking.save();
+    } catch (saveError) {
+      await SlotHoldService.releaseHolds(booking._id);
+      if (packagePurchase) {
+        await PackageService.restoreCredit(booking);
+      }
+      throw saveError;
+    }
 
-    // NOTE: Booking notifications are now sent only after payment confirmation
+    if (waitlistEntry) {
+      await WaitlistService.markBooked(waitlistEntry, booking._id);
+    }
+
+    if (packagePurchase) {
+      // Already paid, so the booking guards the slot and both sides are notified now
+      await SlotHoldService.convertHolds(booking._id);
+
+      try {
+        const bookingId = booking._id.toString();
+        const notificationData = {
+          bookingId,
+          menteeId: userId.toString(),
+          mentorId: service.mentorId.toString(),
+          serviceId: service._id.toString(),
+          bookingDate: booking.scheduledAt,
+          meetingLink: `${process.env.FRONTEND_URL}/video-call/${bookingId}`
+        };
+        await bookingNotificationService.sendNewBookingNotification(notificationData);
+        await bookingNotificationService.scheduleReminderNotifications({
+          ...notificationData,
+          bookingDate: booking.scheduledAtUTC
+        });
+      } catch (notificationError) {
+        // Don't fail the booking if notifications fail
+      }
+    }
+
+    // NOTE: Booking notifications for unpaid bookings are sent only after payment confirmation
     // This prevents misleading notifications for unpaid bookings
     // Notifications are sent in the webhook service when payment is confirmed
 
@@ -197,6 +258,7 @@ export const createBooking = async (req: AuthRequest, res: Response): Promise<vo
     res.status(201).json({
       success: true,
       data: booking,
+      holdExpiresAt: packagePurchase ? undefined : hold.expiresAt,
       message: 'Booking created successfully'
     });
   } catch (error) {
@@ -324,6 +386,187 @@ export const getBooking = async (req: AuthRequest, res: Response): Promise<void>
   }
 };
 
+// List a booking's refunds with the running total
+export const getBookingRefunds = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+    const id = req.params.id as string;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const booking = await Booking.findById(id).select('mentorId studentId amount paymentStatus refund');
+    if (!booking) {
+      res.status(404).json({
+        success: false,
+        error: 'Booking not found'
+      });
+      return;
+    }
+
+    if (booking.mentorId.toString() !== userId.toString() && booking.studentId.toString() !== userId.toString()) {
+      res.status(403).json({
+        success: false,
+        error: 'Not authorized to view this booking'
+      });
+      return;
+    }
+
+    const refunds = await RefundService.getRefunds(id);
+
+    res.json({
+      success: true,
+      data: {
+        amount: booking.amount,
+        paymentStatus: booking.paymentStatus,
+        summary: booking.refund,
+        refundable: booking.paymentStatus === 'paid' ? await RefundService.getRefundableAmount(booking) : 0,
+        refunds
+      }
+    });
+  } catch (error) {
+    console.error('Get booking refunds error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Get a booking's escrow state and its transition history
+export const getBookingEscrow = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+    const id = req.params.id as string;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const booking = await Booking.findById(id)
+      .select('mentorId studentId amount escrowStatus paymentStatus payoutStatus status refund stripePaymentIntentId');
+    if (!booking) {
+      res.status(404).json({
+        success: false,
+        error: 'Booking not found'
+      });
+      return;
+    }
+
+    if (booking.mentorId.toString() !== userId.toString() && booking.studentId.toString() !== userId.toString()) {
+      res.status(403).json({
+        success: false,
+        error: 'Not authorized to view this booking'
+      });
+      return;
+    }
+
+    const history = await EscrowService.getHistory(id);
+
+    res.json({
+      success: true,
+      data: {
+        state: EscrowService.getState(booking),
+        amount: booking.amount,
+        history
+      }
+    });
+  } catch (error) {
+    console.error('Get booking escrow error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Let the mentor give back part or all of what a student paid, to tokens or the original card
+export const issueBookingRefund = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+    const id = req.params.id as string;
+    const { amount, refundType = 'tokens', reason } = req.body;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    if (amount !== undefined && (typeof amount !== 'number' || amount <= 0)) {
+      res.status(400).json({
+        success: false,
+        error: 'amount must be a positive number'
+      });
+      return;
+    }
+
+    if (refundType !== 'tokens' && refundType !== 'payment_method') {
+      res.status(400).json({
+        success: false,
+        error: 'refundType must be tokens or payment_method'
+      });
+      return;
+    }
+
+    const booking = await Booking.findById(id).select('mentorId');
+    if (!booking) {
+      res.status(404).json({
+        success: false,
+        error: 'Booking not found'
+      });
+      return;
+    }
+
+    if (booking.mentorId.toString() !== userId.toString()) {
+      res.status(403).json({
+        success: false,
+        error: 'Only the mentor can refund this booking'
+      });
+      return;
+    }
+
+    const result = await RefundService.processRefund({
+      bookingId: id,
+      refundType,
+      reason: reason || 'Refund issued by mentor',
+      cancelledBy: 'mentor',
+      amount
+    });
+
+    if (!result.success) {
+      res.status(400).json({
+        success: false,
+        error: result.error
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'Refund processed successfully'
+    });
+  } catch (error) {
+    console.error('Issue booking refund error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
 // Update booking status (mentor can confirm/cancel, student can cancel)
 export const updateBookingStatus = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
@@ -399,24 +642,22 @@ export const updateBookingStatus = async (req: AuthRequest, res: Response): Prom
       return;
     }
 
-    // Check cancellation time limit if cancelling (only for paid bookings)
+    // Check the booking's cancellation policy if cancelling (unpaid bookings can always be cancelled)
+    let cancellationPreview: CancellationPreview | undefined;
     if (status === 'cancelled') {
-      // Allow cancellation for unpaid bookings regardless of time limit
-      if (booking.paymentStatus === 'paid') {
-        const now = new Date();
-        const sessionTime = new Date(booking.scheduledAtUTC);
-        const hoursUntilSession = (sessionTime.getTime() - now.getTime()) / (1000 * 60 * 60);
-        const minimumHours = booking.cancellationPolicy?.minimumCancellationHours || 24;
-
-        if (hoursUntilSession < minimumHours) {
-          res.status(400).json({
-            success: false,
-            error: `Booking cannot be cancelled less than ${minimumHours} hours before the session. You can cancel until ${new Date(sessionTime.getTime() - minimumHours * 60 * 60 * 1000).toLocaleString()}.`
-          });
-          return;
-        }
+      cancellationPreview = CancellationPolicyService.previewCancellation(booking, isMentor ? 'mentor' : 'mentee');
+      if (!cancellationPreview.cancellable) {
+        res.status(400).json({
+          success: false,
+          error: cancellationPreview.error
+        });
+        return;
       }
-      // For unpaid bookings, allow cancellation at any time
+    }
+
+    // A completed paid session's money is held through the dispute window
+    if (status === 'completed' && booking.paymentStatus === 'paid' && EscrowService.canTransition(booking, 'held')) {
+      await EscrowService.transition(booking, 'held', { event: 'session_completed', actorId: userId });
     }
 
     // Update booking status
@@ -433,8 +674,8 @@ export const updateBookingStatus = async (req: AuthRequest, res: Response): Prom
         if (mentor && booking.paymentStatus === 'paid') {
           // Calculate commission based on mentor's current tier
           const currentTier = CommissionService.calculateTier(mentor);
-          const commissionAmount = CommissionService.calculateCommission(booking.amount, currentTier);
-          const mentorPayout = CommissionService.calculateMentorPayout(booking.amount, currentTier);
+          const commissionAmount = CommissionService.calculateCommission(booking.amount, currentTier, booking.discount);
+          const mentorPayout = CommissionService.calculateMentorPayout(booking.amount, currentTier, booking.discount);
           
           // Update booking with commission details
           booking.platformCommission = commissionAmount;
@@ -450,7 +691,9 @@ export const updateBookingStatus = async (req: AuthRequest, res: Response): Prom
               amount: booking.amount,
               type: 'session',
               description: `Session booking completed`,
-               bookingId: (booking._id as any).toString()
+               bookingId: booking._id.toString(),
+              discount: booking.discount,
+              price: booking.price
             }
           );
           
@@ -484,16 +727,23 @@ export const updateBookingStatus = async (req: AuthRequest, res: Response): Prom
     
     await booking.save();
 
+    // Free the slot if an unpaid booking is cancelled during checkout
+    if (status === 'cancelled') {
+      await SlotHoldService.releaseHolds(booking._id);
+      await GroupSessionService.releaseSeat(booking);
+    }
+
     // Process refund if cancelling
     let refundResult: { success: boolean; refundId?: string; error?: string } | undefined = undefined;
-    if (status === 'cancelled' && booking.paymentStatus === 'paid') {
+    if (status === 'cancelled' && booking.paymentStatus === 'paid' && cancellationPreview && cancellationPreview.refundAmount > 0) {
       const cancelledBy = isMentor ? 'mentor' : 'mentee';
       const refundType = req.body.refundType || (isMentor ? 'payment_method' : 'tokens');
       refundResult = await RefundService.processRefund({
         bookingId: (booking._id as any).toString(),
         refundType: refundType as 'payment_method' | 'tokens',
         reason: req.body.reason || 'Booking cancelled',
-        cancelledBy: cancelledBy
+        cancelledBy: cancelledBy,
+        amount: cancellationPreview.refundAmount
       });
     }
 
@@ -516,7 +766,7 @@ export const updateBookingStatus = async (req: AuthRequest, res: Response): Prom
             if (mentor) {
               // Calculate mentor's payout (after platform commission)
               const currentTier = CommissionService.calculateTier(mentor);
-              const mentorPayout = CommissionService.calculateMentorPayout(booking.amount, currentTier);
+              const mentorPayout = CommissionService.calculateMentorPayout(booking.amount, currentTier, booking.discount);
               
               // Record referral earning: 1% of mentor's payout
               await ReferralService.recordEarning(
@@ -616,6 +866,21 @@ export const updatePaymentStatus = async (req: AuthRequest, res: Response): Prom
       return;
     }
 
+    // Payment status changes go through the escrow state machine
+    const escrowTarget = ({ paid: 'captured', refunded: 'refunded', pending: 'voided' } as const)[paymentStatus as 'paid' | 'refunded' | 'pending'];
+    if (!EscrowService.canTransition(booking, escrowTarget)) {
+      res.status(400).json({
+        success: false,
+        error: `Payment status cannot change to ${paymentStatus} from ${EscrowService.getState(booking)}`
+      });
+      return;
+    }
+    await EscrowService.transition(booking, escrowTarget, {
+      event: 'payment_status_updated',
+      actorId: userId,
+      metadata: { paymentStatus, stripePaymentIntentId }
+    });
+
     // Update payment status
     booking.paymentStatus = paymentStatus;
     if (stripePaymentIntentId) {
@@ -714,121 +979,30 @@ export const getAvailableTimeSlots = async (req: Request, res: Response): Promis
       return;
     }
 
-    // Parse the date
-    const selectedDate = new Date(date as string);
-    const today = startOfDay(new Date());
-
-    if (selectedDate < today) {
-      res.json({
-        success: true,
-        data: {
-          availableSlots: [],
-          message: 'Cannot fetch slots for past dates'
-        }
-      });
-      return;
-    }
-
-    const dayOfWeek = format(selectedDate, 'EEEE').toLowerCase();
-    
-    // Find availability for this day
-    const dayAvailability = mentor.availability.find((slot: any) => 
-      slot.day === dayOfWeek && slot.isAvailable
+    // Expand the mentor's windows in their timezone and render slots in the requester's timezone
+    const result = await AvailabilityService.getAvailableSlots(
+      mentor,
+      AvailabilityService.getSlotRules(service),
+      date as string,
+      timezone as string
     );
 
-    if (!dayAvailability) {
-      res.json({
-        success: true,
-        data: {
-          availableSlots: [],
-          message: 'No availability for this day'
-        }
+    if (!result.date) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid date'
       });
       return;
     }
 
-    // Get existing bookings for this date
-    const startOfSelectedDay = startOfDay(selectedDate);
-    const endOfSelectedDay = endOfDay(selectedDate);
-    
-    const existingBookings = await Booking.find({
-      mentorId: mentorId,
-      scheduledAt: {
-        $gte: startOfSelectedDay,
-        $lte: endOfSelectedDay
-      },
-      status: { $in: ['confirmed', 'pending'] }
-    });
-
-    // Generate time slots
-    const availableSlots = [];
-    const startTime = dayAvailability.startTime;
-    const endTime = dayAvailability.endTime;
-    
-    // Convert time strings to minutes for easier calculation
-    const startMinutes = parseInt(startTime.split(':')[0]) * 60 + parseInt(startTime.split(':')[1]);
-    const endMinutes = parseInt(endTime.split(':')[0]) * 60 + parseInt(endTime.split(':')[1]);
-    
-    // Generate 30-minute slots
-    for (let minutes = startMinutes; minutes < endMinutes; minutes += 30) {
-      const hours = Math.floor(minutes / 60);
-      const mins = minutes % 60;
-      const timeString = `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
-      
-      // Check if this time slot conflicts with existing bookings
-      const slotStartMinutes = minutes;
-      const slotEndMinutes = minutes + service.duration; // Use actual service duration
-
-      // Skip slots that have already passed if the date is today
-      if (isToday(selectedDate)) {
-        const now = new Date();
-        const currentMinutes = now.getHours() * 60 + now.getMinutes();
-        if (slotStartMinutes <= currentMinutes) {
-          continue;
-        }
-      }
-      
-      // Skip this slot if it would exceed mentor's availability
-      if (slotEndMinutes > endMinutes) {
-        continue;
-      }
-      
-      const hasConflict = existingBookings.some((booking: any) => {
-        const bookingStartMinutes = booking.scheduledAt.getHours() * 60 + booking.scheduledAt.getMinutes();
-        const bookingEndMinutes = bookingStartMinutes + booking.duration;
-        
-        // Check for overlap
-        return (
-          (slotStartMinutes >= bookingStartMinutes && slotStartMinutes < bookingEndMinutes) ||
-          (slotEndMinutes > bookingStartMinutes && slotEndMinutes <= bookingEndMinutes) ||
-          (slotStartMinutes <= bookingStartMinutes && slotEndMinutes >= bookingEndMinutes)
-        );
-      });
-      
-      if (!hasConflict) {
-        const endHours = Math.floor(slotEndMinutes / 60);
-        const endMins = slotEndMinutes % 60;
-        const endTimeString = `${endHours.toString().padStart(2, '0')}:${endMins.toString().padStart(2, '0')}`;
-        
-        availableSlots.push({
-          time: timeString,
-          endTime: endTimeString,
-          duration: service.duration
-        });
-      }
-    }
-
-
-
     res.json({
       success: true,
       data: {
-        availableSlots,
-        mentorTimezone: mentor.timezone || 'UTC',
-        dayAvailability: {
-          startTime: dayAvailability.startTime,
-          endTime: dayAvailability.endTime
-        }
+        availableSlots: result.slots,
+        date: result.date,
+        timezone: result.timezone,
+        mentorTimezone: AvailabilityService.resolveTimezone(mentor.timezone),
+        dayAvailability: result.dayAvailability
       }
     });
 
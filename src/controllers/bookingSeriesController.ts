@@ -0,0 +1,600 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import { Booking } from '../models/Booking';
+import { BookingSeries } from '../models/BookingSeries';
+import { Service } from '../models/Service';
+import { User } from '../models/User';
+import { StripeService } from '../services/stripeService';
+import { CurrencyService } from '../services/currencyService';
+import { AvailabilityService } from '../services/availabilityService';
+import {
+  BookingSeriesService,
+  MIN_SERIES_OCCURRENCES,
+  MAX_SERIES_OCCURRENCES
+} from '../services/bookingSeriesService';
+
+const FREQUENCIES = ['weekly', 'biweekly'];
+const BILLING_MODES = ['upfront', 'per_occurrence'];
+const PAYMENT_METHODS = ['stripe', 'tokens'];
+
+// Load a series the current user takes part in
+const findParticipantSeries = async (seriesId: string, userId: string) => {
+  const series = await BookingSeries.findById(seriesId);
+  if (!series) {
+    return { status: 404, error: 'Booking series not found' };
+  }
+
+  if (series.mentorId.toString() !== userId && series.studentId.toString() !== userId) {
+    return { status: 403, error: 'Not authorized to access this booking series' };
+  }
+
+  return { series };
+};
+
+// Create a recurring booking series
+export const createBookingSeries = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const {
+      serviceId,
+      scheduledAt,
+      duration,
+      frequency,
+      occurrences,
+      billingMode = 'upfront',
+      paymentMethod = 'stripe',
+      studentTimezone,
+      notes
+    } = req.body;
+
+    if (!serviceId || !scheduledAt || !duration || !frequency || !occurrences) {
+      res.status(400).json({
+        success: false,
+        error: 'Missing required fields'
+      });
+      return;
+    }
+
+    if (!FREQUENCIES.includes(frequency)) {
+      res.status(400).json({
+        success: false,
+        error: `frequency must be one of: ${FREQUENCIES.join(', ')}`
+      });
+      return;
+    }
+
+    const occurrenceCount = Number(occurrences);
+    if (!Number.isInteger(occurrenceCount) || occurrenceCount < MIN_SERIES_OCCURRENCES || occurrenceCount > MAX_SERIES_OCCURRENCES) {
+      res.status(400).json({
+        success: false,
+        error: `occurrences must be a whole number between ${MIN_SERIES_OCCURRENCES} and ${MAX_SERIES_OCCURRENCES}`
+      });
+      return;
+    }
+
+    if (!BILLING_MODES.includes(billingMode)) {
+      res.status(400).json({
+        success: false,
+        error: `billingMode must be one of: ${BILLING_MODES.join(', ')}`
+      });
+      return;
+    }
+
+    if (!PAYMENT_METHODS.includes(paymentMethod)) {
+      res.status(400).json({
+        success: false,
+        error: `paymentMethod must be one of: ${PAYMENT_METHODS.join(', ')}`
+      });
+      return;
+    }
+
+    const firstScheduledAtUTC = new Date(scheduledAt);
+    if (isNaN(firstScheduledAtUTC.getTime())) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid scheduledAt'
+      });
+      return;
+    }
+
+    const service = await Service.findById(serviceId);
+    if (!service) {
+      res.status(404).json({
+        success: false,
+        error: 'Service not found'
+      });
+      return;
+    }
+
+    if (!service.isActive) {
+      res.status(400).json({
+        success: false,
+        error: 'Service is not available'
+      });
+      return;
+    }
+
+    if (service.sessionType === 'group') {
+      res.status(400).json({
+        success: false,
+        error: 'Group services are booked by seat through their scheduled group sessions'
+      });
+      return;
+    }
+
+    const mentor = await User.findById(service.mentorId);
+    if (!mentor) {
+      res.status(404).json({
+        success: false,
+        error: 'Mentor not found'
+      });
+      return;
+    }
+
+    const result = await BookingSeriesService.createSeries({
+      studentId: userId.toString(),
+      service,
+      mentor,
+      firstScheduledAtUTC,
+      duration: Number(duration),
+      frequency,
+      occurrenceCount,
+      billingMode,
+      paymentMethod,
+      studentTimezone: AvailabilityService.resolveTimezone(studentTimezone),
+      notes
+    });
+
+    if (!result.success) {
+      const hasConflict = result.conflicts?.some(conflict => conflict.reason === 'conflict');
+      res.status(hasConflict ? 409 : 400).json({
+        success: false,
+        error: result.error,
+        conflicts: result.conflicts
+      });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      data: {
+        series: result.series,
+        bookings: result.bookings
+      },
+      holdExpiresAt: result.holdExpiresAt,
+      message: 'Booking series created successfully'
+    });
+  } catch (error) {
+    console.error('Create booking series error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Get booking series for a user (as mentor or student)
+export const getBookingSeriesList = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const { role, status } = req.query;
+
+    const query: any = {};
+    if (role === 'mentor') {
+      query.mentorId = userId;
+    } else if (role === 'student') {
+      query.studentId = userId;
+    } else {
+      query.$or = [{ mentorId: userId }, { studentId: userId }];
+    }
+
+    if (status) {
+      query.status = status;
+    }
+
+    const series = await BookingSeries.find(query)
+      .populate([
+        { path: 'serviceId', select: 'title description category images' },
+        { path: 'mentorId', select: 'firstName lastName profileImage' },
+        { path: 'studentId', select: 'firstName lastName' }
+      ])
+      .sort({ firstScheduledAtUTC: -1 });
+
+    res.json({
+      success: true,
+      data: series
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Get a single booking series with its occurrences
+export const getBookingSeries = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const lookup = await findParticipantSeries(req.params.seriesId as string, userId);
+    if (!lookup.series) {
+      res.status(lookup.status).json({
+        success: false,
+        error: lookup.error
+      });
+      return;
+    }
+
+    await lookup.series.populate([
+      { path: 'serviceId', select: 'title description category hourlyRate images' },
+      { path: 'mentorId', select: 'firstName lastName profileImage' },
+      { path: 'studentId', select: 'firstName lastName' }
+    ]);
+    const occurrences = await BookingSeriesService.getOccurrences(lookup.series._id);
+
+    res.json({
+      success: true,
+      data: {
+        series: lookup.series,
+        occurrences
+      }
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Create a Stripe payment intent for an upfront series
+export const createSeriesPaymentIntent = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const lookup = await findParticipantSeries(req.params.seriesId as string, userId);
+    if (!lookup.series) {
+      res.status(lookup.status).json({
+        success: false,
+        error: lookup.error
+      });
+      return;
+    }
+    const series = lookup.series;
+
+    if (series.studentId.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        error: 'Not authorized to pay for this booking series'
+      });
+      return;
+    }
+
+    if (series.billingMode !== 'upfront') {
+      res.status(400).json({
+        success: false,
+        error: 'Per-occurrence series are paid session by session'
+      });
+      return;
+    }
+
+    if (series.paymentStatus === 'paid' || series.status === 'cancelled') {
+      res.status(400).json({
+        success: false,
+        error: series.paymentStatus === 'paid' ? 'Booking series is already paid' : 'Booking series is cancelled'
+      });
+      return;
+    }
+
+    // Free series are confirmed without going through Stripe
+    if (series.totalAmount === 0) {
+      await BookingSeriesService.markSeriesPaid(series._id, 'free_series_' + Date.now());
+      res.json({
+        success: true,
+        data: {
+          clientSecret: 'free_booking_secret',
+          paymentIntentId: 'free_booking',
+          amount: 0,
+          currency: 'usd'
+        },
+        message: 'Free booking series confirmed successfully'
+      });
+      return;
+    }
+
+    const student = await User.findById(userId).select('email');
+    const paymentIntent = await BookingSeriesService.createPaymentIntent(series, student?.email || '', !!req.body.savePaymentMethod);
+
+    res.json({
+      success: true,
+      data: {
+        clientSecret: paymentIntent.clientSecret,
+        paymentIntentId: paymentIntent.paymentIntentId,
+        amount: series.totalAmount,
+        currency: 'usd'
+      }
+    });
+  } catch (error) {
+    console.error('Create series payment intent error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create payment intent'
+    });
+  }
+};
+
+// Confirm an upfront card payment for a series
+export const confirmSeriesPayment = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+    const { paymentIntentId } = req.body;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    if (!paymentIntentId) {
+      res.status(400).json({
+        success: false,
+        error: 'Payment Intent ID is required'
+      });
+      return;
+    }
+
+    const lookup = await findParticipantSeries(req.params.seriesId as string, userId);
+    if (!lookup.series) {
+      res.status(lookup.status).json({
+        success: false,
+        error: lookup.error
+      });
+      return;
+    }
+    const series = lookup.series;
+
+    if (series.studentId.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        error: 'Not authorized to update this booking series'
+      });
+      return;
+    }
+
+    const paymentIntent = await StripeService.getPaymentIntent(paymentIntentId);
+    if (paymentIntent.metadata?.bookingId !== `series_${series._id.toString()}`) {
+      res.status(400).json({
+        success: false,
+        error: 'Payment does not belong to this booking series'
+      });
+      return;
+    }
+
+    if (paymentIntent.status !== 'succeeded') {
+      res.status(400).json({
+        success: false,
+        error: 'Payment not completed'
+      });
+      return;
+    }
+
+    await BookingSeriesService.markSeriesPaid(
+      series._id,
+      paymentIntentId,
+      CurrencyService.chargeFromPaymentIntent(paymentIntent, series.totalAmount)
+    );
+    const updatedSeries = await BookingSeries.findById(series._id);
+
+    res.json({
+      success: true,
+      data: updatedSeries,
+      message: 'Payment confirmed successfully'
+    });
+  } catch (error) {
+    console.error('Confirm series payment error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to confirm payment'
+    });
+  }
+};
+
+// Pay for an upfront series with tokens
+export const payBookingSeriesWithTokens = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const result = await BookingSeriesService.payWithTokens(req.params.seriesId as string, userId);
+    if (!result.success) {
+      res.status(400).json({
+        success: false,
+        error: result.error
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Payment successful',
+      transactionId: result.transactionId
+    });
+  } catch (error) {
+    console.error('Series token payment error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Cancel one occurrence or the rest of a series
+export const cancelBookingSeries = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+    const { scope = 'remaining', bookingId, reason, refundType } = req.body;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    if (scope !== 'occurrence' && scope !== 'remaining') {
+      res.status(400).json({
+        success: false,
+        error: 'scope must be either occurrence or remaining'
+      });
+      return;
+    }
+
+    if (scope === 'occurrence' && !bookingId) {
+      res.status(400).json({
+        success: false,
+        error: 'bookingId is required to cancel a single occurrence'
+      });
+      return;
+    }
+
+    if (refundType && refundType !== 'payment_method' && refundType !== 'tokens') {
+      res.status(400).json({
+        success: false,
+        error: 'refundType must be either payment_method or tokens'
+      });
+      return;
+    }
+
+    const lookup = await findParticipantSeries(req.params.seriesId as string, userId);
+    if (!lookup.series) {
+      res.status(lookup.status).json({
+        success: false,
+        error: lookup.error
+      });
+      return;
+    }
+    const series = lookup.series;
+
+    if (series.status === 'cancelled') {
+      res.status(400).json({
+        success: false,
+        error: 'Booking series is already cancelled'
+      });
+      return;
+    }
+
+    let targets;
+    if (scope === 'occurrence') {
+      const booking = await Booking.findOne({ _id: bookingId, seriesId: series._id });
+      if (!booking) {
+        res.status(404).json({
+          success: false,
+          error: 'Occurrence not found in this booking series'
+        });
+        return;
+      }
+
+      if (booking.status !== 'pending' && booking.status !== 'confirmed') {
+        res.status(400).json({
+          success: false,
+          error: 'Booking cannot be cancelled'
+        });
+        return;
+      }
+      targets = [booking];
+    } else {
+      // Cancel every occurrence that has not started yet, optionally from a given occurrence onwards
+      let from = new Date();
+      if (bookingId) {
+        const fromBooking = await Booking.findOne({ _id: bookingId, seriesId: series._id }).select('scheduledAtUTC');
+        if (!fromBooking) {
+          res.status(404).json({
+            success: false,
+            error: 'Occurrence not found in this booking series'
+          });
+          return;
+        }
+        from = fromBooking.scheduledAtUTC > from ? fromBooking.scheduledAtUTC : from;
+      }
+
+      targets = await Booking.find({
+        seriesId: series._id,
+        status: { $in: ['pending', 'confirmed'] },
+        scheduledAtUTC: { $gte: from }
+      }).sort({ seriesIndex: 1 });
+    }
+
+    const cancelledBy = series.mentorId.toString() === userId ? 'mentor' : 'mentee';
+    const cancellations = await BookingSeriesService.cancelOccurrences(series, targets, {
+      userId,
+      cancelledBy,
+      scope,
+      reason,
+      refundType
+    });
+
+    res.json({
+      success: true,
+      data: {
+        series,
+        cancellations,
+        totalRefunded: cancellations.reduce(
+          (sum, cancellation) => sum + (cancellation.refund?.success ? cancellation.refundAmount : 0),
+          0
+        )
+      },
+      message: scope === 'occurrence' ? 'Occurrence cancelled successfully' : 'Booking series cancelled successfully'
+    });
+  } catch (error) {
+    console.error('Cancel booking series error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
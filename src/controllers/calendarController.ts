@@ -0,0 +1,100 @@
+import { Request, Response } from 'express';
+import { AuthRequest } from '../types';
+import { Booking } from '../models/Booking';
+import { CalendarService } from '../services/calendarService';
+
+// Get the user's private calendar feed URL
+export const getFeedUrl = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+    if (!userId) {
+      res.status(401).json({ success: false, error: 'Unauthorized' });
+      return;
+    }
+
+    const feedUrl = await CalendarService.getFeedUrl(userId);
+    if (!feedUrl) {
+      res.status(404).json({ success: false, error: 'User not found' });
+      return;
+    }
+
+    res.json({ success: true, data: { feedUrl } });
+  } catch (error) {
+    console.error('Error getting calendar feed URL:', error);
+    res.status(500).json({ success: false, error: 'Failed to get calendar feed URL' });
+  }
+};
+
+// Regenerate the feed URL, revoking the previous one
+export const regenerateFeedUrl = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+    if (!userId) {
+      res.status(401).json({ success: false, error: 'Unauthorized' });
+      return;
+    }
+
+    const feedUrl = await CalendarService.regenerateFeedToken(userId);
+    if (!feedUrl) {
+      res.status(404).json({ success: false, error: 'User not found' });
+      return;
+    }
+
+    res.json({ success: true, data: { feedUrl }, message: 'Calendar feed URL regenerated' });
+  } catch (error) {
+    console.error('Error regenerating calendar feed URL:', error);
+    res.status(500).json({ success: false, error: 'Failed to regenerate calendar feed URL' });
+  }
+};
+
+// Serve the subscribed calendar feed (public; the token is the credential)
+export const getCalendarFeed = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const token = (req.params.token as string).replace(/\.ics$/i, '');
+
+    const calendar = await CalendarService.buildFeed(token);
+    if (!calendar) {
+      res.status(404).json({ success: false, error: 'Calendar feed not found' });
+      return;
+    }
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.send(calendar);
+  } catch (error) {
+    console.error('Error serving calendar feed:', error);
+    res.status(500).json({ success: false, error: 'Failed to build calendar feed' });
+  }
+};
+
+// Download a single booking as an .ics file
+export const downloadBookingEvent = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+    if (!userId) {
+      res.status(401).json({ success: false, error: 'Unauthorized' });
+      return;
+    }
+
+    const bookingId = req.params.bookingId as string;
+    const booking = await Booking.findById(bookingId).select('status');
+    if (!booking) {
+      res.status(404).json({ success: false, error: 'Booking not found' });
+      return;
+    }
+
+    const method = booking.status === 'cancelled' ? 'CANCEL' : 'PUBLISH';
+    const calendar = await CalendarService.buildBookingInvite(bookingId, userId, method);
+    if (!calendar) {
+      res.status(403).json({ success: false, error: 'Not authorized to access this booking' });
+      return;
+    }
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="booking-${bookingId}.ics"`);
+    res.send(calendar);
+  } catch (error) {
+    console.error('Error downloading booking calendar event:', error);
+    res.status(500).json({ success: false, error: 'Failed to build calendar event' });
+  }
+};
@@ -0,0 +1,144 @@
+import { Request, Response } from 'express';
+import { AuthRequest } from '../types';
+import { User } from '../models/User';
+import { CANCELLATION_POLICY_PRESETS, CancellationPolicyService } from '../services/cancellationPolicyService';
+
+const POLICY_PRESETS = ['flexible', 'moderate', 'strict', 'custom'];
+
+// List the preset refund schedules mentors can pick from
+export const getCancellationPolicyPresets = async (req: Request, res: Response): Promise<void> => {
+  res.json({
+    success: true,
+    data: CANCELLATION_POLICY_PRESETS
+  });
+};
+
+// Get the current mentor's cancellation policy
+export const getMyCancellationPolicy = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const mentor = await User.findById(userId).select('minimumCancellationHours cancellationPolicy');
+    if (!mentor) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: CancellationPolicyService.getMentorPolicy(mentor)
+    });
+  } catch (error) {
+    console.error('Get cancellation policy error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Choose a preset or set custom tiers; existing bookings keep the policy they were made under
+export const updateMyCancellationPolicy = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+    const { preset, customTiers } = req.body;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    if (!POLICY_PRESETS.includes(preset)) {
+      res.status(400).json({
+        success: false,
+        error: `preset must be one of ${POLICY_PRESETS.join(', ')}`
+      });
+      return;
+    }
+
+    if (preset === 'custom') {
+      const tiersError = CancellationPolicyService.validateCustomTiers(customTiers);
+      if (tiersError) {
+        res.status(400).json({
+          success: false,
+          error: tiersError
+        });
+        return;
+      }
+    }
+
+    const mentor = await User.findById(userId).select('userType minimumCancellationHours cancellationPolicy');
+    if (!mentor) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+
+    if (mentor.userType !== 'mentor' && mentor.userType !== 'both') {
+      res.status(403).json({
+        success: false,
+        error: 'Only mentors can set a cancellation policy'
+      });
+      return;
+    }
+
+    mentor.cancellationPolicy = {
+      preset,
+      customTiers: preset === 'custom' ? CancellationPolicyService.normalizeTiers(customTiers) : []
+    };
+    await mentor.save();
+
+    res.json({
+      success: true,
+      data: CancellationPolicyService.getMentorPolicy(mentor),
+      message: 'Cancellation policy updated'
+    });
+  } catch (error) {
+    console.error('Update cancellation policy error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Get a mentor's cancellation policy for students browsing their profile
+export const getMentorCancellationPolicy = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const mentor = await User.findById(req.params.mentorId as string).select('minimumCancellationHours cancellationPolicy');
+    if (!mentor) {
+      res.status(404).json({
+        success: false,
+        error: 'Mentor not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: CancellationPolicyService.getMentorPolicy(mentor)
+    });
+  } catch (error) {
+    console.error('Get mentor cancellation policy error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
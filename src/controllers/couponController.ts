@@ -0,0 +1,198 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import { AuthRequest } from '../types';
+import { Coupon } from '../models/Coupon';
+import { Booking } from '../models/Booking';
+import { CouponService } from '../services/couponService';
+
+// Create a coupon for the mentor's own services; the mentor absorbs its discount
+export const createCoupon = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const { values, error } = await CouponService.buildCoupon(req.body, { issuedBy: 'mentor', userId });
+    if (!values) {
+      res.status(400).json({
+        success: false,
+        error
+      });
+      return;
+    }
+
+    const coupon = await Coupon.create({ ...values, issuedBy: 'mentor', mentorId: userId, createdBy: userId });
+
+    res.status(201).json({
+      success: true,
+      data: coupon,
+      message: 'Coupon created successfully'
+    });
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      res.status(409).json({
+        success: false,
+        error: 'A coupon with this code already exists'
+      });
+      return;
+    }
+    console.error('Create coupon error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// List the coupons the mentor has issued
+export const getMyCoupons = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const coupons = await Coupon.find({ issuedBy: 'mentor', mentorId: userId }).sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: { coupons }
+    });
+  } catch (error) {
+    console.error('Get coupons error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Update or deactivate one of the mentor's coupons
+export const updateCoupon = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+    const couponId = req.params.couponId as string;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const coupon = mongoose.Types.ObjectId.isValid(couponId)
+      ? await Coupon.findOne({ _id: couponId, issuedBy: 'mentor', mentorId: userId })
+      : null;
+    if (!coupon) {
+      res.status(404).json({
+        success: false,
+        error: 'Coupon not found'
+      });
+      return;
+    }
+
+    const { values, error } = await CouponService.buildCoupon(req.body, { issuedBy: 'mentor', userId }, coupon);
+    if (!values) {
+      res.status(400).json({
+        success: false,
+        error
+      });
+      return;
+    }
+
+    coupon.set(values);
+    await coupon.save();
+
+    res.json({
+      success: true,
+      data: coupon,
+      message: 'Coupon updated successfully'
+    });
+  } catch (error) {
+    console.error('Update coupon error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Preview a code's discount on a booking before checkout; the code is applied at payment
+export const validateCoupon = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+    const { code, bookingId } = req.body;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    if (!code || !bookingId || !mongoose.Types.ObjectId.isValid(bookingId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Code and booking ID are required'
+      });
+      return;
+    }
+
+    const booking = await Booking.findById(bookingId);
+    if (!booking || booking.studentId.toString() !== userId) {
+      res.status(404).json({
+        success: false,
+        error: 'Booking not found'
+      });
+      return;
+    }
+
+    if (booking.paymentStatus === 'paid') {
+      res.status(400).json({
+        success: false,
+        error: 'Booking is already paid'
+      });
+      return;
+    }
+
+    const { quote, error } = await CouponService.quote(code, booking, userId);
+    if (!quote) {
+      res.status(400).json({
+        success: false,
+        error
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        code: quote.coupon.code,
+        discountType: quote.coupon.discountType,
+        discountValue: quote.coupon.discountValue,
+        originalAmount: quote.originalAmount,
+        discountAmount: quote.discountAmount,
+        amount: quote.amount
+      }
+    });
+  } catch (error) {
+    console.error('Validate coupon error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
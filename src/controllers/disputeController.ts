@@ -5,6 +5,7 @@ import { User } from '../models/User';
 import { AuthRequest } from '../middleware/auth';
 import { uploadToCloudinary } from '../utils/cloudinary';
 import { PayoutService } from '../services/payoutService';
+import { EscrowService } from '../services/escrowService';
 import { disputeNotificationService } from '../services/disputeNotificationService';
 
 // Create a new dispute
@@ -73,6 +74,15 @@ export const createDispute = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
+    // Released or refunded money can't be disputed
+    if (!EscrowService.canTransition(booking, 'disputed')) {
+      res.status(400).json({
+        success: false,
+        error: 'The payment for this booking can no longer be disputed'
+      });
+      return;
+    }
+
     // Process evidence uploads if any
     let processedEvidence = [];
     if (evidence && evidence.length > 0) {
@@ -110,6 +120,13 @@ export const createDispute = async (req: AuthRequest, res: Response): Promise<vo
 
     await dispute.save();
 
+    await EscrowService.transition(booking, 'disputed', {
+      event: 'dispute_opened',
+      actorId: menteeId,
+      reason,
+      metadata: { disputeId: dispute._id.toString() }
+    });
+
     // Populate the response
     await dispute.populate([
       { path: 'bookingId', select: 'title amount status' },
@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { AuthRequest } from '../types';
 import { MentorEarningsService } from '../services/mentorEarningsService';
 import { CommissionService, COMMISSION_TIERS } from '../services/commissionService';
+import { StatementService } from '../services/statementService';
 
 // Get mentor's earnings summary
 export const getMentorEarnings = async (req: AuthRequest, res: Response): Promise<void> => {
@@ -238,3 +239,91 @@ export const updateMentorTier = async (req: AuthRequest, res: Response): Promise
     });
   }
 };
+
+// List the mentor's statement months for a year
+export const getStatements = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+    const year = req.query.year ? parseInt(req.query.year as string) : new Date().getUTCFullYear();
+
+    if (!Number.isInteger(year)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid year'
+      });
+      return;
+    }
+
+    const statements = await StatementService.listStatements(userId, year);
+
+    res.json({
+      success: true,
+      data: statements
+    });
+  } catch (error) {
+    console.error('Get statements error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Get a monthly statement as JSON, or download it with ?format=csv or ?format=pdf
+export const getStatement = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+    const format = (req.query.format as string) || 'json';
+
+    if (!['json', 'csv', 'pdf'].includes(format)) {
+      res.status(400).json({
+        success: false,
+        error: 'Format must be json, csv or pdf'
+      });
+      return;
+    }
+
+    const { period, error } = StatementService.parsePeriod(req.params.year, req.params.month);
+    if (!period) {
+      res.status(400).json({
+        success: false,
+        error
+      });
+      return;
+    }
+
+    const statement = await StatementService.buildStatement(userId.toString(), period.year, period.month);
+    if (!statement) {
+      res.status(404).json({
+        success: false,
+        error: 'Statement not found'
+      });
+      return;
+    }
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${StatementService.getFilename(statement, 'csv')}"`);
+      res.send(StatementService.toCSV(statement));
+      return;
+    }
+
+    if (format === 'pdf') {
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${StatementService.getFilename(statement, 'pdf')}"`);
+      res.send(StatementService.toPDF(statement));
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: statement
+    });
+  } catch (error) {
+    console.error('Get statement error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
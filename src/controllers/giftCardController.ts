@@ -0,0 +1,279 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import { AuthRequest } from '../types';
+import { GiftCard } from '../models/GiftCard';
+import { User } from '../models/User';
+import { StripeService } from '../services/stripeService';
+import { PaymentMethodService } from '../services/paymentMethodService';
+import { GiftCardService } from '../services/giftCardService';
+
+// Buy a gift card for a fixed amount or for a session of a service
+export const purchaseGiftCard = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const { giftCard, error } = await GiftCardService.createPurchase(userId, req.body);
+    if (!giftCard) {
+      res.status(400).json({
+        success: false,
+        error
+      });
+      return;
+    }
+
+    const purchaser = await User.findById(userId).select('email');
+    const customerId = await PaymentMethodService.getOrCreateCustomerId(userId);
+    const paymentIntent = await GiftCardService.createPaymentIntent(giftCard, purchaser?.email || '', customerId);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        giftCard,
+        clientSecret: paymentIntent.clientSecret,
+        paymentIntentId: paymentIntent.paymentIntentId,
+        amount: giftCard.initialAmount,
+        currency: 'usd'
+      },
+      message: 'Complete payment to send the gift card'
+    });
+  } catch (error) {
+    console.error('Purchase gift card error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Confirm the card payment for a gift card; the code is emailed to the recipient
+export const confirmGiftCardPayment = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+    const giftCardId = req.params.giftCardId as string;
+    const { paymentIntentId } = req.body;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    if (!paymentIntentId) {
+      res.status(400).json({
+        success: false,
+        error: 'Payment Intent ID is required'
+      });
+      return;
+    }
+
+    const giftCard = mongoose.Types.ObjectId.isValid(giftCardId) ? await GiftCard.findById(giftCardId) : null;
+    if (!giftCard || giftCard.purchaserId.toString() !== userId) {
+      res.status(404).json({
+        success: false,
+        error: 'Gift card not found'
+      });
+      return;
+    }
+
+    const paymentIntent = await StripeService.getPaymentIntent(paymentIntentId);
+    if (paymentIntent.metadata?.bookingId !== `gift_card_${giftCardId}`) {
+      res.status(400).json({
+        success: false,
+        error: 'Payment does not belong to this gift card'
+      });
+      return;
+    }
+
+    if (paymentIntent.status !== 'succeeded') {
+      res.status(400).json({
+        success: false,
+        error: 'Payment not completed'
+      });
+      return;
+    }
+
+    await GiftCardService.handlePaymentSucceeded(paymentIntent);
+
+    res.json({
+      success: true,
+      data: await GiftCard.findById(giftCardId),
+      message: 'Payment confirmed successfully'
+    });
+  } catch (error) {
+    console.error('Confirm gift card payment error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to confirm payment'
+    });
+  }
+};
+
+// List the gift cards the user has bought
+export const getPurchasedGiftCards = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const giftCards = await GiftCard.find({ purchaserId: userId, status: { $ne: 'pending' } }).sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: { giftCards }
+    });
+  } catch (error) {
+    console.error('Get gift cards error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Look up a code's remaining balance before redeeming it
+export const getGiftCardBalance = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const giftCard = await GiftCardService.findByCode(req.params.code as string);
+    if (!giftCard || giftCard.status === 'pending') {
+      res.status(404).json({
+        success: false,
+        error: 'Invalid gift card code'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        code: giftCard.code,
+        kind: giftCard.kind,
+        serviceId: giftCard.serviceId,
+        serviceTitle: giftCard.serviceTitle,
+        initialAmount: giftCard.initialAmount,
+        balance: giftCard.balance,
+        status: giftCard.status,
+        expiresAt: giftCard.expiresAt
+      }
+    });
+  } catch (error) {
+    console.error('Get gift card balance error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Redeem a gift card's balance into Mentra tokens
+export const redeemGiftCard = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+    const { code } = req.body;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    if (!code) {
+      res.status(400).json({
+        success: false,
+        error: 'Gift card code is required'
+      });
+      return;
+    }
+
+    const result = await GiftCardService.redeemToTokens(code, userId);
+    if (!result.success) {
+      res.status(400).json({
+        success: false,
+        error: result.error
+      });
+      return;
+    }
+
+    const user = await User.findById(userId).select('mentraBalance');
+
+    res.json({
+      success: true,
+      data: {
+        amount: result.amount,
+        balance: user?.mentraBalance
+      },
+      message: `${result.amount} tokens added to your balance`
+    });
+  } catch (error) {
+    console.error('Redeem gift card error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Pay for a booking with a gift card
+export const redeemGiftCardForBooking = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+    const { code, bookingId } = req.body;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    if (!code || !bookingId) {
+      res.status(400).json({
+        success: false,
+        error: 'Gift card code and booking ID are required'
+      });
+      return;
+    }
+
+    const result = await GiftCardService.redeemAgainstBooking(code, bookingId, userId);
+    if (!result.success) {
+      res.status(400).json({
+        success: false,
+        error: result.error
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        giftCardAmount: result.amount,
+        transactionId: result.transactionId
+      },
+      message: 'Payment successful'
+    });
+  } catch (error) {
+    console.error('Redeem gift card for booking error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
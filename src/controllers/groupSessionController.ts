@@ -0,0 +1,448 @@
+import { Request, Response } from 'express';
+import { AuthRequest } from '../types';
+import { GroupSession, IGroupSession } from '../models/GroupSession';
+import { Service } from '../models/Service';
+import { User } from '../models/User';
+import { GroupSessionService } from '../services/groupSessionService';
+import { SLOT_HOLD_TTL_MINUTES } from '../services/slotHoldService';
+
+const PAYMENT_METHODS = ['stripe', 'tokens'];
+
+// Public view of a group session: seat counts without the roster
+const toPublicSession = (groupSession: IGroupSession, viewerId?: string) => {
+  const { attendees, waitlist, ...session } = groupSession.toObject();
+  const waitlistIndex = viewerId
+    ? groupSession.waitlist.findIndex(entry => entry.studentId.toString() === viewerId)
+    : -1;
+
+  return {
+    ...session,
+    seatsRemaining: Math.max(groupSession.maxSeats - groupSession.seatsTaken, 0),
+    waitlistLength: groupSession.waitlist.length,
+    hasSeat: viewerId ? GroupSessionService.hasActiveSeat(groupSession, viewerId) : false,
+    waitlistPosition: waitlistIndex >= 0 ? waitlistIndex + 1 : undefined
+  };
+};
+
+// Schedule a group session for one of the mentor's group services
+export const createGroupSession = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+    const { serviceId, scheduledAt, title, description } = req.body;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    if (!serviceId || !scheduledAt) {
+      res.status(400).json({
+        success: false,
+        error: 'serviceId and scheduledAt are required'
+      });
+      return;
+    }
+
+    const scheduledAtUTC = new Date(scheduledAt);
+    if (isNaN(scheduledAtUTC.getTime())) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid scheduledAt'
+      });
+      return;
+    }
+
+    const service = await Service.findById(serviceId);
+    if (!service || !service.isActive) {
+      res.status(404).json({
+        success: false,
+        error: 'Service not found'
+      });
+      return;
+    }
+
+    if (service.mentorId.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        error: 'Not authorized to schedule sessions for this service'
+      });
+      return;
+    }
+
+    const mentor = await User.findById(userId);
+    if (!mentor) {
+      res.status(404).json({
+        success: false,
+        error: 'Mentor not found'
+      });
+      return;
+    }
+
+    const result = await GroupSessionService.scheduleSession({ service, mentor, scheduledAtUTC, title, description });
+    if (!result.success) {
+      res.status(result.reason === 'conflict' ? 409 : 400).json({
+        success: false,
+        error: result.error
+      });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      data: result.groupSession,
+      message: 'Group session scheduled successfully'
+    });
+  } catch (error) {
+    console.error('Create group session error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// List upcoming group sessions, optionally for one service or mentor
+export const getUpcomingGroupSessions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { serviceId, mentorId } = req.query;
+
+    const query: any = { status: 'scheduled', scheduledAtUTC: { $gt: new Date() } };
+    if (serviceId) {
+      query.serviceId = serviceId;
+    }
+    if (mentorId) {
+      query.mentorId = mentorId;
+    }
+
+    const groupSessions = await GroupSession.find(query)
+      .populate([
+        { path: 'serviceId', select: 'title description category images' },
+        { path: 'mentorId', select: 'firstName lastName profileImage' }
+      ])
+      .sort({ scheduledAtUTC: 1 });
+
+    res.json({
+      success: true,
+      data: groupSessions.map(groupSession => toPublicSession(groupSession))
+    });
+  } catch (error) {
+    console.error('Get group sessions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// List the group sessions a user hosts (mentor) or holds a seat in (student)
+export const getMyGroupSessions = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const { role, status } = req.query;
+
+    const query: any = role === 'mentor'
+      ? { mentorId: userId }
+      : { attendees: { $elemMatch: { studentId: userId, status: 'active' } } };
+    if (status) {
+      query.status = status;
+    }
+
+    const groupSessions = await GroupSession.find(query)
+      .populate([
+        { path: 'serviceId', select: 'title description category images' },
+        { path: 'mentorId', select: 'firstName lastName profileImage' }
+      ])
+      .sort({ scheduledAtUTC: 1 });
+
+    res.json({
+      success: true,
+      data: role === 'mentor'
+        ? groupSessions
+        : groupSessions.map(groupSession => toPublicSession(groupSession, userId.toString()))
+    });
+  } catch (error) {
+    console.error('Get my group sessions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Get a group session; the hosting mentor also sees the roster and waitlist
+export const getGroupSession = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const groupSession = await GroupSession.findById(req.params.groupSessionId)
+      .populate([
+        { path: 'serviceId', select: 'title description category images' },
+        { path: 'mentorId', select: 'firstName lastName profileImage' }
+      ]);
+
+    if (!groupSession) {
+      res.status(404).json({
+        success: false,
+        error: 'Group session not found'
+      });
+      return;
+    }
+
+    const isMentor = groupSession.mentorId._id.toString() === userId;
+    if (isMentor) {
+      await groupSession.populate([
+        { path: 'attendees.studentId', select: 'firstName lastName profileImage' },
+        { path: 'attendees.bookingId', select: 'status paymentStatus paymentMethod amount refund' },
+        { path: 'waitlist.studentId', select: 'firstName lastName profileImage' }
+      ]);
+    }
+
+    res.json({
+      success: true,
+      data: isMentor ? groupSession : toPublicSession(groupSession, userId)
+    });
+  } catch (error) {
+    console.error('Get group session error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Book a seat; pay for the returned booking through the usual booking payment endpoints
+export const bookGroupSeat = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+    const { paymentMethod = 'stripe', studentTimezone, notes } = req.body;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    if (!PAYMENT_METHODS.includes(paymentMethod)) {
+      res.status(400).json({
+        success: false,
+        error: `paymentMethod must be one of: ${PAYMENT_METHODS.join(', ')}`
+      });
+      return;
+    }
+
+    const groupSession = await GroupSession.findById(req.params.groupSessionId);
+    if (!groupSession || groupSession.status !== 'scheduled') {
+      res.status(404).json({
+        success: false,
+        error: 'Group session not found'
+      });
+      return;
+    }
+
+    if (groupSession.mentorId.toString() === userId) {
+      res.status(400).json({
+        success: false,
+        error: 'You cannot book a seat in your own group session'
+      });
+      return;
+    }
+
+    const result = await GroupSessionService.bookSeat(groupSession, userId, studentTimezone, paymentMethod, notes);
+    if (!result.success || !result.booking) {
+      res.status(result.full ? 409 : 400).json({
+        success: false,
+        error: result.error,
+        canJoinWaitlist: result.full || undefined
+      });
+      return;
+    }
+
+    await result.booking.populate([
+      { path: 'serviceId', select: 'title description category images' },
+      { path: 'mentorId', select: 'firstName lastName profileImage' },
+      { path: 'studentId', select: 'firstName lastName' }
+    ]);
+
+    res.status(201).json({
+      success: true,
+      data: result.booking,
+      holdExpiresAt: new Date(Date.now() + SLOT_HOLD_TTL_MINUTES * 60000),
+      message: 'Seat reserved; complete payment to confirm it'
+    });
+  } catch (error) {
+    console.error('Book group seat error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Join the waitlist of a full group session
+export const joinGroupWaitlist = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+    const { studentTimezone } = req.body;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const groupSession = await GroupSession.findById(req.params.groupSessionId);
+    if (!groupSession || groupSession.status !== 'scheduled') {
+      res.status(404).json({
+        success: false,
+        error: 'Group session not found'
+      });
+      return;
+    }
+
+    if (groupSession.mentorId.toString() === userId) {
+      res.status(400).json({
+        success: false,
+        error: 'You cannot join the waitlist of your own group session'
+      });
+      return;
+    }
+
+    const result = await GroupSessionService.joinWaitlist(groupSession, userId, studentTimezone);
+    if (!result.success) {
+      res.status(400).json({
+        success: false,
+        error: result.error
+      });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      data: { position: result.position },
+      message: 'Added to the waitlist'
+    });
+  } catch (error) {
+    console.error('Join group waitlist error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Leave a group session's waitlist
+export const leaveGroupWaitlist = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const removed = await GroupSessionService.leaveWaitlist(req.params.groupSessionId as string, userId);
+    if (!removed) {
+      res.status(404).json({
+        success: false,
+        error: 'You are not on this waitlist'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Removed from the waitlist'
+    });
+  } catch (error) {
+    console.error('Leave group waitlist error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Cancel a whole group session (mentor only); every paid attendee is refunded
+export const cancelGroupSession = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+    const { reason } = req.body;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const groupSession = await GroupSession.findById(req.params.groupSessionId);
+    if (!groupSession) {
+      res.status(404).json({
+        success: false,
+        error: 'Group session not found'
+      });
+      return;
+    }
+
+    if (groupSession.mentorId.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        error: 'Only the hosting mentor can cancel this group session'
+      });
+      return;
+    }
+
+    if (groupSession.status !== 'scheduled') {
+      res.status(400).json({
+        success: false,
+        error: 'Group session cannot be cancelled'
+      });
+      return;
+    }
+
+    const cancellations = await GroupSessionService.cancelSession(groupSession, reason || 'Group session cancelled by mentor');
+
+    res.json({
+      success: true,
+      data: {
+        groupSession,
+        cancellations
+      },
+      message: 'Group session cancelled successfully'
+    });
+  } catch (error) {
+    console.error('Cancel group session error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
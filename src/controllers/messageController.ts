@@ -9,6 +9,7 @@ import { authenticate } from '../middleware/auth';
 import { emitToConversation, emitToUser } from '../services/socketService';
 import { MentorEarningsService } from '../services/mentorEarningsService';
 import { chatNotificationService } from '../services/chatNotificationService';
+import { TokenTopUpService } from '../services/tokenTopUpService';
 
 // Helper function to check if users have an upcoming booking
 const hasUpcomingBooking = async (studentId: string, mentorId: string): Promise<boolean> => {
@@ -182,7 +183,7 @@ export const getMessages = async (req: AuthRequest, res: Response) => {
 export const sendMessage = async (req: AuthRequest, res: Response) => {
   try {
     const userId = (req.user as any)?._id;
-    const { receiverId, content, type = 'text', fileUrl } = req.body;
+    const { receiverId, content, type = 'text', fileUrl, clientMessageId } = req.body;
     
     // Process uploaded files
     const attachments: any[] = [];
@@ -265,6 +266,20 @@ export const sendMessage = async (req: AuthRequest, res: Response) => {
       });
     }
 
+    // Clients can send the id for the message so a retried send is only delivered and charged once
+    const messageId = typeof clientMessageId === 'string' && mongoose.Types.ObjectId.isValid(clientMessageId)
+      ? new mongoose.Types.ObjectId(clientMessageId)
+      : new mongoose.Types.ObjectId();
+    const alreadySent = await Message.findOne({ _id: messageId, senderId: userId });
+    if (alreadySent) {
+      const currentUser = await User.findById(userId).select('mentraBalance');
+      return res.status(200).json({
+        success: true,
+        data: alreadySent,
+        updatedBalance: currentUser?.mentraBalance || 0
+      });
+    }
+
     // Determine if this is a warm or cold message
     const isWarmMessage = await hasUpcomingBooking(userId, receiverId);
     const messageType = isWarmMessage ? 'warm' : 'cold';
@@ -275,7 +290,8 @@ export const sendMessage = async (req: AuthRequest, res: Response) => {
     let transactionId: string | undefined;
     
     if (messageType === 'cold' && receiver.coldMessageRate && receiver.coldMessageRate > 0) {
-      // Check if user has sufficient token balance
+      // Check if user has sufficient token balance, topping up first if they have an auto-top-up rule
+      await TokenTopUpService.ensureBalance(userId.toString(), receiver.coldMessageRate);
       const user = await User.findById(userId).select('mentraBalance');
       if (!user || user.mentraBalance < receiver.coldMessageRate) {
         return res.status(402).json({
@@ -295,7 +311,8 @@ export const sendMessage = async (req: AuthRequest, res: Response) => {
       const result = await deductTokens(
         userId, 
         receiver.coldMessageRate, 
-        `Cold message to ${receiver.firstName} ${receiver.lastName}`
+        `Cold message to ${receiver.firstName} ${receiver.lastName}`,
+        messageId.toString()
       );
       
       if (!result.success) {
@@ -348,6 +365,7 @@ export const sendMessage = async (req: AuthRequest, res: Response) => {
 
     // Create message
     const message = new Message({
+      _id: messageId,
       senderId: userId,
       receiverId,
       content: content || (attachments.length > 0 ? 'Sent an attachment' : ''),
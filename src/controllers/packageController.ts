@@ -0,0 +1,495 @@
+import { Request, Response } from 'express';
+import { AuthRequest } from '../types';
+import { Service } from '../models/Service';
+import { PackagePurchase } from '../models/PackagePurchase';
+import { User } from '../models/User';
+import { StripeService } from '../services/stripeService';
+import { PackageService } from '../services/packageService';
+
+// Load a service owned by the current mentor
+const findOwnedService = async (serviceId: string, userId: string) => {
+  const service = await Service.findById(serviceId);
+  if (!service) {
+    return { status: 404, error: 'Service not found' };
+  }
+
+  if (service.mentorId.toString() !== userId) {
+    return { status: 403, error: 'Not authorized to manage packages for this service' };
+  }
+
+  return { service };
+};
+
+// Get a service's active package offers
+export const getServicePackages = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const service = await Service.findById(req.params.id).select('title hourlyRate duration packages isActive');
+    if (!service) {
+      res.status(404).json({
+        success: false,
+        error: 'Service not found'
+      });
+      return;
+    }
+
+    const packages = service.packages
+      .filter(offer => offer.isActive)
+      .map(offer => ({
+        ...offer.toObject(),
+        listPrice: PackageService.getListPrice(service, offer.sessionCount)
+      }));
+
+    res.json({
+      success: true,
+      data: packages
+    });
+  } catch (error) {
+    console.error('Get service packages error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Add a package offer to a service
+export const createServicePackage = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const lookup = await findOwnedService(req.params.id as string, userId);
+    if (!lookup.service) {
+      res.status(lookup.status).json({
+        success: false,
+        error: lookup.error
+      });
+      return;
+    }
+    const service = lookup.service;
+
+    const { offer, error } = PackageService.buildOffer(service, req.body);
+    if (!offer) {
+      res.status(400).json({
+        success: false,
+        error
+      });
+      return;
+    }
+
+    service.packages.push(offer);
+    await service.save();
+
+    res.status(201).json({
+      success: true,
+      data: service.packages[service.packages.length - 1],
+      message: 'Package created successfully'
+    });
+  } catch (error) {
+    console.error('Create service package error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Update a package offer; existing purchases keep the terms they were bought on
+export const updateServicePackage = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const lookup = await findOwnedService(req.params.id as string, userId);
+    if (!lookup.service) {
+      res.status(lookup.status).json({
+        success: false,
+        error: lookup.error
+      });
+      return;
+    }
+    const service = lookup.service;
+
+    const existing = service.packages.id(req.params.packageId as string);
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        error: 'Package not found'
+      });
+      return;
+    }
+
+    const { offer, error } = PackageService.buildOffer(service, req.body, existing);
+    if (!offer) {
+      res.status(400).json({
+        success: false,
+        error
+      });
+      return;
+    }
+
+    existing.set(offer);
+    await service.save();
+
+    res.json({
+      success: true,
+      data: existing,
+      message: 'Package updated successfully'
+    });
+  } catch (error) {
+    console.error('Update service package error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Withdraw a package offer (soft delete so existing purchases still resolve)
+export const deleteServicePackage = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const lookup = await findOwnedService(req.params.id as string, userId);
+    if (!lookup.service) {
+      res.status(lookup.status).json({
+        success: false,
+        error: lookup.error
+      });
+      return;
+    }
+    const service = lookup.service;
+
+    const existing = service.packages.id(req.params.packageId as string);
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        error: 'Package not found'
+      });
+      return;
+    }
+
+    existing.isActive = false;
+    await service.save();
+
+    res.json({
+      success: true,
+      message: 'Package withdrawn successfully'
+    });
+  } catch (error) {
+    console.error('Delete service package error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Buy a package offer with Stripe or tokens
+export const purchasePackage = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+    const { serviceId, packageId, paymentMethod = 'stripe' } = req.body;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    if (!serviceId || !packageId) {
+      res.status(400).json({
+        success: false,
+        error: 'serviceId and packageId are required'
+      });
+      return;
+    }
+
+    if (paymentMethod !== 'stripe' && paymentMethod !== 'tokens') {
+      res.status(400).json({
+        success: false,
+        error: 'paymentMethod must be either stripe or tokens'
+      });
+      return;
+    }
+
+    const service = await Service.findById(serviceId);
+    if (!service || !service.isActive) {
+      res.status(404).json({
+        success: false,
+        error: 'Service not found'
+      });
+      return;
+    }
+
+    if (service.mentorId.toString() === userId) {
+      res.status(400).json({
+        success: false,
+        error: 'You cannot buy your own package'
+      });
+      return;
+    }
+
+    const offer = service.packages.id(packageId);
+    if (!offer || !offer.isActive) {
+      res.status(404).json({
+        success: false,
+        error: 'Package not found'
+      });
+      return;
+    }
+
+    const purchase = await PackageService.createPurchase(service, offer, userId, paymentMethod);
+
+    if (paymentMethod === 'tokens') {
+      const result = await PackageService.payWithTokens(purchase._id.toString(), userId);
+      if (!result.success) {
+        await PackagePurchase.deleteOne({ _id: purchase._id });
+        res.status(400).json({
+          success: false,
+          error: result.error
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: await PackagePurchase.findById(purchase._id),
+        transactionId: result.transactionId,
+        message: 'Package purchased successfully'
+      });
+      return;
+    }
+
+    // Free packages are activated without going through Stripe
+    if (purchase.pricePaid === 0) {
+      const activated = await PackageService.activatePurchase(purchase._id, { paymentMethod: 'stripe' });
+      res.status(201).json({
+        success: true,
+        data: activated,
+        message: 'Package activated successfully'
+      });
+      return;
+    }
+
+    const student = await User.findById(userId).select('email');
+    const paymentIntent = await PackageService.createPaymentIntent(purchase, student?.email || '');
+
+    res.status(201).json({
+      success: true,
+      data: {
+        purchase,
+        clientSecret: paymentIntent.clientSecret,
+        paymentIntentId: paymentIntent.paymentIntentId,
+        amount: purchase.pricePaid,
+        currency: 'usd'
+      },
+      message: 'Complete payment to activate the package'
+    });
+  } catch (error) {
+    console.error('Purchase package error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Confirm a card payment for a package purchase
+export const confirmPackagePayment = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+    const { paymentIntentId } = req.body;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    if (!paymentIntentId) {
+      res.status(400).json({
+        success: false,
+        error: 'Payment Intent ID is required'
+      });
+      return;
+    }
+
+    const purchase = await PackagePurchase.findById(req.params.purchaseId);
+    if (!purchase || purchase.studentId.toString() !== userId) {
+      res.status(404).json({
+        success: false,
+        error: 'Package purchase not found'
+      });
+      return;
+    }
+
+    const paymentIntent = await StripeService.getPaymentIntent(paymentIntentId);
+    if (paymentIntent.metadata?.bookingId !== `package_${purchase._id.toString()}`) {
+      res.status(400).json({
+        success: false,
+        error: 'Payment does not belong to this package purchase'
+      });
+      return;
+    }
+
+    if (paymentIntent.status !== 'succeeded') {
+      res.status(400).json({
+        success: false,
+        error: 'Payment not completed'
+      });
+      return;
+    }
+
+    await PackageService.handlePaymentSucceeded(paymentIntent);
+
+    res.json({
+      success: true,
+      data: await PackagePurchase.findById(purchase._id),
+      message: 'Payment confirmed successfully'
+    });
+  } catch (error) {
+    console.error('Confirm package payment error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to confirm payment'
+    });
+  }
+};
+
+// Get package purchases for a user (as student, or as mentor for packages sold)
+export const getPackagePurchases = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const { role, status, serviceId } = req.query;
+
+    const query: any = role === 'mentor' ? { mentorId: userId } : { studentId: userId };
+    if (status) {
+      query.status = status;
+    } else {
+      query.status = { $ne: 'pending' };
+    }
+    if (serviceId) {
+      query.serviceId = serviceId;
+    }
+
+    const purchases = await PackagePurchase.find(query)
+      .populate([
+        { path: 'serviceId', select: 'title duration' },
+        { path: 'mentorId', select: 'firstName lastName profileImage' },
+        { path: 'studentId', select: 'firstName lastName' }
+      ])
+      .sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: purchases
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Refund a package's unused credits
+export const refundPackagePurchase = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+    const { reason } = req.body;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const purchase = await PackagePurchase.findById(req.params.purchaseId);
+    if (!purchase) {
+      res.status(404).json({
+        success: false,
+        error: 'Package purchase not found'
+      });
+      return;
+    }
+
+    if (purchase.studentId.toString() !== userId && purchase.mentorId.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        error: 'Not authorized to refund this package'
+      });
+      return;
+    }
+
+    if (purchase.expiresAt && purchase.expiresAt <= new Date()) {
+      res.status(400).json({
+        success: false,
+        error: 'Expired packages cannot be refunded'
+      });
+      return;
+    }
+
+    const result = await PackageService.refundUnusedCredits(purchase, reason || 'Unused credits refunded');
+    if (!result.success) {
+      res.status(400).json({
+        success: false,
+        error: result.error
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        amount: result.amount,
+        credits: result.credits,
+        refundId: result.refundId
+      },
+      message: 'Unused credits refunded successfully'
+    });
+  } catch (error) {
+    console.error('Refund package purchase error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
@@ -3,12 +3,20 @@ import { AuthRequest } from '../types';
 import { StripeService, CreatePaymentIntentParams } from '../services/stripeService';
 import { Booking } from '../models/Booking';
 import { User } from '../models/User';
+import { SlotHoldService } from '../services/slotHoldService';
+import { BookingSeriesService } from '../services/bookingSeriesService';
+import { WebhookService } from '../services/webhookService';
+import { PaymentMethodService } from '../services/paymentMethodService';
+import { CouponService } from '../services/couponService';
+import { CurrencyService, CurrencyAmount } from '../services/currencyService';
+import { EscrowService } from '../services/escrowService';
+import { ReceiptService } from '../services/receiptService';
 
 // Create payment intent for a booking or amount
 export const createPaymentIntent = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const userId = (req.user as any)?._id;
-    const { bookingId, amount, currency = 'usd' } = req.body;
+    const { bookingId, amount, currency = 'usd', savePaymentMethod, couponCode } = req.body;
 
 
     if (!userId) {
@@ -30,6 +38,7 @@ export const createPaymentIntent = async (req: AuthRequest, res: Response): Prom
 
     let paymentIntentParams: CreatePaymentIntentParams;
     let finalAmount: number;
+    let charge: CurrencyAmount | undefined;
 
     if (bookingId) {
       // Booking-based payment intent
@@ -37,7 +46,7 @@ export const createPaymentIntent = async (req: AuthRequest, res: Response): Prom
         .populate([
           { path: 'serviceId', select: 'title' },
           { path: 'mentorId', select: 'firstName lastName' },
-          { path: 'studentId', select: 'firstName lastName email' }
+          { path: 'studentId', select: 'firstName lastName email currency' }
         ]);
 
       if (!booking) {
@@ -70,18 +79,48 @@ export const createPaymentIntent = async (req: AuthRequest, res: Response): Prom
         return;
       }
 
+      if (await BookingSeriesService.isUpfrontOccurrence(booking)) {
+        res.status(400).json({
+          success: false,
+          error: 'This session is part of a recurring booking paid upfront; pay for the series instead'
+        });
+        return;
+      }
+
+      if (!EscrowService.canTransition(booking, 'authorized')) {
+        res.status(400).json({
+          success: false,
+          error: 'This booking can no longer be paid'
+        });
+        return;
+      }
+
+      if (couponCode) {
+        const applied = await CouponService.applyToBooking(booking, couponCode, userId.toString());
+        if (!applied.quote) {
+          res.status(400).json({
+            success: false,
+            error: applied.error
+          });
+          return;
+        }
+      }
+
       const student = booking.studentId as any;
       const service = booking.serviceId as any;
       const mentor = booking.mentorId as any;
 
+      // Students pay in their own currency; the booking stays settled in USD
+      charge = await CurrencyService.toCharge(booking.amount, student.currency);
+
       paymentIntentParams = {
-        amount: Math.round(booking.amount * 100), // Convert to cents
-        currency: 'usd',
+        amount: Math.round(charge.amount * 100), // Convert to cents
+        currency: charge.currency,
         bookingId: (booking as any)._id.toString(),
         customerEmail: student.email,
         description: `${service.title} session with ${mentor.firstName} ${mentor.lastName}`
       };
-      finalAmount = booking.amount;
+      finalAmount = charge.amount;
     } else {
       // Amount-based payment intent
       const user = await User.findById(userId);
@@ -117,15 +156,32 @@ export const createPaymentIntent = async (req: AuthRequest, res: Response): Prom
       return;
     }
 
+    // Attach the payer's Stripe Customer so saved cards can pay and new ones can be kept
+    paymentIntentParams.customerId = await PaymentMethodService.getOrCreateCustomerId(userId.toString());
+    paymentIntentParams.savePaymentMethod = !!savePaymentMethod;
+
     const paymentIntent = await StripeService.createPaymentIntent(paymentIntentParams);
 
+    if (bookingId) {
+      const booking = await Booking.findById(bookingId);
+      if (booking) {
+        await EscrowService.transition(booking, 'authorized', {
+          event: 'payment_authorized',
+          actorId: userId,
+          amount: booking.amount,
+          metadata: { paymentIntentId: paymentIntent.paymentIntentId, charge }
+        });
+        await Booking.updateOne({ _id: booking._id }, { charge });
+      }
+    }
+
     res.json({
       success: true,
       data: {
         clientSecret: paymentIntent.clientSecret,
         paymentIntentId: paymentIntent.paymentIntentId,
         amount: finalAmount,
-        currency: currency
+        currency: paymentIntentParams.currency
       }
     });
   } catch (error) {
@@ -189,10 +245,12 @@ export const confirmPayment = async (req: AuthRequest, res: Response): Promise<v
         return;
       }
       
+      await EscrowService.transition(booking, 'captured', { event: 'free_booking_confirmed', actorId: userId, amount: 0 });
       booking.paymentStatus = 'paid';
       booking.stripePaymentIntentId = 'free_booking_' + Date.now();
       booking.status = 'confirmed'; // Auto-confirm free bookings
       await booking.save();
+      await SlotHoldService.convertHolds(booking._id);
 
       res.json({
         success: true,
@@ -214,10 +272,23 @@ export const confirmPayment = async (req: AuthRequest, res: Response): Promise<v
     }
 
     // Update booking payment status
+    await EscrowService.transition(booking, 'captured', {
+      event: 'payment_captured',
+      actorId: userId,
+      amount: booking.amount,
+      metadata: { paymentIntentId }
+    });
     booking.paymentStatus = 'paid';
     booking.stripePaymentIntentId = paymentIntentId;
+    booking.charge = CurrencyService.chargeFromPaymentIntent(paymentIntent, booking.amount);
     await booking.save();
 
+    // The paid booking now guards the slot, so the checkout hold is no longer needed
+    await SlotHoldService.convertHolds(booking._id);
+
+    // Emailed with the payment confirmation the webhook sends
+    await ReceiptService.issueForBooking(booking._id, { paymentMethod: 'card', paymentIntentId, notify: false });
+
     res.json({
       success: true,
       data: booking,
@@ -234,6 +305,8 @@ export const confirmPayment = async (req: AuthRequest, res: Response): Promise<v
 
 // Process Stripe webhook
 export const handleWebhook = async (req: Request, res: Response): Promise<void> => {
+  let event: any;
+
   try {
     const signature = req.headers['stripe-signature'] as string;
     const endpointSecret = process.env.STRIPE_WEBHOOK_SECRET!;
@@ -246,95 +319,31 @@ export const handleWebhook = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    const event = StripeService.verifyWebhookSignature(
+    event = StripeService.verifyWebhookSignature(
       req.body,
       signature,
       endpointSecret
     );
-
-    // Handle different event types
-    switch (event.type) {
-      case 'payment_intent.succeeded':
-        await handlePaymentSucceeded(event.data.object);
-        break;
-      
-      case 'payment_intent.payment_failed':
-        await handlePaymentFailed(event.data.object);
-        break;
-      
-      case 'charge.refunded':
-        await handleRefund(event.data.object);
-        break;
-      
-      default:
-
-    }
-
-    res.json({ received: true });
   } catch (error) {
     console.error('Webhook error:', error);
     res.status(400).json({
       success: false,
       error: 'Webhook error'
     });
+    return;
   }
-};
-
-// Handle successful payment
-const handlePaymentSucceeded = async (paymentIntent: any) => {
-  try {
-    const bookingId = paymentIntent.metadata.bookingId;
-    
-    if (bookingId) {
-      const booking = await Booking.findById(bookingId);
-      if (booking) {
-        // Update payment status
-        booking.paymentStatus = 'paid';
-        booking.stripePaymentIntentId = paymentIntent.id;
-        booking.status = 'confirmed';
-        
-        await booking.save();
-      }
-    }
-  } catch (error) {
-    console.error('Error handling payment succeeded:', error);
-  }
-};
-
-// Handle failed payment
-const handlePaymentFailed = async (paymentIntent: any) => {
-  try {
-    const bookingId = paymentIntent.metadata.bookingId;
-    
-    if (bookingId) {
-      const booking = await Booking.findById(bookingId);
-      if (booking) {
-        booking.paymentStatus = 'pending';
-        await booking.save();
-        
-
-      }
-    }
-  } catch (error) {
-    console.error('Error handling payment failed:', error);
-  }
-};
 
-// Handle refund
-const handleRefund = async (charge: any) => {
   try {
-    const paymentIntentId = charge.payment_intent;
-    
-    if (paymentIntentId) {
-      const booking = await Booking.findOne({ stripePaymentIntentId: paymentIntentId });
-      if (booking) {
-        booking.paymentStatus = 'refunded';
-        await booking.save();
-        
+    // Same event store as the webhooks endpoint, so an event delivered to both runs once
+    await WebhookService.processEvent(event, 'platform');
 
-      }
-    }
+    res.json({ received: true });
   } catch (error) {
-    console.error('Error handling refund:', error);
+    // A 500 makes Stripe redeliver the event, which retries it
+    console.error('Webhook processing error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Webhook processing failed'
+    });
   }
 };
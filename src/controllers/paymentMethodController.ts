@@ -0,0 +1,131 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import { PaymentMethodService } from '../services/paymentMethodService';
+
+// List the user's saved cards
+export const getPaymentMethods = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const paymentMethods = await PaymentMethodService.listPaymentMethods(userId.toString());
+
+    res.json({
+      success: true,
+      data: { paymentMethods }
+    });
+  } catch (error) {
+    console.error('Get payment methods error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Start saving a new card; the client confirms the returned setup intent with Stripe
+export const createSetupIntent = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const setupIntent = await PaymentMethodService.createSetupIntent(userId.toString());
+
+    res.json({
+      success: true,
+      data: setupIntent
+    });
+  } catch (error) {
+    console.error('Create setup intent error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Remove a saved card
+export const removePaymentMethod = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+    const paymentMethodId = req.params.paymentMethodId as string;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const removed = await PaymentMethodService.removePaymentMethod(userId.toString(), paymentMethodId);
+    if (!removed) {
+      res.status(404).json({
+        success: false,
+        error: 'Payment method not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Payment method removed'
+    });
+  } catch (error) {
+    console.error('Remove payment method error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Make a saved card the one used for scheduled charges
+export const setDefaultPaymentMethod = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+    const paymentMethodId = req.params.paymentMethodId as string;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const updated = await PaymentMethodService.setDefaultPaymentMethod(userId.toString(), paymentMethodId);
+    if (!updated) {
+      res.status(404).json({
+        success: false,
+        error: 'Payment method not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Default payment method updated'
+    });
+  } catch (error) {
+    console.error('Set default payment method error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
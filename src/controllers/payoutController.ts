@@ -1,7 +1,10 @@
 import { Request, Response } from 'express';
 import { AuthRequest } from '../middleware/auth';
 import { PayoutService } from '../services/payoutService';
+import { PayoutRetryService } from '../services/payoutRetryService';
+import { TaxService } from '../services/taxService';
 import { CronService } from '../services/cronService';
+import { User } from '../models/User';
 
 // Get mentor's payout history
 export const getMentorPayoutHistory = async (req: AuthRequest, res: Response): Promise<void> => {
@@ -32,6 +35,124 @@ export const getMentorPayoutHistory = async (req: AuthRequest, res: Response): P
   }
 };
 
+// Get the mentor's payout schedule and minimum payout
+export const getPayoutSettings = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const mentor = await User.findById(req.user?._id).select('payoutSettings');
+    if (!mentor) {
+      res.status(404).json({
+        success: false,
+        error: 'Mentor not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: PayoutService.getPayoutSettings(mentor)
+    });
+  } catch (error) {
+    console.error('Error fetching payout settings:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch payout settings'
+    });
+  }
+};
+
+// Update the mentor's payout schedule and minimum payout
+export const updatePayoutSettings = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { schedule, minimumAmount } = req.body;
+    const { settings, error } = await PayoutService.updatePayoutSettings(req.user?._id, { schedule, minimumAmount });
+    if (!settings) {
+      res.status(400).json({
+        success: false,
+        error
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: settings,
+      message: 'Payout settings updated'
+    });
+  } catch (error) {
+    console.error('Error updating payout settings:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update payout settings'
+    });
+  }
+};
+
+// Get the mentor's tax profile, with what is still missing; the TIN is only shown as its last 4 digits
+export const getTaxProfile = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const profile = await TaxService.getProfile(req.user?._id.toString());
+
+    res.json({
+      success: true,
+      data: profile
+    });
+  } catch (error) {
+    console.error('Error fetching tax profile:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch tax profile'
+    });
+  }
+};
+
+// Update the mentor's tax profile; payouts held back for it resume once it is complete
+export const updateTaxProfile = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { legalName, businessName, entityType, taxResidency, formType, tinType, tin, address, certifiedName } = req.body;
+    const { profile, error } = await TaxService.updateProfile(req.user?._id.toString(), {
+      legalName, businessName, entityType, taxResidency, formType, tinType, tin, address, certifiedName
+    });
+    if (!profile) {
+      res.status(400).json({
+        success: false,
+        error
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: profile,
+      message: 'Tax profile updated'
+    });
+  } catch (error) {
+    console.error('Error updating tax profile:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update tax profile'
+    });
+  }
+};
+
+// Get the mentor's payout batches with the bookings and cold messages each one paid
+export const getMentorPayoutBatches = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { limit = 20 } = req.query;
+    const batches = await PayoutService.getMentorPayoutBatches(req.user?._id, Math.min(Number(limit) || 20, 100));
+
+    res.json({
+      success: true,
+      data: batches
+    });
+  } catch (error) {
+    console.error('Error fetching payout batches:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch payout batches'
+    });
+  }
+};
+
 // Get platform payout statistics (admin only)
 export const getPlatformPayoutStats = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
@@ -101,7 +222,9 @@ export const getPendingPayouts = async (req: AuthRequest, res: Response): Promis
 
     res.json({
       success: true,
-      data: payouts
+      data: payouts,
+      // Failed payouts waiting for another attempt, for a mentor to fix their account, or for an admin
+      retryQueue: await PayoutRetryService.getQueueState()
     });
   } catch (error) {
     console.error('Error fetching pending payouts:', error);
@@ -12,6 +12,7 @@ import { Review } from '../models/Review';
 import Note from '../models/Note';
 import mongooseLib from 'mongoose';
 import { sanitizeUser, maskString } from '../utils/masking';
+import { CurrencyService } from '../services/currencyService';
 
 // Get user profile
 export const getProfile = async (req: AuthRequest, res: Response): Promise<void> => {
@@ -147,6 +148,22 @@ export const updateAvailability = async (req: AuthRequest, res: Response): Promi
       }
     }
 
+    // Multiple windows per day are allowed, but they must not overlap
+    const sortedSlots = [...availability].sort((a: any, b: any) =>
+      a.day === b.day ? a.startTime.localeCompare(b.startTime) : a.day.localeCompare(b.day)
+    );
+    for (let i = 1; i < sortedSlots.length; i++) {
+      const previous = sortedSlots[i - 1];
+      const current = sortedSlots[i];
+      if (previous.day === current.day && current.startTime < previous.endTime) {
+        res.status(400).json({
+          success: false,
+          error: `Availability windows on ${current.day} overlap (${previous.startTime}-${previous.endTime} and ${current.startTime}-${current.endTime})`
+        });
+        return;
+      }
+    }
+
     // Extract timezone from request body if provided
     const { timezone } = req.body;
     
@@ -217,9 +234,18 @@ export const updateProfile = async (req: AuthRequest, res: Response): Promise<vo
       careerGoals,
       isOnboarded,
       isAnonymous,
-      anonymityReason
+      anonymityReason,
+      currency
     } = req.body;
 
+    if (currency !== undefined && !CurrencyService.isSupported(currency)) {
+      res.status(400).json({
+        success: false,
+        error: 'Unsupported currency'
+      });
+      return;
+    }
+
     const updateData: any = {};
     
     if (firstName) updateData.firstName = firstName;
@@ -238,6 +264,7 @@ export const updateProfile = async (req: AuthRequest, res: Response): Promise<vo
     if (isOnboarded !== undefined) updateData.isOnboarded = isOnboarded;
     if (isAnonymous !== undefined) updateData.isAnonymous = isAnonymous;
     if (anonymityReason !== undefined) updateData.anonymityReason = anonymityReason;
+    if (currency !== undefined) updateData.currency = CurrencyService.normalize(currency);
     if (workExperience) {
       // Filter out empty work experience entries while preserving all fields including documents
       const filteredWorkExperience = workExperience.filter((work: any) => {
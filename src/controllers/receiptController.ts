@@ -0,0 +1,212 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import { AuthRequest } from '../types';
+import { User } from '../models/User';
+import { Receipt, ReceiptKind } from '../models/Receipt';
+import { ReceiptService } from '../services/receiptService';
+
+const RECEIPT_KINDS: ReceiptKind[] = ['booking', 'token_top_up', 'cold_message', 'verification_fee'];
+const BILLING_FIELDS = ['name', 'company', 'addressLine1', 'addressLine2', 'city', 'state', 'postalCode', 'country', 'taxId'] as const;
+const MAX_BILLING_FIELD_LENGTH = 200;
+
+// List the user's receipts, newest first
+export const getReceipts = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+    const { kind, page = 1, limit = 20 } = req.query;
+
+    if (kind && !RECEIPT_KINDS.includes(kind as ReceiptKind)) {
+      res.status(400).json({
+        success: false,
+        error: `Kind must be one of: ${RECEIPT_KINDS.join(', ')}`
+      });
+      return;
+    }
+
+    const result = await ReceiptService.getUserReceipts(userId.toString(), {
+      kind: kind as ReceiptKind | undefined,
+      page: Number(page) || 1,
+      limit: Number(limit) || 20
+    });
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Get receipts error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Get one of the user's receipts
+export const getReceipt = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+    const receiptId = req.params.receiptId as string;
+
+    if (!mongoose.Types.ObjectId.isValid(receiptId)) {
+      res.status(404).json({
+        success: false,
+        error: 'Receipt not found'
+      });
+      return;
+    }
+
+    const receipt = await Receipt.findOne({ _id: receiptId, userId });
+    if (!receipt) {
+      res.status(404).json({
+        success: false,
+        error: 'Receipt not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: receipt
+    });
+  } catch (error) {
+    console.error('Get receipt error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Download one of the user's receipts as a PDF
+export const downloadReceiptPDF = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+    const receiptId = req.params.receiptId as string;
+
+    if (!mongoose.Types.ObjectId.isValid(receiptId)) {
+      res.status(404).json({
+        success: false,
+        error: 'Receipt not found'
+      });
+      return;
+    }
+
+    const receipt = await Receipt.findOne({ _id: receiptId, userId });
+    if (!receipt) {
+      res.status(404).json({
+        success: false,
+        error: 'Receipt not found'
+      });
+      return;
+    }
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${ReceiptService.getFilename(receipt)}"`);
+    res.send(ReceiptService.toPDF(receipt));
+  } catch (error) {
+    console.error('Download receipt error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Get the billing details shown on new receipts
+export const getBillingDetails = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+
+    const user = await User.findById(userId).select('billingDetails');
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: user.billingDetails || {}
+    });
+  } catch (error) {
+    console.error('Get billing details error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Update the billing details; receipts already issued keep the details they were issued with
+export const updateBillingDetails = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+    const update: Record<string, string> = {};
+    const unset: Record<string, 1> = {};
+
+    for (const field of BILLING_FIELDS) {
+      const value = req.body[field];
+      if (value === undefined) {
+        continue;
+      }
+      if (value !== null && typeof value !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: `${field} must be a string`
+        });
+        return;
+      }
+
+      const trimmed = (value || '').trim();
+      if (trimmed.length > MAX_BILLING_FIELD_LENGTH) {
+        res.status(400).json({
+          success: false,
+          error: `${field} must be at most ${MAX_BILLING_FIELD_LENGTH} characters`
+        });
+        return;
+      }
+      if (field === 'country' && trimmed && !/^[A-Za-z]{2}$/.test(trimmed)) {
+        res.status(400).json({
+          success: false,
+          error: 'Country must be a two-letter ISO country code'
+        });
+        return;
+      }
+
+      if (trimmed) {
+        update[`billingDetails.${field}`] = field === 'country' ? trimmed.toUpperCase() : trimmed;
+      } else {
+        unset[`billingDetails.${field}`] = 1;
+      }
+    }
+
+    const user = await User.findByIdAndUpdate(
+      userId,
+      { $set: update, $unset: unset },
+      { new: true }
+    ).select('billingDetails');
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: user.billingDetails || {},
+      message: 'Billing details updated successfully'
+    });
+  } catch (error) {
+    console.error('Update billing details error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
@@ -5,6 +5,10 @@ import { Booking } from '../models/Booking';
 import { User } from '../models/User';
 import { rescheduleNotificationService } from '../services/rescheduleNotificationService';
 import { RefundService } from '../services/refundService';
+import { SlotHoldService } from '../services/slotHoldService';
+import { GroupSessionService } from '../services/groupSessionService';
+import { WaitlistService } from '../services/waitlistService';
+import { CancellationPolicyService } from '../services/cancellationPolicyService';
 
 // Request a reschedule
 export const requestReschedule = async (req: AuthRequest, res: Response): Promise<void> => {
@@ -49,6 +53,15 @@ export const requestReschedule = async (req: AuthRequest, res: Response): Promis
       return;
     }
 
+    // A group seat follows its session's schedule; the mentor reschedules by cancelling the session
+    if (booking.groupSessionId) {
+      res.status(400).json({
+        success: false,
+        error: 'Group session seats cannot be rescheduled individually'
+      });
+      return;
+    }
+
     // Check if there's already a pending reschedule request
     const existingRequest = await RescheduleRequest.findOne({
       bookingId,
@@ -356,35 +369,19 @@ export const cancelBooking = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
-    // Check if booking can be cancelled
-    if (booking.status === 'completed' || booking.status === 'cancelled') {
+    // Determine who cancelled and refund type
+    const isMentor = booking.mentorId.toString() === userId;
+    const cancelledBy = isMentor ? 'mentor' : 'mentee';
+
+    // Check the booking can be cancelled and what its cancellation policy refunds now
+    const preview = CancellationPolicyService.previewCancellation(booking, cancelledBy);
+    if (!preview.cancellable) {
       res.status(400).json({
         success: false,
-        error: 'Booking cannot be cancelled'
+        error: preview.error
       });
       return;
     }
-
-    // Check cancellation time limit (only for paid bookings)
-    if (booking.paymentStatus === 'paid') {
-      const now = new Date();
-      const sessionTime = new Date(booking.scheduledAtUTC);
-      const hoursUntilSession = (sessionTime.getTime() - now.getTime()) / (1000 * 60 * 60);
-      const minimumHours = booking.cancellationPolicy?.minimumCancellationHours || 24;
-
-      if (hoursUntilSession < minimumHours) {
-        res.status(400).json({
-          success: false,
-          error: `Booking cannot be cancelled less than ${minimumHours} hours before the session. You can cancel until ${new Date(sessionTime.getTime() - minimumHours * 60 * 60 * 1000).toLocaleString()}.`
-        });
-        return;
-      }
-    }
-    // For unpaid bookings, allow cancellation at any time
-
-    // Determine who cancelled and refund type
-    const isMentor = booking.mentorId.toString() === userId;
-    const cancelledBy = isMentor ? 'mentor' : 'mentee';
     
     // For mentee cancellations, check if they want refund in tokens or payment method
     const refundType = req.body.refundType || (isMentor ? 'payment_method' : 'tokens');
@@ -394,14 +391,26 @@ export const cancelBooking = async (req: AuthRequest, res: Response): Promise<vo
     booking.notes = booking.notes ? `${booking.notes}\n\nCancelled by user. Reason: ${reason || 'No reason provided'}` : `Cancelled by user. Reason: ${reason || 'No reason provided'}`;
     await booking.save();
 
+    // Free the slot if the booking was still in checkout
+    await SlotHoldService.releaseHolds(booking._id);
+    await GroupSessionService.releaseSeat(booking);
+
+    // Offer the freed slot to the mentor's waitlist
+    try {
+      await WaitlistService.handleBookingCancelled(booking);
+    } catch (waitlistError) {
+      console.error('Error offering freed slot to waitlist:', waitlistError);
+    }
+
     // Process refund
     let refundResult = null;
-    if (booking.paymentStatus === 'paid') {
+    if (booking.paymentStatus === 'paid' && preview.refundAmount > 0) {
       refundResult = await RefundService.processRefund({
         bookingId: bookingId as string,
         refundType: refundType as 'payment_method' | 'tokens',
         reason: reason || 'Booking cancelled',
-        cancelledBy: cancelledBy
+        cancelledBy: cancelledBy,
+        amount: preview.refundAmount
       });
     }
 
@@ -420,6 +429,8 @@ export const cancelBooking = async (req: AuthRequest, res: Response): Promise<vo
       success: true,
       data: booking,
       refund: refundResult,
+      refundAmount: preview.refundAmount,
+      refundPercent: preview.refundPercent,
       message: 'Booking cancelled successfully'
     });
   } catch (error) {
@@ -429,3 +440,50 @@ export const cancelBooking = async (req: AuthRequest, res: Response): Promise<vo
     });
   }
 };
+
+// Preview what cancelling a booking right now would refund
+export const getCancellationPreview = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+    const { bookingId } = req.params;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const booking = await Booking.findById(bookingId);
+    if (!booking) {
+      res.status(404).json({
+        success: false,
+        error: 'Booking not found'
+      });
+      return;
+    }
+
+    if (booking.mentorId.toString() !== userId && booking.studentId.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        error: 'You are not authorized to view this booking'
+      });
+      return;
+    }
+
+    const isMentor = booking.mentorId.toString() === userId;
+    const preview = CancellationPolicyService.previewCancellation(booking, isMentor ? 'mentor' : 'mentee');
+
+    res.json({
+      success: true,
+      data: preview
+    });
+  } catch (error) {
+    console.error('Get cancellation preview error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
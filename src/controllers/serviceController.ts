@@ -3,6 +3,8 @@ import { Service } from '../models/Service';
 import { Review } from '../models/Review';
 import { AuthRequest } from '../types';
 import { sanitizeUser } from '../utils/masking';
+import { GroupSessionService } from '../services/groupSessionService';
+import { CurrencyService } from '../services/currencyService';
 
 // Helper function to calculate average rating for services
 const calculateServiceRatings = async (services: any[]) => {
@@ -42,7 +44,22 @@ export const createService = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
-    const { title, description, category, tags, hourlyRate, duration, images } = req.body;
+    const {
+      title,
+      description,
+      category,
+      tags,
+      hourlyRate,
+      duration,
+      bufferBefore,
+      bufferAfter,
+      minimumNoticeHours,
+      sessionType,
+      maxSeats,
+      seatPrice,
+      currency,
+      images
+    } = req.body;
 
     // Validate required fields
     if (!title || !description || !category || !hourlyRate) {
@@ -53,6 +70,23 @@ export const createService = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
+    const groupError = GroupSessionService.validateGroupSettings({ sessionType, maxSeats, seatPrice });
+    if (groupError) {
+      res.status(400).json({
+        success: false,
+        error: groupError
+      });
+      return;
+    }
+
+    if (currency !== undefined && !CurrencyService.isSupported(currency)) {
+      res.status(400).json({
+        success: false,
+        error: 'Unsupported currency'
+      });
+      return;
+    }
+
     const service = new Service({
       mentorId: userId,
       title,
@@ -61,6 +95,14 @@ export const createService = async (req: AuthRequest, res: Response): Promise<vo
       tags: tags || [],
       hourlyRate: Number(hourlyRate),
       duration: Number(duration) || 60,
+      bufferBefore: Number(bufferBefore) || 0,
+      bufferAfter: Number(bufferAfter) || 0,
+      minimumNoticeHours: Number(minimumNoticeHours) || 0,
+      sessionType: sessionType || 'one_on_one',
+      maxSeats: sessionType === 'group' ? Number(maxSeats) : undefined,
+      seatPrice: sessionType === 'group' ? Number(seatPrice) : undefined,
+      // Priced in the mentor's own currency unless another is given
+      currency: CurrencyService.normalize(currency ?? req.user.currency),
       images: images || []
     });
 
@@ -91,9 +133,18 @@ export const getServices = async (req: Request, res: Response): Promise<void> =>
       page = 1,
       limit = 10,
       sortBy = 'createdAt',
-      sortOrder = 'desc'
+      sortOrder = 'desc',
+      currency
     } = req.query;
 
+    if (currency !== undefined && !CurrencyService.isSupported(currency)) {
+      res.status(400).json({
+        success: false,
+        error: 'Unsupported currency'
+      });
+      return;
+    }
+
     const query: any = { isActive: true };
 
     // Search functionality
@@ -125,7 +176,26 @@ export const getServices = async (req: Request, res: Response): Promise<void> =>
     const total = await Service.countDocuments(query);
 
     // Calculate ratings for each service
-    const servicesWithRatings = await calculateServiceRatings(services);
+    let servicesWithRatings = await calculateServiceRatings(services);
+
+    // Prices shown in the visitor's currency; bookings are still priced in the service's own
+    if (currency) {
+      const displayCurrency = CurrencyService.normalize(currency);
+      const rates = await CurrencyService.getRates();
+      servicesWithRatings = servicesWithRatings.map(service => {
+        const from = CurrencyService.normalize(service.currency);
+        return {
+          ...service,
+          displayPrice: {
+            currency: displayCurrency,
+            hourlyRate: CurrencyService.convertWithRates(service.hourlyRate, from, displayCurrency, rates).amount,
+            seatPrice: service.seatPrice !== undefined
+              ? CurrencyService.convertWithRates(service.seatPrice, from, displayCurrency, rates).amount
+              : undefined
+          }
+        };
+      });
+    }
 
     res.json({
       success: true,
@@ -212,9 +282,37 @@ export const updateService = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
+    // Package offers are priced and validated through their own endpoints
+    const { packages, ...updates } = req.body;
+
+    if (updates.currency !== undefined) {
+      if (!CurrencyService.isSupported(updates.currency)) {
+        res.status(400).json({
+          success: false,
+          error: 'Unsupported currency'
+        });
+        return;
+      }
+      updates.currency = CurrencyService.normalize(updates.currency);
+    }
+
+    // Scheduled group sessions keep the seat count and price they were created with
+    const groupError = GroupSessionService.validateGroupSettings({
+      sessionType: updates.sessionType ?? (updates.maxSeats !== undefined || updates.seatPrice !== undefined ? service.sessionType : undefined),
+      maxSeats: updates.maxSeats ?? service.maxSeats,
+      seatPrice: updates.seatPrice ?? service.seatPrice
+    });
+    if (groupError) {
+      res.status(400).json({
+        success: false,
+        error: groupError
+      });
+      return;
+    }
+
     const updatedService = await Service.findByIdAndUpdate(
       id,
-      req.body,
+      updates,
       { new: true, runValidators: true }
     );
 
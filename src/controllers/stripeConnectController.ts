@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { User } from '../models/User';
 import { StripeService, ConnectAccountParams } from '../services/stripeService';
+import { WebhookService } from '../services/webhookService';
 import { authenticate } from '../middleware/auth';
 
 // Create Stripe Connect account for mentor
@@ -184,6 +185,8 @@ export const createAccountLink = async (req: Request, res: Response): Promise<vo
 
 // Handle Stripe Connect webhook
 export const handleConnectWebhook = async (req: Request, res: Response): Promise<void> => {
+  let event: any;
+
   try {
     const signature = req.headers['stripe-signature'] as string;
     const endpointSecret = process.env.STRIPE_CONNECT_WEBHOOK_SECRET!;
@@ -196,49 +199,28 @@ export const handleConnectWebhook = async (req: Request, res: Response): Promise
       return;
     }
 
-    const event = StripeService.verifyWebhookSignature(
+    event = StripeService.verifyWebhookSignature(
       JSON.stringify(req.body), 
       signature, 
       endpointSecret
     );
-
-    switch (event.type) {
-      case 'account.updated':
-        const account = event.data.object;
-        await User.findOneAndUpdate(
-          { 'stripeConnect.accountId': account.id },
-          {
-            'stripeConnect.accountStatus': account.details_submitted ? 'active' : 'pending',
-            'stripeConnect.onboardingComplete': account.details_submitted,
-            'stripeConnect.payoutsEnabled': account.payouts_enabled,
-            'stripeConnect.chargesEnabled': account.charges_enabled,
-            'stripeConnect.detailsSubmitted': account.details_submitted,
-            'stripeConnect.lastUpdated': new Date()
-          }
-        );
-        break;
-
-      case 'account.application.deauthorized':
-        // Handle account deauthorization
-        await User.findOneAndUpdate(
-          { 'stripeConnect.accountId': event.data.object.id },
-          {
-            'stripeConnect.accountStatus': 'rejected',
-            'stripeConnect.lastUpdated': new Date()
-          }
-        );
-        break;
-
-      default:
-        console.log(`Unhandled event type: ${event.type}`);
-    }
-
-    res.json({ success: true });
   } catch (error) {
     console.error('Error handling Connect webhook:', error);
     res.status(400).json({ 
       success: false, 
       error: 'Webhook signature verification failed' 
     });
+    return;
+  }
+
+  try {
+    const result = await WebhookService.processEvent(event, 'connect');
+    res.json({ success: true, duplicate: result.duplicate });
+  } catch (error) {
+    console.error(`Connect webhook ${event.id} failed:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Webhook processing failed'
+    });
   }
 };
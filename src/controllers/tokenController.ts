@@ -5,7 +5,16 @@ import { TokenTransaction } from '../models/TokenTransaction';
 import { Booking } from '../models/Booking';
 import { AuthRequest } from '../types';
 import { StripeService, CreatePaymentIntentParams } from '../services/stripeService';
-import { ReferralService } from '../services/referralService';
+import { LedgerService } from '../services/ledgerService';
+import { PaymentMethodService } from '../services/paymentMethodService';
+import { TokenPricingService } from '../services/tokenPricingService';
+import { ReceiptService } from '../services/receiptService';
+import {
+  TokenTopUpService,
+  LOW_BALANCE_THRESHOLD,
+  MIN_AUTO_TOP_UP_AMOUNT,
+  MAX_AUTO_TOP_UP_AMOUNT
+} from '../services/tokenTopUpService';
 
 // Get user's token balance and recent transactions
 export const getBalance = async (req: AuthRequest, res: Response): Promise<void> => {
@@ -55,7 +64,7 @@ export const getBalance = async (req: AuthRequest, res: Response): Promise<void>
 export const createTokenTopUpPaymentIntent = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const userId = (req.user as any)?._id;
-    const { amount } = req.body;
+    const { amount, packId, savePaymentMethod } = req.body;
     
     if (!userId) {
       res.status(401).json({
@@ -65,7 +74,7 @@ export const createTokenTopUpPaymentIntent = async (req: AuthRequest, res: Respo
       return;
     }
 
-    if (!amount || amount <= 0) {
+    if (!packId && (!amount || amount <= 0)) {
       res.status(400).json({
         success: false,
         error: 'Invalid amount'
@@ -73,6 +82,16 @@ export const createTokenTopUpPaymentIntent = async (req: AuthRequest, res: Respo
       return;
     }
 
+    // Packs and promotions decide the price and bonus; the quote travels with the payment intent
+    const { quote, error } = await TokenPricingService.quote(userId.toString(), { packId, amount });
+    if (!quote) {
+      res.status(400).json({
+        success: false,
+        error
+      });
+      return;
+    }
+
     const user = await User.findById(userId);
     if (!user) {
       res.status(404).json({
@@ -84,11 +103,21 @@ export const createTokenTopUpPaymentIntent = async (req: AuthRequest, res: Respo
 
     // Create Stripe payment intent
     const paymentIntentParams: CreatePaymentIntentParams = {
-      amount: Math.round(amount * 100), // Convert to cents
+      amount: Math.round(quote.price * 100), // Convert to cents
       currency: 'usd',
       bookingId: `token_topup_${userId}_${Date.now()}`,
       customerEmail: user.email,
-      description: `Mentra Token Top-up - ${amount} tokens`
+      description: `Mentra Token Top-up - ${quote.tokens} tokens${quote.bonusTokens ? ` + ${quote.bonusTokens} bonus` : ''}`,
+      metadata: {
+        tokens: String(quote.tokens),
+        packBonusTokens: String(quote.packBonusTokens),
+        promotionBonusTokens: String(quote.promotionBonusTokens),
+        packId: quote.packId || '',
+        promotionId: quote.promotionId || '',
+        firstPurchase: String(quote.firstPurchase)
+      },
+      customerId: await PaymentMethodService.getOrCreateCustomerId(userId.toString()),
+      savePaymentMethod: !!savePaymentMethod
     };
 
     const paymentIntent = await StripeService.createPaymentIntent(paymentIntentParams);
@@ -98,7 +127,8 @@ export const createTokenTopUpPaymentIntent = async (req: AuthRequest, res: Respo
       data: {
         clientSecret: paymentIntent.clientSecret,
         paymentIntentId: paymentIntent.paymentIntentId,
-        amount: amount
+        amount: quote.price,
+        quote
       }
     });
   } catch (error) {
@@ -114,7 +144,7 @@ export const createTokenTopUpPaymentIntent = async (req: AuthRequest, res: Respo
 export const confirmTokenTopUp = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const userId = (req.user as any)?._id;
-    const { paymentIntentId, amount } = req.body;
+    const { paymentIntentId } = req.body;
     
     if (!userId) {
       res.status(401).json({
@@ -124,10 +154,10 @@ export const confirmTokenTopUp = async (req: AuthRequest, res: Response): Promis
       return;
     }
 
-    if (!paymentIntentId || !amount) {
+    if (!paymentIntentId) {
       res.status(400).json({
         success: false,
-        error: 'Payment intent ID and amount are required'
+        error: 'Payment intent ID is required'
       });
       return;
     }
@@ -143,6 +173,14 @@ export const confirmTokenTopUp = async (req: AuthRequest, res: Response): Promis
       return;
     }
 
+    if (!paymentIntent.metadata?.bookingId?.startsWith(`token_topup_${userId}_`)) {
+      res.status(400).json({
+        success: false,
+        error: 'This payment is not a token top-up for your account'
+      });
+      return;
+    }
+
     const user = await User.findById(userId);
     if (!user) {
       res.status(404).json({
@@ -152,29 +190,40 @@ export const confirmTokenTopUp = async (req: AuthRequest, res: Response): Promis
       return;
     }
 
-    // Update user's token balance
-    const newBalance = user.mentraBalance + amount;
-    await User.findByIdAndUpdate(userId, { mentraBalance: newBalance });
-
-    // Create transaction record
-    const transaction = new TokenTransaction({
-      userId,
-      type: 'credit',
-      amount,
-      description: `Token top-up via Stripe`,
-      reference: `stripe_${paymentIntentId}`
+    // Tokens come from the quote stored on the payment; older top-ups were one token per dollar
+    const metadata = paymentIntent.metadata;
+    const amount = metadata.tokens ? Number(metadata.tokens) : paymentIntent.amount / 100;
+    let bonusTokens = Number(metadata.packBonusTokens || 0);
+    // A first-purchase bonus only holds if no other purchase landed first
+    if (metadata.firstPurchase !== 'true' || await TokenPricingService.isFirstPurchase(userId.toString())) {
+      bonusTokens += Number(metadata.promotionBonusTokens || 0);
+    }
+
+    // Credit the wallet; confirming the same payment twice credits it once
+    const posted = await TokenTopUpService.creditTopUp(userId.toString(), paymentIntentId, amount, {
+      bonusTokens,
+      bonusDescription: `Bonus tokens with top-up of ${amount} tokens`
     });
-    await transaction.save();
 
-    // Record referral earning for token purchase
-    await ReferralService.recordEarning(userId, 'token_purchase', (transaction._id as any).toString(), amount);
+    if (posted.duplicate) {
+      res.status(400).json({
+        success: false,
+        error: 'This payment has already been added to your balance'
+      });
+      return;
+    }
+
+    const transaction = await TokenTransaction.findById(posted.transactionIds[0]);
+    const updatedUser = await User.findById(userId).select('mentraBalance');
+    const newBalance = updatedUser?.mentraBalance || 0;
 
     res.json({
       success: true,
-      message: `Successfully added ${amount} Mentra tokens to your account`,
+      message: `Successfully added ${amount} Mentra tokens${bonusTokens ? ` and ${bonusTokens} bonus tokens` : ''} to your account`,
       data: {
         newBalance,
-        transaction: transaction
+        transaction: transaction,
+        bonusTokens
       }
     });
   } catch (error) {
@@ -279,28 +328,31 @@ export const checkBalance = async (req: AuthRequest, res: Response): Promise<voi
 
 // Deduct tokens for cold message (internal function)
 // Deduct tokens for cold message (internal function)
-export const deductTokens = async (userId: string, amount: number, description: string): Promise<{ success: boolean; transactionId?: string }> => {
+export const deductTokens = async (
+  userId: string,
+  amount: number,
+  description: string,
+  messageId: string
+): Promise<{ success: boolean; transactionId?: string }> => {
   try {
-    const user = await User.findById(userId);
-    if (!user || user.mentraBalance < amount) {
-      return { success: false };
-    }
-
-    // Update balance
-    const newBalance = user.mentraBalance - amount;
-    await User.findByIdAndUpdate(userId, { mentraBalance: newBalance });
-
-    // Create transaction record
-    const transaction = new TokenTransaction({
-      userId,
-      type: 'debit',
-      amount,
+    // Cold message tokens are held in escrow until the message is answered or refunded;
+    // keyed to the message so a retried send debits the wallet once
+    const reference = `cold_message_${messageId}`;
+    const posted = await LedgerService.transfer({
+      idempotencyKey: reference,
+      type: 'cold_message',
       description,
-      reference: `cold_message_${Date.now()}`
+      reference,
+      from: { account: 'user_wallet', userId },
+      to: { account: 'platform_escrow' },
+      amount
     });
-    await transaction.save();
 
-    return { success: true, transactionId: (transaction._id as any).toString() };
+    if (!posted.duplicate) {
+      await ReceiptService.issueForColdMessage(userId, reference, amount, description);
+    }
+    await TokenTopUpService.afterDebit(userId);
+    return { success: true, transactionId: posted.transactionIds[0] };
   } catch (error) {
     console.error('Deduct tokens error:', error);
     return { success: false };
@@ -370,3 +422,189 @@ export const getTotalSpend = async (req: AuthRequest, res: Response): Promise<vo
     });
   }
 };
+
+// Get the user's auto-top-up rule
+export const getAutoTopUp = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const settings = await TokenTopUpService.getAutoTopUp(userId.toString());
+    if (!settings) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...settings,
+        lowBalanceThreshold: LOW_BALANCE_THRESHOLD
+      }
+    });
+  } catch (error) {
+    console.error('Get auto top-up error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Set up, change or turn off the user's auto-top-up rule
+export const updateAutoTopUp = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+    const { enabled, threshold, amount, paymentMethodId } = req.body;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    if (typeof enabled !== 'boolean') {
+      res.status(400).json({
+        success: false,
+        error: 'enabled must be true or false'
+      });
+      return;
+    }
+
+    if (typeof threshold !== 'number' || threshold < 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Threshold must be a non-negative number of tokens'
+      });
+      return;
+    }
+
+    if (typeof amount !== 'number' || amount < MIN_AUTO_TOP_UP_AMOUNT || amount > MAX_AUTO_TOP_UP_AMOUNT) {
+      res.status(400).json({
+        success: false,
+        error: `Top-up amount must be between ${MIN_AUTO_TOP_UP_AMOUNT} and ${MAX_AUTO_TOP_UP_AMOUNT} tokens`
+      });
+      return;
+    }
+
+    // Auto top-ups need a saved card to charge
+    if (enabled) {
+      const paymentMethods = await PaymentMethodService.listPaymentMethods(userId.toString());
+      if (paymentMethods.length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Save a card before turning on auto top-up'
+        });
+        return;
+      }
+
+      if (paymentMethodId && !paymentMethods.some(method => method.id === paymentMethodId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Payment method not found'
+        });
+        return;
+      }
+    }
+
+    await TokenTopUpService.updateAutoTopUp(userId.toString(), { enabled, threshold, amount, paymentMethodId });
+
+    res.json({
+      success: true,
+      message: enabled ? 'Auto top-up turned on' : 'Auto top-up turned off',
+      data: await TokenTopUpService.getAutoTopUp(userId.toString())
+    });
+  } catch (error) {
+    console.error('Update auto top-up error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// List top-up packs with the bonus the student would get right now
+export const getTokenPacks = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const packs = await TokenPricingService.listPacks(userId.toString());
+
+    res.json({
+      success: true,
+      data: {
+        packs: packs.map(({ pack, quote }) => ({
+          id: pack._id,
+          name: pack.name,
+          description: pack.description,
+          ...quote
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Get token packs error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Price a pack or custom amount before checkout
+export const getTokenQuote = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+    const { packId, amount } = req.query;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const { quote, error } = await TokenPricingService.quote(userId.toString(), {
+      packId: packId as string | undefined,
+      amount: amount !== undefined ? Number(amount) : undefined
+    });
+    if (!quote) {
+      res.status(400).json({
+        success: false,
+        error
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: quote
+    });
+  } catch (error) {
+    console.error('Get token quote error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
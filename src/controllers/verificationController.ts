@@ -11,6 +11,7 @@ const generateVerificationToken = (): string => {
 
 import { StripeService } from '../services/stripeService';
 import VerificationRequest from '../models/VerificationRequest';
+import { ReceiptService } from '../services/receiptService';
 
 // Initialize verification request (create payment intent)
 export const initializeVerification = async (req: AuthRequest, res: Response): Promise<void> => {
@@ -111,6 +112,7 @@ export const verifyVerificationPayment = async (req: AuthRequest, res: Response)
       }
 
       await request.save();
+      await ReceiptService.issueForVerificationFee(userId.toString(), paymentIntentId);
 
       res.json({
         success: true,
@@ -2,6 +2,8 @@ import { Request, Response } from 'express';
 import mongoose from 'mongoose';
 import VideoCall, { IVideoCallDocument } from '../models/VideoCall';
 import { Booking } from '../models/Booking';
+import { GroupSession } from '../models/GroupSession';
+import { User } from '../models/User';
 import dailyService from '../services/dailyService';
 import { AuthRequest } from '../types';
 
@@ -57,6 +59,66 @@ export const createVideoCallRoom = async (req: AuthRequest, res: Response): Prom
       return;
     }
 
+    // Group seats share one room for the whole session
+    if (booking.groupSessionId) {
+      const groupSession = await GroupSession.findById(booking.groupSessionId);
+      if (!groupSession || groupSession.status !== 'scheduled') {
+        res.status(400).json({ success: false, error: 'Group session is no longer scheduled' });
+        return;
+      }
+
+      let groupCall = await VideoCall.findOne({ groupSessionId: groupSession._id });
+      if (!groupCall) {
+        const timestamp = Date.now();
+        const randomStr = Math.random().toString(36).substring(2, 8);
+        const dailyRoom = await dailyService.createRoom(`mentr-${groupSession._id}-${timestamp}-${randomStr}`, {
+          max_participants: groupSession.maxSeats + 1, // every attendee plus the mentor
+          enable_recording: 'cloud',
+          enable_transcription: true,
+          enable_chat: true,
+          enable_screenshare: true,
+          enable_knocking: false,
+          enable_prejoin_ui: true,
+        }, groupSession.duration, new Date(groupSession.scheduledAt));
+
+        try {
+          groupCall = await VideoCall.create({
+            groupSessionId: groupSession._id,
+            roomName: dailyRoom.name,
+            roomUrl: dailyRoom.url,
+            mentorId: groupSession.mentorId,
+            attendeeIds: [],
+            scheduledAt: groupSession.scheduledAt,
+            status: 'scheduled',
+          });
+        } catch (createError: any) {
+          // Another attendee created the room first; use theirs
+          if (createError?.code !== 11000) {
+            throw createError;
+          }
+          await dailyService.deleteRoom(dailyRoom.name);
+          groupCall = await VideoCall.findOne({ groupSessionId: groupSession._id });
+        }
+      }
+
+      if (isStudent && groupCall) {
+        groupCall = await VideoCall.findByIdAndUpdate(
+          groupCall._id,
+          { $addToSet: { attendeeIds: booking.studentId._id } },
+          { new: true }
+        );
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          videoCall: groupCall,
+          roomUrl: groupCall?.roomUrl,
+        },
+      });
+      return;
+    }
+
     // Check if video call already exists
     let videoCall = await VideoCall.findOne({ bookingId });
 
@@ -135,8 +197,12 @@ export const getVideoCallByBooking = async (req: AuthRequest, res: Response): Pr
       return;
     }
 
+    // Group seats resolve to their session's shared call
+    const booking = await Booking.findById(bookingId).select('groupSessionId');
+    const callQuery = booking?.groupSessionId ? { groupSessionId: booking.groupSessionId } : { bookingId };
+
     // Find video call by booking ID
-    const videoCall = await VideoCall.findOne({ bookingId })
+    const videoCall = await VideoCall.findOne(callQuery)
       .populate('mentorId', 'firstName lastName profileImage')
       .populate('studentId', 'firstName lastName profileImage');
 
@@ -146,13 +212,7 @@ export const getVideoCallByBooking = async (req: AuthRequest, res: Response): Pr
     }
 
     // Verify user has access to this video call
-    const mentorId = (videoCall.mentorId as any)?._id?.toString() || videoCall.mentorId.toString();
-    const studentId = (videoCall.studentId as any)?._id?.toString() || videoCall.studentId.toString();
-    
-    const isMentor = mentorId === userId;
-    const isStudent = studentId === userId;
-
-    if (!isMentor && !isStudent) {
+    if (!videoCall.isParticipant(userId)) {
       res.status(403).json({ success: false, error: 'Access denied' });
       return;
     }
@@ -237,14 +297,19 @@ export const generateMeetingToken = async (req: AuthRequest, res: Response): Pro
       return;
     }
 
+    const isMentor = videoCall.mentorId._id.toString() === userId;
+
     // CRITICAL: Check payment status before allowing meeting token generation
-    const booking = await Booking.findById(videoCall.bookingId);
-    if (!booking) {
+    // In group calls each attendee is checked against their own seat booking; the mentor has none
+    const booking = videoCall.groupSessionId
+      ? (isMentor ? null : await Booking.findOne({ groupSessionId: videoCall.groupSessionId, studentId: userId, status: { $ne: 'cancelled' } }))
+      : await Booking.findById(videoCall.bookingId);
+    if (!booking && !(videoCall.groupSessionId && isMentor)) {
       res.status(404).json({ success: false, error: 'Associated booking not found' });
       return;
     }
 
-    if (booking.paymentStatus !== 'paid') {
+    if (booking && booking.paymentStatus !== 'paid') {
       res.status(403).json({ 
         success: false, 
         error: 'Payment required. Please complete payment before joining the video call.',
@@ -254,6 +319,12 @@ export const generateMeetingToken = async (req: AuthRequest, res: Response): Pro
       return;
     }
 
+    // A paid attendee who has not opened the room yet is admitted on their seat booking
+    if (videoCall.groupSessionId && booking && !videoCall.isParticipant(userId)) {
+      await VideoCall.updateOne({ _id: videoCall._id }, { $addToSet: { attendeeIds: booking.studentId } });
+      videoCall.attendeeIds.push(booking.studentId);
+    }
+
     // Verify user can join
     if (!(videoCall as any).canJoin(userId)) {
       res.status(403).json({ success: false, error: 'Cannot join this call' });
@@ -261,8 +332,9 @@ export const generateMeetingToken = async (req: AuthRequest, res: Response): Pro
     }
 
     // Determine user role and name
-    const isMentor = videoCall.mentorId._id.toString() === userId;
-    const user = isMentor ? videoCall.mentorId : videoCall.studentId;
+    const user = isMentor
+      ? videoCall.mentorId
+      : (videoCall.groupSessionId ? await User.findById(userId).select('firstName lastName') : videoCall.studentId);
     const userName = `${(user as any).firstName} ${(user as any).lastName}`;
 
     // Generate meeting token
@@ -357,6 +429,12 @@ export const endVideoCall = async (req: AuthRequest, res: Response): Promise<voi
       return;
     }
 
+    // Attendees leaving a group call must not end it for everyone else
+    if (videoCall.groupSessionId && videoCall.mentorId.toString() !== userId) {
+      res.status(403).json({ success: false, error: 'Only the mentor can end a group session call' });
+      return;
+    }
+
     // Update call status
     videoCall.status = 'completed';
     videoCall.endedAt = new Date();
@@ -399,6 +477,7 @@ export const getUserVideoCalls = async (req: AuthRequest, res: Response): Promis
       $or: [
         { mentorId: userId },
         { studentId: userId },
+        { attendeeIds: userId },
       ],
     };
 
@@ -0,0 +1,221 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import { WaitlistEntry } from '../models/WaitlistEntry';
+import { AvailabilityService } from '../services/availabilityService';
+import { WaitlistService } from '../services/waitlistService';
+
+// Load a waitlist entry owned by the current student
+const findOwnedEntry = async (entryId: string, userId: string) => {
+  const entry = await WaitlistEntry.findById(entryId);
+  if (!entry || entry.studentId.toString() !== userId) {
+    return { status: 404, error: 'Waitlist entry not found' };
+  }
+
+  return { entry };
+};
+
+// Join a mentor's waitlist for a service within a preferred date range
+export const joinWaitlist = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+    const { serviceId, preferredFrom, preferredTo, studentTimezone } = req.body;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    if (!serviceId || !preferredFrom || !preferredTo) {
+      res.status(400).json({
+        success: false,
+        error: 'serviceId, preferredFrom and preferredTo are required'
+      });
+      return;
+    }
+
+    const from = new Date(preferredFrom);
+    const to = new Date(preferredTo);
+    const rangeError = WaitlistService.validateRange(from, to);
+    if (rangeError) {
+      res.status(400).json({
+        success: false,
+        error: rangeError
+      });
+      return;
+    }
+
+    const lookup = await WaitlistService.getWaitlistService(serviceId, userId);
+    if (!lookup.service) {
+      res.status(400).json({
+        success: false,
+        error: lookup.error
+      });
+      return;
+    }
+
+    const existing = await WaitlistEntry.findOne({
+      studentId: userId,
+      serviceId,
+      status: { $in: ['waiting', 'offered'] }
+    });
+    if (existing) {
+      res.status(400).json({
+        success: false,
+        error: 'You are already on the waitlist for this service'
+      });
+      return;
+    }
+
+    const entry = await WaitlistEntry.create({
+      studentId: userId,
+      mentorId: lookup.service.mentorId,
+      serviceId,
+      preferredFrom: from,
+      preferredTo: to,
+      studentTimezone: AvailabilityService.resolveTimezone(studentTimezone)
+    });
+
+    res.status(201).json({
+      success: true,
+      data: entry,
+      message: 'Added to the waitlist'
+    });
+  } catch (error) {
+    console.error('Join waitlist error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// List the student's waitlist entries, or the waitlist for a mentor's own services
+export const getWaitlistEntries = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const { role, status } = req.query;
+
+    const query: any = role === 'mentor' ? { mentorId: userId } : { studentId: userId };
+    query.status = status || { $in: ['waiting', 'offered'] };
+
+    const entries = await WaitlistEntry.find(query)
+      .populate([
+        { path: 'serviceId', select: 'title duration' },
+        { path: 'mentorId', select: 'firstName lastName profileImage' },
+        { path: 'studentId', select: 'firstName lastName' }
+      ])
+      .sort({ createdAt: 1 });
+
+    res.json({
+      success: true,
+      data: entries
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Turn down a held slot so it goes to the next student; the entry keeps waiting
+export const declineWaitlistOffer = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const lookup = await findOwnedEntry(req.params.entryId as string, userId);
+    if (!lookup.entry) {
+      res.status(lookup.status).json({
+        success: false,
+        error: lookup.error
+      });
+      return;
+    }
+
+    if (lookup.entry.status !== 'offered') {
+      res.status(400).json({
+        success: false,
+        error: 'There is no open offer on this waitlist entry'
+      });
+      return;
+    }
+
+    await WaitlistService.declineOffer(lookup.entry);
+
+    res.json({
+      success: true,
+      message: 'Offer declined; you remain on the waitlist'
+    });
+  } catch (error) {
+    console.error('Decline waitlist offer error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
+
+// Leave the waitlist
+export const leaveWaitlist = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id?.toString();
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+      return;
+    }
+
+    const lookup = await findOwnedEntry(req.params.entryId as string, userId);
+    if (!lookup.entry) {
+      res.status(lookup.status).json({
+        success: false,
+        error: lookup.error
+      });
+      return;
+    }
+
+    if (lookup.entry.status !== 'waiting' && lookup.entry.status !== 'offered') {
+      res.status(400).json({
+        success: false,
+        error: 'This waitlist entry is no longer active'
+      });
+      return;
+    }
+
+    await WaitlistService.leave(lookup.entry);
+
+    res.json({
+      success: true,
+      message: 'Removed from the waitlist'
+    });
+  } catch (error) {
+    console.error('Leave waitlist error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+};
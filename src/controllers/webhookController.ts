@@ -31,77 +31,12 @@ export class WebhookController {
         return;
       }
 
-      // Handle the event
-      switch (event.type) {
-        case 'payment_intent.created':
-          WebhookService.logWebhookEvent(event.type, event.id, event.data.object, true);
-          break;
+      // Stored by event id, so a redelivered event is only acted on once
+      const result = await WebhookService.processEvent(event, 'platform');
 
-        case 'payment_intent.succeeded':
-          await WebhookService.processPaymentIntentSucceeded(event.data.object);
-          WebhookService.logWebhookEvent(event.type, event.id, event.data.object, true);
-          break;
-
-        case 'payment_intent.payment_failed':
-          await WebhookService.processPaymentIntentFailed(event.data.object);
-          WebhookService.logWebhookEvent(event.type, event.id, event.data.object, true);
-          break;
-
-        case 'charge.succeeded':
-          WebhookService.logWebhookEvent(event.type, event.id, event.data.object, true);
-          break;
-
-        case 'charge.updated':
-          WebhookService.logWebhookEvent(event.type, event.id, event.data.object, true);
-          break;
-
-        case 'transfer.created':
-          await WebhookService.processTransferCreated(event.data.object);
-          WebhookService.logWebhookEvent(event.type, event.id, event.data.object, true);
-          break;
-
-        case 'transfer.failed' as any:
-          await WebhookService.processTransferFailed((event as any).data.object);
-          WebhookService.logWebhookEvent((event as any).type, (event as any).id, (event as any).data.object, true);
-          break;
-
-        case 'account.updated':
-          await WebhookService.processAccountUpdated(event.data.object);
-          WebhookService.logWebhookEvent(event.type, event.id, event.data.object, true);
-          break;
-
-        case 'account.application.deauthorized':
-          await WebhookService.processAccountDeauthorized(event.data.object);
-          WebhookService.logWebhookEvent(event.type, event.id, event.data.object, true);
-          break;
-
-        case 'invoice.payment_succeeded':
-          WebhookService.logWebhookEvent(event.type, event.id, event.data.object, true);
-          break;
-
-        case 'invoice.payment_failed':
-          WebhookService.logWebhookEvent(event.type, event.id, event.data.object, true);
-          break;
-
-        case 'customer.subscription.created':
-          WebhookService.logWebhookEvent(event.type, event.id, event.data.object, true);
-          break;
-
-        case 'customer.subscription.updated':
-          WebhookService.logWebhookEvent(event.type, event.id, event.data.object, true);
-          break;
-
-        case 'customer.subscription.deleted':
-          WebhookService.logWebhookEvent(event.type, event.id, event.data.object, true);
-          break;
-
-        default:
-          WebhookService.logWebhookEvent(event.type, event.id, event.data.object, true);
-      }
-
-      res.json({ received: true });
+      res.json({ received: true, duplicate: result.duplicate });
     } catch (error) {
-      WebhookService.logWebhookEvent((event as any).type, (event as any).id, (event as any).data.object, false, (error as Error).message);
+      console.error(`Stripe webhook ${event.id} failed:`, error);
       res.status(500).json({ error: 'Webhook processing failed' });
     }
   }
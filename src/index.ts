@@ -38,6 +38,14 @@ import noteRoutes from './routes/notes';
 import reportRoutes from './routes/reports';
 import supportRoutes from './routes/support';
 import broadcastRoutes from './routes/broadcast';
+import calendarRoutes from './routes/calendar';
+import bookingSeriesRoutes from './routes/bookingSeries';
+import packageRoutes from './routes/packages';
+import couponRoutes from './routes/coupons';
+import giftCardRoutes from './routes/giftCards';
+import receiptRoutes from './routes/receipts';
+import groupSessionRoutes from './routes/groupSessions';
+import waitlistRoutes from './routes/waitlist';
 import { CronService } from './services/cronService';
 import { NoteCleanupService } from './services/noteCleanupService';
 import { globalLimiter } from './middleware/rateLimit';
@@ -129,6 +137,13 @@ app.use('/api/auth', authRoutes);
 app.use('/api/profile', profileRoutes);
 app.use('/api/services', serviceRoutes);
 app.use('/api/bookings', bookingRoutes);
+app.use('/api/booking-series', bookingSeriesRoutes);
+app.use('/api/packages', packageRoutes);
+app.use('/api/coupons', couponRoutes);
+app.use('/api/gift-cards', giftCardRoutes);
+app.use('/api/receipts', receiptRoutes);
+app.use('/api/group-sessions', groupSessionRoutes);
+app.use('/api/waitlist', waitlistRoutes);
 app.use('/api/payments', paymentRoutes);
 app.use('/api/messages', messageRoutes);
 app.use('/api/video-calls', videoCallRoutes);
@@ -152,6 +167,7 @@ app.use('/api/notes', noteRoutes);
 app.use('/api/reports', reportRoutes);
 app.use('/api/support', supportRoutes);
 app.use('/api/broadcast', broadcastRoutes);
+app.use('/api/calendar', calendarRoutes);
 app.use('/api', vcsRoutes);
 
 // 404 handler
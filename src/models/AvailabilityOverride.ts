@@ -0,0 +1,59 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IAvailabilityOverride extends Document {
+  mentorId: mongoose.Types.ObjectId;
+  type: 'extra' | 'blackout' | 'time_off';
+  startDate: string; // yyyy-MM-dd in the mentor's timezone
+  endDate: string; // yyyy-MM-dd in the mentor's timezone (inclusive)
+  startTime?: string; // HH:mm, only for extra windows
+  endTime?: string; // HH:mm, only for extra windows
+  reason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_REGEX = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+const AvailabilityOverrideSchema = new Schema<IAvailabilityOverride>({
+  mentorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['extra', 'blackout', 'time_off'],
+    required: true
+  },
+  startDate: {
+    type: String,
+    required: true,
+    match: DATE_REGEX
+  },
+  endDate: {
+    type: String,
+    required: true,
+    match: DATE_REGEX
+  },
+  startTime: {
+    type: String,
+    match: TIME_REGEX
+  },
+  endTime: {
+    type: String,
+    match: TIME_REGEX
+  },
+  reason: {
+    type: String,
+    maxlength: 200
+  }
+}, {
+  timestamps: true
+});
+
+// Index for range lookups during slot computation
+AvailabilityOverrideSchema.index({ mentorId: 1, startDate: 1, endDate: 1 });
+
+export const AvailabilityOverride = mongoose.model<IAvailabilityOverride>('AvailabilityOverride', AvailabilityOverrideSchema);
+export default AvailabilityOverride;
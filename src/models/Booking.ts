@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { CancellationPolicyPreset, CouponAbsorption, CurrencyCode, EscrowStatus, ICancellationTier } from '../types';
 
 export interface IBooking extends Document {
   serviceId: mongoose.Types.ObjectId;
@@ -11,8 +12,30 @@ export interface IBooking extends Document {
   duration: number; // in minutes
   status: 'pending' | 'confirmed' | 'completed' | 'cancelled' | 'reviewable' | 'reviewed';
   paymentStatus: 'pending' | 'paid' | 'refunded';
-  paymentMethod: 'stripe' | 'tokens';
-  amount: number;
+  paymentMethod: 'stripe' | 'tokens' | 'package';
+  escrowStatus?: EscrowStatus; // Changed only through EscrowService; unset on bookings that predate it
+  amount: number; // For package redemptions, the redeemed value of one credit; after any coupon discount
+  // Price in the service's currency at booking time; amount is its conversion to the settlement currency
+  price?: {
+    currency: CurrencyCode;
+    amount: number;
+    fxRate: number; // Units of the currency per settlement unit
+  };
+  // What the student is charged by card, in their currency; refunds are converted back at this rate
+  charge?: {
+    currency: CurrencyCode;
+    amount: number;
+    fxRate: number;
+  };
+  // Coupon applied at checkout, kept so commission can account for the discount
+  discount?: {
+    couponId: mongoose.Types.ObjectId;
+    code: string;
+    amount: number; // Taken off the price
+    originalAmount: number; // Price before the discount
+    absorbedBy: CouponAbsorption;
+  };
+  packagePurchaseId?: mongoose.Types.ObjectId; // Set when the booking was paid with a package credit
   // Commission and payout tracking
   platformCommission?: number;
   mentorPayout?: number;
@@ -21,22 +44,35 @@ export interface IBooking extends Document {
   payoutDate?: Date;
   disputePeriodEnds?: Date;
   stripeTransferId?: string;
+  payoutBatchId?: mongoose.Types.ObjectId; // Set when paid out as part of a batch
   stripePaymentIntentId?: string;
   meetingUrl?: string;
   notes?: string;
+  calendarSequence: number; // iCalendar SEQUENCE, bumped whenever the event changes
+  seriesId?: mongoose.Types.ObjectId; // Set when the booking is one occurrence of a BookingSeries
+  seriesIndex?: number; // Zero-based position within the series
+  paymentDueAt?: Date; // Series occurrences that are unpaid by this time are charged or cancelled
+  paymentReminderSentAt?: Date;
+  groupSessionId?: mongoose.Types.ObjectId; // Set when the booking is one attendee's seat in a GroupSession
   cancellationPolicy: {
-    minimumCancellationHours: number; // Hours before session when cancellation is no longer allowed
+    minimumCancellationHours: number; // Hours before session when cancellation is no longer allowed (bookings without tiers)
+    preset?: CancellationPolicyPreset;
+    tiers?: ICancellationTier[]; // Refund schedule in force at booking time, most generous first
     mentorId: mongoose.Types.ObjectId; // Reference to mentor who set this policy
     setAt: Date; // When this policy was set (at booking time)
   };
+  // Summary of the booking's BookingRefund entries, kept in sync by RefundService
   refund?: {
     status: 'none' | 'pending' | 'processed' | 'failed';
-    type: 'payment_method' | 'tokens';
-    amount: number;
-    stripeRefundId?: string;
+    type: 'payment_method' | 'tokens' | 'package_credit'; // Latest refund's destination
+    amount: number; // Total refunded so far
+    count?: number; // Number of processed refunds
+    stripeRefundId?: string; // Latest Stripe refund
     processedAt?: Date;
     reason?: string;
   };
+  refundReserved?: number; // Pending and processed refunds; claimed atomically before any money moves
+  escrowReconciliationRequired?: boolean; // A refund moved money but the escrow state couldn't follow
   createdAt: Date;
   updatedAt: Date;
 }
@@ -93,14 +129,71 @@ const BookingSchema = new Schema<IBooking>({
   },
   paymentMethod: {
     type: String,
-    enum: ['stripe', 'tokens'],
+    enum: ['stripe', 'tokens', 'package'],
     default: 'stripe'
   },
+  packagePurchaseId: {
+    type: Schema.Types.ObjectId,
+    ref: 'PackagePurchase'
+  },
+  escrowStatus: {
+    type: String,
+    enum: ['none', 'authorized', 'voided', 'captured', 'held', 'released', 'partially_refunded', 'refunded', 'disputed']
+  },
   amount: {
     type: Number,
     required: true,
     min: 0
   },
+  price: {
+    currency: {
+      type: String,
+      enum: ['usd', 'eur', 'gbp', 'inr']
+    },
+    amount: {
+      type: Number,
+      min: 0
+    },
+    fxRate: {
+      type: Number,
+      min: 0
+    }
+  },
+  charge: {
+    currency: {
+      type: String,
+      enum: ['usd', 'eur', 'gbp', 'inr']
+    },
+    amount: {
+      type: Number,
+      min: 0
+    },
+    fxRate: {
+      type: Number,
+      min: 0
+    }
+  },
+  discount: {
+    couponId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Coupon'
+    },
+    code: {
+      type: String
+    },
+    amount: {
+      type: Number,
+      min: 0
+    },
+    originalAmount: {
+      type: Number,
+      min: 0
+    },
+    absorbedBy: {
+      type: String,
+      enum: ['shared', 'platform', 'mentor']
+    }
+  },
   // Commission and payout tracking
   platformCommission: {
     type: Number,
@@ -128,6 +221,10 @@ const BookingSchema = new Schema<IBooking>({
   stripeTransferId: {
     type: String
   },
+  payoutBatchId: {
+    type: Schema.Types.ObjectId,
+    ref: 'PayoutBatch'
+  },
   stripePaymentIntentId: {
     type: String
   },
@@ -138,6 +235,29 @@ const BookingSchema = new Schema<IBooking>({
     type: String,
     maxlength: 1000
   },
+  calendarSequence: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  seriesId: {
+    type: Schema.Types.ObjectId,
+    ref: 'BookingSeries'
+  },
+  seriesIndex: {
+    type: Number,
+    min: 0
+  },
+  paymentDueAt: {
+    type: Date
+  },
+  paymentReminderSentAt: {
+    type: Date
+  },
+  groupSessionId: {
+    type: Schema.Types.ObjectId,
+    ref: 'GroupSession'
+  },
   cancellationPolicy: {
     minimumCancellationHours: {
       type: Number,
@@ -145,6 +265,18 @@ const BookingSchema = new Schema<IBooking>({
       min: 1,
       max: 168 // Max 1 week
     },
+    preset: {
+      type: String,
+      enum: ['flexible', 'moderate', 'strict', 'custom']
+    },
+    tiers: {
+      type: [{
+        _id: false,
+        hoursBefore: { type: Number, min: 0, max: 720, required: true },
+        refundPercent: { type: Number, min: 0, max: 100, required: true }
+      }],
+      default: undefined
+    },
     mentorId: {
       type: Schema.Types.ObjectId,
       ref: 'User',
@@ -164,12 +296,16 @@ const BookingSchema = new Schema<IBooking>({
     },
     type: {
       type: String,
-      enum: ['payment_method', 'tokens']
+      enum: ['payment_method', 'tokens', 'package_credit']
     },
     amount: {
       type: Number,
       min: 0
     },
+    count: {
+      type: Number,
+      min: 0
+    },
     stripeRefundId: {
       type: String
     },
@@ -179,6 +315,13 @@ const BookingSchema = new Schema<IBooking>({
     reason: {
       type: String
     }
+  },
+  refundReserved: {
+    type: Number,
+    min: 0
+  },
+  escrowReconciliationRequired: {
+    type: Boolean
   }
 }, {
   timestamps: true
@@ -190,5 +333,9 @@ BookingSchema.index({ studentId: 1, scheduledAt: 1 });
 BookingSchema.index({ serviceId: 1 });
 BookingSchema.index({ status: 1 });
 BookingSchema.index({ paymentStatus: 1 });
+BookingSchema.index({ seriesId: 1, seriesIndex: 1 });
+BookingSchema.index({ status: 1, paymentDueAt: 1 });
+BookingSchema.index({ groupSessionId: 1, studentId: 1 });
+BookingSchema.index({ escrowReconciliationRequired: 1 }, { sparse: true });
 
 export const Booking = mongoose.model<IBooking>('Booking', BookingSchema);
@@ -0,0 +1,97 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// One refund against a booking; a booking can be refunded in several parts
+export interface IBookingRefund extends Document {
+  bookingId: mongoose.Types.ObjectId;
+  studentId: mongoose.Types.ObjectId;
+  mentorId: mongoose.Types.ObjectId;
+  amount: number;
+  type: 'payment_method' | 'tokens' | 'package_credit';
+  status: 'pending' | 'processed' | 'failed';
+  reason: string;
+  cancelledBy: 'mentor' | 'mentee';
+  stripeRefundId?: string;
+  tokenTransactionId?: mongoose.Types.ObjectId;
+  failureReason?: string;
+  escrowError?: string; // Set when the refund went through but the escrow transition failed
+  // How much this refund took off the booking's commission split and the referrer's earning
+  adjustments?: {
+    platformCommission: number;
+    mentorPayout: number;
+    referralCommission: number;
+  };
+  processedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BookingRefundSchema = new Schema<IBookingRefund>({
+  bookingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking',
+    required: true
+  },
+  studentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  mentorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  type: {
+    type: String,
+    enum: ['payment_method', 'tokens', 'package_credit'],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'processed', 'failed'],
+    default: 'pending'
+  },
+  reason: {
+    type: String,
+    required: true
+  },
+  cancelledBy: {
+    type: String,
+    enum: ['mentor', 'mentee'],
+    required: true
+  },
+  stripeRefundId: {
+    type: String
+  },
+  tokenTransactionId: {
+    type: Schema.Types.ObjectId,
+    ref: 'TokenTransaction'
+  },
+  failureReason: {
+    type: String
+  },
+  escrowError: {
+    type: String
+  },
+  adjustments: {
+    platformCommission: { type: Number, default: 0 },
+    mentorPayout: { type: Number, default: 0 },
+    referralCommission: { type: Number, default: 0 }
+  },
+  processedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+BookingRefundSchema.index({ bookingId: 1, createdAt: 1 });
+BookingRefundSchema.index({ studentId: 1, createdAt: -1 });
+
+export const BookingRefund = mongoose.model<IBookingRefund>('BookingRefund', BookingRefundSchema);
+export default BookingRefund;
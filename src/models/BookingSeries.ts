@@ -0,0 +1,130 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IBookingSeries extends Document {
+  serviceId: mongoose.Types.ObjectId;
+  mentorId: mongoose.Types.ObjectId;
+  studentId: mongoose.Types.ObjectId;
+  frequency: 'weekly' | 'biweekly';
+  occurrenceCount: number;
+  firstScheduledAtUTC: Date;
+  mentorTimezone: string; // Occurrences keep the same wall-clock time in this timezone
+  studentTimezone: string;
+  duration: number; // in minutes
+  amountPerOccurrence: number;
+  totalAmount: number;
+  billingMode: 'upfront' | 'per_occurrence';
+  paymentMethod: 'stripe' | 'tokens';
+  paymentStatus: 'pending' | 'paid'; // Upfront series only; per-occurrence payment is tracked on each booking
+  status: 'pending' | 'active' | 'cancelled';
+  stripePaymentIntentId?: string;
+  notes?: string;
+  cancelledBy?: 'mentor' | 'mentee';
+  cancelledAt?: Date;
+  cancellationReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BookingSeriesSchema = new Schema<IBookingSeries>({
+  serviceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Service',
+    required: true
+  },
+  mentorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  studentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  frequency: {
+    type: String,
+    enum: ['weekly', 'biweekly'],
+    required: true
+  },
+  occurrenceCount: {
+    type: Number,
+    required: true,
+    min: 2,
+    max: 26
+  },
+  firstScheduledAtUTC: {
+    type: Date,
+    required: true
+  },
+  mentorTimezone: {
+    type: String,
+    required: true,
+    default: 'UTC'
+  },
+  studentTimezone: {
+    type: String,
+    required: true,
+    default: 'UTC'
+  },
+  duration: {
+    type: Number,
+    required: true,
+    min: 15,
+    max: 480
+  },
+  amountPerOccurrence: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  totalAmount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  billingMode: {
+    type: String,
+    enum: ['upfront', 'per_occurrence'],
+    required: true
+  },
+  paymentMethod: {
+    type: String,
+    enum: ['stripe', 'tokens'],
+    default: 'stripe'
+  },
+  paymentStatus: {
+    type: String,
+    enum: ['pending', 'paid'],
+    default: 'pending'
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'active', 'cancelled'],
+    default: 'pending'
+  },
+  stripePaymentIntentId: {
+    type: String
+  },
+  notes: {
+    type: String,
+    maxlength: 1000
+  },
+  cancelledBy: {
+    type: String,
+    enum: ['mentor', 'mentee']
+  },
+  cancelledAt: {
+    type: Date
+  },
+  cancellationReason: {
+    type: String
+  }
+}, {
+  timestamps: true
+});
+
+BookingSeriesSchema.index({ mentorId: 1, status: 1 });
+BookingSeriesSchema.index({ studentId: 1, status: 1 });
+
+export const BookingSeries = mongoose.model<IBookingSeries>('BookingSeries', BookingSeriesSchema);
+export default BookingSeries;
@@ -0,0 +1,23 @@
+import mongoose, { Schema } from 'mongoose';
+
+// Named sequence, e.g. for receipt numbers; incremented atomically with $inc
+export interface ICounter {
+  _id: string;
+  seq: number;
+}
+
+const CounterSchema = new Schema<ICounter>({
+  _id: {
+    type: String,
+    required: true
+  },
+  seq: {
+    type: Number,
+    default: 0
+  }
+}, {
+  versionKey: false
+});
+
+export const Counter = mongoose.model<ICounter>('Counter', CounterSchema);
+export default Counter;
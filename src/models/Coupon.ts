@@ -0,0 +1,118 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { CouponAbsorption } from '../types';
+
+export type CouponIssuer = 'admin' | 'mentor';
+export type CouponDiscountType = 'percent' | 'fixed';
+
+// A promo code students enter at checkout for money off a booking
+export interface ICoupon extends Document {
+  code: string; // Stored uppercase; matched case-insensitively
+  description?: string;
+  issuedBy: CouponIssuer;
+  mentorId?: mongoose.Types.ObjectId; // Mentor-issued codes only apply to this mentor's bookings
+  createdBy: mongoose.Types.ObjectId;
+  discountType: CouponDiscountType;
+  discountValue: number; // Percent off, or a fixed amount off
+  serviceIds: mongoose.Types.ObjectId[]; // Empty applies to every service (every one of the mentor's, for mentor codes)
+  minAmount: number; // Bookings priced below this don't qualify
+  maxRedemptions?: number; // Unlimited when unset
+  maxRedemptionsPerUser: number;
+  redemptionCount: number;
+  firstBookingOnly: boolean;
+  absorbedBy: CouponAbsorption; // Always 'mentor' for mentor-issued codes
+  startsAt?: Date;
+  expiresAt?: Date;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CouponSchema = new Schema<ICoupon>({
+  code: {
+    type: String,
+    required: true,
+    unique: true,
+    uppercase: true,
+    trim: true,
+    minlength: 3,
+    maxlength: 32
+  },
+  description: {
+    type: String,
+    maxlength: 200
+  },
+  issuedBy: {
+    type: String,
+    enum: ['admin', 'mentor'],
+    required: true
+  },
+  mentorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  discountType: {
+    type: String,
+    enum: ['percent', 'fixed'],
+    required: true
+  },
+  discountValue: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  serviceIds: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Service'
+  }],
+  minAmount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  maxRedemptions: {
+    type: Number,
+    min: 1
+  },
+  maxRedemptionsPerUser: {
+    type: Number,
+    default: 1,
+    min: 1
+  },
+  redemptionCount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  firstBookingOnly: {
+    type: Boolean,
+    default: false
+  },
+  absorbedBy: {
+    type: String,
+    enum: ['shared', 'platform', 'mentor'],
+    default: 'shared'
+  },
+  startsAt: {
+    type: Date
+  },
+  expiresAt: {
+    type: Date
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+CouponSchema.index({ mentorId: 1, createdAt: -1 });
+CouponSchema.index({ issuedBy: 1, createdAt: -1 });
+
+export const Coupon = mongoose.model<ICoupon>('Coupon', CouponSchema);
+export default Coupon;
@@ -0,0 +1,62 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// A coupon applied to a booking; released if the booking lapses unpaid or another code replaces it
+export interface ICouponRedemption extends Document {
+  couponId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  bookingId: mongoose.Types.ObjectId;
+  discountAmount: number;
+  userSlot?: number; // Which of the user's allowed uses this takes up while applied; unique per coupon and user
+  status: 'applied' | 'released';
+  releasedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CouponRedemptionSchema = new Schema<ICouponRedemption>({
+  couponId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Coupon',
+    required: true
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  bookingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking',
+    required: true
+  },
+  discountAmount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  userSlot: {
+    type: Number,
+    min: 0
+  },
+  status: {
+    type: String,
+    enum: ['applied', 'released'],
+    default: 'applied'
+  },
+  releasedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+CouponRedemptionSchema.index({ couponId: 1, bookingId: 1 }, { unique: true });
+CouponRedemptionSchema.index({ couponId: 1, userId: 1, status: 1 });
+// Enforces the per-user limit: concurrent checkouts by one user can't take the same slot
+CouponRedemptionSchema.index(
+  { couponId: 1, userId: 1, userSlot: 1 },
+  { unique: true, partialFilterExpression: { status: 'applied', userSlot: { $exists: true } } }
+);
+
+export const CouponRedemption = mongoose.model<ICouponRedemption>('CouponRedemption', CouponRedemptionSchema);
+export default CouponRedemption;
@@ -0,0 +1,74 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Totals of a mentor's monthly statement as it was sent; the statement itself is rebuilt on demand
+export interface IEarningsStatement extends Document {
+  mentorId: mongoose.Types.ObjectId;
+  year: number;
+  month: number; // 1-12
+  grossAmount: number;
+  refundedAmount: number;
+  platformCommission: number;
+  netEarnings: number;
+  paidOut: number;
+  sessionCount: number;
+  coldMessageCount: number;
+  emailedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const EarningsStatementSchema = new Schema<IEarningsStatement>({
+  mentorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  year: {
+    type: Number,
+    required: true
+  },
+  month: {
+    type: Number,
+    required: true,
+    min: 1,
+    max: 12
+  },
+  grossAmount: {
+    type: Number,
+    default: 0
+  },
+  refundedAmount: {
+    type: Number,
+    default: 0
+  },
+  platformCommission: {
+    type: Number,
+    default: 0
+  },
+  netEarnings: {
+    type: Number,
+    default: 0
+  },
+  paidOut: {
+    type: Number,
+    default: 0
+  },
+  sessionCount: {
+    type: Number,
+    default: 0
+  },
+  coldMessageCount: {
+    type: Number,
+    default: 0
+  },
+  emailedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+EarningsStatementSchema.index({ mentorId: 1, year: 1, month: 1 }, { unique: true });
+
+export const EarningsStatement = mongoose.model<IEarningsStatement>('EarningsStatement', EarningsStatementSchema);
+export default EarningsStatement;
@@ -0,0 +1,61 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { EscrowStatus } from '../types';
+
+const ESCROW_STATUSES = ['none', 'authorized', 'voided', 'captured', 'held', 'released', 'partially_refunded', 'refunded', 'disputed'];
+
+// Audit record of one escrow state change on a booking
+export interface IEscrowTransition extends Document {
+  bookingId: mongoose.Types.ObjectId;
+  from: EscrowStatus;
+  to: EscrowStatus;
+  event: string; // What caused the change, e.g. payment_succeeded, payout_released
+  actorId?: mongoose.Types.ObjectId; // User behind the change; unset for webhooks and jobs
+  amount?: number;
+  reason?: string;
+  metadata?: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const EscrowTransitionSchema = new Schema<IEscrowTransition>({
+  bookingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking',
+    required: true
+  },
+  from: {
+    type: String,
+    enum: ESCROW_STATUSES,
+    required: true
+  },
+  to: {
+    type: String,
+    enum: ESCROW_STATUSES,
+    required: true
+  },
+  event: {
+    type: String,
+    required: true
+  },
+  actorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  amount: {
+    type: Number,
+    min: 0
+  },
+  reason: {
+    type: String
+  },
+  metadata: {
+    type: Schema.Types.Mixed
+  }
+}, {
+  timestamps: true
+});
+
+EscrowTransitionSchema.index({ bookingId: 1, createdAt: 1 });
+
+export const EscrowTransition = mongoose.model<IEscrowTransition>('EscrowTransition', EscrowTransitionSchema);
+export default EscrowTransition;
@@ -0,0 +1,39 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { CurrencyCode } from '../types';
+
+// The latest exchange rate for a currency, as units of it per one US dollar
+export interface IFxRate extends Document {
+  currency: CurrencyCode;
+  rate: number;
+  provider: string; // Rate provider that supplied it
+  fetchedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const FxRateSchema = new Schema<IFxRate>({
+  currency: {
+    type: String,
+    enum: ['usd', 'eur', 'gbp', 'inr'],
+    required: true,
+    unique: true
+  },
+  rate: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  provider: {
+    type: String,
+    required: true
+  },
+  fetchedAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+export const FxRate = mongoose.model<IFxRate>('FxRate', FxRateSchema);
+export default FxRate;
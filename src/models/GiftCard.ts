@@ -0,0 +1,154 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type GiftCardKind = 'amount' | 'service';
+export type GiftCardStatus = 'pending' | 'active' | 'redeemed' | 'expired';
+
+export interface IGiftCardRedemption {
+  userId: mongoose.Types.ObjectId;
+  type: 'tokens' | 'booking';
+  amount: number;
+  bookingId?: mongoose.Types.ObjectId;
+  ledgerKey: string; // Idempotency key of the ledger entry that moved the balance
+  reversed?: boolean; // Set when a booking payment failed and the balance was put back
+  redeemedAt: Date;
+}
+
+// A prepaid balance bought for someone else, redeemed into tokens or against a booking
+export interface IGiftCard extends Document {
+  code?: string; // Issued once the payment succeeds
+  kind: GiftCardKind;
+  purchaserId: mongoose.Types.ObjectId;
+  recipientEmail: string;
+  recipientName?: string;
+  message?: string;
+  serviceId?: mongoose.Types.ObjectId; // Service cards pay for a session of this service
+  serviceTitle?: string;
+  initialAmount: number;
+  balance: number;
+  status: GiftCardStatus;
+  stripePaymentIntentId?: string;
+  purchasedAt?: Date;
+  expiresAt?: Date;
+  deliveredAt?: Date;
+  expiredBalance?: number; // Balance forfeited at expiry
+  redemptions: IGiftCardRedemption[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const GiftCardRedemptionSchema = new Schema<IGiftCardRedemption>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['tokens', 'booking'],
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  bookingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking'
+  },
+  ledgerKey: {
+    type: String,
+    required: true
+  },
+  reversed: {
+    type: Boolean
+  },
+  redeemedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const GiftCardSchema = new Schema<IGiftCard>({
+  code: {
+    type: String,
+    unique: true,
+    sparse: true
+  },
+  kind: {
+    type: String,
+    enum: ['amount', 'service'],
+    required: true
+  },
+  purchaserId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  recipientEmail: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true
+  },
+  recipientName: {
+    type: String,
+    trim: true,
+    maxlength: 100
+  },
+  message: {
+    type: String,
+    maxlength: 500
+  },
+  serviceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Service'
+  },
+  serviceTitle: {
+    type: String
+  },
+  initialAmount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  balance: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'active', 'redeemed', 'expired'],
+    default: 'pending'
+  },
+  stripePaymentIntentId: {
+    type: String
+  },
+  purchasedAt: {
+    type: Date
+  },
+  expiresAt: {
+    type: Date
+  },
+  deliveredAt: {
+    type: Date
+  },
+  expiredBalance: {
+    type: Number,
+    min: 0
+  },
+  redemptions: {
+    type: [GiftCardRedemptionSchema],
+    default: []
+  }
+}, {
+  timestamps: true
+});
+
+GiftCardSchema.index({ purchaserId: 1, createdAt: -1 });
+GiftCardSchema.index({ status: 1, expiresAt: 1 });
+GiftCardSchema.index({ 'redemptions.userId': 1 });
+
+export const GiftCard = mongoose.model<IGiftCard>('GiftCard', GiftCardSchema);
+export default GiftCard;
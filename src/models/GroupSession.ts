@@ -0,0 +1,169 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IGroupAttendee {
+  studentId: mongoose.Types.ObjectId;
+  bookingId: mongoose.Types.ObjectId; // The attendee's seat booking, which carries their payment, refund and payout
+  status: 'active' | 'cancelled';
+  joinedAt: Date;
+  cancelledAt?: Date;
+  promotedFromWaitlist: boolean;
+}
+
+export interface IGroupWaitlistEntry {
+  studentId: mongoose.Types.ObjectId;
+  studentTimezone: string;
+  joinedAt: Date;
+}
+
+export interface IGroupSession extends Document {
+  serviceId: mongoose.Types.ObjectId;
+  mentorId: mongoose.Types.ObjectId;
+  title: string;
+  description?: string;
+  scheduledAt: Date;
+  scheduledAtUTC: Date;
+  mentorTimezone: string;
+  duration: number; // in minutes
+  maxSeats: number;
+  seatPrice: number;
+  seatsTaken: number; // Active attendees, kept in step with the roster so seat claims can be atomic
+  attendees: IGroupAttendee[];
+  waitlist: IGroupWaitlistEntry[];
+  status: 'scheduled' | 'cancelled' | 'completed';
+  cancelledAt?: Date;
+  cancellationReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const GroupAttendeeSchema = new Schema<IGroupAttendee>({
+  studentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  bookingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking',
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['active', 'cancelled'],
+    default: 'active'
+  },
+  joinedAt: {
+    type: Date,
+    default: Date.now
+  },
+  cancelledAt: {
+    type: Date
+  },
+  promotedFromWaitlist: {
+    type: Boolean,
+    default: false
+  }
+}, { _id: false });
+
+const GroupWaitlistEntrySchema = new Schema<IGroupWaitlistEntry>({
+  studentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  studentTimezone: {
+    type: String,
+    default: 'UTC'
+  },
+  joinedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const GroupSessionSchema = new Schema<IGroupSession>({
+  serviceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Service',
+    required: true
+  },
+  mentorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  title: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 1000
+  },
+  scheduledAt: {
+    type: Date,
+    required: true
+  },
+  scheduledAtUTC: {
+    type: Date,
+    required: true
+  },
+  mentorTimezone: {
+    type: String,
+    required: true,
+    default: 'UTC'
+  },
+  duration: {
+    type: Number,
+    required: true,
+    min: 15,
+    max: 480
+  },
+  maxSeats: {
+    type: Number,
+    required: true,
+    min: 2,
+    max: 100
+  },
+  seatPrice: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  seatsTaken: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  attendees: {
+    type: [GroupAttendeeSchema],
+    default: []
+  },
+  waitlist: {
+    type: [GroupWaitlistEntrySchema],
+    default: []
+  },
+  status: {
+    type: String,
+    enum: ['scheduled', 'cancelled', 'completed'],
+    default: 'scheduled'
+  },
+  cancelledAt: {
+    type: Date
+  },
+  cancellationReason: {
+    type: String
+  }
+}, {
+  timestamps: true
+});
+
+GroupSessionSchema.index({ mentorId: 1, scheduledAtUTC: 1 });
+GroupSessionSchema.index({ serviceId: 1, status: 1, scheduledAtUTC: 1 });
+GroupSessionSchema.index({ 'attendees.studentId': 1 });
+
+export const GroupSession = mongoose.model<IGroupSession>('GroupSession', GroupSessionSchema);
+export default GroupSession;
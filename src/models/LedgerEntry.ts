@@ -0,0 +1,108 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type LedgerAccount =
+  | 'user_wallet' // A user's Mentra token balance; one per user
+  | 'stripe_clearing' // Money entering or leaving through Stripe
+  | 'platform_escrow' // Tokens paid for sessions, packages and cold messages not yet settled
+  | 'platform_commission' // The platform's share of settled payments
+  | 'referral_payable' // Referral earnings owed to referrers but not yet paid out
+  | 'promotions' // Bonus tokens the platform gives away with top-ups
+  | 'gift_cards' // Paid-for gift card balances not yet redeemed or expired
+  | 'opening_balances'; // Balances that existed before the ledger
+
+export type LedgerEntryType =
+  | 'top_up'
+  | 'top_up_bonus'
+  | 'booking_payment'
+  | 'series_payment'
+  | 'package_purchase'
+  | 'package_refund'
+  | 'booking_refund'
+  | 'booking_payout'
+  | 'cold_message'
+  | 'cold_message_refund'
+  | 'cold_message_payout'
+  | 'referral_accrual'
+  | 'referral_reversal'
+  | 'referral_payout'
+  | 'gift_card_purchase'
+  | 'gift_card_redemption'
+  | 'gift_card_reversal'
+  | 'gift_card_expiry'
+  | 'opening_balance';
+
+export interface ILedgerLine {
+  account: LedgerAccount;
+  userId?: mongoose.Types.ObjectId; // Set on user_wallet lines
+  direction: 'debit' | 'credit';
+  amount: number;
+}
+
+// A balanced journal entry: debits and credits across its lines always sum to the same amount
+export interface ILedgerEntry extends Document {
+  idempotencyKey: string;
+  type: LedgerEntryType;
+  description: string;
+  lines: ILedgerLine[];
+  reference?: string; // Id of the booking, message, purchase or payment behind the entry
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LedgerLineSchema = new Schema<ILedgerLine>({
+  account: {
+    type: String,
+    enum: ['user_wallet', 'stripe_clearing', 'platform_escrow', 'platform_commission', 'referral_payable', 'promotions', 'gift_cards', 'opening_balances'],
+    required: true
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  direction: {
+    type: String,
+    enum: ['debit', 'credit'],
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  }
+}, { _id: false });
+
+const LedgerEntrySchema = new Schema<ILedgerEntry>({
+  idempotencyKey: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  type: {
+    type: String,
+    enum: [
+      'top_up', 'top_up_bonus', 'booking_payment', 'series_payment', 'package_purchase', 'package_refund', 'booking_refund', 'booking_payout',
+      'cold_message', 'cold_message_refund', 'cold_message_payout', 'referral_accrual', 'referral_reversal', 'referral_payout',
+      'gift_card_purchase', 'gift_card_redemption', 'gift_card_reversal', 'gift_card_expiry', 'opening_balance'
+    ],
+    required: true
+  },
+  description: {
+    type: String,
+    required: true
+  },
+  lines: {
+    type: [LedgerLineSchema],
+    required: true
+  },
+  reference: {
+    type: String
+  }
+}, {
+  timestamps: true
+});
+
+LedgerEntrySchema.index({ 'lines.account': 1, 'lines.userId': 1 });
+LedgerEntrySchema.index({ type: 1, createdAt: -1 });
+
+export const LedgerEntry = mongoose.model<ILedgerEntry>('LedgerEntry', LedgerEntrySchema);
+export default LedgerEntry;
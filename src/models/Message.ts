@@ -22,6 +22,9 @@ interface IMessageDocument extends Document {
   tokensDeducted?: number;
   tokenTransactionId?: string;
   isColdMessage?: boolean;
+  // Answered cold messages are paid out to the receiving mentor in a payout batch
+  payoutStatus?: 'pending' | 'processing' | 'completed' | 'failed';
+  payoutBatchId?: Types.ObjectId;
   conversationId: string;
   createdAt: Date;
   updatedAt: Date;
@@ -93,6 +96,16 @@ const MessageSchema = new Schema<IMessageDocument>(
       type: Boolean,
       default: false,
     },
+    payoutStatus: {
+      type: String,
+      enum: ['pending', 'processing', 'completed', 'failed'],
+      required: false,
+    },
+    payoutBatchId: {
+      type: Schema.Types.ObjectId,
+      ref: "PayoutBatch",
+      required: false,
+    },
     conversationId: {
       type: String,
       required: false,
@@ -0,0 +1,137 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IPackagePurchase extends Document {
+  serviceId: mongoose.Types.ObjectId;
+  packageId: mongoose.Types.ObjectId; // The package offer on the service at purchase time
+  mentorId: mongoose.Types.ObjectId;
+  studentId: mongoose.Types.ObjectId;
+  title: string;
+  totalCredits: number;
+  remainingCredits: number;
+  pricePaid: number;
+  redeemedValue: number; // Sum of the amounts of bookings paid with this package's credits
+  validityDays: number;
+  paymentMethod: 'stripe' | 'tokens';
+  paymentStatus: 'pending' | 'paid' | 'refunded';
+  status: 'pending' | 'active' | 'exhausted' | 'expired' | 'refunded';
+  stripePaymentIntentId?: string;
+  purchasedAt?: Date;
+  expiresAt?: Date;
+  refund?: {
+    status: 'processed' | 'failed';
+    amount: number;
+    credits: number;
+    stripeRefundId?: string;
+    processedAt?: Date;
+    reason?: string;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PackagePurchaseSchema = new Schema<IPackagePurchase>({
+  serviceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Service',
+    required: true
+  },
+  packageId: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  mentorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  studentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  title: {
+    type: String,
+    required: true
+  },
+  totalCredits: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  remainingCredits: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  pricePaid: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  redeemedValue: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  validityDays: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  paymentMethod: {
+    type: String,
+    enum: ['stripe', 'tokens'],
+    default: 'stripe'
+  },
+  paymentStatus: {
+    type: String,
+    enum: ['pending', 'paid', 'refunded'],
+    default: 'pending'
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'active', 'exhausted', 'expired', 'refunded'],
+    default: 'pending'
+  },
+  stripePaymentIntentId: {
+    type: String
+  },
+  purchasedAt: {
+    type: Date
+  },
+  expiresAt: {
+    type: Date
+  },
+  refund: {
+    status: {
+      type: String,
+      enum: ['processed', 'failed']
+    },
+    amount: {
+      type: Number,
+      min: 0
+    },
+    credits: {
+      type: Number,
+      min: 0
+    },
+    stripeRefundId: {
+      type: String
+    },
+    processedAt: {
+      type: Date
+    },
+    reason: {
+      type: String
+    }
+  }
+}, {
+  timestamps: true
+});
+
+PackagePurchaseSchema.index({ studentId: 1, status: 1 });
+PackagePurchaseSchema.index({ mentorId: 1, status: 1 });
+PackagePurchaseSchema.index({ status: 1, expiresAt: 1 });
+
+export const PackagePurchase = mongoose.model<IPackagePurchase>('PackagePurchase', PackagePurchaseSchema);
+export default PackagePurchase;
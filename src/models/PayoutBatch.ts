@@ -0,0 +1,129 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { PayoutSchedule } from '../types';
+
+export type PayoutBatchStatus = 'processing' | 'completed' | 'failed';
+
+export interface IPayoutBatchItem {
+  type: 'session' | 'cold_message';
+  bookingId?: mongoose.Types.ObjectId;
+  messageId?: mongoose.Types.ObjectId;
+  grossAmount: number; // What the student paid, less refunds
+  platformCommission: number;
+  mentorPayout: number;
+}
+
+// One transfer to a mentor covering every booking and cold message it lists
+export interface IPayoutBatch extends Document {
+  mentorId: mongoose.Types.ObjectId;
+  schedule: PayoutSchedule;
+  status: PayoutBatchStatus;
+  items: IPayoutBatchItem[];
+  grossAmount: number;
+  platformCommission: number;
+  amount: number; // Transferred to the mentor
+  currency: string;
+  periodStart: Date; // Earliest item included
+  periodEnd: Date;
+  stripeTransferId?: string;
+  processedAt?: Date;
+  failureReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PayoutBatchItemSchema = new Schema<IPayoutBatchItem>({
+  type: {
+    type: String,
+    enum: ['session', 'cold_message'],
+    required: true
+  },
+  bookingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking'
+  },
+  messageId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Message'
+  },
+  grossAmount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  platformCommission: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  mentorPayout: {
+    type: Number,
+    required: true,
+    min: 0
+  }
+}, { _id: false });
+
+const PayoutBatchSchema = new Schema<IPayoutBatch>({
+  mentorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  schedule: {
+    type: String,
+    enum: ['per_session', 'weekly', 'monthly'],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['processing', 'completed', 'failed'],
+    default: 'processing'
+  },
+  items: {
+    type: [PayoutBatchItemSchema],
+    default: []
+  },
+  grossAmount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  platformCommission: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  currency: {
+    type: String,
+    default: 'usd'
+  },
+  periodStart: {
+    type: Date,
+    required: true
+  },
+  periodEnd: {
+    type: Date,
+    required: true
+  },
+  stripeTransferId: {
+    type: String
+  },
+  processedAt: {
+    type: Date
+  },
+  failureReason: {
+    type: String
+  }
+}, {
+  timestamps: true
+});
+
+PayoutBatchSchema.index({ mentorId: 1, createdAt: -1 });
+PayoutBatchSchema.index({ status: 1 });
+
+export const PayoutBatch = mongoose.model<IPayoutBatch>('PayoutBatch', PayoutBatchSchema);
+export default PayoutBatch;
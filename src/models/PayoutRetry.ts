@@ -0,0 +1,82 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// transient: Stripe or network trouble, retried with backoff
+// mentor_action: the mentor's Connect account can't receive payouts yet; waits for them to fix it
+// permanent: retrying won't help; left for an admin
+export type PayoutFailureClass = 'transient' | 'mentor_action' | 'permanent';
+export type PayoutRetryStatus = 'scheduled' | 'awaiting_mentor' | 'processing' | 'succeeded' | 'failed' | 'cancelled';
+
+// A failed payout waiting to be tried again: a single booking's payout, or a mentor's failed batch
+export interface IPayoutRetry extends Document {
+  target: 'booking' | 'batch';
+  mentorId: mongoose.Types.ObjectId;
+  bookingId?: mongoose.Types.ObjectId; // Booking payouts
+  payoutBatchId?: mongoose.Types.ObjectId; // The latest failed batch, for batch payouts
+  status: PayoutRetryStatus;
+  failureClass: PayoutFailureClass;
+  attempts: number; // Failed attempts so far
+  lastError?: string;
+  lastAttemptAt?: Date;
+  nextAttemptAt?: Date; // Set while scheduled
+  resolvedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PayoutRetrySchema = new Schema<IPayoutRetry>({
+  target: {
+    type: String,
+    enum: ['booking', 'batch'],
+    required: true
+  },
+  mentorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  bookingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking'
+  },
+  payoutBatchId: {
+    type: Schema.Types.ObjectId,
+    ref: 'PayoutBatch'
+  },
+  status: {
+    type: String,
+    enum: ['scheduled', 'awaiting_mentor', 'processing', 'succeeded', 'failed', 'cancelled'],
+    required: true
+  },
+  failureClass: {
+    type: String,
+    enum: ['transient', 'mentor_action', 'permanent'],
+    required: true
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  lastError: {
+    type: String
+  },
+  lastAttemptAt: {
+    type: Date
+  },
+  nextAttemptAt: {
+    type: Date
+  },
+  resolvedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// One entry per booking, and one per mentor for batches; a new failure reuses it
+PayoutRetrySchema.index({ bookingId: 1 }, { unique: true, partialFilterExpression: { target: 'booking' } });
+PayoutRetrySchema.index({ mentorId: 1 }, { unique: true, partialFilterExpression: { target: 'batch' } });
+PayoutRetrySchema.index({ status: 1, nextAttemptAt: 1 });
+
+export const PayoutRetry = mongoose.model<IPayoutRetry>('PayoutRetry', PayoutRetrySchema);
+export default PayoutRetry;
@@ -0,0 +1,172 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { CurrencyCode } from '../types';
+
+export type ReceiptKind = 'booking' | 'token_top_up' | 'cold_message' | 'verification_fee';
+export type ReceiptPaymentMethod = 'card' | 'tokens';
+
+export interface IReceiptItem {
+  description: string;
+  quantity: number;
+  unitAmount: number; // Tax included
+  amount: number;
+}
+
+export interface IReceiptTaxLine {
+  label: string; // e.g. VAT, GST
+  country: string;
+  rate: number; // 0.2 for 20%
+  amount: number;
+}
+
+// The student's billing details as they were when the receipt was issued
+export interface IReceiptBilling {
+  name: string;
+  email: string;
+  company?: string;
+  addressLine1?: string;
+  addressLine2?: string;
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+  taxId?: string;
+}
+
+// A numbered receipt for a payment; never changed once issued
+export interface IReceipt extends Document {
+  number: string;
+  userId: mongoose.Types.ObjectId;
+  kind: ReceiptKind;
+  source: string; // The payment it was issued for; one receipt per source
+  bookingId?: mongoose.Types.ObjectId;
+  seriesId?: mongoose.Types.ObjectId;
+  paymentIntentId?: string;
+  paymentMethod: ReceiptPaymentMethod;
+  currency: CurrencyCode;
+  items: IReceiptItem[];
+  subtotal: number; // Total less tax
+  taxes: IReceiptTaxLine[];
+  taxTotal: number;
+  total: number;
+  billing: IReceiptBilling;
+  note?: string;
+  issuedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReceiptItemSchema = new Schema<IReceiptItem>({
+  description: { type: String, required: true },
+  quantity: { type: Number, required: true, min: 1 },
+  unitAmount: { type: Number, required: true, min: 0 },
+  amount: { type: Number, required: true, min: 0 }
+}, { _id: false });
+
+const ReceiptTaxLineSchema = new Schema<IReceiptTaxLine>({
+  label: { type: String, required: true },
+  country: { type: String, required: true },
+  rate: { type: Number, required: true, min: 0 },
+  amount: { type: Number, required: true, min: 0 }
+}, { _id: false });
+
+const ReceiptSchema = new Schema<IReceipt>({
+  number: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  kind: {
+    type: String,
+    enum: ['booking', 'token_top_up', 'cold_message', 'verification_fee'],
+    required: true
+  },
+  source: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  bookingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking'
+  },
+  seriesId: {
+    type: Schema.Types.ObjectId,
+    ref: 'BookingSeries'
+  },
+  paymentIntentId: {
+    type: String
+  },
+  paymentMethod: {
+    type: String,
+    enum: ['card', 'tokens'],
+    required: true
+  },
+  currency: {
+    type: String,
+    enum: ['usd', 'eur', 'gbp', 'inr'],
+    required: true
+  },
+  items: {
+    type: [ReceiptItemSchema],
+    default: []
+  },
+  subtotal: {
+    type: Number,
+    required: true
+  },
+  taxes: {
+    type: [ReceiptTaxLineSchema],
+    default: []
+  },
+  taxTotal: {
+    type: Number,
+    default: 0
+  },
+  total: {
+    type: Number,
+    required: true
+  },
+  billing: {
+    name: { type: String, required: true },
+    email: { type: String, required: true },
+    company: { type: String },
+    addressLine1: { type: String },
+    addressLine2: { type: String },
+    city: { type: String },
+    state: { type: String },
+    postalCode: { type: String },
+    country: { type: String },
+    taxId: { type: String }
+  },
+  note: {
+    type: String
+  },
+  issuedAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+ReceiptSchema.index({ userId: 1, issuedAt: -1 });
+
+// Receipts are immutable; a correction is a refund, not an edit
+ReceiptSchema.pre('save', function (next) {
+  if (!this.isNew) {
+    return next(new Error('Receipts cannot be changed once issued'));
+  }
+  next();
+});
+
+ReceiptSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'], function (next) {
+  next(new Error('Receipts cannot be changed once issued'));
+});
+
+export const Receipt = mongoose.model<IReceipt>('Receipt', ReceiptSchema);
+export default Receipt;
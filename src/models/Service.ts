@@ -1,4 +1,15 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { CurrencyCode } from '../types';
+
+export interface IServicePackage {
+  _id?: mongoose.Types.ObjectId;
+  title: string;
+  sessionCount: number; // credits granted on purchase, one per session of the service's duration
+  price: number; // bundle price
+  discountPercent: number; // saving versus booking the same sessions individually
+  validityDays: number; // credits expire this many days after purchase
+  isActive: boolean;
+}
 
 export interface IService {
   mentorId: mongoose.Types.ObjectId;
@@ -6,15 +17,61 @@ export interface IService {
   description: string;
   category: string;
   tags: string[];
-  hourlyRate: number;
+  hourlyRate: number; // In the service's currency, as are seat and package prices
+  currency: CurrencyCode;
   duration: number; // in minutes
+  bufferBefore: number; // minutes kept free before each session
+  bufferAfter: number; // minutes kept free after each session
+  minimumNoticeHours: number; // how far ahead a session must be booked
+  sessionType: 'one_on_one' | 'group';
+  maxSeats?: number; // group sessions only: attendees per session
+  seatPrice?: number; // group sessions only: price per attendee
   images: string[]; // Array of Cloudinary URLs
+  packages: IServicePackage[];
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
-export interface IServiceDocument extends IService, Document {}
+export interface IServiceDocument extends IService, Document {
+  packages: mongoose.Types.DocumentArray<IServicePackage>;
+}
+
+const ServicePackageSchema = new Schema<IServicePackage>({
+  title: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  sessionCount: {
+    type: Number,
+    required: true,
+    min: 2,
+    max: 50
+  },
+  price: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  discountPercent: {
+    type: Number,
+    min: 0,
+    max: 90,
+    default: 0
+  },
+  validityDays: {
+    type: Number,
+    min: 7,
+    max: 730,
+    default: 180
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+});
 
 const ServiceSchema = new Schema<IServiceDocument>({
   mentorId: {
@@ -57,7 +114,12 @@ const ServiceSchema = new Schema<IServiceDocument>({
     type: Number,
     required: true,
     min: 0,
-    max: 1000
+    max: 100000 // Leaves room for currencies like INR
+  },
+  currency: {
+    type: String,
+    enum: ['usd', 'eur', 'gbp', 'inr'],
+    default: 'usd'
   },
   duration: {
     type: Number,
@@ -66,10 +128,47 @@ const ServiceSchema = new Schema<IServiceDocument>({
     max: 480, // 8 hours max
     default: 60
   },
+  bufferBefore: {
+    type: Number,
+    min: 0,
+    max: 120,
+    default: 0
+  },
+  bufferAfter: {
+    type: Number,
+    min: 0,
+    max: 120,
+    default: 0
+  },
+  minimumNoticeHours: {
+    type: Number,
+    min: 0,
+    max: 720, // 30 days max
+    default: 0
+  },
+  sessionType: {
+    type: String,
+    enum: ['one_on_one', 'group'],
+    default: 'one_on_one'
+  },
+  maxSeats: {
+    type: Number,
+    min: 2,
+    max: 100
+  },
+  seatPrice: {
+    type: Number,
+    min: 0,
+    max: 1000
+  },
   images: [{
     type: String,
     default: []
   }],
+  packages: {
+    type: [ServicePackageSchema],
+    default: []
+  },
   isActive: {
     type: Boolean,
     default: true,
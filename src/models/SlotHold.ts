@@ -0,0 +1,47 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ISlotHold extends Document {
+  mentorId: mongoose.Types.ObjectId;
+  slotUTC: Date; // Start of the fixed-size unit of mentor time this hold reserves
+  bookingId: mongoose.Types.ObjectId; // Or the id of a group session being scheduled, which holds the slot the same way
+  studentId: mongoose.Types.ObjectId;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SlotHoldSchema = new Schema<ISlotHold>({
+  mentorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  slotUTC: {
+    type: Date,
+    required: true
+  },
+  bookingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking',
+    required: true,
+    index: true
+  },
+  studentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+    index: true
+  }
+}, {
+  timestamps: true
+});
+
+// Only one hold may exist per mentor time unit; concurrent checkouts collide here
+SlotHoldSchema.index({ mentorId: 1, slotUTC: 1 }, { unique: true });
+
+export const SlotHold = mongoose.model<ISlotHold>('SlotHold', SlotHoldSchema);
+export default SlotHold;
@@ -0,0 +1,82 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type WebhookEventSource = 'platform' | 'connect';
+export type WebhookEventStatus = 'processing' | 'processed' | 'failed' | 'ignored';
+
+// A Stripe webhook event we have received, stored once per Stripe event id
+export interface IStripeWebhookEvent extends Document {
+  eventId: string;
+  source: WebhookEventSource; // Which endpoint received it
+  type: string;
+  account?: string; // Connected account the event belongs to
+  payload: Record<string, any>; // Full event, kept so it can be replayed
+  status: WebhookEventStatus;
+  attempts: number;
+  retryCount: number; // Attempts after the first, by redelivery or replay
+  lastError?: string;
+  lastAttemptAt: Date;
+  processedAt?: Date;
+  stripeCreatedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StripeWebhookEventSchema = new Schema<IStripeWebhookEvent>({
+  eventId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  source: {
+    type: String,
+    enum: ['platform', 'connect'],
+    required: true
+  },
+  type: {
+    type: String,
+    required: true
+  },
+  account: {
+    type: String
+  },
+  payload: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['processing', 'processed', 'failed', 'ignored'],
+    default: 'processing'
+  },
+  attempts: {
+    type: Number,
+    default: 1,
+    min: 0
+  },
+  retryCount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  lastError: {
+    type: String
+  },
+  lastAttemptAt: {
+    type: Date,
+    default: Date.now
+  },
+  processedAt: {
+    type: Date
+  },
+  stripeCreatedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+StripeWebhookEventSchema.index({ status: 1, createdAt: -1 });
+StripeWebhookEventSchema.index({ type: 1, createdAt: -1 });
+
+export const StripeWebhookEvent = mongoose.model<IStripeWebhookEvent>('StripeWebhookEvent', StripeWebhookEventSchema);
+export default StripeWebhookEvent;
@@ -0,0 +1,103 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type TaxFormType = 'W-9' | 'W-8BEN' | 'W-8BEN-E';
+export type TaxEntityType = 'individual' | 'business';
+export type TinType = 'ssn' | 'itin' | 'ein' | 'foreign';
+
+// A mentor's tax form details; the TIN is only ever stored encrypted
+export interface ITaxProfile extends Document {
+  mentorId: mongoose.Types.ObjectId;
+  legalName?: string;
+  businessName?: string;
+  entityType?: TaxEntityType;
+  taxResidency?: string; // ISO 3166-1 alpha-2
+  formType?: TaxFormType;
+  tinType?: TinType;
+  tinEncrypted?: string;
+  tinLast4?: string;
+  address?: {
+    line1?: string;
+    line2?: string;
+    city?: string;
+    state?: string;
+    postalCode?: string;
+    country?: string;
+  };
+  certifiedName?: string; // Typed as the signature on the form
+  certifiedAt?: Date;
+  status: 'incomplete' | 'complete';
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TaxProfileSchema = new Schema<ITaxProfile>({
+  mentorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    unique: true
+  },
+  legalName: {
+    type: String,
+    trim: true
+  },
+  businessName: {
+    type: String,
+    trim: true
+  },
+  entityType: {
+    type: String,
+    enum: ['individual', 'business']
+  },
+  taxResidency: {
+    type: String,
+    uppercase: true,
+    trim: true
+  },
+  formType: {
+    type: String,
+    enum: ['W-9', 'W-8BEN', 'W-8BEN-E']
+  },
+  tinType: {
+    type: String,
+    enum: ['ssn', 'itin', 'ein', 'foreign']
+  },
+  tinEncrypted: {
+    type: String,
+    select: false
+  },
+  tinLast4: {
+    type: String
+  },
+  address: {
+    line1: { type: String, trim: true },
+    line2: { type: String, trim: true },
+    city: { type: String, trim: true },
+    state: { type: String, trim: true },
+    postalCode: { type: String, trim: true },
+    country: { type: String, uppercase: true, trim: true }
+  },
+  certifiedName: {
+    type: String,
+    trim: true
+  },
+  certifiedAt: {
+    type: Date
+  },
+  status: {
+    type: String,
+    enum: ['incomplete', 'complete'],
+    default: 'incomplete'
+  },
+  completedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+TaxProfileSchema.index({ status: 1 });
+
+export const TaxProfile = mongoose.model<ITaxProfile>('TaxProfile', TaxProfileSchema);
+export default TaxProfile;
@@ -0,0 +1,40 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Audit record of an admin exporting annual tax summaries with full TINs
+export interface ITinExport extends Document {
+  adminId: mongoose.Types.ObjectId;
+  year: number;
+  format: 'json' | 'csv';
+  mentorCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TinExportSchema = new Schema<ITinExport>({
+  adminId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  year: {
+    type: Number,
+    required: true
+  },
+  format: {
+    type: String,
+    enum: ['json', 'csv'],
+    required: true
+  },
+  mentorCount: {
+    type: Number,
+    required: true,
+    min: 0
+  }
+}, {
+  timestamps: true
+});
+
+TinExportSchema.index({ createdAt: -1 });
+
+export const TinExport = mongoose.model<ITinExport>('TinExport', TinExportSchema);
+export default TinExport;
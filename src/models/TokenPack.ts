@@ -0,0 +1,56 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// An admin-defined token bundle, e.g. pay $100 for 100 tokens plus 10 bonus tokens
+export interface ITokenPack extends Document {
+  name: string;
+  description?: string;
+  price: number; // USD charged
+  tokens: number; // Purchased tokens, credited as a refundable purchase
+  bonusTokens: number; // Extra promotional tokens on top
+  isActive: boolean;
+  sortOrder: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TokenPackSchema = new Schema<ITokenPack>({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  description: {
+    type: String,
+    trim: true
+  },
+  price: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  tokens: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  bonusTokens: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  sortOrder: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true
+});
+
+TokenPackSchema.index({ isActive: 1, sortOrder: 1 });
+
+export const TokenPack = mongoose.model<ITokenPack>('TokenPack', TokenPackSchema);
+export default TokenPack;
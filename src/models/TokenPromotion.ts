@@ -0,0 +1,68 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type TokenPromotionKind = 'time_limited' | 'first_purchase';
+
+// Bonus tokens granted on top-ups while a promotion runs, or on a student's first purchase
+export interface ITokenPromotion extends Document {
+  name: string;
+  kind: TokenPromotionKind;
+  bonusPercent: number; // Percent of the purchased tokens given as bonus
+  bonusTokens: number; // Flat bonus added to the percentage
+  minPurchaseTokens: number;
+  packIds: mongoose.Types.ObjectId[]; // Packs it applies to; empty applies to every top-up
+  startsAt?: Date;
+  endsAt?: Date;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TokenPromotionSchema = new Schema<ITokenPromotion>({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  kind: {
+    type: String,
+    enum: ['time_limited', 'first_purchase'],
+    required: true
+  },
+  bonusPercent: {
+    type: Number,
+    default: 0,
+    min: 0,
+    max: 100
+  },
+  bonusTokens: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  minPurchaseTokens: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  packIds: [{
+    type: Schema.Types.ObjectId,
+    ref: 'TokenPack'
+  }],
+  startsAt: {
+    type: Date
+  },
+  endsAt: {
+    type: Date
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+TokenPromotionSchema.index({ isActive: 1, kind: 1 });
+
+export const TokenPromotion = mongoose.model<ITokenPromotion>('TokenPromotion', TokenPromotionSchema);
+export default TokenPromotion;
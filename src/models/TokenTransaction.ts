@@ -3,9 +3,12 @@ import mongoose, { Document, Schema } from 'mongoose';
 export interface ITokenTransaction extends Document {
   userId: mongoose.Types.ObjectId;
   type: 'credit' | 'debit' | 'refund';
+  // Bought tokens are 'purchase'; 'bonus' tokens are promotional, never refunded and earn no referral commission
+  subType?: 'purchase' | 'bonus';
   amount: number;
   description: string;
   reference?: string;
+  ledgerEntryId?: mongoose.Types.ObjectId; // Journal entry this wallet movement belongs to
   createdAt: Date;
 }
 
@@ -20,6 +23,10 @@ const TokenTransactionSchema = new Schema<ITokenTransaction>({
     enum: ['credit', 'debit', 'refund'], 
     required: true 
   },
+  subType: {
+    type: String,
+    enum: ['purchase', 'bonus']
+  },
   amount: { 
     type: Number, 
     required: true, 
@@ -32,6 +39,10 @@ const TokenTransactionSchema = new Schema<ITokenTransaction>({
   reference: { 
     type: String 
   },
+  ledgerEntryId: {
+    type: Schema.Types.ObjectId,
+    ref: 'LedgerEntry'
+  },
   createdAt: { 
     type: Date, 
     default: Date.now 
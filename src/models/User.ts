@@ -1,6 +1,6 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
-import { IUser, IEducation, IDocument, IAvailability } from '../types';
+import { IUser, IEducation, IDocument, IAvailability, CancellationPolicyPreset, ICancellationTier, CurrencyCode, PayoutSchedule } from '../types';
 
 export interface IUserDocument extends Document {
   email: string;
@@ -19,11 +19,16 @@ export interface IUserDocument extends Document {
   emailVerificationExpires?: Date;
   passwordResetToken?: string;
   passwordResetExpires?: Date;
+  calendarFeedToken?: string; // Secret token for the private ICS feed URL
   userType: 'mentor' | 'student' | 'both' | 'admin';
   skills: string[];
   hourlyRate?: number;
   coldMessageRate?: number;
   minimumCancellationHours?: number; // Minimum hours before session for cancellation
+  cancellationPolicy?: {
+    preset: CancellationPolicyPreset; // Unset on older accounts, which keep the minimumCancellationHours rules
+    customTiers: ICancellationTier[]; // Used when preset is 'custom'
+  };
   // Professional fields
   professionalHeadline?: string;
   currentCompany?: string;
@@ -63,6 +68,18 @@ export interface IUserDocument extends Document {
     longTermGoals?: string;
   };
   mentraBalance: number;
+  // Automatically buy tokens on a saved card when the balance drops below a threshold
+  tokenAutoTopUp?: {
+    enabled: boolean;
+    threshold: number;
+    amount: number;
+    paymentMethodId?: string; // Saved card to charge; the default card when unset
+    processingSince?: Date; // Set while a top-up charge is in flight
+    lastTopUpAt?: Date;
+    lastFailureAt?: Date;
+    lastFailureReason?: string;
+  };
+  lowBalanceNotifiedAt?: Date;
   // Mentor earnings tracking
   mentorEarnings?: {
     totalEarnings: number;
@@ -81,7 +98,16 @@ export interface IUserDocument extends Document {
       sessionsCompleted: number;
       coldMessages: number;
     }>;
+    // Payouts in the currencies sessions were priced in; the fields above are in the settlement currency
+    earningsByCurrency?: Array<{
+      currency: CurrencyCode;
+      sessionEarnings: number;
+      messageEarnings: number;
+      totalEarnings: number;
+    }>;
   };
+  // Stripe Customer holding the user's saved payment methods
+  stripeCustomerId?: string;
   // Stripe Connect for payouts
   stripeConnect?: {
     accountId?: string;
@@ -92,12 +118,31 @@ export interface IUserDocument extends Document {
     detailsSubmitted?: boolean;
     lastUpdated?: Date;
   };
+  // When eligible earnings are transferred; smaller amounts wait for a later payout
+  payoutSettings?: {
+    schedule: PayoutSchedule;
+    minimumAmount: number;
+    lastPayoutAt?: Date;
+  };
+  // Shown on receipts; the country also decides the tax on them
+  billingDetails?: {
+    name?: string;
+    company?: string;
+    addressLine1?: string;
+    addressLine2?: string;
+    city?: string;
+    state?: string;
+    postalCode?: string;
+    country?: string; // ISO 3166-1 alpha-2
+    taxId?: string;
+  };
   availability: IAvailability[];
   isOnboarded: boolean;
   isActive: boolean;
   isBanned: boolean;
   emailVerified: boolean;
   timezone: string;
+  currency: CurrencyCode; // Prices are shown and charged in this currency; a mentor's default for new services
   isOnline: boolean;
   lastSeen: Date;
   isAnonymous: boolean;
@@ -235,6 +280,11 @@ const UserSchema = new Schema<IUserDocument>({
   passwordResetExpires: {
     type: Date
   },
+  calendarFeedToken: {
+    type: String,
+    sparse: true,
+    unique: true
+  },
   userType: {
     type: String,
     enum: ['mentor', 'student', 'both', 'admin'],
@@ -259,6 +309,17 @@ const UserSchema = new Schema<IUserDocument>({
     max: 168, // Max 1 week
     default: 24
   },
+  cancellationPolicy: {
+    preset: {
+      type: String,
+      enum: ['flexible', 'moderate', 'strict', 'custom']
+    },
+    customTiers: [{
+      _id: false,
+      hoursBefore: { type: Number, min: 0, max: 720, required: true },
+      refundPercent: { type: Number, min: 0, max: 100, required: true }
+    }]
+  },
   // Professional fields
   professionalHeadline: {
     type: String,
@@ -289,6 +350,19 @@ const UserSchema = new Schema<IUserDocument>({
     min: 0,
     default: 0
   },
+  tokenAutoTopUp: {
+    enabled: { type: Boolean, default: false },
+    threshold: { type: Number, min: 0 },
+    amount: { type: Number, min: 0 },
+    paymentMethodId: { type: String },
+    processingSince: { type: Date },
+    lastTopUpAt: { type: Date },
+    lastFailureAt: { type: Date },
+    lastFailureReason: { type: String }
+  },
+  lowBalanceNotifiedAt: {
+    type: Date
+  },
   // Mentor earnings tracking
   mentorEarnings: {
     totalEarnings: { type: Number, default: 0, min: 0 },
@@ -310,8 +384,19 @@ const UserSchema = new Schema<IUserDocument>({
       totalEarnings: { type: Number, default: 0, min: 0 },
       sessionsCompleted: { type: Number, default: 0, min: 0 },
       coldMessages: { type: Number, default: 0, min: 0 }
+    }],
+    earningsByCurrency: [{
+      _id: false,
+      currency: { type: String, enum: ['usd', 'eur', 'gbp', 'inr'], required: true },
+      sessionEarnings: { type: Number, default: 0, min: 0 },
+      messageEarnings: { type: Number, default: 0, min: 0 },
+      totalEarnings: { type: Number, default: 0, min: 0 }
     }]
   },
+  // Stripe Customer holding the user's saved payment methods
+  stripeCustomerId: {
+    type: String
+  },
   // Stripe Connect for payouts
   stripeConnect: {
     accountId: { type: String },
@@ -326,6 +411,22 @@ const UserSchema = new Schema<IUserDocument>({
     detailsSubmitted: { type: Boolean, default: false },
     lastUpdated: { type: Date, default: Date.now }
   },
+  payoutSettings: {
+    schedule: { type: String, enum: ['per_session', 'weekly', 'monthly'], default: 'per_session' },
+    minimumAmount: { type: Number, default: 0, min: 0 },
+    lastPayoutAt: { type: Date }
+  },
+  billingDetails: {
+    name: { type: String, trim: true },
+    company: { type: String, trim: true },
+    addressLine1: { type: String, trim: true },
+    addressLine2: { type: String, trim: true },
+    city: { type: String, trim: true },
+    state: { type: String, trim: true },
+    postalCode: { type: String, trim: true },
+    country: { type: String, uppercase: true, trim: true },
+    taxId: { type: String, trim: true }
+  },
   availability: [AvailabilitySchema],
   isOnboarded: {
     type: Boolean,
@@ -347,6 +448,11 @@ const UserSchema = new Schema<IUserDocument>({
     type: String,
     default: 'UTC'
   },
+  currency: {
+    type: String,
+    enum: ['usd', 'eur', 'gbp', 'inr'],
+    default: 'usd'
+  },
   isOnline: {
     type: Boolean,
     default: false
@@ -417,6 +523,7 @@ UserSchema.set('toJSON', {
     delete ret.emailVerificationToken;
     delete ret.passwordResetToken;
     delete ret.passwordResetExpires;
+    delete ret.calendarFeedToken;
     return ret;
   }
 });
@@ -1,11 +1,13 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
 export interface IVideoCall {
-  bookingId: mongoose.Types.ObjectId;
+  bookingId?: mongoose.Types.ObjectId; // One-on-one calls
+  groupSessionId?: mongoose.Types.ObjectId; // Group calls share one room across every attendee's booking
   roomName: string;
   roomUrl: string;
   mentorId: mongoose.Types.ObjectId;
-  studentId: mongoose.Types.ObjectId;
+  studentId?: mongoose.Types.ObjectId; // One-on-one calls
+  attendeeIds: mongoose.Types.ObjectId[]; // Group calls: paid attendees allowed into the room
   scheduledAt: Date;
   startedAt?: Date;
   endedAt?: Date;
@@ -26,15 +28,24 @@ export interface IVideoCall {
   updatedAt: Date;
 }
 
-export interface IVideoCallDocument extends IVideoCall, Document {}
+export interface IVideoCallDocument extends IVideoCall, Document {
+  isParticipant(userId: string): boolean;
+}
 
 const VideoCallSchema = new Schema<IVideoCallDocument>(
   {
     bookingId: {
       type: Schema.Types.ObjectId,
       ref: 'Booking',
-      required: true,
+      required: function (this: IVideoCallDocument) { return !this.groupSessionId; },
+      unique: true,
+      sparse: true,
+    },
+    groupSessionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'GroupSession',
       unique: true,
+      sparse: true,
     },
     roomName: {
       type: String,
@@ -53,8 +64,12 @@ const VideoCallSchema = new Schema<IVideoCallDocument>(
     studentId: {
       type: Schema.Types.ObjectId,
       ref: 'User',
-      required: true,
+      required: function (this: IVideoCallDocument) { return !this.groupSessionId; },
     },
+    attendeeIds: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    }],
     scheduledAt: {
       type: Date,
       required: true,
@@ -101,6 +116,7 @@ const VideoCallSchema = new Schema<IVideoCallDocument>(
 // Indexes
 VideoCallSchema.index({ mentorId: 1 });
 VideoCallSchema.index({ studentId: 1 });
+VideoCallSchema.index({ attendeeIds: 1 });
 VideoCallSchema.index({ scheduledAt: 1 });
 VideoCallSchema.index({ status: 1 });
 
@@ -110,7 +126,7 @@ VideoCallSchema.pre<IVideoCallDocument>('save', function (next) {
     // Generate unique room name
     const timestamp = Date.now();
     const randomStr = Math.random().toString(36).substring(2, 8);
-    this.roomName = `mentr-${this.bookingId}-${timestamp}-${randomStr}`;
+    this.roomName = `mentr-${this.bookingId || this.groupSessionId}-${timestamp}-${randomStr}`;
   }
   next();
 });
@@ -128,11 +144,22 @@ VideoCallSchema.methods.isCompleted = function (): boolean {
   return this.status === 'completed';
 };
 
-VideoCallSchema.methods.canJoin = function (userId: string): boolean {
+VideoCallSchema.methods.isParticipant = function (userId: string): boolean {
   // Handle both ObjectId and populated object cases
-  const mentorIdStr = this.mentorId._id ? this.mentorId._id.toString() : this.mentorId.toString();
-  const studentIdStr = this.studentId._id ? this.studentId._id.toString() : this.studentId.toString();
-  const isUserMentorOrStudent = (mentorIdStr === userId || studentIdStr === userId);
+  const toIdString = (ref: any): string | undefined => ref ? (ref._id ? ref._id.toString() : ref.toString()) : undefined;
+  if (toIdString(this.mentorId) === userId) {
+    return true;
+  }
+
+  if (this.groupSessionId) {
+    return (this.attendeeIds || []).some((attendeeId: any) => toIdString(attendeeId) === userId);
+  }
+
+  return toIdString(this.studentId) === userId;
+};
+
+VideoCallSchema.methods.canJoin = function (userId: string): boolean {
+  const isUserMentorOrStudent = this.isParticipant(userId);
   const isStatusValid = (this.status === 'scheduled' || this.status === 'in_progress');
   const result = isUserMentorOrStudent && isStatusValid;
   
@@ -0,0 +1,101 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IWaitlistOffer {
+  holdId: mongoose.Types.ObjectId; // Slot holds are keyed to this id, which becomes the booking's id on acceptance
+  slotUTC: Date;
+  duration: number; // in minutes
+  offeredAt: Date;
+  expiresAt: Date;
+}
+
+export interface IWaitlistEntry extends Document {
+  studentId: mongoose.Types.ObjectId;
+  mentorId: mongoose.Types.ObjectId;
+  serviceId: mongoose.Types.ObjectId;
+  preferredFrom: Date; // UTC; a freed slot must start and end inside this range
+  preferredTo: Date; // UTC
+  studentTimezone: string;
+  status: 'waiting' | 'offered' | 'booked' | 'expired' | 'cancelled';
+  offer?: IWaitlistOffer;
+  missedOffers: number;
+  passedSlots: Date[]; // Starts of freed slots the student declined or let lapse; not offered to them again
+  bookingId?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WaitlistEntrySchema = new Schema<IWaitlistEntry>({
+  studentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  mentorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  serviceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Service',
+    required: true
+  },
+  preferredFrom: {
+    type: Date,
+    required: true
+  },
+  preferredTo: {
+    type: Date,
+    required: true
+  },
+  studentTimezone: {
+    type: String,
+    default: 'UTC'
+  },
+  status: {
+    type: String,
+    enum: ['waiting', 'offered', 'booked', 'expired', 'cancelled'],
+    default: 'waiting'
+  },
+  offer: {
+    holdId: {
+      type: Schema.Types.ObjectId
+    },
+    slotUTC: {
+      type: Date
+    },
+    duration: {
+      type: Number
+    },
+    offeredAt: {
+      type: Date
+    },
+    expiresAt: {
+      type: Date
+    }
+  },
+  missedOffers: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  passedSlots: {
+    type: [Date],
+    default: []
+  },
+  bookingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking'
+  }
+}, {
+  timestamps: true
+});
+
+// Matching a freed slot walks a mentor's waiting entries in the order they joined
+WaitlistEntrySchema.index({ mentorId: 1, status: 1, createdAt: 1 });
+WaitlistEntrySchema.index({ studentId: 1, status: 1 });
+WaitlistEntrySchema.index({ status: 1, 'offer.expiresAt': 1 });
+WaitlistEntrySchema.index({ status: 1, preferredTo: 1 });
+
+export const WaitlistEntry = mongoose.model<IWaitlistEntry>('WaitlistEntry', WaitlistEntrySchema);
+export default WaitlistEntry;
@@ -23,6 +23,20 @@ import {
   refundTransaction,
   processManualPayout,
   retryFailedTransaction,
+  getLedgerReconciliation,
+  recordLedgerOpeningBalances,
+  getWebhookEvents,
+  replayWebhookEvent,
+  getTokenPacks,
+  createTokenPack,
+  updateTokenPack,
+  getTokenPromotions,
+  createTokenPromotion,
+  updateTokenPromotion,
+  getCoupons,
+  createCoupon,
+  updateCoupon,
+  getTaxSummaries,
   requireAdmin
 } from '../controllers/adminController';
 import { authenticate } from '../middleware/auth';
@@ -60,6 +74,30 @@ router.post('/transactions/:transactionId/refund', refundTransaction);
 router.post('/transactions/:transactionId/payout', processManualPayout);
 router.post('/transactions/:transactionId/retry', retryFailedTransaction);
 
+// Token ledger
+router.get('/ledger/reconciliation', getLedgerReconciliation);
+router.post('/ledger/opening-balances', recordLedgerOpeningBalances);
+
+// Token packs and promotions
+router.get('/token-packs', getTokenPacks);
+router.post('/token-packs', createTokenPack);
+router.patch('/token-packs/:packId', updateTokenPack);
+router.get('/token-promotions', getTokenPromotions);
+router.post('/token-promotions', createTokenPromotion);
+router.patch('/token-promotions/:promotionId', updateTokenPromotion);
+
+// Coupons
+router.get('/coupons', getCoupons);
+router.post('/coupons', createCoupon);
+router.patch('/coupons/:couponId', updateCoupon);
+
+// Annual mentor earnings summaries for tax reporting
+router.get('/tax-summaries', getTaxSummaries);
+
+// Stripe webhook events
+router.get('/webhooks/events', getWebhookEvents);
+router.post('/webhooks/events/:eventId/replay', replayWebhookEvent);
+
 // Analytics
 router.get('/activity', getPlatformActivity);
 router.get('/analytics/users', getUserAnalytics);
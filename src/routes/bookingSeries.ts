@@ -0,0 +1,33 @@
+import express from 'express';
+import { authenticate } from '../middleware/auth';
+import {
+  createBookingSeries,
+  getBookingSeriesList,
+  getBookingSeries,
+  createSeriesPaymentIntent,
+  confirmSeriesPayment,
+  payBookingSeriesWithTokens,
+  cancelBookingSeries
+} from '../controllers/bookingSeriesController';
+
+const router = express.Router();
+
+// All booking series routes require authentication
+router.use(authenticate);
+
+// Create a recurring series and list the user's series
+router.post('/', createBookingSeries);
+router.get('/', getBookingSeriesList);
+
+// Get a series with its occurrences
+router.get('/:seriesId', getBookingSeries);
+
+// Upfront payment for the whole series
+router.post('/:seriesId/payment-intent', createSeriesPaymentIntent);
+router.post('/:seriesId/confirm-payment', confirmSeriesPayment);
+router.post('/:seriesId/pay-with-tokens', payBookingSeriesWithTokens);
+
+// Cancel one occurrence or the rest of the series
+router.patch('/:seriesId/cancel', cancelBookingSeries);
+
+export default router;
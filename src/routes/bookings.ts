@@ -8,15 +8,21 @@ import {
   updateBookingStatus,
   updatePaymentStatus,
   getMentorAvailability,
-  getAvailableTimeSlots
+  getAvailableTimeSlots,
+  getBookingRefunds,
+  issueBookingRefund,
+  getBookingEscrow
 } from '../controllers/bookingController';
 import {
   requestReschedule,
   getRescheduleRequests,
   respondToRescheduleRequest,
-  cancelBooking
+  cancelBooking,
+  getCancellationPreview
 } from '../controllers/rescheduleController';
 import { TokenPaymentService } from '../services/tokenPaymentService';
+import { BookingSeriesService } from '../services/bookingSeriesService';
+import { CouponService } from '../services/couponService';
 
 const router = express.Router();
 
@@ -33,11 +39,15 @@ router.post('/:bookingId/reschedule', authenticate, requestReschedule);
 router.get('/reschedule-requests', authenticate, getRescheduleRequests);
 router.patch('/reschedule-requests/:requestId', authenticate, respondToRescheduleRequest);
 router.patch('/:bookingId/cancel', authenticate, cancelBooking);
+router.get('/:bookingId/cancellation-preview', authenticate, getCancellationPreview);
 
 // Specific booking routes (must come after specific routes)
 router.get('/:id', authenticate, getBooking);
 router.patch('/:id/status', authenticate, updateBookingStatus);
 router.patch('/:id/payment', authenticate, updatePaymentStatus);
+router.get('/:id/refunds', authenticate, getBookingRefunds);
+router.post('/:id/refunds', authenticate, issueBookingRefund);
+router.get('/:id/escrow', authenticate, getBookingEscrow);
 
 // Token payment routes
 router.post('/:id/pay-with-tokens', authenticate, async (req, res) => {
@@ -69,6 +79,30 @@ router.post('/:id/pay-with-tokens', authenticate, async (req, res) => {
       });
     }
     
+    if (await BookingSeriesService.isUpfrontOccurrence(booking)) {
+      return res.status(400).json({
+        success: false,
+        error: 'This session is part of a recurring booking paid upfront; pay for the series instead'
+      });
+    }
+    
+    if (req.body?.couponCode) {
+      const applied = await CouponService.applyToBooking(booking, req.body.couponCode, userId.toString());
+      if (!applied.quote) {
+        return res.status(400).json({
+          success: false,
+          error: applied.error
+        });
+      }
+    }
+    
+    if (booking.amount <= 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'This booking is free after the discount; confirm it without payment'
+      });
+    }
+    
     // Process token payment
     const result = await TokenPaymentService.processTokenPayment(
       id as string,
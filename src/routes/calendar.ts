@@ -0,0 +1,24 @@
+import express from 'express';
+import { authenticate } from '../middleware/auth';
+import {
+  getFeedUrl,
+  regenerateFeedUrl,
+  getCalendarFeed,
+  downloadBookingEvent
+} from '../controllers/calendarController';
+
+const router = express.Router();
+
+// Subscribed calendar feed (public; authenticated by the secret token in the URL)
+router.get('/feed/:token', getCalendarFeed);
+
+// Get the user's private feed URL
+router.get('/feed-url', authenticate, getFeedUrl);
+
+// Regenerate the feed URL, revoking the old one
+router.post('/feed-url/regenerate', authenticate, regenerateFeedUrl);
+
+// Download a single booking as an .ics file
+router.get('/bookings/:bookingId', authenticate, downloadBookingEvent);
+
+export default router;
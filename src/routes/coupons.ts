@@ -0,0 +1,23 @@
+import express from 'express';
+import { authenticate, requireMentor } from '../middleware/auth';
+import {
+  createCoupon,
+  getMyCoupons,
+  updateCoupon,
+  validateCoupon
+} from '../controllers/couponController';
+
+const router = express.Router();
+
+// All coupon routes require authentication
+router.use(authenticate);
+
+// Check a code against a booking before paying
+router.post('/validate', validateCoupon);
+
+// Mentor-issued coupons
+router.get('/mine', requireMentor, getMyCoupons);
+router.post('/', requireMentor, createCoupon);
+router.patch('/:couponId', requireMentor, updateCoupon);
+
+export default router;
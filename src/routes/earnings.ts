@@ -1,12 +1,14 @@
 import { Router } from 'express';
-import { authenticate, requireAdmin } from '../middleware/auth';
+import { authenticate, requireAdmin, requireMentor } from '../middleware/auth';
 import { 
   getMentorEarnings, 
   getMonthlyEarnings,
   getCommissionTiers, 
   getTierProgress,
   getAllMentorEarnings,
-  updateMentorTier
+  updateMentorTier,
+  getStatements,
+  getStatement
 } from '../controllers/earningsController';
 
 const router = Router();
@@ -18,6 +20,8 @@ router.get('/tiers', getCommissionTiers);
 router.get('/mentor', authenticate, getMentorEarnings);
 router.get('/monthly', authenticate, getMonthlyEarnings);
 router.get('/tier-progress', authenticate, getTierProgress);
+router.get('/statements', authenticate, requireMentor, getStatements);
+router.get('/statements/:year/:month', authenticate, requireMentor, getStatement);
 
 // Admin routes
 router.get('/all', authenticate, requireAdmin, getAllMentorEarnings);
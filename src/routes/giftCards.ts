@@ -0,0 +1,33 @@
+import express from 'express';
+import { authenticate } from '../middleware/auth';
+import {
+  purchaseGiftCard,
+  confirmGiftCardPayment,
+  getPurchasedGiftCards,
+  getGiftCardBalance,
+  redeemGiftCard,
+  redeemGiftCardForBooking
+} from '../controllers/giftCardController';
+
+const router = express.Router();
+
+// All gift card routes require authentication
+router.use(authenticate);
+
+// Buy a gift card
+router.post('/', purchaseGiftCard);
+
+// Confirm a card payment for a gift card
+router.post('/:giftCardId/confirm-payment', confirmGiftCardPayment);
+
+// List the gift cards the user has bought
+router.get('/purchased', getPurchasedGiftCards);
+
+// Check a code's balance
+router.get('/code/:code', getGiftCardBalance);
+
+// Redeem into tokens, or against a booking
+router.post('/redeem', redeemGiftCard);
+router.post('/redeem/booking', redeemGiftCardForBooking);
+
+export default router;
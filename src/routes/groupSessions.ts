@@ -0,0 +1,34 @@
+import express from 'express';
+import { authenticate } from '../middleware/auth';
+import {
+  createGroupSession,
+  getUpcomingGroupSessions,
+  getMyGroupSessions,
+  getGroupSession,
+  bookGroupSeat,
+  joinGroupWaitlist,
+  leaveGroupWaitlist,
+  cancelGroupSession
+} from '../controllers/groupSessionController';
+
+const router = express.Router();
+
+// Public listing of upcoming group sessions
+router.get('/', getUpcomingGroupSessions);
+
+// Schedule a session (mentor) and list the user's own sessions
+router.post('/', authenticate, createGroupSession);
+router.get('/mine', authenticate, getMyGroupSessions);
+
+// Get a session (roster for the hosting mentor)
+router.get('/:groupSessionId', authenticate, getGroupSession);
+
+// Book a seat, or wait for one
+router.post('/:groupSessionId/seats', authenticate, bookGroupSeat);
+router.post('/:groupSessionId/waitlist', authenticate, joinGroupWaitlist);
+router.delete('/:groupSessionId/waitlist', authenticate, leaveGroupWaitlist);
+
+// Cancel the whole session
+router.patch('/:groupSessionId/cancel', authenticate, cancelGroupSession);
+
+export default router;
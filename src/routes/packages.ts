@@ -0,0 +1,27 @@
+import express from 'express';
+import { authenticate } from '../middleware/auth';
+import {
+  purchasePackage,
+  getPackagePurchases,
+  confirmPackagePayment,
+  refundPackagePurchase
+} from '../controllers/packageController';
+
+const router = express.Router();
+
+// All package purchase routes require authentication
+router.use(authenticate);
+
+// Buy a service's package offer
+router.post('/purchase', purchasePackage);
+
+// List the user's purchased (or, for mentors, sold) packages
+router.get('/purchases', getPackagePurchases);
+
+// Confirm a card payment for a purchase
+router.post('/purchases/:purchaseId/confirm-payment', confirmPackagePayment);
+
+// Refund a purchase's unused credits
+router.post('/purchases/:purchaseId/refund', refundPackagePurchase);
+
+export default router;
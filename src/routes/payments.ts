@@ -5,6 +5,12 @@ import {
   confirmPayment,
   handleWebhook
 } from '../controllers/paymentController';
+import {
+  getPaymentMethods,
+  createSetupIntent,
+  removePaymentMethod,
+  setDefaultPaymentMethod
+} from '../controllers/paymentMethodController';
 
 const router = express.Router();
 
@@ -15,4 +21,10 @@ router.post('/webhook', express.raw({ type: 'application/json' }), handleWebhook
 router.post('/create-payment-intent', authenticate as any, createPaymentIntent);
 router.post('/confirm-payment', authenticate as any, confirmPayment);
 
+// Saved payment methods
+router.get('/payment-methods', authenticate, getPaymentMethods);
+router.post('/payment-methods/setup-intent', authenticate, createSetupIntent);
+router.put('/payment-methods/:paymentMethodId/default', authenticate, setDefaultPaymentMethod);
+router.delete('/payment-methods/:paymentMethodId', authenticate, removePaymentMethod);
+
 export default router;
@@ -1,7 +1,12 @@
 import express from 'express';
-import { authenticate, requireAdmin } from '../middleware/auth';
+import { authenticate, requireAdmin, requireMentor } from '../middleware/auth';
 import {
   getMentorPayoutHistory,
+  getPayoutSettings,
+  updatePayoutSettings,
+  getMentorPayoutBatches,
+  getTaxProfile,
+  updateTaxProfile,
   getPlatformPayoutStats,
   runManualPayoutCheck,
   getPendingPayouts,
@@ -12,6 +17,11 @@ const router = express.Router();
 
 // Mentor routes
 router.get('/mentor/history', authenticate, getMentorPayoutHistory);
+router.get('/mentor/batches', authenticate, requireMentor, getMentorPayoutBatches);
+router.get('/mentor/settings', authenticate, requireMentor, getPayoutSettings);
+router.put('/mentor/settings', authenticate, requireMentor, updatePayoutSettings);
+router.get('/mentor/tax-profile', authenticate, requireMentor, getTaxProfile);
+router.put('/mentor/tax-profile', authenticate, requireMentor, updateTaxProfile);
 
 // Admin routes
 router.get('/admin/stats', authenticate, requireAdmin, getPlatformPayoutStats);
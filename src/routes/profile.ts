@@ -12,6 +12,18 @@ import {
   getMentorAvailability,
   deleteAccount
 } from '../controllers/profileController';
+import {
+  getAvailabilityOverrides,
+  createAvailabilityOverride,
+  updateAvailabilityOverride,
+  deleteAvailabilityOverride
+} from '../controllers/availabilityOverrideController';
+import {
+  getCancellationPolicyPresets,
+  getMyCancellationPolicy,
+  updateMyCancellationPolicy,
+  getMentorCancellationPolicy
+} from '../controllers/cancellationPolicyController';
 
 const router = Router();
 
@@ -19,12 +31,20 @@ const router = Router();
 router.get('/me', authenticate, getProfile);
 router.put('/me', authenticate, updateProfile);
 router.put('/availability', authenticate, updateAvailability);
+router.get('/availability/overrides', authenticate, getAvailabilityOverrides);
+router.post('/availability/overrides', authenticate, createAvailabilityOverride);
+router.put('/availability/overrides/:overrideId', authenticate, updateAvailabilityOverride);
+router.delete('/availability/overrides/:overrideId', authenticate, deleteAvailabilityOverride);
+router.get('/cancellation-policy', authenticate, getMyCancellationPolicy);
+router.put('/cancellation-policy', authenticate, updateMyCancellationPolicy);
 router.put('/me/image', authenticate, uploadProfileImage);
 router.post('/me/documents', authenticate, addDocument);
 router.delete('/me/documents/:documentId', authenticate, removeDocument);
 router.delete('/me', authenticate, deleteAccount);
 
 // Public routes (no authentication required)
+router.get('/cancellation-policy/presets', getCancellationPolicyPresets);
+router.get('/mentor/:mentorId/cancellation-policy', getMentorCancellationPolicy);
 router.get('/:userId', getPublicProfile);
 router.get('/search', searchProfiles);
 router.get('/mentor/:mentorId/availability', getMentorAvailability);
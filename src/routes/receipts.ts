@@ -0,0 +1,27 @@
+import express from 'express';
+import { authenticate } from '../middleware/auth';
+import {
+  getReceipts,
+  getReceipt,
+  downloadReceiptPDF,
+  getBillingDetails,
+  updateBillingDetails
+} from '../controllers/receiptController';
+
+const router = express.Router();
+
+// All receipt routes require authentication
+router.use(authenticate);
+
+// Billing details printed on new receipts
+router.get('/billing-details', getBillingDetails);
+router.put('/billing-details', updateBillingDetails);
+
+// List the user's receipts
+router.get('/', getReceipts);
+
+// Get a receipt, or download it as a PDF
+router.get('/:receiptId', getReceipt);
+router.get('/:receiptId/pdf', downloadReceiptPDF);
+
+export default router;
@@ -9,6 +9,12 @@ import {
   getServicesByMentor,
   getServiceCategories
 } from '../controllers/serviceController';
+import {
+  getServicePackages,
+  createServicePackage,
+  updateServicePackage,
+  deleteServicePackage
+} from '../controllers/packageController';
 
 const router = Router();
 
@@ -17,10 +23,16 @@ router.get('/', getServices);
 router.get('/categories', getServiceCategories);
 router.get('/:id', getService);
 router.get('/mentor/:mentorId', getServicesByMentor);
+router.get('/:id/packages', getServicePackages);
 
 // Protected routes (require authentication)
 router.post('/', authenticate as any, createService as any);
 router.put('/:id', authenticate as any, updateService as any);
 router.delete('/:id', authenticate as any, deleteService as any);
 
+// Package offers (bundles of sessions sold at a discount)
+router.post('/:id/packages', authenticate, createServicePackage);
+router.put('/:id/packages/:packageId', authenticate, updateServicePackage);
+router.delete('/:id/packages/:packageId', authenticate, deleteServicePackage);
+
 export default router;
@@ -6,7 +6,11 @@ import {
   confirmTokenTopUp,
   getTransactions, 
   checkBalance,
-  getTotalSpend
+  getTotalSpend,
+  getAutoTopUp,
+  updateAutoTopUp,
+  getTokenPacks,
+  getTokenQuote
 } from '../controllers/tokenController';
 
 const router = Router();
@@ -17,6 +21,10 @@ router.use(authenticate);
 // Get user's token balance
 router.get('/balance', getBalance);
 
+// Top-up packs and pricing
+router.get('/packs', getTokenPacks);
+router.get('/quote', getTokenQuote);
+
 // Create payment intent for token top-up
 router.post('/create-payment-intent', createTokenTopUpPaymentIntent);
 
@@ -32,4 +40,8 @@ router.post('/check-balance', checkBalance);
 // Get total token spend
 router.get('/spend', getTotalSpend);
 
+// Auto top-up rule
+router.get('/auto-top-up', getAutoTopUp);
+router.put('/auto-top-up', updateAutoTopUp);
+
 export default router;
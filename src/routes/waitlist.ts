@@ -0,0 +1,25 @@
+import express from 'express';
+import { authenticate } from '../middleware/auth';
+import {
+  joinWaitlist,
+  getWaitlistEntries,
+  declineWaitlistOffer,
+  leaveWaitlist
+} from '../controllers/waitlistController';
+
+const router = express.Router();
+
+// All waitlist routes require authentication
+router.use(authenticate);
+
+// Join a mentor's waitlist and list entries
+router.post('/', joinWaitlist);
+router.get('/', getWaitlistEntries);
+
+// Pass on a held slot (book it through POST /api/bookings with waitlistEntryId to accept)
+router.post('/:entryId/decline', declineWaitlistOffer);
+
+// Leave the waitlist
+router.delete('/:entryId', leaveWaitlist);
+
+export default router;
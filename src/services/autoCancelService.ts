@@ -2,6 +2,10 @@ import { Booking } from '../models/Booking';
 import { User } from '../models/User';
 import { RefundService } from './refundService';
 import { bookingNotificationService } from './bookingNotificationService';
+import { SlotHoldService } from './slotHoldService';
+import { GroupSessionService } from './groupSessionService';
+import { WaitlistService } from './waitlistService';
+import { CouponService } from './couponService';
 
 export class AutoCancelService {
   // Auto-cancel pending bookings older than 4 hours
@@ -9,10 +13,11 @@ export class AutoCancelService {
     try {
       const fourHoursAgo = new Date(Date.now() - 4 * 60 * 60 * 1000);
       
-      // Find pending bookings older than 4 hours
+      // Find pending bookings older than 4 hours (series occurrences follow their own payment schedule)
       const pendingBookings = await Booking.find({
         status: 'pending',
         paymentStatus: 'pending',
+        seriesId: { $exists: false },
         createdAt: { $lt: fourHoursAgo }
       }).populate('studentId mentorId serviceId');
 
@@ -26,6 +31,13 @@ export class AutoCancelService {
             : 'Auto-cancelled due to incomplete payment after 4 hours.';
           
           await booking.save();
+          await SlotHoldService.releaseHolds(booking._id);
+          // A lapsed group seat goes to the next student on the waitlist
+          await GroupSessionService.releaseSeat(booking);
+          // ...and lapsed one-on-one time goes to the mentor's waitlist
+          await WaitlistService.handleBookingCancelled(booking);
+          // The coupon's redemption can be used again
+          await CouponService.releaseForBooking(booking);
 
           // Send notification to both parties
           await bookingNotificationService.sendBookingCancellationNotification(
@@ -50,6 +62,16 @@ export class AutoCancelService {
     }
   }
 
+  // Release slot holds whose checkout window has expired
+  static async releaseExpiredSlotHolds(): Promise<number> {
+    try {
+      return await SlotHoldService.releaseExpiredHolds();
+    } catch (error) {
+      console.error('Error releasing expired slot holds:', error);
+      return 0;
+    }
+  }
+
   // Get statistics about pending bookings
   static async getPendingBookingStats(): Promise<{
     totalPending: number;
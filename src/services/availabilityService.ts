@@ -0,0 +1,434 @@
+import mongoose from 'mongoose';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { Booking } from '../models/Booking';
+import { IUserDocument } from '../models/User';
+import { AvailabilityOverride, IAvailabilityOverride } from '../models/AvailabilityOverride';
+import { GroupSession } from '../models/GroupSession';
+import { SlotHold } from '../models/SlotHold';
+import { SLOT_HOLD_UNIT_MINUTES } from './slotHoldService';
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const SLOT_INTERVAL_MINUTES = 30;
+const MAX_BOOKING_DURATION_MINUTES = 480;
+const MAX_BUFFER_MINUTES = 120;
+const ACTIVE_BOOKING_STATUSES = ['pending', 'confirmed'];
+
+export interface DailyWindow {
+  startTime: string; // HH:mm in the mentor's timezone
+  endTime: string; // HH:mm in the mentor's timezone
+}
+
+export interface AvailabilityWindow {
+  start: Date; // UTC
+  end: Date; // UTC
+}
+
+export interface BusyInterval extends AvailabilityWindow {
+  bufferBefore: number; // in minutes
+  bufferAfter: number; // in minutes
+}
+
+export interface SlotRules {
+  duration: number; // in minutes
+  bufferBefore: number; // in minutes
+  bufferAfter: number; // in minutes
+  minimumNoticeHours: number;
+}
+
+export interface TimeSlot {
+  time: string; // HH:mm in the requester's timezone
+  endTime: string; // HH:mm in the requester's timezone
+  duration: number; // in minutes
+  startUTC: Date;
+  endUTC: Date;
+}
+
+export interface SlotCheckResult {
+  available: boolean;
+  reason?: 'past' | 'insufficient_notice' | 'outside_availability' | 'conflict';
+  error?: string;
+}
+
+export class AvailabilityService {
+  // Build slot rules from a service, optionally overriding its duration
+  static getSlotRules(
+    service: { duration: number; bufferBefore?: number; bufferAfter?: number; minimumNoticeHours?: number },
+    duration?: number
+  ): SlotRules {
+    return {
+      duration: duration || service.duration,
+      bufferBefore: service.bufferBefore || 0,
+      bufferAfter: service.bufferAfter || 0,
+      minimumNoticeHours: service.minimumNoticeHours || 0
+    };
+  }
+
+  // Check that a timezone name is understood by Intl
+  static isValidTimezone(timezone?: string): boolean {
+    if (!timezone) {
+      return false;
+    }
+
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Resolve a timezone, falling back to UTC when missing or invalid
+  static resolveTimezone(timezone?: string): string {
+    return this.isValidTimezone(timezone) ? (timezone as string) : 'UTC';
+  }
+
+  // Normalise a date query value to a yyyy-MM-dd calendar date in the given timezone
+  static toCalendarDate(date: string | Date, timezone: string): string | null {
+    if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return date;
+    }
+
+    const parsed = new Date(date);
+    if (isNaN(parsed.getTime())) {
+      return null;
+    }
+
+    return formatInTimeZone(parsed, timezone, 'yyyy-MM-dd');
+  }
+
+  // Add days to a yyyy-MM-dd calendar date
+  static addDays(calendarDate: string, days: number): string {
+    const date = new Date(`${calendarDate}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+  }
+
+  // Get the lowercase weekday name of a yyyy-MM-dd calendar date
+  static getDayName(calendarDate: string): string {
+    return DAY_NAMES[new Date(`${calendarDate}T00:00:00Z`).getUTCDay()];
+  }
+
+  // Load the mentor's overrides touching the given mentor-local date range
+  static async getOverrides(
+    mentorId: string | mongoose.Types.ObjectId,
+    fromDate: string,
+    toDate: string
+  ): Promise<IAvailabilityOverride[]> {
+    return AvailabilityOverride.find({
+      mentorId,
+      startDate: { $lte: toDate },
+      endDate: { $gte: fromDate }
+    });
+  }
+
+  // Get the windows that apply to a given mentor-local date, honouring overrides
+  static getWindowsForDate(
+    mentor: IUserDocument,
+    calendarDate: string,
+    overrides: IAvailabilityOverride[] = []
+  ): DailyWindow[] {
+    const applicable = overrides.filter(override =>
+      override.startDate <= calendarDate && calendarDate <= override.endDate
+    );
+
+    // Blackouts and time off close the whole day, including any extra windows
+    if (applicable.some(override => override.type === 'blackout' || override.type === 'time_off')) {
+      return [];
+    }
+
+    const dayName = this.getDayName(calendarDate);
+    const windows: DailyWindow[] = (mentor.availability || [])
+      .filter(slot => slot.day === dayName && slot.isAvailable && slot.startTime && slot.endTime)
+      .map(slot => ({ startTime: slot.startTime, endTime: slot.endTime }));
+
+    for (const override of applicable) {
+      if (override.type === 'extra' && override.startTime && override.endTime) {
+        windows.push({ startTime: override.startTime, endTime: override.endTime });
+      }
+    }
+
+    return windows;
+  }
+
+  // Get the mentor-local date range padded around a UTC range
+  static getMentorDateRange(mentor: IUserDocument, rangeStart: Date, rangeEnd: Date): { fromDate: string; toDate: string } {
+    const mentorTz = this.resolveTimezone(mentor.timezone);
+    return {
+      fromDate: this.addDays(formatInTimeZone(rangeStart, mentorTz, 'yyyy-MM-dd'), -1),
+      toDate: this.addDays(formatInTimeZone(rangeEnd, mentorTz, 'yyyy-MM-dd'), 1)
+    };
+  }
+
+  // Expand the mentor's availability into UTC windows overlapping [rangeStart, rangeEnd)
+  static expandAvailability(
+    mentor: IUserDocument,
+    rangeStart: Date,
+    rangeEnd: Date,
+    overrides: IAvailabilityOverride[] = []
+  ): AvailabilityWindow[] {
+    const mentorTz = this.resolveTimezone(mentor.timezone);
+    const { fromDate, toDate } = this.getMentorDateRange(mentor, rangeStart, rangeEnd);
+    const windows: AvailabilityWindow[] = [];
+
+    // Walk every mentor-local date touched by the range, padded by a day on each side
+    for (let calendarDate = fromDate; calendarDate <= toDate; calendarDate = this.addDays(calendarDate, 1)) {
+      for (const slot of this.getWindowsForDate(mentor, calendarDate, overrides)) {
+        const start = fromZonedTime(`${calendarDate}T${slot.startTime}:00`, mentorTz);
+        const end = fromZonedTime(`${calendarDate}T${slot.endTime}:00`, mentorTz);
+
+        if (end > start && end > rangeStart && start < rangeEnd) {
+          windows.push({ start, end });
+        }
+      }
+    }
+
+    return this.mergeWindows(windows);
+  }
+
+  // Sort windows and merge any that overlap or touch
+  static mergeWindows(windows: AvailabilityWindow[]): AvailabilityWindow[] {
+    const sorted = [...windows].sort((a, b) => a.start.getTime() - b.start.getTime());
+    const merged: AvailabilityWindow[] = [];
+
+    for (const window of sorted) {
+      const last = merged[merged.length - 1];
+      if (last && window.start <= last.end) {
+        if (window.end > last.end) {
+          last.end = window.end;
+        }
+      } else {
+        merged.push({ start: window.start, end: window.end });
+      }
+    }
+
+    return merged;
+  }
+
+  // Load overrides and expand availability for a UTC range
+  static async getAvailabilityWindows(mentor: IUserDocument, rangeStart: Date, rangeEnd: Date): Promise<AvailabilityWindow[]> {
+    const { fromDate, toDate } = this.getMentorDateRange(mentor, rangeStart, rangeEnd);
+    const overrides = await this.getOverrides(mentor._id as mongoose.Types.ObjectId, fromDate, toDate);
+    return this.expandAvailability(mentor, rangeStart, rangeEnd, overrides);
+  }
+
+  // Get the mentor's booked and held intervals (UTC) whose buffered span overlaps [rangeStart, rangeEnd);
+  // excludeBookingId also skips that booking's own holds
+  static async getBusyIntervals(
+    mentorId: string | mongoose.Types.ObjectId,
+    rangeStart: Date,
+    rangeEnd: Date,
+    excludeBookingId?: string
+  ): Promise<BusyInterval[]> {
+    const scheduledAtUTC = {
+      $gte: new Date(rangeStart.getTime() - (MAX_BOOKING_DURATION_MINUTES + MAX_BUFFER_MINUTES) * 60000),
+      $lt: new Date(rangeEnd.getTime() + MAX_BUFFER_MINUTES * 60000)
+    };
+
+    // Seat bookings are covered by their group session, which blocks the time even before anyone books
+    const query: any = {
+      mentorId,
+      scheduledAtUTC,
+      status: { $in: ACTIVE_BOOKING_STATUSES },
+      groupSessionId: { $exists: false }
+    };
+
+    if (excludeBookingId) {
+      query._id = { $ne: excludeBookingId };
+    }
+
+    const [bookings, groupSessions, holds] = await Promise.all([
+      Booking.find(query)
+        .select('scheduledAtUTC duration serviceId')
+        .populate('serviceId', 'bufferBefore bufferAfter'),
+      GroupSession.find({ mentorId, scheduledAtUTC, status: 'scheduled' })
+        .select('scheduledAtUTC duration serviceId')
+        .populate('serviceId', 'bufferBefore bufferAfter'),
+      SlotHold.find({
+        mentorId,
+        slotUTC: { $gte: scheduledAtUTC.$gte, $lt: scheduledAtUTC.$lt },
+        expiresAt: { $gt: new Date() },
+        ...(excludeBookingId ? { bookingId: { $ne: excludeBookingId } } : {})
+      }).select('bookingId slotUTC')
+    ]);
+
+    const intervals: BusyInterval[] = [...bookings, ...groupSessions].map(session => {
+      const service = session.serviceId as any;
+      return {
+        start: new Date(session.scheduledAtUTC),
+        end: new Date(session.scheduledAtUTC.getTime() + session.duration * 60000),
+        bufferBefore: service?.bufferBefore || 0,
+        bufferAfter: service?.bufferAfter || 0
+      };
+    });
+
+    // A checkout's live holds already cover its buffers, so each is busy as one unbuffered span
+    const holdSpans = new Map<string, BusyInterval>();
+    for (const hold of holds) {
+      const key = hold.bookingId.toString();
+      const unitEnd = new Date(hold.slotUTC.getTime() + SLOT_HOLD_UNIT_MINUTES * 60000);
+      const span = holdSpans.get(key);
+      if (!span) {
+        holdSpans.set(key, { start: hold.slotUTC, end: unitEnd, bufferBefore: 0, bufferAfter: 0 });
+      } else {
+        span.start = hold.slotUTC < span.start ? hold.slotUTC : span.start;
+        span.end = unitEnd > span.end ? unitEnd : span.end;
+      }
+    }
+
+    return [...intervals, ...holdSpans.values()]
+      .filter(interval =>
+        interval.end.getTime() + interval.bufferAfter * 60000 > rangeStart.getTime() &&
+        interval.start.getTime() - interval.bufferBefore * 60000 < rangeEnd.getTime()
+      );
+  }
+
+  // Find active bookings that fall inside a blackout or time-off override
+  static async getBookingsInOverride(mentor: IUserDocument, override: IAvailabilityOverride) {
+    const mentorTz = this.resolveTimezone(mentor.timezone);
+    const rangeStart = fromZonedTime(`${override.startDate}T00:00:00`, mentorTz);
+    const rangeEnd = fromZonedTime(`${this.addDays(override.endDate, 1)}T00:00:00`, mentorTz);
+
+    const bookings = await Booking.find({
+      mentorId: mentor._id,
+      scheduledAtUTC: {
+        $gte: new Date(rangeStart.getTime() - MAX_BOOKING_DURATION_MINUTES * 60000),
+        $lt: rangeEnd
+      },
+      status: { $in: ACTIVE_BOOKING_STATUSES }
+    }).sort({ scheduledAtUTC: 1 });
+
+    return bookings.filter(booking =>
+      new Date(booking.scheduledAtUTC.getTime() + booking.duration * 60000) > rangeStart
+    );
+  }
+
+  // Check whether a candidate slot collides with a booked interval, keeping the larger buffer on each side
+  static conflicts(slot: AvailabilityWindow, rules: SlotRules, interval: BusyInterval): boolean {
+    const gapBefore = Math.max(rules.bufferBefore, interval.bufferAfter) * 60000;
+    const gapAfter = Math.max(rules.bufferAfter, interval.bufferBefore) * 60000;
+
+    return slot.start.getTime() < interval.end.getTime() + gapBefore &&
+      interval.start.getTime() < slot.end.getTime() + gapAfter;
+  }
+
+  // Compute the bookable slots for a calendar date in the requester's timezone
+  static async getAvailableSlots(
+    mentor: IUserDocument,
+    rules: SlotRules,
+    date: string | Date,
+    timezone: string,
+    now: Date = new Date()
+  ): Promise<{ slots: TimeSlot[]; timezone: string; date: string | null; dayAvailability: DailyWindow | null }> {
+    const requesterTz = this.resolveTimezone(timezone);
+    const calendarDate = this.toCalendarDate(date, requesterTz);
+
+    if (!calendarDate) {
+      return { slots: [], timezone: requesterTz, date: null, dayAvailability: null };
+    }
+
+    const dayStart = fromZonedTime(`${calendarDate}T00:00:00`, requesterTz);
+    const dayEnd = fromZonedTime(`${this.addDays(calendarDate, 1)}T00:00:00`, requesterTz);
+
+    const windows = await this.getAvailabilityWindows(mentor, dayStart, dayEnd);
+    if (windows.length === 0) {
+      return { slots: [], timezone: requesterTz, date: calendarDate, dayAvailability: null };
+    }
+
+    // Span of the mentor's availability on this date, in the requester's timezone
+    const firstStart = windows[0].start < dayStart ? dayStart : windows[0].start;
+    const lastEnd = windows[windows.length - 1].end;
+    const dayAvailability: DailyWindow = {
+      startTime: formatInTimeZone(firstStart, requesterTz, 'HH:mm'),
+      endTime: lastEnd >= dayEnd ? '24:00' : formatInTimeZone(lastEnd, requesterTz, 'HH:mm')
+    };
+
+    const earliestStart = new Date(now.getTime() + rules.minimumNoticeHours * 60 * 60 * 1000);
+    if (dayEnd <= earliestStart) {
+      return { slots: [], timezone: requesterTz, date: calendarDate, dayAvailability };
+    }
+
+    const busy = await this.getBusyIntervals(
+      mentor._id as mongoose.Types.ObjectId,
+      windows[0].start,
+      windows[windows.length - 1].end
+    );
+
+    const { duration } = rules;
+    const slots: TimeSlot[] = [];
+    for (const window of windows) {
+      for (
+        let start = window.start.getTime();
+        start + duration * 60000 <= window.end.getTime();
+        start += SLOT_INTERVAL_MINUTES * 60000
+      ) {
+        const slot = { start: new Date(start), end: new Date(start + duration * 60000) };
+
+        if (slot.start < dayStart || slot.start >= dayEnd || slot.start <= now || slot.start < earliestStart) {
+          continue;
+        }
+
+        if (busy.some(interval => this.conflicts(slot, rules, interval))) {
+          continue;
+        }
+
+        slots.push({
+          time: formatInTimeZone(slot.start, requesterTz, 'HH:mm'),
+          endTime: formatInTimeZone(slot.end, requesterTz, 'HH:mm'),
+          duration,
+          startUTC: slot.start,
+          endUTC: slot.end
+        });
+      }
+    }
+
+    return { slots, timezone: requesterTz, date: calendarDate, dayAvailability };
+  }
+
+  // Validate a requested UTC start time against availability and existing bookings
+  static async checkSlot(
+    mentor: IUserDocument,
+    startUTC: Date,
+    rules: SlotRules,
+    options: { excludeBookingId?: string; now?: Date } = {}
+  ): Promise<SlotCheckResult> {
+    const now = options.now || new Date();
+    const slot = { start: startUTC, end: new Date(startUTC.getTime() + rules.duration * 60000) };
+
+    if (slot.start <= now) {
+      return { available: false, reason: 'past', error: 'Cannot book a session in the past' };
+    }
+
+    if (slot.start.getTime() < now.getTime() + rules.minimumNoticeHours * 60 * 60 * 1000) {
+      return {
+        available: false,
+        reason: 'insufficient_notice',
+        error: `This service must be booked at least ${rules.minimumNoticeHours} hours in advance`
+      };
+    }
+
+    const windows = await this.getAvailabilityWindows(mentor, slot.start, slot.end);
+    const fitsWindow = windows.some(window => window.start <= slot.start && slot.end <= window.end);
+
+    if (!fitsWindow) {
+      const mentorTz = this.resolveTimezone(mentor.timezone);
+      return {
+        available: false,
+        reason: 'outside_availability',
+        error: `Mentor is not available at ${formatInTimeZone(slot.start, mentorTz, 'EEEE HH:mm')} in their timezone (${mentorTz})`
+      };
+    }
+
+    const busy = await this.getBusyIntervals(
+      mentor._id as mongoose.Types.ObjectId,
+      slot.start,
+      slot.end,
+      options.excludeBookingId
+    );
+
+    if (busy.some(interval => this.conflicts(slot, rules, interval))) {
+      return { available: false, reason: 'conflict', error: 'Time slot is already booked' };
+    }
+
+    return { available: true };
+  }
+}
@@ -2,6 +2,8 @@ import { notificationService } from './notificationService';
 import { User } from '../models/User';
 import { Booking } from '../models/Booking';
 import { Service } from '../models/Service';
+import { NotificationPreferencesService } from './notificationPreferencesService';
+import { CalendarService } from './calendarService';
 
 export interface BookingNotificationData {
   bookingId: string;
@@ -18,6 +20,22 @@ export interface BookingNotificationData {
   };
 }
 
+export interface SeriesNotificationData {
+  seriesId: string;
+  menteeId: string;
+  mentorId: string;
+  serviceId: string;
+  frequency: 'weekly' | 'biweekly';
+  occurrences: Array<{ bookingId: string; bookingDate: Date }>;
+  reason?: string; // For cancellations
+}
+
+export interface WaitlistPromotionNotificationData extends BookingNotificationData {
+  groupSessionId: string;
+  sessionTitle: string;
+  paymentDeadline: Date;
+}
+
 class BookingNotificationService {
   // Send new booking notification to mentor
   async sendNewBookingNotification(data: BookingNotificationData): Promise<void> {
@@ -71,11 +89,59 @@ class BookingNotificationService {
         priority: 'medium',
         sendImmediately: true
       });
+
+      // Email calendar invites to both participants
+      await this.sendCalendarInvite(data.bookingId, data.mentorId, 'REQUEST', 'New Booking - Calendar Invite', {
+        menteeName: `${mentee.firstName} ${mentee.lastName}`,
+        serviceTitle: service.title,
+        bookingDate: data.bookingDate,
+        meetingLink: data.meetingLink
+      });
+      await this.sendCalendarInvite(data.bookingId, data.menteeId, 'REQUEST', 'Booking Confirmation - Calendar Invite', {
+        mentorName: `${mentor.firstName} ${mentor.lastName}`,
+        serviceTitle: service.title,
+        bookingDate: data.bookingDate,
+        meetingLink: data.meetingLink
+      });
     } catch (error) {
       throw error;
     }
   }
 
+  // Email a calendar invite, update or cancellation (.ics) to one participant
+  async sendCalendarInvite(
+    bookingId: string,
+    userId: string,
+    method: 'REQUEST' | 'CANCEL',
+    title: string,
+    data: any = {}
+  ): Promise<void> {
+    try {
+      const emailEnabled = await NotificationPreferencesService.shouldSendNotification(userId, 'email', 'booking');
+      if (!emailEnabled) {
+        return;
+      }
+
+      await notificationService.createNotification({
+        userId,
+        type: 'email',
+        category: 'booking',
+        title,
+        message: method === 'CANCEL'
+          ? 'This session has been cancelled. The attached file removes it from your calendar.'
+          : 'Add this session to your calendar with the attached invite.',
+        data: {
+          ...data,
+          bookingId,
+          calendarInvite: { bookingId, method }
+        },
+        priority: 'medium'
+      });
+    } catch (error) {
+      // Calendar invites are best-effort
+    }
+  }
+
   // Send booking confirmation notification
   async sendBookingConfirmationNotification(data: BookingNotificationData): Promise<void> {
     try {
@@ -248,6 +314,10 @@ class BookingNotificationService {
         throw new Error('Required data not found for booking cancellation');
       }
 
+      // Bump the event sequence so calendar clients accept the cancellation
+      await CalendarService.bumpSequence(data.bookingId);
+      const calendarInvite = { bookingId: data.bookingId, method: 'CANCEL' };
+
       const cancelledByName = cancelledBy === 'mentor' ? `${mentor.firstName} ${mentor.lastName}` : `${mentee.firstName} ${mentee.lastName}`;
       const reasonText = data.reason ? ` Reason: ${data.reason}` : '';
       
@@ -274,10 +344,18 @@ class BookingNotificationService {
             serviceTitle: service.title,
             bookingDate: data.bookingDate,
             cancelledBy: 'mentor',
-            reason: data.reason
+            reason: data.reason,
+            calendarInvite
           },
           'high'
         );
+
+        // The mentor's own calendar also needs the cancellation
+        await this.sendCalendarInvite(data.bookingId, data.mentorId, 'CANCEL', 'Session Cancelled', {
+          menteeName: `${mentee.firstName} ${mentee.lastName}`,
+          serviceTitle: service.title,
+          bookingDate: data.bookingDate
+        });
       } else {
         // Notify mentor that mentee cancelled
         await notificationService.createMultiTypeNotification(
@@ -291,11 +369,166 @@ class BookingNotificationService {
             serviceTitle: service.title,
             bookingDate: data.bookingDate,
             cancelledBy: 'mentee',
-            reason: data.reason
+            reason: data.reason,
+            calendarInvite
           },
           'high'
         );
+
+        // The student's own calendar also needs the cancellation
+        await this.sendCalendarInvite(data.bookingId, data.menteeId, 'CANCEL', 'Session Cancelled', {
+          mentorName: `${mentor.firstName} ${mentor.lastName}`,
+          serviceTitle: service.title,
+          bookingDate: data.bookingDate
+        });
+      }
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  // Send recurring series confirmation to both participants, with a calendar invite per occurrence
+  async sendSeriesBookedNotification(data: SeriesNotificationData): Promise<void> {
+    try {
+      const [mentor, mentee, service] = await Promise.all([
+        User.findById(data.mentorId).select('firstName lastName email'),
+        User.findById(data.menteeId).select('firstName lastName email'),
+        Service.findById(data.serviceId).select('title')
+      ]);
+
+      if (!mentor || !mentee || !service || data.occurrences.length === 0) {
+        throw new Error('Required data not found for series notification');
+      }
+
+      const cadence = data.frequency === 'weekly' ? 'weekly' : 'every two weeks';
+      const firstDate = new Date(data.occurrences[0].bookingDate);
+
+      await notificationService.createNotification({
+        userId: data.mentorId,
+        type: 'in_app',
+        category: 'booking',
+        title: 'New Recurring Booking',
+        message: `${mentee.firstName} ${mentee.lastName} has booked ${data.occurrences.length} "${service.title}" sessions (${cadence}) starting ${firstDate.toLocaleString()}`,
+        data: {
+          seriesId: data.seriesId,
+          menteeName: `${mentee.firstName} ${mentee.lastName}`,
+          serviceTitle: service.title,
+          frequency: data.frequency,
+          occurrences: data.occurrences
+        },
+        priority: 'high',
+        sendImmediately: true
+      });
+
+      await notificationService.createNotification({
+        userId: data.menteeId,
+        type: 'in_app',
+        category: 'booking',
+        title: 'Recurring Booking Confirmed',
+        message: `Your ${data.occurrences.length} "${service.title}" sessions with ${mentor.firstName} ${mentor.lastName} (${cadence}) are booked, starting ${firstDate.toLocaleString()}`,
+        data: {
+          seriesId: data.seriesId,
+          mentorName: `${mentor.firstName} ${mentor.lastName}`,
+          serviceTitle: service.title,
+          frequency: data.frequency,
+          occurrences: data.occurrences
+        },
+        priority: 'medium',
+        sendImmediately: true
+      });
+
+      for (const occurrence of data.occurrences) {
+        await this.sendCalendarInvite(occurrence.bookingId, data.mentorId, 'REQUEST', 'Recurring Session - Calendar Invite', {
+          seriesId: data.seriesId,
+          menteeName: `${mentee.firstName} ${mentee.lastName}`,
+          serviceTitle: service.title,
+          bookingDate: occurrence.bookingDate
+        });
+        await this.sendCalendarInvite(occurrence.bookingId, data.menteeId, 'REQUEST', 'Recurring Session - Calendar Invite', {
+          seriesId: data.seriesId,
+          mentorName: `${mentor.firstName} ${mentor.lastName}`,
+          serviceTitle: service.title,
+          bookingDate: occurrence.bookingDate
+        });
+      }
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  // Notify the other participant that the rest of a series was cancelled, and cancel each calendar entry
+  async sendSeriesCancellationNotification(data: SeriesNotificationData, cancelledBy: 'mentor' | 'mentee'): Promise<void> {
+    try {
+      const [mentor, mentee, service] = await Promise.all([
+        User.findById(data.mentorId).select('firstName lastName email'),
+        User.findById(data.menteeId).select('firstName lastName email'),
+        Service.findById(data.serviceId).select('title')
+      ]);
+
+      if (!mentor || !mentee || !service) {
+        throw new Error('Required data not found for series cancellation');
+      }
+
+      const cancelledByName = cancelledBy === 'mentor' ? `${mentor.firstName} ${mentor.lastName}` : `${mentee.firstName} ${mentee.lastName}`;
+      const recipientId = cancelledBy === 'mentor' ? data.menteeId : data.mentorId;
+      const reasonText = data.reason ? ` Reason: ${data.reason}` : '';
+
+      await notificationService.createMultiTypeNotification(
+        recipientId,
+        'booking',
+        'Recurring Sessions Cancelled',
+        `${cancelledByName} has cancelled the remaining ${data.occurrences.length} "${service.title}" sessions in your recurring booking.${reasonText}`,
+        {
+          seriesId: data.seriesId,
+          serviceTitle: service.title,
+          cancelledBy,
+          reason: data.reason,
+          occurrences: data.occurrences
+        },
+        'high'
+      );
+
+      for (const occurrence of data.occurrences) {
+        await CalendarService.bumpSequence(occurrence.bookingId);
+        await this.sendCalendarInvite(occurrence.bookingId, data.mentorId, 'CANCEL', 'Session Cancelled', {
+          seriesId: data.seriesId,
+          serviceTitle: service.title,
+          bookingDate: occurrence.bookingDate
+        });
+        await this.sendCalendarInvite(occurrence.bookingId, data.menteeId, 'CANCEL', 'Session Cancelled', {
+          seriesId: data.seriesId,
+          serviceTitle: service.title,
+          bookingDate: occurrence.bookingDate
+        });
+      }
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  // Tell a waitlisted student a group session seat has been held for them
+  async sendWaitlistPromotionNotification(data: WaitlistPromotionNotificationData): Promise<void> {
+    try {
+      const mentor = await User.findById(data.mentorId).select('firstName lastName');
+      if (!mentor) {
+        throw new Error('Required data not found for waitlist promotion');
       }
+
+      await notificationService.createMultiTypeNotification(
+        data.menteeId,
+        'booking',
+        'A Seat Opened Up',
+        `A seat is now yours in "${data.sessionTitle}" with ${mentor.firstName} ${mentor.lastName} on ${data.bookingDate.toLocaleString()}. Complete payment by ${data.paymentDeadline.toLocaleString()} to keep it.`,
+        {
+          bookingId: data.bookingId,
+          groupSessionId: data.groupSessionId,
+          mentorName: `${mentor.firstName} ${mentor.lastName}`,
+          sessionTitle: data.sessionTitle,
+          bookingDate: data.bookingDate,
+          paymentDeadline: data.paymentDeadline
+        },
+        'high'
+      );
     } catch (error) {
       throw error;
     }
@@ -0,0 +1,800 @@
+import mongoose from 'mongoose';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { Booking, IBooking } from '../models/Booking';
+import { BookingSeries, IBookingSeries } from '../models/BookingSeries';
+import { IUserDocument, User } from '../models/User';
+import RescheduleRequest from '../models/RescheduleRequest';
+import { IServiceDocument } from '../models/Service';
+import { AvailabilityService } from './availabilityService';
+import { SlotHoldService } from './slotHoldService';
+import { RefundService } from './refundService';
+import { LedgerService } from './ledgerService';
+import { EscrowService } from './escrowService';
+import { CancellationPolicyService } from './cancellationPolicyService';
+import { TokenPaymentService } from './tokenPaymentService';
+import { StripeService } from './stripeService';
+import { CurrencyService, CurrencyAmount } from './currencyService';
+import { PaymentMethodService } from './paymentMethodService';
+import { TokenTopUpService } from './tokenTopUpService';
+import { bookingNotificationService } from './bookingNotificationService';
+import { notificationService } from './notificationService';
+import { ReceiptService } from './receiptService';
+
+export const MIN_SERIES_OCCURRENCES = 2;
+export const MAX_SERIES_OCCURRENCES = 26;
+// Per-occurrence series charge (or cancel) each unpaid occurrence this long before it starts
+export const SERIES_PAYMENT_LEAD_HOURS = 48;
+// Unpaid checkouts get the same window as single bookings before they are cancelled
+const SERIES_CHECKOUT_WINDOW_HOURS = 4;
+// Card payers on per-occurrence series are reminded this long before a payment is due
+const PAYMENT_REMINDER_HOURS = 24;
+
+const FREQUENCY_WEEKS: Record<IBookingSeries['frequency'], number> = {
+  weekly: 1,
+  biweekly: 2
+};
+
+export interface CreateSeriesParams {
+  studentId: string;
+  service: IServiceDocument;
+  mentor: IUserDocument;
+  firstScheduledAtUTC: Date;
+  duration: number; // in minutes
+  frequency: IBookingSeries['frequency'];
+  occurrenceCount: number;
+  billingMode: IBookingSeries['billingMode'];
+  paymentMethod: IBookingSeries['paymentMethod'];
+  studentTimezone: string;
+  notes?: string;
+}
+
+export interface OccurrenceConflict {
+  index: number;
+  scheduledAtUTC: Date;
+  reason?: string;
+  error?: string;
+}
+
+export interface OccurrenceCancellation {
+  bookingId: string;
+  seriesIndex?: number;
+  scheduledAtUTC: Date;
+  refundAmount: number;
+  refund: { success: boolean; refundId?: string; error?: string } | null;
+}
+
+export class BookingSeriesService {
+  // Generate occurrence start times, keeping the first occurrence's wall-clock time in the mentor's timezone
+  static getOccurrenceTimes(
+    firstScheduledAtUTC: Date,
+    frequency: IBookingSeries['frequency'],
+    occurrenceCount: number,
+    mentorTimezone: string
+  ): Date[] {
+    const localDate = formatInTimeZone(firstScheduledAtUTC, mentorTimezone, 'yyyy-MM-dd');
+    const localTime = formatInTimeZone(firstScheduledAtUTC, mentorTimezone, 'HH:mm:ss');
+    const stepDays = FREQUENCY_WEEKS[frequency] * 7;
+
+    return Array.from({ length: occurrenceCount }, (_, index) =>
+      fromZonedTime(`${AvailabilityService.addDays(localDate, index * stepDays)}T${localTime}`, mentorTimezone)
+    );
+  }
+
+  // When an occurrence must be paid by; never sooner than a normal checkout window
+  static getPaymentDueAt(series: Pick<IBookingSeries, 'billingMode'>, scheduledAtUTC: Date, now: Date = new Date()): Date {
+    const checkoutDeadline = new Date(now.getTime() + SERIES_CHECKOUT_WINDOW_HOURS * 60 * 60 * 1000);
+    if (series.billingMode === 'upfront') {
+      return checkoutDeadline;
+    }
+
+    const leadDeadline = new Date(scheduledAtUTC.getTime() - SERIES_PAYMENT_LEAD_HOURS * 60 * 60 * 1000);
+    return leadDeadline > checkoutDeadline ? leadDeadline : checkoutDeadline;
+  }
+
+  // Create a series and its occurrence bookings; every occurrence must be available
+  static async createSeries(params: CreateSeriesParams): Promise<{
+    success: boolean;
+    series?: IBookingSeries;
+    bookings?: IBooking[];
+    holdExpiresAt?: Date;
+    conflicts?: OccurrenceConflict[];
+    error?: string;
+  }> {
+    const mentorTz = AvailabilityService.resolveTimezone(params.mentor.timezone);
+    const times = this.getOccurrenceTimes(params.firstScheduledAtUTC, params.frequency, params.occurrenceCount, mentorTz);
+    const rules = AvailabilityService.getSlotRules(params.service, params.duration);
+
+    const conflicts: OccurrenceConflict[] = [];
+    for (const [index, scheduledAtUTC] of times.entries()) {
+      const check = await AvailabilityService.checkSlot(params.mentor, scheduledAtUTC, rules);
+      if (!check.available) {
+        conflicts.push({ index, scheduledAtUTC, reason: check.reason, error: check.error });
+      }
+    }
+
+    if (conflicts.length > 0) {
+      return { success: false, conflicts, error: 'Some occurrences are not available' };
+    }
+
+    const { amount: amountPerOccurrence, price } = await CurrencyService.toSettlement(
+      (params.service.hourlyRate * params.duration) / 60,
+      params.service.currency
+    );
+    const series = new BookingSeries({
+      serviceId: params.service._id,
+      mentorId: params.mentor._id,
+      studentId: params.studentId,
+      frequency: params.frequency,
+      occurrenceCount: params.occurrenceCount,
+      firstScheduledAtUTC: times[0],
+      mentorTimezone: mentorTz,
+      studentTimezone: params.studentTimezone,
+      duration: params.duration,
+      amountPerOccurrence,
+      totalAmount: Math.round(amountPerOccurrence * params.occurrenceCount * 100) / 100,
+      billingMode: params.billingMode,
+      paymentMethod: params.paymentMethod,
+      // Per-occurrence series are committed straight away; each occurrence is paid before it starts
+      status: params.billingMode === 'per_occurrence' ? 'active' : 'pending',
+      notes: params.notes
+    });
+
+    const now = new Date();
+    const cancellationPolicy = CancellationPolicyService.buildSnapshot(params.mentor);
+    const bookings = times.map((scheduledAtUTC, index) => new Booking({
+      serviceId: params.service._id,
+      mentorId: params.mentor._id,
+      studentId: params.studentId,
+      scheduledAt: scheduledAtUTC,
+      scheduledAtUTC,
+      mentorTimezone: mentorTz,
+      studentTimezone: params.studentTimezone,
+      duration: params.duration,
+      amount: amountPerOccurrence,
+      price,
+      paymentMethod: params.paymentMethod,
+      notes: params.notes,
+      seriesId: series._id,
+      seriesIndex: index,
+      paymentDueAt: this.getPaymentDueAt(series, scheduledAtUTC, now),
+      cancellationPolicy: { ...cancellationPolicy, setAt: now }
+    }));
+
+    // Hold every occurrence so a concurrent checkout cannot take any of them
+    let holdExpiresAt: Date | undefined;
+    for (const booking of bookings) {
+      const hold = await SlotHoldService.acquireHolds({
+        mentorId: params.mentor._id as mongoose.Types.ObjectId,
+        studentId: params.studentId,
+        bookingId: booking._id as mongoose.Types.ObjectId,
+        startUTC: booking.scheduledAtUTC,
+        duration: params.duration,
+        bufferBefore: rules.bufferBefore,
+        bufferAfter: rules.bufferAfter
+      });
+
+      if (!hold.success) {
+        await this.releaseSeriesHolds(bookings);
+        return {
+          success: false,
+          conflicts: [{ index: booking.seriesIndex as number, scheduledAtUTC: booking.scheduledAtUTC, reason: 'conflict', error: hold.error }],
+          error: hold.error
+        };
+      }
+      holdExpiresAt = hold.expiresAt;
+    }
+
+    try {
+      await series.save();
+      await Booking.insertMany(bookings);
+    } catch (saveError) {
+      await this.releaseSeriesHolds(bookings);
+      await Booking.deleteMany({ seriesId: series._id });
+      await BookingSeries.deleteOne({ _id: series._id });
+      throw saveError;
+    }
+
+    if (series.billingMode === 'per_occurrence') {
+      // The pending occurrences now guard their slots until they are paid or cancelled
+      await this.releaseSeriesHolds(bookings);
+      await this.sendSeriesBookedNotification(series);
+      holdExpiresAt = undefined;
+    }
+
+    return { success: true, series, bookings, holdExpiresAt };
+  }
+
+  // Occurrences of an upfront series are paid through the series, never one by one
+  static async isUpfrontOccurrence(booking: IBooking): Promise<boolean> {
+    if (!booking.seriesId) {
+      return false;
+    }
+
+    const series = await BookingSeries.findById(booking.seriesId).select('billingMode');
+    return series?.billingMode === 'upfront';
+  }
+
+  // Get a series' occurrences in order
+  static async getOccurrences(seriesId: string | mongoose.Types.ObjectId): Promise<IBooking[]> {
+    return Booking.find({ seriesId }).sort({ seriesIndex: 1 });
+  }
+
+  // Create a Stripe payment intent covering an upfront series
+  static async createPaymentIntent(
+    series: IBookingSeries,
+    customerEmail: string,
+    savePaymentMethod: boolean = false
+  ): Promise<{ clientSecret: string; paymentIntentId: string }> {
+    await series.populate([
+      { path: 'serviceId', select: 'title' },
+      { path: 'mentorId', select: 'firstName lastName' }
+    ]);
+    const service = series.serviceId as any;
+    const mentor = series.mentorId as any;
+    const student = await User.findById(series.studentId).select('currency');
+    const charge = await CurrencyService.toCharge(series.totalAmount, student?.currency);
+
+    return StripeService.createPaymentIntent({
+      amount: Math.round(charge.amount * 100), // Convert to cents
+      currency: charge.currency,
+      bookingId: `series_${series._id.toString()}`,
+      customerEmail,
+      description: `${series.occurrenceCount} x ${service.title} sessions with ${mentor.firstName} ${mentor.lastName}`,
+      customerId: await PaymentMethodService.getOrCreateCustomerId(series.studentId.toString()),
+      savePaymentMethod
+    });
+  }
+
+  // Move each unpaid occurrence's share of an upfront payment into escrow
+  private static async captureOccurrences(
+    seriesId: mongoose.Types.ObjectId,
+    event: string,
+    metadata: Record<string, any>,
+    session?: mongoose.ClientSession
+  ): Promise<void> {
+    const occurrences = await Booking.find({ seriesId, status: 'pending' }).session(session || null);
+    for (const occurrence of occurrences) {
+      await EscrowService.transition(occurrence, 'captured', {
+        event,
+        amount: occurrence.amount,
+        metadata: { ...metadata, seriesId: seriesId.toString() },
+        session
+      });
+    }
+  }
+
+  // Mark an upfront series paid by card; safe to call again from webhooks.
+  // A charge in another currency is split across the occurrences at its rate
+  static async markSeriesPaid(
+    seriesId: string | mongoose.Types.ObjectId,
+    stripePaymentIntentId: string,
+    charge?: CurrencyAmount
+  ): Promise<boolean> {
+    const series = await BookingSeries.findById(seriesId);
+    if (!series || series.paymentStatus === 'paid') {
+      return false;
+    }
+
+    if (series.status === 'cancelled') {
+      console.error('Payment received for cancelled booking series:', { seriesId, stripePaymentIntentId });
+      return false;
+    }
+
+    await this.captureOccurrences(series._id as mongoose.Types.ObjectId, 'series_payment_captured', { stripePaymentIntentId });
+
+    await Booking.updateMany(
+      { seriesId: series._id, status: 'pending' },
+      {
+        $set: { paymentStatus: 'paid', paymentMethod: 'stripe', status: 'confirmed', stripePaymentIntentId },
+        $unset: { paymentDueAt: 1 }
+      }
+    );
+
+    series.paymentStatus = 'paid';
+    series.paymentMethod = 'stripe';
+    series.status = 'active';
+    series.stripePaymentIntentId = stripePaymentIntentId;
+    await series.save();
+
+    const bookings = await this.getOccurrences(series._id as mongoose.Types.ObjectId);
+    for (const booking of bookings) {
+      if (charge && booking.stripePaymentIntentId === stripePaymentIntentId) {
+        await Booking.updateOne({ _id: booking._id }, {
+          charge: { currency: charge.currency, amount: CurrencyService.fromSettlement(booking.amount, charge), fxRate: charge.fxRate }
+        });
+      }
+      await SlotHoldService.convertHolds(booking._id as mongoose.Types.ObjectId);
+    }
+
+    if (!stripePaymentIntentId.startsWith('free_series_')) {
+      await ReceiptService.issueForSeries(series._id as mongoose.Types.ObjectId, { paymentMethod: 'card', paymentIntentId: stripePaymentIntentId, charge });
+    }
+
+    await this.sendSeriesBookedNotification(series);
+    return true;
+  }
+
+  // Handle a succeeded Stripe payment intent whose metadata points at a series
+  static async handlePaymentSucceeded(paymentIntent: any): Promise<void> {
+    const seriesId = (paymentIntent.metadata?.bookingId as string).replace(/^series_/, '');
+    if (!mongoose.Types.ObjectId.isValid(seriesId)) {
+      return;
+    }
+
+    const series = await BookingSeries.findById(seriesId).select('totalAmount');
+    const charge = series ? CurrencyService.chargeFromPaymentIntent(paymentIntent, series.totalAmount) : undefined;
+    await this.markSeriesPaid(seriesId, paymentIntent.id, charge);
+  }
+
+  // Pay for a whole upfront series with tokens
+  static async payWithTokens(seriesId: string, userId: string): Promise<{ success: boolean; error?: string; transactionId?: string }> {
+    try {
+      const pending = await BookingSeries.findById(seriesId).select('totalAmount');
+      if (pending) {
+        await TokenTopUpService.ensureBalance(userId, pending.totalAmount);
+      }
+
+      const session = await User.startSession();
+      let transactionId: string | undefined;
+
+      try {
+        await session.withTransaction(async () => {
+          const user = await User.findById(userId).session(session);
+          const series = await BookingSeries.findById(seriesId).session(session);
+
+          if (!user) {
+            throw new Error('Student not found');
+          }
+
+          if (!series) {
+            throw new Error('Booking series not found');
+          }
+
+          if (series.studentId.toString() !== userId.toString()) {
+            throw new Error('Unauthorized: Booking series does not belong to user');
+          }
+
+          if (series.billingMode !== 'upfront') {
+            throw new Error('Per-occurrence series are charged before each session');
+          }
+
+          if (series.paymentStatus === 'paid') {
+            throw new Error('Booking series is already paid');
+          }
+
+          if (series.status === 'cancelled') {
+            throw new Error('Booking series is cancelled');
+          }
+
+          const posted = await LedgerService.transfer({
+            idempotencyKey: `series_payment_${seriesId}`,
+            type: 'series_payment',
+            description: `Booking series payment (${series.occurrenceCount} sessions)`,
+            reference: `booking_series_${seriesId}`,
+            from: { account: 'user_wallet', userId },
+            to: { account: 'platform_escrow' },
+            amount: series.totalAmount
+          }, session);
+          transactionId = posted.transactionIds[0];
+
+          await this.captureOccurrences(series._id as mongoose.Types.ObjectId, 'series_token_payment', { transactionId }, session);
+
+          await Booking.updateMany(
+            { seriesId: series._id, status: 'pending' },
+            {
+              $set: { paymentStatus: 'paid', paymentMethod: 'tokens', status: 'confirmed' },
+              $unset: { paymentDueAt: 1 }
+            },
+            { session }
+          );
+
+          series.paymentStatus = 'paid';
+          series.paymentMethod = 'tokens';
+          series.status = 'active';
+          await series.save({ session });
+
+          const bookings = await Booking.find({ seriesId: series._id }).select('_id').session(session);
+          for (const booking of bookings) {
+            await SlotHoldService.convertHolds(booking._id as mongoose.Types.ObjectId, session);
+          }
+        });
+      } finally {
+        await session.endSession();
+      }
+
+      await ReceiptService.issueForSeries(seriesId, { paymentMethod: 'tokens' });
+      await TokenTopUpService.afterDebit(userId);
+
+      const series = await BookingSeries.findById(seriesId);
+      if (series) {
+        await this.sendSeriesBookedNotification(series);
+      }
+
+      return { success: true, transactionId };
+    } catch (error: any) {
+      console.error('Booking series token payment error:', error);
+      return {
+        success: false,
+        error: error.message || 'Token payment failed'
+      };
+    }
+  }
+
+  // Cancel occurrences of a series, refunding each paid one per the cancellation policy
+  static async cancelOccurrences(
+    series: IBookingSeries,
+    bookings: IBooking[],
+    options: {
+      userId: string;
+      cancelledBy: 'mentor' | 'mentee';
+      scope: 'occurrence' | 'remaining';
+      reason?: string;
+      refundType?: 'payment_method' | 'tokens';
+    }
+  ): Promise<OccurrenceCancellation[]> {
+    const reason = options.reason || 'No reason provided';
+    const results: OccurrenceCancellation[] = [];
+
+    for (const booking of bookings) {
+      const wasPaid = booking.paymentStatus === 'paid';
+      // Work out the refund before the status change so the policy sees the original booking
+      const refundAmount = wasPaid ? RefundService.calculateRefundAmount(booking, options.cancelledBy) : 0;
+
+      booking.status = 'cancelled';
+      booking.notes = booking.notes
+        ? `${booking.notes}\n\nCancelled by user. Reason: ${reason}`
+        : `Cancelled by user. Reason: ${reason}`;
+      await booking.save();
+      await SlotHoldService.releaseHolds(booking._id as mongoose.Types.ObjectId);
+
+      let refund: OccurrenceCancellation['refund'] = null;
+      if (wasPaid && refundAmount > 0) {
+        refund = await RefundService.processRefund({
+          bookingId: booking._id.toString(),
+          refundType: booking.paymentMethod === 'tokens'
+            ? 'tokens'
+            : options.refundType || (options.cancelledBy === 'mentor' ? 'payment_method' : 'tokens'),
+          reason: options.reason || 'Booking series cancelled',
+          cancelledBy: options.cancelledBy,
+          amount: refundAmount
+        });
+      }
+
+      await RescheduleRequest.updateMany(
+        { bookingId: booking._id, status: 'pending' },
+        {
+          status: 'rejected',
+          respondedBy: options.userId,
+          respondedAt: new Date(),
+          responseReason: 'Booking was cancelled'
+        }
+      );
+
+      results.push({
+        bookingId: booking._id.toString(),
+        seriesIndex: booking.seriesIndex,
+        scheduledAtUTC: booking.scheduledAtUTC,
+        refundAmount,
+        refund
+      });
+    }
+
+    if (options.scope === 'remaining') {
+      series.status = 'cancelled';
+      series.cancelledBy = options.cancelledBy;
+      series.cancelledAt = new Date();
+      series.cancellationReason = options.reason;
+      await series.save();
+    }
+
+    try {
+      if (options.scope === 'remaining') {
+        await bookingNotificationService.sendSeriesCancellationNotification(
+          {
+            ...this.getNotificationData(series, bookings),
+            reason: options.reason
+          },
+          options.cancelledBy
+        );
+      } else {
+        for (const booking of bookings) {
+          await bookingNotificationService.sendBookingCancellationNotification(
+            {
+              bookingId: booking._id.toString(),
+              menteeId: series.studentId.toString(),
+              mentorId: series.mentorId.toString(),
+              serviceId: series.serviceId.toString(),
+              bookingDate: booking.scheduledAt,
+              reason: options.reason
+            },
+            options.cancelledBy
+          );
+        }
+      }
+    } catch (notificationError) {
+      // Don't fail the cancellation if notifications fail
+    }
+
+    return results;
+  }
+
+  // Charge, remind or cancel series occurrences whose payment is due
+  static async processDueOccurrences(now: Date = new Date()): Promise<{ charged: number; cancelled: number; reminded: number }> {
+    const stats = { charged: 0, cancelled: 0, reminded: 0 };
+
+    const dueBookings = await Booking.find({
+      seriesId: { $exists: true },
+      status: 'pending',
+      paymentStatus: 'pending',
+      paymentDueAt: { $lte: now }
+    }).populate('seriesId');
+
+    const expiredSeries = new Map<string, IBookingSeries>();
+
+    for (const booking of dueBookings) {
+      try {
+        const series = booking.seriesId as unknown as IBookingSeries;
+        if (!series) {
+          continue;
+        }
+
+        // Upfront series that were never paid are cancelled as a whole
+        if (series.billingMode === 'upfront') {
+          expiredSeries.set(series._id.toString(), series);
+          continue;
+        }
+
+        const bookingId = booking._id.toString();
+        if (series.paymentMethod === 'tokens') {
+          const payment = await TokenPaymentService.processTokenPayment(bookingId, series.studentId.toString(), booking.amount);
+          if (payment.success) {
+            await this.notifyOccurrencePaid(booking, series);
+            stats.charged++;
+            continue;
+          }
+        }
+
+        // Card payers are charged off-session on their saved card
+        if (series.paymentMethod === 'stripe' && await this.chargeSavedCard(booking, series)) {
+          await this.notifyOccurrencePaid(booking, series);
+          stats.charged++;
+          continue;
+        }
+
+        await this.cancelUnpaidOccurrence(
+          booking,
+          series.paymentMethod === 'tokens'
+            ? 'Auto-cancelled: insufficient token balance for the scheduled series payment.'
+            : 'Auto-cancelled: session payment was not completed before it was due.'
+        );
+        stats.cancelled++;
+      } catch (error) {
+        console.error('Error processing due series occurrence:', error);
+      }
+    }
+
+    for (const series of expiredSeries.values()) {
+      try {
+        stats.cancelled += await this.expireUnpaidSeries(series);
+      } catch (error) {
+        console.error('Error expiring unpaid booking series:', error);
+      }
+    }
+
+    // Remind card payers ahead of each per-occurrence payment
+    const upcoming = await Booking.find({
+      seriesId: { $exists: true },
+      status: 'pending',
+      paymentStatus: 'pending',
+      paymentMethod: 'stripe',
+      paymentReminderSentAt: { $exists: false },
+      paymentDueAt: { $gt: now, $lte: new Date(now.getTime() + PAYMENT_REMINDER_HOURS * 60 * 60 * 1000) }
+    }).populate('seriesId');
+
+    for (const booking of upcoming) {
+      try {
+        const series = booking.seriesId as unknown as IBookingSeries;
+        if (!series || series.billingMode !== 'per_occurrence') {
+          continue;
+        }
+
+        await notificationService.createMultiTypeNotification(
+          series.studentId.toString(),
+          'booking',
+          'Payment Due for Upcoming Session',
+          `Please pay for session ${(booking.seriesIndex || 0) + 1} of your recurring booking before ${booking.paymentDueAt?.toLocaleString()} to keep your slot.`,
+          {
+            bookingId: booking._id.toString(),
+            seriesId: series._id.toString(),
+            amount: booking.amount,
+            paymentDueAt: booking.paymentDueAt,
+            bookingDate: booking.scheduledAt
+          },
+          'high'
+        );
+
+        booking.paymentReminderSentAt = now;
+        await booking.save();
+        stats.reminded++;
+      } catch (error) {
+        console.error('Error sending series payment reminder:', error);
+      }
+    }
+
+    return stats;
+  }
+
+  // Charge an occurrence to the student's saved card; false if there is no card or it was declined
+  private static async chargeSavedCard(booking: IBooking, series: IBookingSeries): Promise<boolean> {
+    const bookingId = booking._id.toString();
+    const student = await User.findById(series.studentId).select('currency');
+    const cardCharge = await CurrencyService.toCharge(booking.amount, student?.currency);
+    const charge = await PaymentMethodService.chargeSavedPaymentMethod(series.studentId.toString(), {
+      amount: cardCharge.amount,
+      currency: cardCharge.currency,
+      description: `Session ${(booking.seriesIndex || 0) + 1} of recurring booking ${series._id.toString()}`,
+      metadata: { bookingId },
+      idempotencyKey: `series_occurrence_${bookingId}`
+    });
+
+    if (!charge.success || !charge.paymentIntentId) {
+      console.error('Off-session series charge failed:', { bookingId, error: charge.error, requiresAction: charge.requiresAction });
+      return false;
+    }
+
+    await EscrowService.transition(booking, 'captured', {
+      event: 'off_session_payment_captured',
+      amount: booking.amount,
+      metadata: { paymentIntentId: charge.paymentIntentId, seriesId: series._id.toString() }
+    });
+
+    booking.paymentStatus = 'paid';
+    booking.paymentMethod = 'stripe';
+    booking.status = 'confirmed';
+    booking.stripePaymentIntentId = charge.paymentIntentId;
+    booking.charge = cardCharge;
+    booking.paymentDueAt = undefined;
+    await booking.save();
+    await SlotHoldService.convertHolds(booking._id as mongoose.Types.ObjectId);
+    await ReceiptService.issueForBooking(bookingId, { paymentMethod: 'card', paymentIntentId: charge.paymentIntentId });
+    return true;
+  }
+
+  // Schedule reminders once a per-occurrence booking has been paid
+  static async notifyOccurrencePaid(booking: IBooking, series: IBookingSeries): Promise<void> {
+    try {
+      const bookingId = booking._id.toString();
+      await notificationService.createNotification({
+        userId: series.studentId.toString(),
+        type: 'in_app',
+        category: 'booking',
+        title: 'Session Payment Processed',
+        message: `${booking.amount} tokens were charged for session ${(booking.seriesIndex || 0) + 1} of your recurring booking on ${booking.scheduledAt.toLocaleString()}.`,
+        data: {
+          bookingId,
+          seriesId: series._id.toString(),
+          amount: booking.amount,
+          bookingDate: booking.scheduledAt
+        },
+        priority: 'medium',
+        sendImmediately: true
+      });
+
+      await bookingNotificationService.scheduleReminderNotifications({
+        bookingId,
+        menteeId: series.studentId.toString(),
+        mentorId: series.mentorId.toString(),
+        serviceId: series.serviceId.toString(),
+        bookingDate: booking.scheduledAtUTC,
+        meetingLink: `${process.env.FRONTEND_URL}/video-call/${bookingId}`
+      });
+    } catch (notificationError) {
+      // Don't fail the charge if notifications fail
+    }
+  }
+
+  // Cancel a per-occurrence booking that was not paid in time
+  private static async cancelUnpaidOccurrence(booking: IBooking, note: string): Promise<void> {
+    booking.status = 'cancelled';
+    booking.notes = booking.notes ? `${booking.notes}\n\n${note}` : note;
+    await booking.save();
+    await SlotHoldService.releaseHolds(booking._id as mongoose.Types.ObjectId);
+
+    const series = booking.seriesId as unknown as IBookingSeries;
+    try {
+      await bookingNotificationService.sendBookingCancellationNotification(
+        {
+          bookingId: booking._id.toString(),
+          menteeId: series.studentId.toString(),
+          mentorId: series.mentorId.toString(),
+          serviceId: series.serviceId.toString(),
+          bookingDate: booking.scheduledAt,
+          reason: note
+        },
+        'mentee'
+      );
+    } catch (notificationError) {
+      // Don't fail the cancellation if notifications fail
+    }
+  }
+
+  // Cancel an upfront series whose checkout window passed without payment
+  private static async expireUnpaidSeries(series: IBookingSeries): Promise<number> {
+    const note = 'Auto-cancelled due to incomplete payment after 4 hours.';
+    const bookings = await Booking.find({ seriesId: series._id, status: 'pending', paymentStatus: 'pending' });
+
+    for (const booking of bookings) {
+      booking.status = 'cancelled';
+      booking.notes = booking.notes ? `${booking.notes}\n\n${note}` : note;
+      await booking.save();
+      await SlotHoldService.releaseHolds(booking._id as mongoose.Types.ObjectId);
+    }
+
+    await BookingSeries.updateOne(
+      { _id: series._id },
+      { status: 'cancelled', cancelledAt: new Date(), cancellationReason: note }
+    );
+
+    try {
+      // The mentor was never told about an unpaid series, so only the student hears about it
+      await notificationService.createMultiTypeNotification(
+        series.studentId.toString(),
+        'booking',
+        'Recurring Booking Cancelled',
+        'Your recurring booking was cancelled because payment was not completed within 4 hours.',
+        {
+          seriesId: series._id.toString(),
+          reason: note
+        },
+        'medium'
+      );
+    } catch (notificationError) {
+      // Don't fail the cancellation if notifications fail
+    }
+
+    return bookings.length;
+  }
+
+  private static async sendSeriesBookedNotification(series: IBookingSeries): Promise<void> {
+    try {
+      const bookings = await Booking.find({ seriesId: series._id, status: { $in: ['pending', 'confirmed'] } }).sort({ seriesIndex: 1 });
+      await bookingNotificationService.sendSeriesBookedNotification(this.getNotificationData(series, bookings));
+
+      // Paid occurrences get their reminders now; per-occurrence ones get them when charged
+      for (const booking of bookings.filter(occurrence => occurrence.paymentStatus === 'paid')) {
+        const bookingId = booking._id.toString();
+        await bookingNotificationService.scheduleReminderNotifications({
+          bookingId,
+          menteeId: series.studentId.toString(),
+          mentorId: series.mentorId.toString(),
+          serviceId: series.serviceId.toString(),
+          bookingDate: booking.scheduledAtUTC,
+          meetingLink: `${process.env.FRONTEND_URL}/video-call/${bookingId}`
+        });
+      }
+    } catch (notificationError) {
+      // Don't fail the booking if notifications fail
+    }
+  }
+
+  private static getNotificationData(series: IBookingSeries, bookings: IBooking[]) {
+    const idOf = (value: any) => (value?._id || value).toString();
+    return {
+      seriesId: series._id.toString(),
+      menteeId: idOf(series.studentId),
+      mentorId: idOf(series.mentorId),
+      serviceId: idOf(series.serviceId),
+      frequency: series.frequency,
+      occurrences: bookings.map(booking => ({
+        bookingId: booking._id.toString(),
+        bookingDate: booking.scheduledAt
+      }))
+    };
+  }
+
+  private static async releaseSeriesHolds(bookings: IBooking[]): Promise<void> {
+    for (const booking of bookings) {
+      await SlotHoldService.releaseHolds(booking._id as mongoose.Types.ObjectId);
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import { Booking, IBooking } from '../models/Booking';
+import { User } from '../models/User';
+import { VideoCall } from '../models/VideoCall';
+import { sanitizeUser } from '../utils/masking';
+import { buildCalendar, ICSEvent, ICSMethod } from '../utils/ics';
+
+// How far back the subscribed feed keeps past sessions
+const FEED_LOOKBACK_DAYS = 30;
+
+export class CalendarService {
+  // Stable event UID so updates and cancellations replace the same calendar entry
+  static getEventUid(bookingId: string): string {
+    return `booking-${bookingId}@mentr`;
+  }
+
+  // Get the private feed URL for a user, creating the secret token on first use
+  static async getFeedUrl(userId: string): Promise<string | null> {
+    const user = await User.findById(userId).select('calendarFeedToken');
+    if (!user) {
+      return null;
+    }
+
+    if (!user.calendarFeedToken) {
+      user.calendarFeedToken = crypto.randomBytes(24).toString('hex');
+      await user.save();
+    }
+
+    return this.buildFeedUrl(user.calendarFeedToken);
+  }
+
+  // Replace the feed token, invalidating any previously shared URL
+  static async regenerateFeedToken(userId: string): Promise<string | null> {
+    const token = crypto.randomBytes(24).toString('hex');
+    const user = await User.findByIdAndUpdate(userId, { calendarFeedToken: token }, { new: true });
+    return user ? this.buildFeedUrl(token) : null;
+  }
+
+  static buildFeedUrl(token: string): string {
+    return `${process.env.SERVER_URL || 'http://localhost:5000'}/api/calendar/feed/${token}.ics`;
+  }
+
+  // Build the ICS event for a booking as seen by one of its participants
+  static async buildBookingEvent(booking: IBooking, viewerId: string): Promise<ICSEvent | null> {
+    await booking.populate([
+      { path: 'serviceId', select: 'title' },
+      { path: 'mentorId', select: 'firstName lastName email isAnonymous' },
+      { path: 'studentId', select: 'firstName lastName email isAnonymous' }
+    ]);
+
+    const mentor = booking.mentorId as any;
+    const student = booking.studentId as any;
+    const service = booking.serviceId as any;
+    if (!mentor || !student) {
+      return null;
+    }
+
+    const isMentor = mentor._id.toString() === viewerId.toString();
+    const viewer = isMentor ? mentor : student;
+    const counterpart = sanitizeUser((isMentor ? student : mentor).toObject());
+    const counterpartName = `${counterpart.firstName} ${counterpart.lastName}`;
+
+    const bookingId = booking._id.toString();
+    const videoCall = await VideoCall.findOne(
+      booking.groupSessionId ? { groupSessionId: booking.groupSessionId } : { bookingId: booking._id }
+    ).select('roomUrl');
+    const meetingLink = videoCall?.roomUrl || `${process.env.FRONTEND_URL}/video-call/${bookingId}`;
+    const serviceTitle = service?.title || 'Mentorship session';
+
+    return {
+      uid: this.getEventUid(bookingId),
+      sequence: booking.calendarSequence || 0,
+      start: new Date(booking.scheduledAtUTC),
+      end: new Date(booking.scheduledAtUTC.getTime() + booking.duration * 60000),
+      summary: `${serviceTitle} with ${counterpartName}`,
+      description: `${serviceTitle} with ${counterpartName}\nJoin: ${meetingLink}`,
+      location: meetingLink,
+      url: meetingLink,
+      status: booking.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+      organizer: { name: 'Mentr', email: process.env.FROM_EMAIL || 'noreply@yourdomain.com' },
+      attendees: [{ name: `${viewer.firstName} ${viewer.lastName}`, email: viewer.email }],
+      lastModified: booking.updatedAt
+    };
+  }
+
+  // Build the subscribed feed for the user owning a token, or null if the token is unknown
+  static async buildFeed(token: string): Promise<string | null> {
+    const user = await User.findOne({ calendarFeedToken: token }).select('_id');
+    if (!user) {
+      return null;
+    }
+
+    const userId = user._id.toString();
+    const bookings = await Booking.find({
+      $or: [{ mentorId: user._id }, { studentId: user._id }],
+      status: 'confirmed',
+      scheduledAtUTC: { $gte: new Date(Date.now() - FEED_LOOKBACK_DAYS * 24 * 60 * 60 * 1000) }
+    }).sort({ scheduledAtUTC: 1 });
+
+    const events: ICSEvent[] = [];
+    for (const booking of bookings) {
+      const event = await this.buildBookingEvent(booking, userId);
+      if (event) {
+        events.push(event);
+      }
+    }
+
+    return buildCalendar('PUBLISH', events, 'Mentr Sessions');
+  }
+
+  // Build an invite, update or cancellation for one booking participant
+  static async buildBookingInvite(bookingId: string, recipientId: string, method: ICSMethod): Promise<string | null> {
+    const booking = await Booking.findById(bookingId);
+    if (!booking) {
+      return null;
+    }
+
+    const isParticipant = booking.mentorId.toString() === recipientId.toString() ||
+      booking.studentId.toString() === recipientId.toString();
+    if (!isParticipant) {
+      return null;
+    }
+
+    const event = await this.buildBookingEvent(booking, recipientId);
+    return event ? buildCalendar(method, [event]) : null;
+  }
+
+  // Bump the event sequence so calendar clients accept the next update or cancellation
+  static async bumpSequence(bookingId: string): Promise<void> {
+    await Booking.updateOne({ _id: bookingId }, { $inc: { calendarSequence: 1 } });
+  }
+}
@@ -0,0 +1,198 @@
+import { IBooking } from '../models/Booking';
+import { IUserDocument } from '../models/User';
+import { CancellationPolicyPreset, ICancellationTier } from '../types';
+
+export const MAX_CUSTOM_TIERS = 5;
+export const MAX_TIER_HOURS = 720; // 30 days
+
+// Preset refund schedules, most generous tier first; anything later than the last tier gets nothing back
+export const CANCELLATION_POLICY_PRESETS: Record<Exclude<CancellationPolicyPreset, 'custom'>, ICancellationTier[]> = {
+  flexible: [
+    { hoursBefore: 24, refundPercent: 100 },
+    { hoursBefore: 2, refundPercent: 50 }
+  ],
+  moderate: [
+    { hoursBefore: 72, refundPercent: 100 },
+    { hoursBefore: 24, refundPercent: 50 }
+  ],
+  strict: [
+    { hoursBefore: 168, refundPercent: 100 },
+    { hoursBefore: 72, refundPercent: 50 }
+  ]
+};
+
+export interface CancellationPreview {
+  cancellable: boolean;
+  error?: string;
+  cancelledBy: 'mentor' | 'mentee';
+  hoursUntilSession: number;
+  refundPercent: number;
+  refundAmount: number;
+  tier?: ICancellationTier;
+  nextChange?: { startsAt: Date; refundPercent: number; refundAmount: number }; // When the refund next drops, and to what
+  policy: { preset?: CancellationPolicyPreset; tiers: ICancellationTier[] };
+}
+
+export class CancellationPolicyService {
+  // Sort tiers most generous first
+  static normalizeTiers(tiers: ICancellationTier[]): ICancellationTier[] {
+    return [...tiers]
+      .map(tier => ({ hoursBefore: Number(tier.hoursBefore), refundPercent: Number(tier.refundPercent) }))
+      .sort((a, b) => b.hoursBefore - a.hoursBefore);
+  }
+
+  // Validate mentor-defined tiers; refunds may only shrink as the session gets closer
+  static validateCustomTiers(tiers: any): string | null {
+    if (!Array.isArray(tiers) || tiers.length === 0) {
+      return 'customTiers must be a non-empty array';
+    }
+
+    if (tiers.length > MAX_CUSTOM_TIERS) {
+      return `A custom policy can have at most ${MAX_CUSTOM_TIERS} tiers`;
+    }
+
+    for (const tier of tiers) {
+      const hours = Number(tier?.hoursBefore);
+      const percent = Number(tier?.refundPercent);
+      if (!Number.isFinite(hours) || hours < 0 || hours > MAX_TIER_HOURS) {
+        return `hoursBefore must be between 0 and ${MAX_TIER_HOURS}`;
+      }
+      if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+        return 'refundPercent must be between 0 and 100';
+      }
+    }
+
+    const sorted = this.normalizeTiers(tiers);
+    for (let i = 1; i < sorted.length; i++) {
+      if (sorted[i].hoursBefore === sorted[i - 1].hoursBefore) {
+        return 'Each tier must have a different hoursBefore';
+      }
+      if (sorted[i].refundPercent > sorted[i - 1].refundPercent) {
+        return 'Refunds cannot increase closer to the session';
+      }
+    }
+
+    return null;
+  }
+
+  // Rules used before presets existed: full refund up to minimumCancellationHours, then 50% up to 2 hours
+  static getLegacyTiers(minimumCancellationHours?: number): ICancellationTier[] {
+    return [
+      { hoursBefore: minimumCancellationHours || 24, refundPercent: 100 },
+      { hoursBefore: 2, refundPercent: 50 }
+    ];
+  }
+
+  // Resolve a mentor's current policy
+  static getMentorPolicy(mentor: Pick<IUserDocument, 'cancellationPolicy' | 'minimumCancellationHours'>): {
+    preset?: CancellationPolicyPreset;
+    tiers: ICancellationTier[];
+  } {
+    const preset = mentor.cancellationPolicy?.preset;
+    if (!preset) {
+      return { tiers: this.getLegacyTiers(mentor.minimumCancellationHours) };
+    }
+
+    if (preset === 'custom') {
+      return { preset, tiers: this.normalizeTiers(mentor.cancellationPolicy?.customTiers || []) };
+    }
+
+    return { preset, tiers: CANCELLATION_POLICY_PRESETS[preset] };
+  }
+
+  // Snapshot the mentor's policy onto a new booking so later edits don't apply to it
+  static buildSnapshot(mentor: IUserDocument): IBooking['cancellationPolicy'] {
+    const policy = this.getMentorPolicy(mentor);
+    const fullRefundTier = policy.tiers.find(tier => tier.refundPercent === 100);
+
+    return {
+      // Kept for older readers: the point after which a full refund is no longer given
+      minimumCancellationHours: Math.min(Math.max(fullRefundTier?.hoursBefore || mentor.minimumCancellationHours || 24, 1), 168),
+      preset: policy.preset,
+      tiers: policy.tiers,
+      mentorId: mentor._id,
+      setAt: new Date()
+    };
+  }
+
+  // The refund schedule a booking was made under
+  static getBookingTiers(booking: Pick<IBooking, 'cancellationPolicy'>): ICancellationTier[] {
+    const tiers = booking.cancellationPolicy?.tiers;
+    return tiers && tiers.length > 0
+      ? this.normalizeTiers(tiers)
+      : this.getLegacyTiers(booking.cancellationPolicy?.minimumCancellationHours);
+  }
+
+  // Find the tier that applies this many hours before the session
+  static findTier(tiers: ICancellationTier[], hoursUntilSession: number): ICancellationTier | undefined {
+    return tiers.find(tier => hoursUntilSession >= tier.hoursBefore);
+  }
+
+  // Work out what a cancellation would refund right now
+  static previewCancellation(
+    booking: IBooking,
+    cancelledBy: 'mentor' | 'mentee',
+    now: Date = new Date()
+  ): CancellationPreview {
+    const sessionTime = new Date(booking.scheduledAtUTC);
+    const hoursUntilSession = (sessionTime.getTime() - now.getTime()) / (1000 * 60 * 60);
+    const tiers = this.getBookingTiers(booking);
+    const policy = { preset: booking.cancellationPolicy?.preset, tiers };
+    const paid = booking.paymentStatus === 'paid';
+
+    const base = { cancelledBy, hoursUntilSession, policy };
+
+    if (booking.status === 'completed' || booking.status === 'cancelled') {
+      return { ...base, cancellable: false, error: 'Booking cannot be cancelled', refundPercent: 0, refundAmount: 0 };
+    }
+
+    // Bookings made before refund tiers existed cannot be cancelled inside their notice window once paid
+    const hasTiers = !!booking.cancellationPolicy?.tiers?.length;
+    const minimumHours = booking.cancellationPolicy?.minimumCancellationHours || 24;
+    if (paid && !hasTiers && hoursUntilSession < minimumHours) {
+      return {
+        ...base,
+        cancellable: false,
+        error: `Booking cannot be cancelled less than ${minimumHours} hours before the session. You can cancel until ${new Date(sessionTime.getTime() - minimumHours * 60 * 60 * 1000).toLocaleString()}.`,
+        refundPercent: 0,
+        refundAmount: 0
+      };
+    }
+
+    if (!paid) {
+      return { ...base, cancellable: true, refundPercent: 0, refundAmount: 0 };
+    }
+
+    // Mentor cancellations are always refunded in full
+    if (cancelledBy === 'mentor') {
+      return { ...base, cancellable: true, refundPercent: 100, refundAmount: booking.amount };
+    }
+
+    const tier = this.findTier(tiers, hoursUntilSession);
+    const refundPercent = tier?.refundPercent || 0;
+
+    let nextChange: CancellationPreview['nextChange'];
+    if (tier && tier.hoursBefore > 0) {
+      const nextPercent = tiers[tiers.indexOf(tier) + 1]?.refundPercent || 0;
+      nextChange = {
+        startsAt: new Date(sessionTime.getTime() - tier.hoursBefore * 60 * 60 * 1000),
+        refundPercent: nextPercent,
+        refundAmount: this.toRefundAmount(booking.amount, nextPercent)
+      };
+    }
+
+    return {
+      ...base,
+      cancellable: true,
+      refundPercent,
+      refundAmount: this.toRefundAmount(booking.amount, refundPercent),
+      tier,
+      nextChange
+    };
+  }
+
+  // Round a percentage refund to cents
+  static toRefundAmount(amount: number, refundPercent: number): number {
+    return Math.round(amount * refundPercent) / 100;
+  }
+}
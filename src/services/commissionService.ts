@@ -1,4 +1,5 @@
 import { IUserDocument } from '../models/User';
+import { CouponAbsorption } from '../types';
 
 export interface CommissionTier {
   tier: string;
@@ -8,6 +9,13 @@ export interface CommissionTier {
   description: string;
 }
 
+// A coupon discount on the amount commission is charged on
+export interface CommissionDiscount {
+  amount?: number; // Taken off the price
+  originalAmount?: number; // Price before the discount
+  absorbedBy?: CouponAbsorption;
+}
+
 export const COMMISSION_TIERS: CommissionTier[] = [
   {
     tier: 'tier1',
@@ -109,21 +117,64 @@ export class CommissionService {
   }
 
   /**
-   * Calculate commission amount for a given earning
+   * Calculate commission amount for a given earning.
+   * With a coupon discount, pass the discounted amount and the booking's discount
    */
-  static calculateCommission(amount: number, tier: string): number {
-    const rate = this.getCommissionRate(tier);
-    return Math.round(amount * rate * 100) / 100; // Round to 2 decimal places
+  static calculateCommission(amount: number, tier: string, discount?: CommissionDiscount): number {
+    return this.calculateCommissionAtRate(amount, this.getCommissionRate(tier), discount);
+  }
+
+  /**
+   * Calculate commission at a given rate, shifting the cost of a coupon discount:
+   * - shared: commission is charged on the discounted amount
+   * - platform: the mentor is paid as if there were no discount, out of the commission
+   * - mentor: the platform keeps its commission on the undiscounted price
+   */
+  static calculateCommissionAtRate(amount: number, rate: number, discount?: CommissionDiscount): number {
+    const round = (value: number) => Math.round(value * 100) / 100; // Round to 2 decimal places
+
+    if (!discount?.amount || !discount.originalAmount || !discount.absorbedBy || discount.absorbedBy === 'shared') {
+      return round(amount * rate);
+    }
+
+    const discountedAmount = discount.originalAmount - discount.amount;
+    if (discountedAmount <= 0) {
+      return 0;
+    }
+
+    // Scale the undiscounted price to the part being settled, e.g. what is left after a partial refund
+    const undiscountedAmount = amount * discount.originalAmount / discountedAmount;
+    if (discount.absorbedBy === 'platform') {
+      return round(Math.max(0, amount - undiscountedAmount * (1 - rate)));
+    }
+    return round(Math.min(amount, undiscountedAmount * rate));
   }
 
   /**
    * Calculate mentor payout after commission
    */
-  static calculateMentorPayout(amount: number, tier: string): number {
-    const commission = this.calculateCommission(amount, tier);
+  static calculateMentorPayout(amount: number, tier: string, discount?: CommissionDiscount): number {
+    const commission = this.calculateCommission(amount, tier, discount);
     return Math.round((amount - commission) * 100) / 100; // Round to 2 decimal places
   }
 
+  /**
+   * Calculate the redeemed value of the next package credit.
+   * Commission on package sessions is charged on this value, not on the package price;
+   * the last credit absorbs any rounding remainder so the credits add up to the price paid.
+   */
+  static calculateRedeemedValue(
+    pricePaid: number,
+    totalCredits: number,
+    remainingCredits: number,
+    redeemedValue: number
+  ): number {
+    if (remainingCredits <= 1) {
+      return Math.max(0, Math.round((pricePaid - redeemedValue) * 100) / 100);
+    }
+    return Math.round((pricePaid / totalCredits) * 100) / 100; // Round to 2 decimal places
+  }
+
   /**
    * Get tier information for display
    */
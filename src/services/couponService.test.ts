@@ -0,0 +1,139 @@
+import mongoose from 'mongoose';
+import { CouponService } from './couponService';
+import { Coupon } from '../models/Coupon';
+import { CouponRedemption } from '../models/CouponRedemption';
+import { Booking } from '../models/Booking';
+
+const coupon = (fields: Record<string, any> = {}) => ({
+  _id: new mongoose.Types.ObjectId(),
+  code: 'WELCOME',
+  issuedBy: 'admin',
+  discountType: 'percent',
+  discountValue: 15,
+  serviceIds: [],
+  minAmount: 0,
+  redemptionCount: 0,
+  maxRedemptionsPerUser: 1,
+  firstBookingOnly: false,
+  absorbedBy: 'platform',
+  ...fields
+});
+
+const unpaidBooking = (fields: Record<string, any> = {}) => ({
+  _id: new mongoose.Types.ObjectId(),
+  mentorId: new mongoose.Types.ObjectId(),
+  serviceId: new mongoose.Types.ObjectId(),
+  paymentStatus: 'pending',
+  amount: 80,
+  save: jest.fn().mockResolvedValue(undefined),
+  ...fields
+});
+
+const duplicateKey = () => Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+
+describe('CouponService.quote', () => {
+  const userId = new mongoose.Types.ObjectId().toString();
+
+  beforeEach(() => {
+    jest.spyOn(CouponRedemption, 'countDocuments').mockResolvedValue(0);
+  });
+
+  it('takes a percentage off, rounded to the cent', async () => {
+    jest.spyOn(Coupon, 'findOne').mockResolvedValue(coupon({ discountValue: 12.5 }) as any);
+
+    const { quote } = await CouponService.quote('welcome', unpaidBooking({ amount: 79.99 }) as any, userId);
+
+    expect(quote).toMatchObject({ originalAmount: 79.99, discountAmount: 10, amount: 69.99 });
+  });
+
+  it('never takes a fixed discount below zero', async () => {
+    jest.spyOn(Coupon, 'findOne').mockResolvedValue(coupon({ discountType: 'fixed', discountValue: 100 }) as any);
+
+    const { quote } = await CouponService.quote('WELCOME', unpaidBooking() as any, userId);
+
+    expect(quote).toMatchObject({ discountAmount: 80, amount: 0 });
+  });
+
+  it('quotes a replacement code on the price before the earlier discount', async () => {
+    jest.spyOn(Coupon, 'findOne').mockResolvedValue(coupon() as any);
+    const discounted = unpaidBooking({
+      amount: 60,
+      discount: { couponId: new mongoose.Types.ObjectId(), originalAmount: 80, amount: 20 }
+    });
+
+    const { quote } = await CouponService.quote('WELCOME', discounted as any, userId);
+
+    expect(quote).toMatchObject({ originalAmount: 80, discountAmount: 12, amount: 68 });
+  });
+
+  it('refuses a code the user has already used up', async () => {
+    jest.spyOn(Coupon, 'findOne').mockResolvedValue(coupon() as any);
+    jest.spyOn(CouponRedemption, 'countDocuments').mockResolvedValue(1);
+
+    await expect(CouponService.quote('WELCOME', unpaidBooking() as any, userId))
+      .resolves.toEqual({ error: 'You have already used this coupon' });
+  });
+
+  it('only applies a first-booking code to the first paid booking', async () => {
+    jest.spyOn(Coupon, 'findOne').mockResolvedValue(coupon({ firstBookingOnly: true }) as any);
+    jest.spyOn(Booking, 'exists').mockResolvedValue({ _id: new mongoose.Types.ObjectId() } as any);
+
+    await expect(CouponService.quote('WELCOME', unpaidBooking() as any, userId))
+      .resolves.toEqual({ error: 'This coupon is only valid on your first booking' });
+  });
+});
+
+describe('CouponService.applyToBooking', () => {
+  const userId = new mongoose.Types.ObjectId().toString();
+  let giveBack: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(CouponRedemption, 'countDocuments').mockResolvedValue(0);
+    giveBack = jest.spyOn(Coupon, 'updateOne').mockResolvedValue({ modifiedCount: 1 } as any);
+  });
+
+  it('takes the next free per-user slot and discounts the booking', async () => {
+    const welcome = coupon({ maxRedemptionsPerUser: 2 });
+    jest.spyOn(Coupon, 'findOne').mockResolvedValue(welcome as any);
+    jest.spyOn(Coupon, 'findOneAndUpdate').mockResolvedValue(welcome as any);
+    const redeem = jest.spyOn(CouponRedemption, 'findOneAndUpdate')
+      .mockRejectedValueOnce(duplicateKey())
+      .mockResolvedValueOnce({} as any);
+    const booking = unpaidBooking();
+
+    const result = await CouponService.applyToBooking(booking as any, 'WELCOME', userId);
+
+    expect(result.error).toBeUndefined();
+    expect(redeem).toHaveBeenLastCalledWith(
+      { couponId: welcome._id, bookingId: booking._id },
+      expect.objectContaining({ userSlot: 1, status: 'applied' }),
+      { upsert: true }
+    );
+    expect(booking).toMatchObject({ amount: 68, discount: { couponId: welcome._id, amount: 12, originalAmount: 80 } });
+    expect(giveBack).not.toHaveBeenCalled();
+  });
+
+  it('gives the redemption back when a concurrent checkout took the last per-user slot', async () => {
+    const welcome = coupon();
+    jest.spyOn(Coupon, 'findOne').mockResolvedValue(welcome as any);
+    jest.spyOn(Coupon, 'findOneAndUpdate').mockResolvedValue(welcome as any);
+    jest.spyOn(CouponRedemption, 'findOneAndUpdate').mockRejectedValue(duplicateKey());
+    const booking = unpaidBooking();
+
+    const result = await CouponService.applyToBooking(booking as any, 'WELCOME', userId);
+
+    expect(result).toEqual({ error: 'You have already used this coupon' });
+    expect(giveBack).toHaveBeenCalledWith({ _id: welcome._id, redemptionCount: { $gt: 0 } }, { $inc: { redemptionCount: -1 } });
+    expect(booking.save).not.toHaveBeenCalled();
+  });
+
+  it('refuses when the global limit was reached by a concurrent checkout', async () => {
+    jest.spyOn(Coupon, 'findOne').mockResolvedValue(coupon({ maxRedemptions: 10, redemptionCount: 9 }) as any);
+    jest.spyOn(Coupon, 'findOneAndUpdate').mockResolvedValue(null);
+    const redeem = jest.spyOn(CouponRedemption, 'findOneAndUpdate');
+
+    await expect(CouponService.applyToBooking(unpaidBooking() as any, 'WELCOME', userId))
+      .resolves.toEqual({ error: 'This coupon has reached its redemption limit' });
+    expect(redeem).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,328 @@
+import mongoose from 'mongoose';
+import { Coupon, ICoupon, CouponDiscountType } from '../models/Coupon';
+import { CouponRedemption } from '../models/CouponRedemption';
+import { Booking, IBooking } from '../models/Booking';
+import { Service } from '../models/Service';
+import { CouponAbsorption } from '../types';
+
+const COUPON_CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+
+export interface CouponInput {
+  code?: string;
+  description?: string;
+  discountType?: CouponDiscountType;
+  discountValue?: number;
+  serviceIds?: string[];
+  minAmount?: number;
+  maxRedemptions?: number | null;
+  maxRedemptionsPerUser?: number;
+  firstBookingOnly?: boolean;
+  absorbedBy?: CouponAbsorption;
+  startsAt?: string | Date | null;
+  expiresAt?: string | Date | null;
+  isActive?: boolean;
+}
+
+export interface CouponIssuer {
+  issuedBy: 'admin' | 'mentor';
+  userId: string;
+}
+
+export interface CouponQuote {
+  coupon: ICoupon;
+  originalAmount: number;
+  discountAmount: number;
+  amount: number; // Price after the discount
+}
+
+// Populated or not, the id of a booking reference
+const refId = (ref: any): string => (ref?._id || ref).toString();
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+export class CouponService {
+  // Validate coupon input and build the fields to store; mentors can only discount their own services
+  static async buildCoupon(
+    input: CouponInput,
+    issuer: CouponIssuer,
+    existing?: ICoupon
+  ): Promise<{ values?: Partial<ICoupon>; error?: string }> {
+    const values: any = {};
+
+    if (!existing) {
+      const code = String(input.code || '').trim().toUpperCase();
+      if (!COUPON_CODE_PATTERN.test(code)) {
+        return { error: 'Code must be 3-32 letters, numbers, dashes or underscores' };
+      }
+      values.code = code;
+    } else if (input.code !== undefined && String(input.code).trim().toUpperCase() !== existing.code) {
+      return { error: 'A coupon code cannot be changed' };
+    }
+
+    const discountType = input.discountType ?? existing?.discountType;
+    if (discountType !== 'percent' && discountType !== 'fixed') {
+      return { error: 'Discount type must be percent or fixed' };
+    }
+    const discountValue = input.discountValue !== undefined ? Number(input.discountValue) : existing?.discountValue;
+    if (discountValue === undefined || !Number.isFinite(discountValue) || discountValue <= 0) {
+      return { error: 'Discount value must be greater than 0' };
+    }
+    if (discountType === 'percent' && discountValue > 100) {
+      return { error: 'Percent discount cannot exceed 100' };
+    }
+    values.discountType = discountType;
+    values.discountValue = discountValue;
+
+    if (input.description !== undefined) {
+      values.description = String(input.description).trim();
+    }
+
+    if (input.serviceIds !== undefined) {
+      if (!Array.isArray(input.serviceIds) || input.serviceIds.some(id => !mongoose.Types.ObjectId.isValid(id))) {
+        return { error: 'Invalid service ids' };
+      }
+      const serviceIds = [...new Set(input.serviceIds.map(String))];
+      if (serviceIds.length > 0) {
+        const filter: any = { _id: { $in: serviceIds } };
+        if (issuer.issuedBy === 'mentor') {
+          filter.mentorId = issuer.userId;
+        }
+        if (await Service.countDocuments(filter) !== serviceIds.length) {
+          return { error: 'One or more services were not found' };
+        }
+      }
+      values.serviceIds = serviceIds;
+    }
+
+    if (input.minAmount !== undefined) {
+      const minAmount = Number(input.minAmount);
+      if (!Number.isFinite(minAmount) || minAmount < 0) {
+        return { error: 'Minimum amount cannot be negative' };
+      }
+      values.minAmount = minAmount;
+    }
+
+    if (input.maxRedemptions !== undefined) {
+      if (input.maxRedemptions === null) {
+        values.maxRedemptions = undefined;
+      } else {
+        const maxRedemptions = Number(input.maxRedemptions);
+        if (!Number.isInteger(maxRedemptions) || maxRedemptions < 1) {
+          return { error: 'Maximum redemptions must be a positive whole number' };
+        }
+        if (existing && maxRedemptions < existing.redemptionCount) {
+          return { error: `Maximum redemptions cannot be below the ${existing.redemptionCount} already made` };
+        }
+        values.maxRedemptions = maxRedemptions;
+      }
+    }
+
+    if (input.maxRedemptionsPerUser !== undefined) {
+      const perUser = Number(input.maxRedemptionsPerUser);
+      if (!Number.isInteger(perUser) || perUser < 1) {
+        return { error: 'Maximum redemptions per user must be a positive whole number' };
+      }
+      values.maxRedemptionsPerUser = perUser;
+    }
+
+    if (input.firstBookingOnly !== undefined) {
+      values.firstBookingOnly = !!input.firstBookingOnly;
+    }
+    if (input.isActive !== undefined) {
+      values.isActive = !!input.isActive;
+    }
+
+    // Mentors pay for their own codes; the platform decides for the codes it issues
+    if (issuer.issuedBy === 'mentor') {
+      values.absorbedBy = 'mentor';
+    } else if (input.absorbedBy !== undefined) {
+      if (!['shared', 'platform', 'mentor'].includes(input.absorbedBy)) {
+        return { error: 'Absorbed by must be shared, platform or mentor' };
+      }
+      values.absorbedBy = input.absorbedBy;
+    }
+
+    for (const field of ['startsAt', 'expiresAt'] as const) {
+      if (input[field] === undefined) {
+        continue;
+      }
+      if (input[field] === null) {
+        values[field] = undefined;
+        continue;
+      }
+      const date = new Date(input[field] as string | Date);
+      if (isNaN(date.getTime())) {
+        return { error: `Invalid ${field}` };
+      }
+      values[field] = date;
+    }
+    const startsAt = 'startsAt' in values ? values.startsAt : existing?.startsAt;
+    const expiresAt = 'expiresAt' in values ? values.expiresAt : existing?.expiresAt;
+    if (startsAt && expiresAt && expiresAt <= startsAt) {
+      return { error: 'Expiry must be after the start date' };
+    }
+
+    return { values };
+  }
+
+  // Check a code against a booking without using it up
+  static async quote(code: string, booking: IBooking, userId: string): Promise<{ quote?: CouponQuote; error?: string }> {
+    const normalized = String(code || '').trim().toUpperCase();
+    const coupon = normalized ? await Coupon.findOne({ code: normalized, isActive: true }) : null;
+    if (!coupon) {
+      return { error: 'Invalid coupon code' };
+    }
+
+    const now = new Date();
+    if (coupon.startsAt && coupon.startsAt > now) {
+      return { error: 'This coupon is not active yet' };
+    }
+    if (coupon.expiresAt && coupon.expiresAt <= now) {
+      return { error: 'This coupon has expired' };
+    }
+
+    if (coupon.issuedBy === 'mentor' && coupon.mentorId?.toString() !== refId(booking.mentorId)) {
+      return { error: 'This coupon does not apply to this mentor' };
+    }
+    if (coupon.serviceIds.length > 0 && !coupon.serviceIds.some(id => id.toString() === refId(booking.serviceId))) {
+      return { error: 'This coupon does not apply to this service' };
+    }
+
+    const bookingId = refId(booking._id);
+    const holdsCoupon = booking.discount?.couponId?.toString() === coupon._id.toString();
+    const originalAmount = booking.discount?.couponId ? booking.discount.originalAmount : booking.amount;
+    if (originalAmount < coupon.minAmount) {
+      return { error: `This coupon requires a booking of at least ${coupon.minAmount}` };
+    }
+
+    if (!holdsCoupon && coupon.maxRedemptions && coupon.redemptionCount >= coupon.maxRedemptions) {
+      return { error: 'This coupon has reached its redemption limit' };
+    }
+
+    const userRedemptions = await CouponRedemption.countDocuments({
+      couponId: coupon._id,
+      userId,
+      status: 'applied',
+      bookingId: { $ne: bookingId }
+    });
+    if (userRedemptions >= coupon.maxRedemptionsPerUser) {
+      return { error: 'You have already used this coupon' };
+    }
+
+    if (coupon.firstBookingOnly) {
+      const previousBooking = await Booking.exists({
+        studentId: userId,
+        _id: { $ne: bookingId },
+        paymentStatus: { $in: ['paid', 'refunded'] }
+      });
+      if (previousBooking) {
+        return { error: 'This coupon is only valid on your first booking' };
+      }
+    }
+
+    const discountAmount = coupon.discountType === 'percent'
+      ? round(originalAmount * coupon.discountValue / 100)
+      : Math.min(coupon.discountValue, originalAmount);
+
+    return {
+      quote: {
+        coupon,
+        originalAmount,
+        discountAmount,
+        amount: round(originalAmount - discountAmount)
+      }
+    };
+  }
+
+  // Apply a code to an unpaid booking, replacing any code applied before; booking.amount becomes the discounted price
+  static async applyToBooking(booking: IBooking, code: string, userId: string): Promise<{ quote?: CouponQuote; error?: string }> {
+    if (booking.paymentStatus === 'paid') {
+      return { error: 'Booking is already paid' };
+    }
+
+    const { quote, error } = await this.quote(code, booking, userId);
+    if (!quote) {
+      return { error };
+    }
+
+    const couponId = quote.coupon._id as mongoose.Types.ObjectId;
+    const previousCouponId = booking.discount?.couponId?.toString();
+    if (previousCouponId === couponId.toString()) {
+      return { quote };
+    }
+
+    // Claim a redemption; the limit is checked again here so concurrent checkouts can't exceed it
+    const claimed = await Coupon.findOneAndUpdate(
+      {
+        _id: couponId,
+        isActive: true,
+        $or: [
+          { maxRedemptions: { $exists: false } },
+          { maxRedemptions: null },
+          { $expr: { $lt: ['$redemptionCount', '$maxRedemptions'] } }
+        ]
+      },
+      { $inc: { redemptionCount: 1 } }
+    );
+    if (!claimed) {
+      return { error: 'This coupon has reached its redemption limit' };
+    }
+
+    // Take one of the user's slots for this coupon; the unique index stops concurrent checkouts exceeding the per-user limit
+    let redeemed = false;
+    for (let userSlot = 0; userSlot < quote.coupon.maxRedemptionsPerUser && !redeemed; userSlot++) {
+      try {
+        await CouponRedemption.findOneAndUpdate(
+          { couponId, bookingId: booking._id },
+          { userId, discountAmount: quote.discountAmount, userSlot, status: 'applied', $unset: { releasedAt: 1 } },
+          { upsert: true }
+        );
+        redeemed = true;
+      } catch (error: any) {
+        if (error?.code !== 11000) {
+          await Coupon.updateOne({ _id: couponId, redemptionCount: { $gt: 0 } }, { $inc: { redemptionCount: -1 } });
+          throw error;
+        }
+      }
+    }
+    if (!redeemed) {
+      await Coupon.updateOne({ _id: couponId, redemptionCount: { $gt: 0 } }, { $inc: { redemptionCount: -1 } });
+      return { error: 'You have already used this coupon' };
+    }
+
+    if (previousCouponId) {
+      await this.releaseForBooking(booking);
+    }
+
+    booking.amount = quote.amount;
+    booking.discount = {
+      couponId,
+      code: quote.coupon.code,
+      amount: quote.discountAmount,
+      originalAmount: quote.originalAmount,
+      absorbedBy: quote.coupon.absorbedBy
+    };
+    await booking.save();
+
+    return { quote };
+  }
+
+  // Give back the booking's redemption, e.g. when it lapses unpaid; the booking keeps its discount record
+  static async releaseForBooking(booking: IBooking): Promise<boolean> {
+    const couponId = booking.discount?.couponId;
+    if (!couponId) {
+      return false;
+    }
+
+    const released = await CouponRedemption.findOneAndUpdate(
+      { couponId, bookingId: booking._id, status: 'applied' },
+      { status: 'released', releasedAt: new Date(), $unset: { userSlot: 1 } }
+    );
+    if (!released) {
+      return false;
+    }
+
+    await Coupon.updateOne({ _id: couponId, redemptionCount: { $gt: 0 } }, { $inc: { redemptionCount: -1 } });
+    return true;
+  }
+}
@@ -1,8 +1,15 @@
 import cron from 'node-cron';
 import { PayoutService } from './payoutService';
+import { PayoutRetryService } from './payoutRetryService';
 import { notificationService } from './notificationService';
 import { AutoCancelService } from './autoCancelService';
 import { RefundService } from './refundService';
+import { BookingSeriesService } from './bookingSeriesService';
+import { PackageService } from './packageService';
+import { GiftCardService } from './giftCardService';
+import { CurrencyService } from './currencyService';
+import { StatementService } from './statementService';
+import { WaitlistService } from './waitlistService';
 import { SharedFile } from '../models/SharedFile';
 import { deleteResource } from '../config/cloudinary';
 
@@ -72,12 +79,14 @@ const refundExpiredMessages = async () => {
 
 export class CronService {
   private static isRunning = false;
+  // Kept apart from the payout check's flag so neither job skips the other when they start together
+  private static isRetryRunning = false;
 
   // Start all cron jobs
   static startCronJobs(): void {
     console.log('Starting cron jobs...');
 
-    // Check for pending payouts every hour
+    // Pay out eligible earnings every hour, batched per mentor on their payout schedule
     cron.schedule('0 * * * *', async () => {
       if (this.isRunning) {
         
@@ -98,6 +107,24 @@ export class CronService {
       timezone: 'UTC'
     });
 
+    // Retry failed payouts whose backoff has elapsed every 10 minutes
+    cron.schedule('*/10 * * * *', async () => {
+      if (this.isRetryRunning) {
+        return;
+      }
+
+      try {
+        this.isRetryRunning = true;
+        await PayoutRetryService.processDueRetries();
+      } catch (error) {
+        console.error('Error in payout retry cron job:', error);
+      } finally {
+        this.isRetryRunning = false;
+      }
+    }, {
+      timezone: 'UTC'
+    });
+
     // More frequent checks during business hours (every 30 minutes)
     cron.schedule('*/30 9-17 * * 1-5', async () => {
       if (this.isRunning) {
@@ -135,6 +162,7 @@ export class CronService {
       try {
         // Running auto-cancel check for pending bookings...
         await AutoCancelService.cancelPendingBookings();
+        await AutoCancelService.releaseExpiredSlotHolds();
       } catch (error) {
         // Error in auto-cancel cron job
       }
@@ -142,6 +170,74 @@ export class CronService {
       timezone: 'UTC'
     });
 
+    // Pass lapsed waitlist offers on to the next student every 5 minutes
+    cron.schedule('*/5 * * * *', async () => {
+      try {
+        await WaitlistService.processExpiredOffers();
+      } catch (error) {
+        console.error('Error processing waitlist offers:', error);
+      }
+    }, {
+      timezone: 'UTC'
+    });
+
+    // Charge, remind or cancel recurring series occurrences whose payment is due, every 30 minutes
+    cron.schedule('15,45 * * * *', async () => {
+      try {
+        await BookingSeriesService.processDueOccurrences();
+      } catch (error) {
+        console.error('Error processing due series occurrences:', error);
+      }
+    }, {
+      timezone: 'UTC'
+    });
+
+    // Expire session packages past their validity every hour
+    cron.schedule('30 * * * *', async () => {
+      try {
+        await PackageService.expirePurchases();
+      } catch (error) {
+        console.error('Error expiring session packages:', error);
+      }
+    }, {
+      timezone: 'UTC'
+    });
+
+    // Expire unredeemed gift cards past their expiry date every hour
+    cron.schedule('40 * * * *', async () => {
+      try {
+        await GiftCardService.expireGiftCards();
+      } catch (error) {
+        console.error('Error expiring gift cards:', error);
+      }
+    }, {
+      timezone: 'UTC'
+    });
+
+    // Email mentors last month's earnings statement on the 1st of each month
+    cron.schedule('0 6 1 * *', async () => {
+      try {
+        const lastMonth = new Date();
+        lastMonth.setUTCDate(0);
+        await StatementService.sendMonthlyStatements(lastMonth.getUTCFullYear(), lastMonth.getUTCMonth() + 1);
+      } catch (error) {
+        console.error('Error sending monthly earnings statements:', error);
+      }
+    }, {
+      timezone: 'UTC'
+    });
+
+    // Refresh exchange rates every 6 hours
+    cron.schedule('5 */6 * * *', async () => {
+      try {
+        await CurrencyService.refreshRates();
+      } catch (error) {
+        console.error('Error refreshing exchange rates:', error);
+      }
+    }, {
+      timezone: 'UTC'
+    });
+
     // Check for expired cold messages every hour to refund tokens
     cron.schedule('0 * * * *', async () => {
       try {
@@ -0,0 +1,200 @@
+import axios from 'axios';
+import { FxRate } from '../models/FxRate';
+import { CurrencyCode } from '../types';
+
+// Booking amounts, tokens, ledger entries and mentor transfers are all in this currency
+export const SETTLEMENT_CURRENCY: CurrencyCode = 'usd';
+export const SUPPORTED_CURRENCIES: CurrencyCode[] = ['usd', 'eur', 'gbp', 'inr'];
+// Stored rates older than this are refreshed before use
+const RATE_MAX_AGE_HOURS = 24;
+// A rate endpoint slower than this fails the refresh instead of holding up the cron job
+const FX_REQUEST_TIMEOUT_MS = 10000;
+
+// Units of each currency per one US dollar
+export type FxRates = Record<CurrencyCode, number>;
+
+// An amount in another currency, with the rate that relates it to the settlement amount
+export interface CurrencyAmount {
+  currency: CurrencyCode;
+  amount: number;
+  fxRate: number; // Units of the currency per one settlement unit
+}
+
+// Where exchange rates come from; swapped out with CurrencyService.setProvider
+export interface FxRateProvider {
+  name: string;
+  getRates(currencies: CurrencyCode[]): Promise<Partial<FxRates>>;
+}
+
+// Fixed rates, for local development and tests
+export class StaticFxRateProvider implements FxRateProvider {
+  name = 'static';
+
+  constructor(private rates: Partial<FxRates> = { usd: 1, eur: 0.92, gbp: 0.79, inr: 83.2 }) {}
+
+  async getRates(currencies: CurrencyCode[]): Promise<Partial<FxRates>> {
+    const rates: Partial<FxRates> = {};
+    for (const currency of currencies) {
+      if (this.rates[currency]) {
+        rates[currency] = this.rates[currency];
+      }
+    }
+    return rates;
+  }
+}
+
+// Rates from an endpoint that returns { rates: { EUR: 0.92, ... } } quoted against USD
+export class HttpFxRateProvider implements FxRateProvider {
+  name = 'http';
+
+  constructor(private url: string, private timeoutMs: number = FX_REQUEST_TIMEOUT_MS) {}
+
+  async getRates(currencies: CurrencyCode[]): Promise<Partial<FxRates>> {
+    const response = await axios.get(this.url, { timeout: this.timeoutMs });
+
+    // Anything but the expected shape is rejected rather than stored
+    const body = response.data;
+    if (!body || typeof body !== 'object' || !body.rates || typeof body.rates !== 'object') {
+      throw new Error('Exchange rate response is missing a rates object');
+    }
+    if (body.base && String(body.base).toLowerCase() !== SETTLEMENT_CURRENCY) {
+      throw new Error(`Exchange rates are based on ${body.base}, expected ${SETTLEMENT_CURRENCY.toUpperCase()}`);
+    }
+
+    const rates: Partial<FxRates> = { usd: 1 };
+    for (const currency of currencies) {
+      const rate = Number(body.rates[currency.toUpperCase()]);
+      if (Number.isFinite(rate) && rate > 0) {
+        rates[currency] = rate;
+      }
+    }
+    return rates;
+  }
+}
+
+let provider: FxRateProvider = process.env.FX_RATES_URL
+  ? new HttpFxRateProvider(process.env.FX_RATES_URL)
+  : new StaticFxRateProvider();
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+export class CurrencyService {
+  static setProvider(rateProvider: FxRateProvider): void {
+    provider = rateProvider;
+  }
+
+  static isSupported(currency: unknown): currency is CurrencyCode {
+    return typeof currency === 'string' && SUPPORTED_CURRENCIES.includes(currency.toLowerCase() as CurrencyCode);
+  }
+
+  // A supported currency code, or the settlement currency
+  static normalize(currency?: unknown): CurrencyCode {
+    return this.isSupported(currency) ? currency.toLowerCase() as CurrencyCode : SETTLEMENT_CURRENCY;
+  }
+
+  // Fetch rates from the provider and store them; returns how many were updated
+  static async refreshRates(): Promise<number> {
+    const rates = await provider.getRates(SUPPORTED_CURRENCIES);
+    const fetchedAt = new Date();
+
+    let updated = 0;
+    for (const currency of SUPPORTED_CURRENCIES) {
+      const rate = currency === SETTLEMENT_CURRENCY ? 1 : rates[currency];
+      if (!rate || !Number.isFinite(rate) || rate <= 0) {
+        continue;
+      }
+      await FxRate.findOneAndUpdate(
+        { currency },
+        { rate, provider: provider.name, fetchedAt },
+        { upsert: true }
+      );
+      updated++;
+    }
+    return updated;
+  }
+
+  // Current rates, refreshing first when any are missing or stale
+  static async getRates(): Promise<FxRates> {
+    let stored = await FxRate.find();
+    const staleBefore = new Date(Date.now() - RATE_MAX_AGE_HOURS * 60 * 60 * 1000);
+    const needsRefresh = SUPPORTED_CURRENCIES.some(currency => {
+      const rate = stored.find(entry => entry.currency === currency);
+      return currency !== SETTLEMENT_CURRENCY && (!rate || rate.fetchedAt < staleBefore);
+    });
+
+    if (needsRefresh) {
+      try {
+        await this.refreshRates();
+        stored = await FxRate.find();
+      } catch (error) {
+        // Stale rates are better than none; missing ones fail below
+        console.error('Exchange rate refresh error:', error);
+      }
+    }
+
+    const rates = { [SETTLEMENT_CURRENCY]: 1 } as FxRates;
+    for (const entry of stored) {
+      if (entry.currency !== SETTLEMENT_CURRENCY) {
+        rates[entry.currency] = entry.rate;
+      }
+    }
+    for (const currency of SUPPORTED_CURRENCIES) {
+      if (!rates[currency]) {
+        throw new Error(`No exchange rate for ${currency.toUpperCase()}`);
+      }
+    }
+    return rates;
+  }
+
+  // Convert with rates already loaded, e.g. across a page of services
+  static convertWithRates(amount: number, from: CurrencyCode, to: CurrencyCode, rates: FxRates): CurrencyAmount {
+    const fxRate = rates[to] / rates[from];
+    return { currency: to, amount: round(amount * fxRate), fxRate };
+  }
+
+  static async convert(amount: number, from: CurrencyCode, to: CurrencyCode): Promise<CurrencyAmount> {
+    if (from === to) {
+      return { currency: to, amount: round(amount), fxRate: 1 };
+    }
+    return this.convertWithRates(amount, from, to, await this.getRates());
+  }
+
+  // Settlement amount for a price set in a service's currency, and the price as it was quoted
+  static async toSettlement(amount: number, currency?: CurrencyCode): Promise<{ amount: number; price: CurrencyAmount }> {
+    const priceCurrency = this.normalize(currency);
+    const fxRate = priceCurrency === SETTLEMENT_CURRENCY ? 1 : (await this.getRates())[priceCurrency];
+    return {
+      amount: round(amount / fxRate),
+      price: { currency: priceCurrency, amount: round(amount), fxRate }
+    };
+  }
+
+  // What to charge a student paying in their currency for a settlement amount
+  static async toCharge(amount: number, currency?: CurrencyCode): Promise<CurrencyAmount> {
+    return this.convert(amount, SETTLEMENT_CURRENCY, this.normalize(currency));
+  }
+
+  // Part of a settlement amount in a recorded price or charge's currency, at the rate recorded then;
+  // never more than the recorded amount, so a full refund returns exactly what was charged
+  static fromSettlement(amount: number, recorded?: Partial<CurrencyAmount>): number {
+    if (!recorded?.currency || !recorded.fxRate || recorded.currency === SETTLEMENT_CURRENCY) {
+      return amount;
+    }
+    const converted = round(amount * recorded.fxRate);
+    return recorded.amount !== undefined ? Math.min(converted, recorded.amount) : converted;
+  }
+
+  // The charge a succeeded Stripe payment intent made for a settlement amount
+  static chargeFromPaymentIntent(paymentIntent: { amount: number; currency: string }, settlementAmount: number): CurrencyAmount {
+    const amount = paymentIntent.amount / 100;
+    return {
+      currency: this.normalize(paymentIntent.currency),
+      amount,
+      fxRate: settlementAmount > 0 ? amount / settlementAmount : 1
+    };
+  }
+
+  static format(amount: number, currency?: string): string {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: this.normalize(currency).toUpperCase() }).format(amount);
+  }
+}
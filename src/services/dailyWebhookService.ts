@@ -1,6 +1,8 @@
 import { VideoCall } from '../models/VideoCall';
 import { Booking } from '../models/Booking';
 import { User } from '../models/User';
+import { GroupSessionService } from './groupSessionService';
+import { EscrowService } from './escrowService';
 import mongoose from 'mongoose';
 
 interface Participant {
@@ -286,7 +288,7 @@ export class DailyWebhookService {
     );
   }
 
-  // Validate session completion (both mentor and mentee must have participated)
+  // Validate session completion (the mentor and the mentee, or at least one group attendee, must have participated)
   private static async validateSessionCompletion(videoCall: any): Promise<{
     isValid: boolean;
     reason?: string;
@@ -299,11 +301,13 @@ export class DailyWebhookService {
 
     // Get mentor and student IDs
     const mentorId = videoCall.mentorId._id ? videoCall.mentorId._id.toString() : videoCall.mentorId.toString();
-    const studentId = videoCall.studentId._id ? videoCall.studentId._id.toString() : videoCall.studentId.toString();
+    const studentIds: string[] = videoCall.groupSessionId
+      ? (videoCall.attendeeIds || []).map((id: any) => id.toString())
+      : [videoCall.studentId._id ? videoCall.studentId._id.toString() : videoCall.studentId.toString()];
 
     // Check if both mentor and student participated
     const mentorParticipated = participants.some((p: any) => p.userId === mentorId);
-    const studentParticipated = participants.some((p: any) => p.userId === studentId);
+    const studentParticipated = participants.some((p: any) => studentIds.includes(p.userId));
 
     if (!mentorParticipated) {
       return { isValid: false, reason: 'Mentor did not join the session' };
@@ -319,6 +323,23 @@ export class DailyWebhookService {
   // Update booking status
   private static async updateBookingStatus(videoCall: any, status: string): Promise<void> {
     try {
+      // Every paid seat in a group session completes together
+      if (videoCall.groupSessionId) {
+        if (status === 'completed') {
+          await GroupSessionService.completeSession(videoCall.groupSessionId);
+        }
+        return;
+      }
+
+      const booking = await Booking.findById(videoCall.bookingId);
+      if (!booking) {
+        return;
+      }
+
+      if (status === 'completed' && booking.paymentStatus === 'paid' && EscrowService.canTransition(booking, 'held')) {
+        await EscrowService.transition(booking, 'held', { event: 'session_completed' });
+      }
+
       await Booking.findByIdAndUpdate(videoCall.bookingId, { status });
       
     } catch (error) {
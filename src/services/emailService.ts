@@ -10,6 +10,12 @@ export interface EmailTemplate {
   from?: string;
 }
 
+export interface EmailAttachment {
+  filename: string;
+  content: string | Buffer;
+  contentType?: string;
+}
+
 export interface VerificationEmailData {
   name: string;
   email: string;
@@ -86,7 +92,8 @@ class EmailService {
     subject: string,
     html: string,
     userId?: string,
-    category?: 'booking' | 'reschedule' | 'chat' | 'payout' | 'dispute' | 'system' | 'verification' | 'marketing'
+    category?: 'booking' | 'reschedule' | 'chat' | 'payout' | 'dispute' | 'system' | 'verification' | 'marketing',
+    attachments?: EmailAttachment[]
   ): Promise<boolean> {
     try {
       let unsubscribeToken: string | undefined;
@@ -109,6 +116,7 @@ class EmailService {
         to: Array.isArray(to) ? to : [to],
         subject,
         html: finalHtml,
+        attachments: attachments && attachments.length > 0 ? attachments : undefined,
       });
 
       if (error) {
@@ -149,11 +157,16 @@ class EmailService {
   /**
    * Send booking notification
    */
-  async sendBookingNotification(data: BookingNotificationData, type: 'confirmation' | 'reminder' | 'cancellation', userId?: string): Promise<boolean> {
+  async sendBookingNotification(
+    data: BookingNotificationData,
+    type: 'confirmation' | 'reminder' | 'cancellation',
+    userId?: string,
+    attachments?: EmailAttachment[]
+  ): Promise<boolean> {
     try {
       const { to, subject, html } = this.createBookingNotificationEmail(data, type);
       
-      return await this.sendEmailWithPreferences(to, subject, html, userId, 'booking');
+      return await this.sendEmailWithPreferences(to, subject, html, userId, 'booking', attachments);
     } catch (error) {
       return false;
     }
@@ -188,11 +201,11 @@ class EmailService {
   /**
    * Send generic email
    */
-  async sendGenericEmail(to: string, subject: string, message: string, userId?: string): Promise<boolean> {
+  async sendGenericEmail(to: string, subject: string, message: string, userId?: string, attachments?: EmailAttachment[]): Promise<boolean> {
     try {
       const html = this.createGenericEmailHtml(subject, message);
       
-      return await this.sendEmailWithPreferences(to, subject, html, userId, 'system');
+      return await this.sendEmailWithPreferences(to, subject, html, userId, 'system', attachments);
     } catch (error) {
       return false;
     }
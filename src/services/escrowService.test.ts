@@ -0,0 +1,88 @@
+import mongoose from 'mongoose';
+import { EscrowService, EscrowTransitionError } from './escrowService';
+import { Booking, IBooking } from '../models/Booking';
+import { EscrowTransition } from '../models/EscrowTransition';
+
+const booking = (fields: Partial<IBooking>): IBooking => ({
+  _id: new mongoose.Types.ObjectId(),
+  isNew: false,
+  status: 'confirmed',
+  paymentStatus: 'pending',
+  ...fields
+}) as IBooking;
+
+describe('EscrowService.getState', () => {
+  it('reads bookings that predate escrow tracking from their payment fields', () => {
+    expect(EscrowService.getState(booking({ paymentStatus: 'pending' }))).toBe('none');
+    expect(EscrowService.getState(booking({ paymentStatus: 'pending', stripePaymentIntentId: 'pi_1' }))).toBe('authorized');
+    expect(EscrowService.getState(booking({ paymentStatus: 'paid' }))).toBe('captured');
+    expect(EscrowService.getState(booking({ paymentStatus: 'paid', status: 'completed' }))).toBe('held');
+    expect(EscrowService.getState(booking({ paymentStatus: 'paid', payoutStatus: 'paid' }))).toBe('released');
+    expect(EscrowService.getState(booking({ paymentStatus: 'refunded' }))).toBe('refunded');
+  });
+
+  it('prefers the stored escrow status', () => {
+    expect(EscrowService.getState(booking({ paymentStatus: 'paid', escrowStatus: 'disputed' }))).toBe('disputed');
+  });
+});
+
+describe('EscrowService.canTransition', () => {
+  it('allows the moves in the state machine', () => {
+    expect(EscrowService.canTransition(booking({ escrowStatus: 'captured' }), 'held')).toBe(true);
+    expect(EscrowService.canTransition(booking({ escrowStatus: 'held' }), 'released')).toBe(true);
+    expect(EscrowService.canTransition(booking({ escrowStatus: 'partially_refunded' }), 'partially_refunded')).toBe(true);
+  });
+
+  it('refuses to release or refund money that has already left escrow', () => {
+    expect(EscrowService.canTransition(booking({ escrowStatus: 'released' }), 'refunded')).toBe(false);
+    expect(EscrowService.canTransition(booking({ escrowStatus: 'refunded' }), 'released')).toBe(false);
+    expect(EscrowService.canTransition(booking({ escrowStatus: 'authorized' }), 'released')).toBe(false);
+  });
+
+  it('treats staying in the current state as allowed', () => {
+    expect(EscrowService.canTransition(booking({ escrowStatus: 'captured' }), 'captured')).toBe(true);
+  });
+
+  it('throws on a disallowed move when asserting', () => {
+    expect(() => EscrowService.assertCanTransition(booking({ escrowStatus: 'refunded' }), 'released'))
+      .toThrow(EscrowTransitionError);
+  });
+});
+
+describe('EscrowService.transition', () => {
+  it('guards the update on the state it read and records the change', async () => {
+    const held = booking({ escrowStatus: 'held' });
+    const update = jest.spyOn(Booking, 'updateOne').mockResolvedValue({ matchedCount: 1 } as any);
+    const record = jest.spyOn(EscrowTransition, 'create').mockResolvedValue([] as any);
+
+    await expect(EscrowService.transition(held, 'released', { event: 'payout_released', amount: 40 })).resolves.toBe(true);
+
+    expect(update).toHaveBeenCalledWith({ _id: held._id, escrowStatus: 'held' }, { escrowStatus: 'released' }, { session: undefined });
+    expect(record).toHaveBeenCalledWith(
+      [expect.objectContaining({ bookingId: held._id, from: 'held', to: 'released', event: 'payout_released', amount: 40 })],
+      { session: undefined }
+    );
+  });
+
+  it('fails when another transition changed the state first', async () => {
+    const held = booking({ escrowStatus: 'held' });
+    jest.spyOn(Booking, 'updateOne').mockResolvedValue({ matchedCount: 0 } as any);
+    jest.spyOn(Booking, 'findById').mockReturnValue({
+      select: () => ({ session: jest.fn().mockResolvedValue({ escrowStatus: 'refunded' }) })
+    } as any);
+    const record = jest.spyOn(EscrowTransition, 'create');
+
+    await expect(EscrowService.transition(held, 'released', { event: 'payout_released' })).rejects.toThrow(
+      'Booking payment cannot move from refunded to released'
+    );
+    expect(record).not.toHaveBeenCalled();
+  });
+
+  it('rejects a move the state machine does not allow without writing', async () => {
+    const update = jest.spyOn(Booking, 'updateOne');
+
+    await expect(EscrowService.transition(booking({ escrowStatus: 'released' }), 'refunded', { event: 'refund_processed' }))
+      .rejects.toBeInstanceOf(EscrowTransitionError);
+    expect(update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,120 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { Booking, IBooking } from '../models/Booking';
+import { EscrowTransition } from '../models/EscrowTransition';
+import { EscrowStatus } from '../types';
+
+// Allowed escrow moves; anything else is rejected
+export const ESCROW_TRANSITIONS: Record<EscrowStatus, EscrowStatus[]> = {
+  none: ['authorized', 'captured'],
+  authorized: ['captured', 'voided'],
+  voided: ['authorized', 'captured'],
+  captured: ['held', 'partially_refunded', 'refunded', 'disputed'],
+  held: ['released', 'partially_refunded', 'refunded', 'disputed'],
+  partially_refunded: ['partially_refunded', 'held', 'released', 'refunded', 'disputed'],
+  disputed: ['released', 'partially_refunded', 'refunded'],
+  released: [],
+  refunded: []
+};
+
+export interface EscrowTransitionOptions {
+  event: string;
+  actorId?: string | mongoose.Types.ObjectId;
+  amount?: number;
+  reason?: string;
+  metadata?: Record<string, any>;
+  session?: ClientSession;
+}
+
+export class EscrowTransitionError extends Error {
+  constructor(public from: EscrowStatus, public to: EscrowStatus) {
+    super(`Booking payment cannot move from ${from} to ${to}`);
+    this.name = 'EscrowTransitionError';
+  }
+}
+
+type EscrowFields = Pick<IBooking, 'escrowStatus' | 'paymentStatus' | 'payoutStatus' | 'status' | 'refund' | 'stripePaymentIntentId'>;
+
+export class EscrowService {
+  // Current escrow state; bookings that predate the state machine are read from their legacy fields
+  static getState(booking: EscrowFields): EscrowStatus {
+    if (booking.escrowStatus) {
+      return booking.escrowStatus;
+    }
+
+    if (booking.paymentStatus === 'refunded') {
+      return 'refunded';
+    }
+    if (booking.payoutStatus === 'paid' || (booking.payoutStatus as string) === 'completed') {
+      return 'released';
+    }
+    if (booking.payoutStatus === 'disputed') {
+      return 'disputed';
+    }
+    if (booking.paymentStatus === 'paid') {
+      if (booking.refund?.status === 'processed' && booking.refund.amount > 0) {
+        return 'partially_refunded';
+      }
+      return ['completed', 'reviewable', 'reviewed'].includes(booking.status) ? 'held' : 'captured';
+    }
+
+    return booking.stripePaymentIntentId ? 'authorized' : 'none';
+  }
+
+  // Whether the booking's money may move to a state; moving to the current state is a no-op and always allowed
+  static canTransition(booking: EscrowFields, to: EscrowStatus): boolean {
+    const from = this.getState(booking);
+    return from === to || ESCROW_TRANSITIONS[from].includes(to);
+  }
+
+  // Throw if the move isn't allowed
+  static assertCanTransition(booking: EscrowFields, to: EscrowStatus): void {
+    if (!this.canTransition(booking, to)) {
+      throw new EscrowTransitionError(this.getState(booking), to);
+    }
+  }
+
+  // Move a booking's money to a new state and record the change.
+  // Call before changing the booking's legacy payment fields so the starting state is read correctly.
+  static async transition(booking: IBooking, to: EscrowStatus, options: EscrowTransitionOptions): Promise<boolean> {
+    const from = this.getState(booking);
+
+    if (from === to && !ESCROW_TRANSITIONS[from].includes(to)) {
+      return false;
+    }
+    if (!ESCROW_TRANSITIONS[from].includes(to)) {
+      throw new EscrowTransitionError(from, to);
+    }
+
+    // Guarded on the state we read so concurrent transitions can't both apply; unsaved bookings persist it on save
+    if (!booking.isNew) {
+      const updated = await Booking.updateOne(
+        { _id: booking._id, escrowStatus: booking.escrowStatus ? from : { $exists: false } },
+        { escrowStatus: to },
+        { session: options.session }
+      );
+      if (updated.matchedCount === 0) {
+        const current = await Booking.findById(booking._id).select('escrowStatus').session(options.session || null);
+        throw new EscrowTransitionError(current?.escrowStatus || from, to);
+      }
+    }
+
+    await EscrowTransition.create([{
+      bookingId: booking._id,
+      from,
+      to,
+      event: options.event,
+      actorId: options.actorId,
+      amount: options.amount,
+      reason: options.reason,
+      metadata: options.metadata
+    }], { session: options.session });
+
+    booking.escrowStatus = to;
+    return true;
+  }
+
+  // Audit trail for a booking, oldest first
+  static async getHistory(bookingId: string | mongoose.Types.ObjectId) {
+    return EscrowTransition.find({ bookingId }).sort({ createdAt: 1 });
+  }
+}
@@ -0,0 +1,411 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { GiftCard, IGiftCard } from '../models/GiftCard';
+import { Booking } from '../models/Booking';
+import { Service } from '../models/Service';
+import { User } from '../models/User';
+import { LedgerService } from './ledgerService';
+import { StripeService } from './stripeService';
+import { PackageService } from './packageService';
+import { CurrencyService } from './currencyService';
+import { BookingSeriesService } from './bookingSeriesService';
+import { TokenPaymentService } from './tokenPaymentService';
+import { TokenTopUpService } from './tokenTopUpService';
+import { notificationService } from './notificationService';
+import emailService from './emailService';
+
+export const MIN_GIFT_CARD_AMOUNT = 5;
+export const MAX_GIFT_CARD_AMOUNT = 500;
+// Gift cards can be redeemed for a year after purchase
+const GIFT_CARD_VALIDITY_DAYS = 365;
+// Codes leave out characters that are easy to misread
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface GiftCardPurchaseInput {
+  amount?: number; // Fixed-amount cards
+  serviceId?: string; // Cards worth one session of a service
+  recipientEmail?: string;
+  recipientName?: string;
+  message?: string;
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+// The purchaser's name and message go into an HTML email
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export class GiftCardService {
+  // Create a pending gift card; it gets a code once paid for
+  static async createPurchase(purchaserId: string, input: GiftCardPurchaseInput): Promise<{ giftCard?: IGiftCard; error?: string }> {
+    const recipientEmail = String(input.recipientEmail || '').trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(recipientEmail)) {
+      return { error: 'A valid recipient email is required' };
+    }
+
+    const giftCard = new GiftCard({
+      purchaserId,
+      recipientEmail,
+      recipientName: input.recipientName ? String(input.recipientName).trim() : undefined,
+      message: input.message ? String(input.message).trim() : undefined
+    });
+
+    if (input.serviceId) {
+      const service = mongoose.Types.ObjectId.isValid(input.serviceId) ? await Service.findById(input.serviceId) : null;
+      if (!service || !service.isActive) {
+        return { error: 'Service not found' };
+      }
+      giftCard.kind = 'service';
+      giftCard.serviceId = service._id as mongoose.Types.ObjectId;
+      giftCard.serviceTitle = service.title;
+      giftCard.initialAmount = (await CurrencyService.toSettlement(PackageService.getListPrice(service, 1), service.currency)).amount;
+    } else {
+      const amount = Number(input.amount);
+      if (!Number.isFinite(amount) || amount < MIN_GIFT_CARD_AMOUNT || amount > MAX_GIFT_CARD_AMOUNT) {
+        return { error: `Gift card amount must be between ${MIN_GIFT_CARD_AMOUNT} and ${MAX_GIFT_CARD_AMOUNT}` };
+      }
+      giftCard.kind = 'amount';
+      giftCard.initialAmount = round(amount);
+    }
+
+    if (giftCard.initialAmount <= 0) {
+      return { error: 'Gift cards must have a value' };
+    }
+    giftCard.balance = giftCard.initialAmount;
+
+    await giftCard.save();
+    return { giftCard };
+  }
+
+  static async createPaymentIntent(giftCard: IGiftCard, customerEmail: string, customerId?: string): Promise<{ clientSecret: string; paymentIntentId: string }> {
+    return StripeService.createPaymentIntent({
+      amount: Math.round(giftCard.initialAmount * 100), // Convert to cents
+      currency: 'usd',
+      bookingId: `gift_card_${giftCard._id.toString()}`,
+      customerEmail,
+      customerId,
+      description: giftCard.serviceTitle ? `Gift card: ${giftCard.serviceTitle} session` : `Gift card: $${giftCard.initialAmount}`
+    });
+  }
+
+  // Activate a paid gift card, issue its code and email it to the recipient; safe to call again from webhooks
+  static async activate(giftCardId: string, paymentIntentId: string): Promise<IGiftCard | null> {
+    const now = new Date();
+    const session = await mongoose.startSession();
+    let giftCard: IGiftCard | null = null;
+
+    try {
+      await session.withTransaction(async () => {
+        giftCard = await GiftCard.findOneAndUpdate(
+          { _id: giftCardId, status: 'pending' },
+          {
+            status: 'active',
+            code: this.generateCode(),
+            stripePaymentIntentId: paymentIntentId,
+            purchasedAt: now,
+            expiresAt: new Date(now.getTime() + GIFT_CARD_VALIDITY_DAYS * 24 * 60 * 60 * 1000)
+          },
+          { new: true, session }
+        );
+        if (!giftCard) {
+          return;
+        }
+
+        // The card's value is owed to whoever redeems it until it is used or expires
+        await LedgerService.transfer({
+          idempotencyKey: `gift_card_purchase_${giftCardId}`,
+          type: 'gift_card_purchase',
+          description: 'Gift card purchase via Stripe',
+          reference: `gift_card_${giftCardId}`,
+          from: { account: 'stripe_clearing' },
+          to: { account: 'gift_cards' },
+          amount: giftCard.initialAmount
+        }, session);
+      });
+    } finally {
+      await session.endSession();
+    }
+
+    if (giftCard) {
+      await this.deliver(giftCard);
+    }
+    return giftCard;
+  }
+
+  // Handle a succeeded Stripe payment intent whose metadata points at a gift card
+  static async handlePaymentSucceeded(paymentIntent: any): Promise<void> {
+    const giftCardId = (paymentIntent.metadata?.bookingId as string).replace(/^gift_card_/, '');
+    if (!mongoose.Types.ObjectId.isValid(giftCardId)) {
+      return;
+    }
+
+    await this.activate(giftCardId, paymentIntent.id);
+  }
+
+  static async findByCode(code: string): Promise<IGiftCard | null> {
+    const normalized = String(code || '').trim().toUpperCase();
+    return normalized ? GiftCard.findOne({ code: normalized }) : null;
+  }
+
+  // Move a gift card's whole balance into the user's token wallet
+  static async redeemToTokens(code: string, userId: string): Promise<{ success: boolean; amount?: number; error?: string }> {
+    const { giftCard, error } = await this.getRedeemable(code);
+    if (!giftCard) {
+      return { success: false, error };
+    }
+
+    // A session gift stays a session gift while the service can still be booked
+    if (giftCard.kind === 'service' && await Service.exists({ _id: giftCard.serviceId, isActive: true })) {
+      return { success: false, error: `This gift card is for a "${giftCard.serviceTitle}" session; redeem it when you book that session` };
+    }
+
+    const giftCardId = giftCard._id.toString();
+    const amount = giftCard.balance;
+    const ledgerKey = `gift_card_tokens_${giftCardId}`;
+    const session = await mongoose.startSession();
+
+    try {
+      await session.withTransaction(async () => {
+        const claimed = await GiftCard.findOneAndUpdate(
+          { _id: giftCardId, status: 'active', balance: amount },
+          {
+            balance: 0,
+            status: 'redeemed',
+            $push: { redemptions: { userId, type: 'tokens', amount, ledgerKey, redeemedAt: new Date() } }
+          },
+          { session }
+        );
+        if (!claimed) {
+          throw new Error('Gift card has already been redeemed');
+        }
+
+        await LedgerService.transfer({
+          idempotencyKey: ledgerKey,
+          type: 'gift_card_redemption',
+          description: 'Gift card redeemed for tokens',
+          reference: `gift_card_${giftCardId}`,
+          from: { account: 'gift_cards' },
+          to: { account: 'user_wallet', userId },
+          amount
+        }, session);
+      });
+    } catch (redeemError: any) {
+      return { success: false, error: redeemError.message || 'Gift card redemption failed' };
+    } finally {
+      await session.endSession();
+    }
+
+    return { success: true, amount };
+  }
+
+  // Pay for a booking with a gift card, topping up from the wallet when the card doesn't cover it all.
+  // The card's share passes through the wallet so the booking settles and refunds like any token booking.
+  static async redeemAgainstBooking(
+    code: string,
+    bookingId: string,
+    userId: string
+  ): Promise<{ success: boolean; amount?: number; transactionId?: string; error?: string }> {
+    const { giftCard, error } = await this.getRedeemable(code);
+    if (!giftCard) {
+      return { success: false, error };
+    }
+
+    const booking = mongoose.Types.ObjectId.isValid(bookingId) ? await Booking.findById(bookingId) : null;
+    if (!booking || booking.studentId.toString() !== userId) {
+      return { success: false, error: 'Booking not found' };
+    }
+    if (booking.paymentStatus === 'paid') {
+      return { success: false, error: 'Booking is already paid' };
+    }
+    if (await BookingSeriesService.isUpfrontOccurrence(booking)) {
+      return { success: false, error: 'This session is part of a recurring booking paid upfront; pay for the series instead' };
+    }
+    if (booking.amount <= 0) {
+      return { success: false, error: 'This booking has nothing to pay' };
+    }
+    if (giftCard.kind === 'service' && giftCard.serviceId?.toString() !== booking.serviceId.toString()) {
+      return { success: false, error: `This gift card can only be used for a "${giftCard.serviceTitle}" session` };
+    }
+
+    const amount = round(Math.min(giftCard.balance, booking.amount));
+    const remaining = round(booking.amount - amount);
+    if (remaining > 0) {
+      const user = await User.findById(userId).select('mentraBalance');
+      if ((user?.mentraBalance || 0) < remaining && !await TokenTopUpService.ensureBalance(userId, remaining)) {
+        return { success: false, error: `This gift card covers ${amount} of ${booking.amount}; you need ${remaining} more tokens to pay for this booking` };
+      }
+    }
+
+    const giftCardId = giftCard._id.toString();
+    const ledgerKey = `gift_card_booking_${giftCardId}_${bookingId}_${Date.now()}`;
+    const session = await mongoose.startSession();
+
+    try {
+      await session.withTransaction(async () => {
+        const claimed = await GiftCard.findOneAndUpdate(
+          { _id: giftCardId, status: 'active', balance: { $gte: amount } },
+          {
+            $inc: { balance: -amount },
+            $push: { redemptions: { userId, type: 'booking', amount, bookingId, ledgerKey, redeemedAt: new Date() } }
+          },
+          { new: true, session }
+        );
+        if (!claimed) {
+          throw new Error('Gift card balance has changed; please try again');
+        }
+        if (claimed.balance <= 0) {
+          await GiftCard.updateOne({ _id: giftCardId }, { balance: 0, status: 'redeemed' }, { session });
+        }
+
+        await LedgerService.transfer({
+          idempotencyKey: ledgerKey,
+          type: 'gift_card_redemption',
+          description: 'Gift card applied to a booking',
+          reference: `gift_card_${giftCardId}`,
+          from: { account: 'gift_cards' },
+          to: { account: 'user_wallet', userId },
+          amount
+        }, session);
+      });
+    } catch (redeemError: any) {
+      return { success: false, error: redeemError.message || 'Gift card redemption failed' };
+    } finally {
+      await session.endSession();
+    }
+
+    const payment = await TokenPaymentService.processTokenPayment(bookingId, userId, booking.amount);
+    if (!payment.success) {
+      await this.reverseRedemption(giftCardId, ledgerKey, userId, amount);
+      return { success: false, error: payment.error };
+    }
+
+    return { success: true, amount, transactionId: payment.transactionId };
+  }
+
+  // Forfeit the balance of active gift cards past their expiry date
+  static async expireGiftCards(now: Date = new Date()): Promise<number> {
+    const expiring = await GiftCard.find({ status: 'active', expiresAt: { $lte: now } }).select('_id');
+
+    let expired = 0;
+    for (const { _id } of expiring) {
+      const session = await mongoose.startSession();
+      try {
+        await session.withTransaction(async () => {
+          const giftCard = await GiftCard.findOneAndUpdate(
+            { _id, status: 'active' },
+            [{ $set: { status: 'expired', expiredBalance: '$balance', balance: 0 } }],
+            { session }
+          );
+          if (!giftCard) {
+            return;
+          }
+
+          if (giftCard.balance > 0) {
+            await LedgerService.transfer({
+              idempotencyKey: `gift_card_expiry_${_id}`,
+              type: 'gift_card_expiry',
+              description: 'Unredeemed gift card balance expired',
+              reference: `gift_card_${_id}`,
+              from: { account: 'gift_cards' },
+              to: { account: 'platform_commission' },
+              amount: giftCard.balance
+            }, session);
+          }
+          expired++;
+        });
+      } catch (error) {
+        console.error(`Error expiring gift card ${_id}:`, error);
+      } finally {
+        await session.endSession();
+      }
+    }
+
+    return expired;
+  }
+
+  // Put a booking redemption back on the card after the booking payment failed
+  private static async reverseRedemption(giftCardId: string, ledgerKey: string, userId: string, amount: number): Promise<void> {
+    const session = await mongoose.startSession();
+    try {
+      await session.withTransaction(async () => {
+        await LedgerService.transfer({
+          idempotencyKey: `${ledgerKey}_reversal`,
+          type: 'gift_card_reversal',
+          description: 'Gift card booking payment failed',
+          reference: `gift_card_${giftCardId}`,
+          from: { account: 'user_wallet', userId },
+          to: { account: 'gift_cards' },
+          amount
+        }, session);
+
+        await GiftCard.updateOne(
+          { _id: giftCardId, 'redemptions.ledgerKey': ledgerKey },
+          { $inc: { balance: amount }, status: 'active', $set: { 'redemptions.$.reversed': true } },
+          { session }
+        );
+      });
+    } catch (error) {
+      // The tokens stay in the wallet if they were spent in the meantime
+      console.error(`Error reversing gift card ${giftCardId} redemption:`, error);
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  private static async getRedeemable(code: string): Promise<{ giftCard?: IGiftCard; error?: string }> {
+    const giftCard = await this.findByCode(code);
+    if (!giftCard) {
+      return { error: 'Invalid gift card code' };
+    }
+    if (giftCard.status === 'expired' || (giftCard.expiresAt && giftCard.expiresAt <= new Date())) {
+      return { error: 'This gift card has expired' };
+    }
+    if (giftCard.status !== 'active' || giftCard.balance <= 0) {
+      return { error: 'This gift card has already been redeemed' };
+    }
+    return { giftCard };
+  }
+
+  private static generateCode(): string {
+    const bytes = crypto.randomBytes(16);
+    const characters = Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]);
+    return [0, 4, 8, 12].map(start => characters.slice(start, start + 4).join('')).join('-');
+  }
+
+  private static async deliver(giftCard: IGiftCard): Promise<void> {
+    try {
+      const purchaser = await User.findById(giftCard.purchaserId).select('firstName lastName');
+      const sender = purchaser ? `${purchaser.firstName} ${purchaser.lastName}` : 'Someone';
+      const value = giftCard.serviceTitle
+        ? `a "${escapeHtml(giftCard.serviceTitle)}" mentorship session`
+        : `$${giftCard.initialAmount} of mentorship`;
+
+      const message = [
+        `Hi ${escapeHtml(giftCard.recipientName || 'there')},`,
+        `${escapeHtml(sender)} has sent you a gift card for ${value}.`,
+        giftCard.message ? `"${escapeHtml(giftCard.message)}"` : '',
+        `Your code: <strong>${giftCard.code}</strong>`,
+        `Redeem it at ${process.env.FRONTEND_URL}/gift-cards/redeem before ${giftCard.expiresAt?.toLocaleDateString()}, either into Mentra tokens or when you book a session.`
+      ].filter(Boolean).join('\n\n');
+
+      const delivered = await emailService.sendGenericEmail(giftCard.recipientEmail, 'You have received a gift card', message);
+      if (delivered) {
+        await GiftCard.updateOne({ _id: giftCard._id }, { deliveredAt: new Date() });
+      }
+
+      await notificationService.createMultiTypeNotification(
+        giftCard.purchaserId.toString(),
+        'system',
+        'Gift Card Sent',
+        delivered
+          ? `Your gift card was emailed to ${giftCard.recipientEmail}.`
+          : `Your gift card is ready, but we couldn't email it to ${giftCard.recipientEmail}. You can share the code yourself.`,
+        { giftCardId: giftCard._id.toString(), amount: giftCard.initialAmount, delivered }
+      );
+    } catch (error) {
+      // Don't fail the payment flow if delivery fails; the purchaser can still see the code
+      console.error('Gift card delivery error:', error);
+    }
+  }
+}
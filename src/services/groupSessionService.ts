@@ -0,0 +1,447 @@
+import mongoose from 'mongoose';
+import { Booking, IBooking } from '../models/Booking';
+import { GroupSession, IGroupSession } from '../models/GroupSession';
+import { IServiceDocument, Service } from '../models/Service';
+import { IUserDocument, User } from '../models/User';
+import { VideoCall } from '../models/VideoCall';
+import { AvailabilityService } from './availabilityService';
+import { RefundService } from './refundService';
+import { CancellationPolicyService } from './cancellationPolicyService';
+import { EscrowService } from './escrowService';
+import { CurrencyService } from './currencyService';
+import { SLOT_HOLD_TTL_MINUTES, SlotHoldService } from './slotHoldService';
+import { bookingNotificationService } from './bookingNotificationService';
+
+export const MIN_GROUP_SEATS = 2;
+export const MAX_GROUP_SEATS = 100;
+
+export interface ScheduleGroupSessionParams {
+  service: IServiceDocument;
+  mentor: IUserDocument;
+  scheduledAtUTC: Date;
+  title?: string;
+  description?: string;
+}
+
+export interface SeatCancellation {
+  bookingId: string;
+  studentId: string;
+  refund: { success: boolean; refundId?: string; error?: string } | null;
+}
+
+export class GroupSessionService {
+  // Validate group settings on a service create or update body
+  static validateGroupSettings(body: { sessionType?: string; maxSeats?: any; seatPrice?: any }): string | null {
+    if (body.sessionType === undefined) {
+      return null;
+    }
+
+    if (body.sessionType !== 'one_on_one' && body.sessionType !== 'group') {
+      return 'sessionType must be either one_on_one or group';
+    }
+
+    if (body.sessionType === 'group') {
+      const maxSeats = Number(body.maxSeats);
+      if (!Number.isInteger(maxSeats) || maxSeats < MIN_GROUP_SEATS || maxSeats > MAX_GROUP_SEATS) {
+        return `maxSeats must be a whole number between ${MIN_GROUP_SEATS} and ${MAX_GROUP_SEATS}`;
+      }
+
+      const seatPrice = Number(body.seatPrice);
+      if (body.seatPrice === undefined || isNaN(seatPrice) || seatPrice < 0) {
+        return 'seatPrice must be zero or more';
+      }
+    }
+
+    return null;
+  }
+
+  // Schedule a group session for a group service; the mentor's calendar must be free
+  static async scheduleSession(params: ScheduleGroupSessionParams): Promise<{
+    success: boolean;
+    groupSession?: IGroupSession;
+    reason?: string;
+    error?: string;
+  }> {
+    const { service, mentor, scheduledAtUTC } = params;
+
+    if (service.sessionType !== 'group' || !service.maxSeats) {
+      return { success: false, error: 'Group sessions can only be scheduled for group services' };
+    }
+
+    const check = await AvailabilityService.checkSlot(mentor, scheduledAtUTC, AvailabilityService.getSlotRules(service));
+    if (!check.available) {
+      return { success: false, reason: check.reason, error: check.error };
+    }
+
+    // Hold the mentor's time so a concurrent 1:1 checkout for the same slot can't also pass its check
+    const groupSessionId = new mongoose.Types.ObjectId();
+    const hold = await SlotHoldService.acquireHolds({
+      mentorId: mentor._id as mongoose.Types.ObjectId,
+      studentId: mentor._id as mongoose.Types.ObjectId,
+      bookingId: groupSessionId,
+      startUTC: scheduledAtUTC,
+      duration: service.duration,
+      bufferBefore: service.bufferBefore,
+      bufferAfter: service.bufferAfter
+    });
+    if (!hold.success) {
+      return { success: false, reason: 'conflict', error: hold.error };
+    }
+
+    let groupSession: IGroupSession;
+    try {
+      groupSession = await GroupSession.create({
+        _id: groupSessionId,
+        serviceId: service._id,
+        mentorId: mentor._id,
+        title: params.title || service.title,
+        description: params.description,
+        scheduledAt: scheduledAtUTC,
+        scheduledAtUTC,
+        mentorTimezone: AvailabilityService.resolveTimezone(mentor.timezone),
+        duration: service.duration,
+        maxSeats: service.maxSeats,
+        seatPrice: service.seatPrice || 0
+      });
+    } catch (createError) {
+      await SlotHoldService.releaseHolds(groupSessionId);
+      throw createError;
+    }
+
+    // The scheduled group session now guards the slot
+    await SlotHoldService.convertHolds(groupSessionId);
+
+    return { success: true, groupSession };
+  }
+
+  // Check whether a student holds an active seat
+  static hasActiveSeat(groupSession: IGroupSession, studentId: string): boolean {
+    return groupSession.attendees.some(attendee =>
+      attendee.status === 'active' && attendee.studentId.toString() === studentId.toString()
+    );
+  }
+
+  // Claim a seat atomically; fails when the session is full or the student already holds a seat
+  static async claimSeat(
+    groupSessionId: string | mongoose.Types.ObjectId,
+    studentId: string | mongoose.Types.ObjectId,
+    bookingId: mongoose.Types.ObjectId,
+    promotedFromWaitlist: boolean = false
+  ): Promise<IGroupSession | null> {
+    return GroupSession.findOneAndUpdate(
+      {
+        _id: groupSessionId,
+        status: 'scheduled',
+        $expr: { $lt: ['$seatsTaken', '$maxSeats'] },
+        attendees: { $not: { $elemMatch: { studentId, status: 'active' } } }
+      },
+      {
+        $inc: { seatsTaken: 1 },
+        $push: { attendees: { studentId, bookingId, status: 'active', joinedAt: new Date(), promotedFromWaitlist } },
+        $pull: { waitlist: { studentId } }
+      },
+      { new: true }
+    );
+  }
+
+  // Build the seat booking that carries one attendee's payment, refund and payout
+  static async buildSeatBooking(
+    groupSession: IGroupSession,
+    studentId: string | mongoose.Types.ObjectId,
+    studentTimezone: string,
+    paymentMethod: 'stripe' | 'tokens',
+    notes?: string
+  ): Promise<IBooking> {
+    const mentor = await User.findById(groupSession.mentorId).select('minimumCancellationHours cancellationPolicy');
+    if (!mentor) {
+      throw new Error('Group session mentor not found');
+    }
+
+    // Seats are priced in the service's currency
+    const service = await Service.findById(groupSession.serviceId).select('currency');
+    const { amount, price } = await CurrencyService.toSettlement(groupSession.seatPrice, service?.currency);
+
+    return new Booking({
+      serviceId: groupSession.serviceId,
+      mentorId: groupSession.mentorId,
+      studentId,
+      groupSessionId: groupSession._id,
+      scheduledAt: groupSession.scheduledAt,
+      scheduledAtUTC: groupSession.scheduledAtUTC,
+      mentorTimezone: groupSession.mentorTimezone,
+      studentTimezone: AvailabilityService.resolveTimezone(studentTimezone),
+      duration: groupSession.duration,
+      amount,
+      price,
+      paymentMethod,
+      notes,
+      cancellationPolicy: CancellationPolicyService.buildSnapshot(mentor)
+    });
+  }
+
+  // Book a seat; the returned booking is paid through the normal booking payment flows
+  static async bookSeat(
+    groupSession: IGroupSession,
+    studentId: string,
+    studentTimezone: string,
+    paymentMethod: 'stripe' | 'tokens',
+    notes?: string
+  ): Promise<{ success: boolean; booking?: IBooking; full?: boolean; error?: string }> {
+    if (groupSession.scheduledAtUTC <= new Date()) {
+      return { success: false, error: 'This group session has already started' };
+    }
+
+    const booking = await this.buildSeatBooking(groupSession, studentId, studentTimezone, paymentMethod, notes);
+
+    const claimed = await this.claimSeat(groupSession._id as mongoose.Types.ObjectId, studentId, booking._id as mongoose.Types.ObjectId);
+    if (!claimed) {
+      const current = await GroupSession.findById(groupSession._id).select('status seatsTaken maxSeats attendees');
+      if (current && this.hasActiveSeat(current, studentId)) {
+        return { success: false, error: 'You already have a seat in this group session' };
+      }
+      if (current && current.status !== 'scheduled') {
+        return { success: false, error: 'This group session is no longer open for booking' };
+      }
+      return { success: false, full: true, error: 'This group session is full' };
+    }
+
+    try {
+      await booking.save();
+    } catch (saveError) {
+      await this.vacateSeat(booking);
+      throw saveError;
+    }
+
+    return { success: true, booking };
+  }
+
+  // Add a student to the waitlist of a full session
+  static async joinWaitlist(
+    groupSession: IGroupSession,
+    studentId: string,
+    studentTimezone: string
+  ): Promise<{ success: boolean; position?: number; error?: string }> {
+    if (this.hasActiveSeat(groupSession, studentId)) {
+      return { success: false, error: 'You already have a seat in this group session' };
+    }
+
+    const updated = await GroupSession.findOneAndUpdate(
+      {
+        _id: groupSession._id,
+        status: 'scheduled',
+        scheduledAtUTC: { $gt: new Date() },
+        $expr: { $gte: ['$seatsTaken', '$maxSeats'] },
+        'waitlist.studentId': { $ne: studentId }
+      },
+      {
+        $push: {
+          waitlist: {
+            studentId,
+            studentTimezone: AvailabilityService.resolveTimezone(studentTimezone),
+            joinedAt: new Date()
+          }
+        }
+      },
+      { new: true }
+    );
+
+    if (!updated) {
+      const current = await GroupSession.findById(groupSession._id).select('seatsTaken maxSeats waitlist');
+      if (current?.waitlist.some(entry => entry.studentId.toString() === studentId)) {
+        return { success: false, error: 'You are already on the waitlist' };
+      }
+      if (current && current.seatsTaken < current.maxSeats) {
+        return { success: false, error: 'Seats are still available; book one directly' };
+      }
+      return { success: false, error: 'This group session is no longer open for booking' };
+    }
+
+    return {
+      success: true,
+      position: updated.waitlist.findIndex(entry => entry.studentId.toString() === studentId) + 1
+    };
+  }
+
+  // Remove a student from the waitlist
+  static async leaveWaitlist(groupSessionId: string, studentId: string): Promise<boolean> {
+    const result = await GroupSession.updateOne(
+      { _id: groupSessionId, 'waitlist.studentId': studentId },
+      { $pull: { waitlist: { studentId } } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  // Mark a seat booking's attendee as cancelled and free the seat; returns false if it was already free
+  private static async vacateSeat(booking: IBooking): Promise<boolean> {
+    const result = await GroupSession.updateOne(
+      {
+        _id: booking.groupSessionId,
+        attendees: { $elemMatch: { bookingId: booking._id, status: 'active' } }
+      },
+      {
+        $set: { 'attendees.$.status': 'cancelled', 'attendees.$.cancelledAt': new Date() },
+        $inc: { seatsTaken: -1 }
+      }
+    );
+
+    if (result.modifiedCount === 0) {
+      return false;
+    }
+
+    await VideoCall.updateOne(
+      { groupSessionId: booking.groupSessionId },
+      { $pull: { attendeeIds: booking.studentId } }
+    );
+
+    return true;
+  }
+
+  // Release a cancelled seat booking's seat and offer it to the next student on the waitlist
+  static async releaseSeat(booking: IBooking): Promise<void> {
+    if (!booking.groupSessionId) {
+      return;
+    }
+
+    const released = await this.vacateSeat(booking);
+    if (released) {
+      await this.promoteFromWaitlist(booking.groupSessionId);
+    }
+  }
+
+  // Hold a freed seat for the first waitlisted student; unpaid holds are auto-cancelled, which promotes the next
+  static async promoteFromWaitlist(groupSessionId: string | mongoose.Types.ObjectId): Promise<IBooking | null> {
+    while (true) {
+      const groupSession = await GroupSession.findById(groupSessionId);
+      if (
+        !groupSession ||
+        groupSession.status !== 'scheduled' ||
+        groupSession.scheduledAtUTC <= new Date() ||
+        groupSession.seatsTaken >= groupSession.maxSeats ||
+        groupSession.waitlist.length === 0
+      ) {
+        return null;
+      }
+
+      const entry = groupSession.waitlist[0];
+
+      // Take the entry off the front of the waitlist; if someone else already did, look again
+      const dequeued = await GroupSession.updateOne(
+        { _id: groupSession._id, 'waitlist.0.studentId': entry.studentId },
+        { $pop: { waitlist: -1 } }
+      );
+      if (dequeued.modifiedCount === 0) {
+        continue;
+      }
+
+      const booking = await this.buildSeatBooking(groupSession, entry.studentId, entry.studentTimezone, 'stripe');
+      const claimed = await this.claimSeat(groupSession._id as mongoose.Types.ObjectId, entry.studentId, booking._id as mongoose.Types.ObjectId, true);
+      if (!claimed) {
+        // The seat went to someone else, or the student already holds one
+        continue;
+      }
+
+      try {
+        await booking.save();
+      } catch (saveError) {
+        await this.vacateSeat(booking);
+        throw saveError;
+      }
+
+      try {
+        await bookingNotificationService.sendWaitlistPromotionNotification({
+          bookingId: booking._id.toString(),
+          menteeId: entry.studentId.toString(),
+          mentorId: groupSession.mentorId.toString(),
+          serviceId: groupSession.serviceId.toString(),
+          bookingDate: groupSession.scheduledAtUTC,
+          groupSessionId: groupSession._id.toString(),
+          sessionTitle: groupSession.title,
+          paymentDeadline: new Date(Date.now() + SLOT_HOLD_TTL_MINUTES * 60000)
+        });
+      } catch (notificationError) {
+        // Don't fail the promotion if notifications fail
+      }
+
+      return booking;
+    }
+  }
+
+  // Cancel a whole group session, refunding every paid attendee in full
+  static async cancelSession(groupSession: IGroupSession, reason: string): Promise<SeatCancellation[]> {
+    groupSession.status = 'cancelled';
+    groupSession.cancelledAt = new Date();
+    groupSession.cancellationReason = reason;
+    groupSession.waitlist = [];
+    await groupSession.save();
+
+    const bookings = await Booking.find({
+      groupSessionId: groupSession._id,
+      status: { $in: ['pending', 'confirmed'] }
+    });
+
+    const cancellations: SeatCancellation[] = [];
+    for (const booking of bookings) {
+      const wasPaid = booking.paymentStatus === 'paid';
+      booking.status = 'cancelled';
+      booking.notes = booking.notes
+        ? `${booking.notes}\n\nGroup session cancelled by mentor. Reason: ${reason}`
+        : `Group session cancelled by mentor. Reason: ${reason}`;
+      await booking.save();
+      await this.vacateSeat(booking);
+
+      let refund = null;
+      if (wasPaid) {
+        refund = await RefundService.processRefund({
+          bookingId: booking._id.toString(),
+          refundType: 'payment_method',
+          reason,
+          cancelledBy: 'mentor'
+        });
+      }
+
+      try {
+        await bookingNotificationService.sendBookingCancellationNotification(
+          {
+            bookingId: booking._id.toString(),
+            menteeId: booking.studentId.toString(),
+            mentorId: booking.mentorId.toString(),
+            serviceId: booking.serviceId.toString(),
+            bookingDate: booking.scheduledAtUTC,
+            reason,
+            refund: refund || undefined
+          },
+          'mentor'
+        );
+        await bookingNotificationService.cancelScheduledReminders(booking._id.toString());
+      } catch (notificationError) {
+        // Don't fail the cancellation if notifications fail
+      }
+
+      cancellations.push({
+        bookingId: booking._id.toString(),
+        studentId: booking.studentId.toString(),
+        refund
+      });
+    }
+
+    await VideoCall.updateOne({ groupSessionId: groupSession._id }, { status: 'cancelled' });
+
+    return cancellations;
+  }
+
+  // Mark a finished group session and its paid seats completed so each seat enters the payout queue
+  static async completeSession(groupSessionId: string | mongoose.Types.ObjectId): Promise<number> {
+    await GroupSession.updateOne({ _id: groupSessionId, status: 'scheduled' }, { status: 'completed' });
+
+    const seats = await Booking.find({ groupSessionId, status: 'confirmed', paymentStatus: 'paid' });
+    for (const seat of seats.filter(seat => EscrowService.canTransition(seat, 'held'))) {
+      await EscrowService.transition(seat, 'held', { event: 'session_completed' });
+    }
+
+    const result = await Booking.updateMany(
+      { groupSessionId, status: 'confirmed', paymentStatus: 'paid' },
+      { status: 'completed' }
+    );
+    return result.modifiedCount;
+  }
+}
@@ -0,0 +1,104 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { LedgerService, InsufficientBalanceError } from './ledgerService';
+import { LedgerEntry } from '../models/LedgerEntry';
+import { TokenTransaction } from '../models/TokenTransaction';
+import { User } from '../models/User';
+
+// Queries that are awaited after .session(...)
+const withSession = <T>(value: T) => ({ session: jest.fn().mockResolvedValue(value) }) as any;
+
+describe('LedgerService.postEntry', () => {
+  const session = {} as ClientSession;
+  const userId = new mongoose.Types.ObjectId();
+
+  const debitWallet = {
+    idempotencyKey: 'cold_message_1',
+    type: 'cold_message' as const,
+    description: 'Cold message',
+    lines: [
+      { account: 'user_wallet' as const, userId, direction: 'debit' as const, amount: 5 },
+      { account: 'platform_escrow' as const, direction: 'credit' as const, amount: 5 }
+    ]
+  };
+
+  it('rejects entries whose debits and credits differ', async () => {
+    await expect(LedgerService.postEntry({
+      ...debitWallet,
+      lines: [
+        { account: 'stripe_clearing', direction: 'debit', amount: 10 },
+        { account: 'platform_commission', direction: 'credit', amount: 9.99 }
+      ]
+    }, session)).rejects.toThrow('Ledger entry does not balance');
+  });
+
+  it('rejects wallet lines without a user', async () => {
+    await expect(LedgerService.postEntry({
+      ...debitWallet,
+      lines: [
+        { account: 'user_wallet', direction: 'debit', amount: 5 },
+        { account: 'platform_escrow', direction: 'credit', amount: 5 }
+      ]
+    }, session)).rejects.toThrow('Wallet lines, and only wallet lines, must name a user');
+  });
+
+  it('balances amounts to the cent', async () => {
+    jest.spyOn(LedgerEntry, 'findOne').mockReturnValue(withSession(null));
+    const create = jest.spyOn(LedgerEntry, 'create').mockResolvedValue([{ _id: new mongoose.Types.ObjectId() }] as any);
+
+    await LedgerService.postEntry({
+      idempotencyKey: 'booking_payout_1',
+      type: 'booking_payout',
+      description: 'Payout',
+      lines: [
+        { account: 'platform_escrow', direction: 'debit', amount: 0.3 },
+        { account: 'platform_commission', direction: 'credit', amount: 0.1 },
+        { account: 'stripe_clearing', direction: 'credit', amount: 0.2 }
+      ]
+    }, session);
+
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  it('records a posted key once and reports the repeat as a duplicate', async () => {
+    const existing = { _id: new mongoose.Types.ObjectId(), idempotencyKey: debitWallet.idempotencyKey };
+    jest.spyOn(LedgerEntry, 'findOne').mockReturnValue(withSession(existing));
+    const create = jest.spyOn(LedgerEntry, 'create');
+    const updateBalance = jest.spyOn(User, 'findOneAndUpdate');
+
+    const result = await LedgerService.postEntry(debitWallet, session);
+
+    expect(result).toEqual({ entry: existing, duplicate: true, transactionIds: [] });
+    expect(create).not.toHaveBeenCalled();
+    expect(updateBalance).not.toHaveBeenCalled();
+  });
+
+  it('only debits a wallet whose balance covers the amount', async () => {
+    const entryId = new mongoose.Types.ObjectId();
+    const transactionId = new mongoose.Types.ObjectId();
+    jest.spyOn(LedgerEntry, 'findOne').mockReturnValue(withSession(null));
+    jest.spyOn(LedgerEntry, 'create').mockResolvedValue([{ _id: entryId }] as any);
+    const updateBalance = jest.spyOn(User, 'findOneAndUpdate').mockResolvedValue({ _id: userId } as any);
+    const createTransaction = jest.spyOn(TokenTransaction, 'create').mockResolvedValue([{ _id: transactionId }] as any);
+
+    const result = await LedgerService.postEntry(debitWallet, session);
+
+    expect(updateBalance).toHaveBeenCalledWith(
+      { _id: userId, mentraBalance: { $gte: 5 } },
+      { $inc: { mentraBalance: -5 } },
+      { session }
+    );
+    expect(createTransaction).toHaveBeenCalledWith([expect.objectContaining({ type: 'debit', amount: 5, ledgerEntryId: entryId })], { session });
+    expect(result).toEqual({ entry: { _id: entryId }, duplicate: false, transactionIds: [transactionId.toString()] });
+  });
+
+  it('fails the entry when the wallet balance is too low', async () => {
+    jest.spyOn(LedgerEntry, 'findOne').mockReturnValue(withSession(null));
+    jest.spyOn(LedgerEntry, 'create').mockResolvedValue([{ _id: new mongoose.Types.ObjectId() }] as any);
+    jest.spyOn(User, 'findOneAndUpdate').mockResolvedValue(null);
+    jest.spyOn(User, 'exists').mockReturnValue(withSession({ _id: userId }));
+    const createTransaction = jest.spyOn(TokenTransaction, 'create');
+
+    await expect(LedgerService.postEntry(debitWallet, session)).rejects.toBeInstanceOf(InsufficientBalanceError);
+    expect(createTransaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,303 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { ILedgerEntry, LedgerAccount, LedgerEntry, LedgerEntryType } from '../models/LedgerEntry';
+import { TokenTransaction } from '../models/TokenTransaction';
+import { User } from '../models/User';
+
+export interface LedgerLineInput {
+  account: LedgerAccount;
+  userId?: string | mongoose.Types.ObjectId;
+  direction: 'debit' | 'credit';
+  amount: number;
+}
+
+export interface LedgerPosting {
+  idempotencyKey: string; // Posting the same key twice records the movement once
+  type: LedgerEntryType;
+  description: string;
+  reference?: string; // Also used as the reference of the wallet's TokenTransaction
+  lines: LedgerLineInput[];
+  walletTransactionType?: 'credit' | 'refund'; // TokenTransaction type for wallet credits
+  walletTransactionSubType?: 'purchase' | 'bonus';
+}
+
+export interface LedgerTransfer {
+  idempotencyKey: string;
+  type: LedgerEntryType;
+  description: string;
+  reference?: string;
+  from: { account: LedgerAccount; userId?: string | mongoose.Types.ObjectId };
+  to: { account: LedgerAccount; userId?: string | mongoose.Types.ObjectId };
+  amount: number;
+  walletTransactionType?: 'credit' | 'refund';
+  walletTransactionSubType?: 'purchase' | 'bonus';
+}
+
+export interface LedgerPostResult {
+  entry: ILedgerEntry;
+  duplicate: boolean; // True when the key had already been posted
+  transactionIds: string[]; // TokenTransactions written for wallet lines
+}
+
+export interface BalanceMismatch {
+  userId: string;
+  cachedBalance: number;
+  ledgerBalance: number;
+  difference: number;
+}
+
+export class InsufficientBalanceError extends Error {
+  constructor() {
+    super('Insufficient token balance');
+    this.name = 'InsufficientBalanceError';
+  }
+}
+
+// Mongo error code for a duplicate unique key
+const DUPLICATE_KEY_ERROR = 11000;
+
+export class LedgerService {
+  // Post a balanced journal entry and update the cached wallet balances it touches.
+  // Runs inside the caller's session when one is given, otherwise in its own transaction.
+  static async postEntry(posting: LedgerPosting, session?: ClientSession): Promise<LedgerPostResult> {
+    const lines = this.validateLines(posting.lines);
+
+    if (!session) {
+      const ownSession = await mongoose.startSession();
+      try {
+        let result: LedgerPostResult | undefined;
+        await ownSession.withTransaction(async () => {
+          result = await this.postEntry(posting, ownSession);
+        });
+        return result as LedgerPostResult;
+      } catch (error: any) {
+        if (error?.code === DUPLICATE_KEY_ERROR) {
+          return this.getDuplicate(posting.idempotencyKey);
+        }
+        throw error;
+      } finally {
+        await ownSession.endSession();
+      }
+    }
+
+    const existing = await LedgerEntry.findOne({ idempotencyKey: posting.idempotencyKey }).session(session);
+    if (existing) {
+      return { entry: existing, duplicate: true, transactionIds: [] };
+    }
+
+    const [entry] = await LedgerEntry.create([{
+      idempotencyKey: posting.idempotencyKey,
+      type: posting.type,
+      description: posting.description,
+      reference: posting.reference,
+      lines
+    }], { session });
+
+    const transactionIds: string[] = [];
+    for (const line of lines.filter(line => line.account === 'user_wallet')) {
+      const delta = line.direction === 'credit' ? line.amount : -line.amount;
+
+      // Debits only go through while the cached balance covers them
+      const updated = await User.findOneAndUpdate(
+        delta < 0 ? { _id: line.userId, mentraBalance: { $gte: line.amount } } : { _id: line.userId },
+        { $inc: { mentraBalance: delta } },
+        { session }
+      );
+      if (!updated) {
+        if (delta < 0 && await User.exists({ _id: line.userId }).session(session)) {
+          throw new InsufficientBalanceError();
+        }
+        throw new Error('Wallet owner not found');
+      }
+
+      const [transaction] = await TokenTransaction.create([{
+        userId: line.userId,
+        type: delta < 0 ? 'debit' : posting.walletTransactionType || 'credit',
+        subType: delta < 0 ? undefined : posting.walletTransactionSubType,
+        amount: line.amount,
+        description: posting.description,
+        reference: posting.reference || posting.idempotencyKey,
+        ledgerEntryId: entry._id
+      }], { session });
+      transactionIds.push(transaction._id.toString());
+    }
+
+    return { entry, duplicate: false, transactionIds };
+  }
+
+  // Move an amount from one account to another
+  static async transfer(transfer: LedgerTransfer, session?: ClientSession): Promise<LedgerPostResult> {
+    return this.postEntry({
+      idempotencyKey: transfer.idempotencyKey,
+      type: transfer.type,
+      description: transfer.description,
+      reference: transfer.reference,
+      walletTransactionType: transfer.walletTransactionType,
+      walletTransactionSubType: transfer.walletTransactionSubType,
+      lines: [
+        { ...transfer.from, direction: 'debit', amount: transfer.amount },
+        { ...transfer.to, direction: 'credit', amount: transfer.amount }
+      ]
+    }, session);
+  }
+
+  // Reject entries that don't balance or carry bad lines
+  private static validateLines(lines: LedgerLineInput[]) {
+    if (lines.length < 2) {
+      throw new Error('A ledger entry needs at least two lines');
+    }
+
+    let debits = 0;
+    let credits = 0;
+    const normalized = lines.map(line => {
+      const amount = this.toCents(line.amount) / 100;
+      if (!(amount > 0)) {
+        throw new Error('Ledger line amounts must be positive');
+      }
+      if ((line.account === 'user_wallet') !== !!line.userId) {
+        throw new Error('Wallet lines, and only wallet lines, must name a user');
+      }
+
+      if (line.direction === 'debit') {
+        debits += this.toCents(amount);
+      } else {
+        credits += this.toCents(amount);
+      }
+
+      return {
+        account: line.account,
+        userId: line.userId ? new mongoose.Types.ObjectId(line.userId.toString()) : undefined,
+        direction: line.direction,
+        amount
+      };
+    });
+
+    if (debits !== credits) {
+      throw new Error('Ledger entry does not balance');
+    }
+
+    return normalized;
+  }
+
+  private static async getDuplicate(idempotencyKey: string): Promise<LedgerPostResult> {
+    const entry = await LedgerEntry.findOne({ idempotencyKey });
+    if (!entry) {
+      throw new Error(`Ledger entry ${idempotencyKey} not found after duplicate key error`);
+    }
+    return { entry, duplicate: true, transactionIds: [] };
+  }
+
+  // Balance of an account as credits minus debits
+  static async getAccountBalance(account: LedgerAccount, userId?: string | mongoose.Types.ObjectId): Promise<number> {
+    const match: any = { 'lines.account': account };
+    if (userId) {
+      match['lines.userId'] = new mongoose.Types.ObjectId(userId.toString());
+    }
+
+    const [result] = await LedgerEntry.aggregate([
+      { $match: match },
+      { $unwind: '$lines' },
+      { $match: match },
+      {
+        $group: {
+          _id: null,
+          balance: { $sum: { $cond: [{ $eq: ['$lines.direction', 'credit'] }, '$lines.amount', { $multiply: ['$lines.amount', -1] }] } }
+        }
+      }
+    ]);
+
+    return Math.round((result?.balance || 0) * 100) / 100;
+  }
+
+  // Compare every cached wallet balance with its ledger sum, and check every entry balances
+  static async reconcile(): Promise<{
+    checkedUsers: number;
+    mismatches: BalanceMismatch[];
+    unbalancedEntries: string[];
+    platformAccounts: Record<string, number>;
+  }> {
+    const walletSums = await LedgerEntry.aggregate([
+      { $unwind: '$lines' },
+      { $match: { 'lines.account': 'user_wallet' } },
+      {
+        $group: {
+          _id: '$lines.userId',
+          balance: { $sum: { $cond: [{ $eq: ['$lines.direction', 'credit'] }, '$lines.amount', { $multiply: ['$lines.amount', -1] }] } }
+        }
+      }
+    ]);
+    const ledgerBalances = new Map<string, number>(walletSums.map(sum => [sum._id.toString(), sum.balance]));
+
+    const users = await User.find({
+      $or: [{ mentraBalance: { $ne: 0 } }, { _id: { $in: walletSums.map(sum => sum._id) } }]
+    }).select('mentraBalance').lean();
+
+    const mismatches: BalanceMismatch[] = [];
+    for (const user of users) {
+      const userId = user._id.toString();
+      const cachedBalance = user.mentraBalance || 0;
+      const ledgerBalance = ledgerBalances.get(userId) || 0;
+      if (this.toCents(cachedBalance) !== this.toCents(ledgerBalance)) {
+        mismatches.push({
+          userId,
+          cachedBalance,
+          ledgerBalance: this.toCents(ledgerBalance) / 100,
+          difference: (this.toCents(cachedBalance) - this.toCents(ledgerBalance)) / 100
+        });
+      }
+    }
+
+    const unbalanced = await LedgerEntry.aggregate([
+      { $unwind: '$lines' },
+      {
+        $group: {
+          _id: '$_id',
+          net: { $sum: { $cond: [{ $eq: ['$lines.direction', 'credit'] }, '$lines.amount', { $multiply: ['$lines.amount', -1] }] } }
+        }
+      },
+      { $match: { $or: [{ net: { $gt: 0.005 } }, { net: { $lt: -0.005 } }] } }
+    ]);
+
+    const platformAccounts: Record<string, number> = {};
+    for (const account of ['stripe_clearing', 'platform_escrow', 'platform_commission', 'referral_payable', 'promotions', 'gift_cards', 'opening_balances'] as LedgerAccount[]) {
+      platformAccounts[account] = await this.getAccountBalance(account);
+    }
+
+    return {
+      checkedUsers: users.length,
+      mismatches,
+      unbalancedEntries: unbalanced.map(entry => entry._id.toString()),
+      platformAccounts
+    };
+  }
+
+  // Record balances that predate the ledger so cached balances and ledger sums agree
+  static async recordOpeningBalances(): Promise<{ recorded: number }> {
+    const walletUserIds = await LedgerEntry.distinct('lines.userId', { 'lines.account': 'user_wallet' });
+    const users = await User.find({ mentraBalance: { $gt: 0 }, _id: { $nin: walletUserIds } }).select('mentraBalance');
+
+    let recorded = 0;
+    for (const user of users) {
+      const userId = user._id.toString();
+      await LedgerEntry.create({
+        idempotencyKey: `opening_balance_${userId}`,
+        type: 'opening_balance',
+        description: 'Balance carried over from before the token ledger',
+        reference: userId,
+        lines: [
+          { account: 'opening_balances', direction: 'debit', amount: user.mentraBalance },
+          { account: 'user_wallet', userId: user._id, direction: 'credit', amount: user.mentraBalance }
+        ]
+      }).then(() => { recorded++; }, (error: any) => {
+        if (error?.code !== DUPLICATE_KEY_ERROR) {
+          throw error;
+        }
+      });
+    }
+
+    return { recorded };
+  }
+
+  private static toCents(amount: number): number {
+    return Math.round(amount * 100);
+  }
+}
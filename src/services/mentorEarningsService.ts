@@ -1,5 +1,6 @@
 import { User, IUserDocument } from '../models/User';
-import { CommissionService } from './commissionService';
+import { CommissionService, CommissionDiscount } from './commissionService';
+import { CurrencyService, CurrencyAmount } from './currencyService';
 
 export interface EarningsUpdate {
   amount: number;
@@ -7,6 +8,8 @@ export interface EarningsUpdate {
   description: string;
   bookingId?: string;
   messageId?: string;
+  discount?: CommissionDiscount; // Coupon discount on a session's amount
+  price?: CurrencyAmount; // The session's price in the service's currency; amount is in the settlement currency
 }
 
 export class MentorEarningsService {
@@ -39,8 +42,8 @@ export class MentorEarningsService {
 
       // Calculate current tier and commission
       const currentTier = CommissionService.calculateTier(mentor);
-      const commissionAmount = CommissionService.calculateCommission(earningsUpdate.amount, currentTier);
-      const mentorPayout = CommissionService.calculateMentorPayout(earningsUpdate.amount, currentTier);
+      const commissionAmount = CommissionService.calculateCommission(earningsUpdate.amount, currentTier, earningsUpdate.discount);
+      const mentorPayout = CommissionService.calculateMentorPayout(earningsUpdate.amount, currentTier, earningsUpdate.discount);
 
       // Update earnings based on type
       if (earningsUpdate.type === 'session') {
@@ -65,6 +68,7 @@ export class MentorEarningsService {
 
       // Update monthly earnings
       await this.updateMonthlyEarnings(mentor, earningsUpdate, mentorPayout);
+      this.updateCurrencyEarnings(mentor, earningsUpdate, mentorPayout);
 
       await mentor.save();
 
@@ -124,6 +128,34 @@ export class MentorEarningsService {
     monthlyEntry.totalEarnings = monthlyEntry.sessionEarnings + monthlyEntry.messageEarnings;
   }
 
+  /**
+   * Record the payout in the currency the session was priced in, at the rate it was booked at
+   */
+  private static updateCurrencyEarnings(mentor: any, earningsUpdate: EarningsUpdate, mentorPayout: number): void {
+    const currency = CurrencyService.normalize(earningsUpdate.price?.currency);
+    const payout = Math.round(CurrencyService.fromSettlement(mentorPayout, earningsUpdate.price && {
+      currency,
+      fxRate: earningsUpdate.price.fxRate
+    }) * 100) / 100;
+
+    if (!mentor.mentorEarnings.earningsByCurrency) {
+      mentor.mentorEarnings.earningsByCurrency = [];
+    }
+
+    let entry = mentor.mentorEarnings.earningsByCurrency.find((item: any) => item.currency === currency);
+    if (!entry) {
+      mentor.mentorEarnings.earningsByCurrency.push({ currency, sessionEarnings: 0, messageEarnings: 0, totalEarnings: 0 });
+      entry = mentor.mentorEarnings.earningsByCurrency[mentor.mentorEarnings.earningsByCurrency.length - 1];
+    }
+
+    if (earningsUpdate.type === 'session') {
+      entry.sessionEarnings += payout;
+    } else if (earningsUpdate.type === 'message') {
+      entry.messageEarnings += payout;
+    }
+    entry.totalEarnings = entry.sessionEarnings + entry.messageEarnings;
+  }
+
   /**
    * Get mentor earnings summary
    */
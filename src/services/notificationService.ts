@@ -1,7 +1,10 @@
 import { Notification, INotification } from '../models/Notification';
 import { NotificationPreferences, INotificationPreferences } from '../models/NotificationPreferences';
 import { User } from '../models/User';
-import emailService from './emailService';
+import { Receipt } from '../models/Receipt';
+import emailService, { EmailAttachment } from './emailService';
+import { CalendarService } from './calendarService';
+import { ReceiptService } from './receiptService';
 import { NotificationPreferencesService } from './notificationPreferencesService';
 import mongoose from 'mongoose';
 
@@ -279,6 +282,10 @@ class NotificationService {
   private async sendEmailNotification(notification: INotification, user: any): Promise<void> {
     try {
       let emailSent = false;
+      const attachments = [
+        ...await this.getCalendarAttachments(notification, user),
+        ...await this.getReceiptAttachments(notification, user)
+      ];
       
       // Send appropriate email based on category
       switch (notification.category) {
@@ -293,7 +300,9 @@ class NotificationService {
               sessionType: notification.data?.serviceTitle || 'Service',
               meetingLink: notification.data?.meetingLink || '#'
             },
-            'confirmation'
+            notification.data?.calendarInvite?.method === 'CANCEL' ? 'cancellation' : 'confirmation',
+            undefined,
+            attachments
           );
           break;
         case 'payout':
@@ -326,7 +335,9 @@ class NotificationService {
           emailSent = await emailService.sendGenericEmail(
             user.email,
             notification.title,
-            notification.message
+            notification.message,
+            undefined,
+            attachments
           );
       }
 
@@ -340,6 +351,55 @@ class NotificationService {
     }
   }
 
+  // Build the .ics attachment for notifications that carry a calendarInvite marker
+  private async getCalendarAttachments(notification: INotification, user: any): Promise<EmailAttachment[]> {
+    const invite = notification.data?.calendarInvite;
+    if (!invite?.bookingId || !user?._id) {
+      return [];
+    }
+
+    try {
+      const method = invite.method || 'REQUEST';
+      const ics = await CalendarService.buildBookingInvite(invite.bookingId, user._id.toString(), method);
+      if (!ics) {
+        return [];
+      }
+
+      return [{
+        filename: method === 'CANCEL' ? 'cancellation.ics' : 'invite.ics',
+        content: ics,
+        contentType: `text/calendar; charset=utf-8; method=${method}`
+      }];
+    } catch (error) {
+      // Send the email without the invite rather than failing it
+      return [];
+    }
+  }
+
+  // Attach the receipt PDF for notifications that carry a receiptId
+  private async getReceiptAttachments(notification: INotification, user: any): Promise<EmailAttachment[]> {
+    const receiptId = notification.data?.receiptId;
+    if (!receiptId || !user?._id) {
+      return [];
+    }
+
+    try {
+      const receipt = await Receipt.findOne({ _id: receiptId, userId: user._id });
+      if (!receipt) {
+        return [];
+      }
+
+      return [{
+        filename: ReceiptService.getFilename(receipt),
+        content: ReceiptService.toPDF(receipt),
+        contentType: 'application/pdf'
+      }];
+    } catch (error) {
+      // Send the email without the receipt; it can still be downloaded
+      return [];
+    }
+  }
+
   // Send push notification (placeholder for future implementation)
   private async sendPushNotification(notification: INotification, user: any): Promise<void> {
     // TODO: Implement push notification service (Firebase, OneSignal, etc.)
@@ -0,0 +1,442 @@
+import mongoose from 'mongoose';
+import { PackagePurchase, IPackagePurchase } from '../models/PackagePurchase';
+import { IServiceDocument, IServicePackage } from '../models/Service';
+import { IBooking } from '../models/Booking';
+import { User } from '../models/User';
+import { CommissionService } from './commissionService';
+import { LedgerService } from './ledgerService';
+import { StripeService } from './stripeService';
+import { CurrencyService } from './currencyService';
+import { notificationService } from './notificationService';
+import { TokenTopUpService } from './tokenTopUpService';
+
+export const MAX_PACKAGE_DISCOUNT_PERCENT = 90;
+
+export interface PackageOfferInput {
+  title?: string;
+  sessionCount?: number;
+  price?: number;
+  discountPercent?: number;
+  validityDays?: number;
+  isActive?: boolean;
+}
+
+export class PackageService {
+  // Price of booking a package's sessions one by one
+  static getListPrice(service: IServiceDocument, sessionCount: number): number {
+    return Math.round(((service.hourlyRate * service.duration) / 60) * sessionCount * 100) / 100;
+  }
+
+  // Resolve a package offer's price and discount from whichever one the mentor supplied
+  static priceOffer(
+    service: IServiceDocument,
+    input: { sessionCount: number; price?: number; discountPercent?: number }
+  ): { price: number; discountPercent: number; error?: string } {
+    const listPrice = this.getListPrice(service, input.sessionCount);
+
+    if (input.price !== undefined) {
+      if (input.price < 0 || input.price > listPrice) {
+        return { price: 0, discountPercent: 0, error: `Package price must be between 0 and ${listPrice} (the price of ${input.sessionCount} individual sessions)` };
+      }
+      const discountPercent = listPrice > 0 ? Math.round((1 - input.price / listPrice) * 1000) / 10 : 0;
+      if (discountPercent > MAX_PACKAGE_DISCOUNT_PERCENT) {
+        return { price: 0, discountPercent: 0, error: `Package discount cannot exceed ${MAX_PACKAGE_DISCOUNT_PERCENT}%` };
+      }
+      return { price: input.price, discountPercent };
+    }
+
+    const discountPercent = input.discountPercent || 0;
+    if (discountPercent < 0 || discountPercent > MAX_PACKAGE_DISCOUNT_PERCENT) {
+      return { price: 0, discountPercent: 0, error: `Package discount must be between 0 and ${MAX_PACKAGE_DISCOUNT_PERCENT}%` };
+    }
+    return { price: Math.round(listPrice * (1 - discountPercent / 100) * 100) / 100, discountPercent };
+  }
+
+  // Validate offer input against the service and build the stored offer
+  static buildOffer(
+    service: IServiceDocument,
+    input: PackageOfferInput,
+    existing?: IServicePackage
+  ): { offer?: IServicePackage; error?: string } {
+    const title = input.title !== undefined ? String(input.title).trim() : existing?.title;
+    const sessionCount = input.sessionCount !== undefined ? Number(input.sessionCount) : existing?.sessionCount;
+    const validityDays = input.validityDays !== undefined ? Number(input.validityDays) : (existing?.validityDays || 180);
+
+    if (service.sessionType === 'group') {
+      return { error: 'Packages are not available for group services' };
+    }
+
+    if (!title) {
+      return { error: 'Package title is required' };
+    }
+
+    if (!sessionCount || !Number.isInteger(sessionCount) || sessionCount < 2 || sessionCount > 50) {
+      return { error: 'sessionCount must be a whole number between 2 and 50' };
+    }
+
+    if (!Number.isInteger(validityDays) || validityDays < 7 || validityDays > 730) {
+      return { error: 'validityDays must be a whole number between 7 and 730' };
+    }
+
+    // Re-price when the size or pricing changes; otherwise keep the stored price
+    const repricing = input.price !== undefined || input.discountPercent !== undefined || input.sessionCount !== undefined;
+    const pricing = repricing || !existing
+      ? this.priceOffer(service, {
+        sessionCount,
+        price: input.price !== undefined ? Number(input.price) : undefined,
+        discountPercent: input.discountPercent !== undefined ? Number(input.discountPercent) : existing?.discountPercent
+      })
+      : { price: existing.price, discountPercent: existing.discountPercent };
+
+    if (pricing.error) {
+      return { error: pricing.error };
+    }
+
+    return {
+      offer: {
+        title,
+        sessionCount,
+        price: pricing.price,
+        discountPercent: pricing.discountPercent,
+        validityDays,
+        isActive: input.isActive !== undefined ? Boolean(input.isActive) : (existing?.isActive ?? true)
+      }
+    };
+  }
+
+  // Create a pending purchase of a package offer; offers are priced in the service's currency
+  static async createPurchase(
+    service: IServiceDocument,
+    offer: IServicePackage,
+    studentId: string,
+    paymentMethod: 'stripe' | 'tokens'
+  ): Promise<IPackagePurchase> {
+    const { amount: pricePaid } = await CurrencyService.toSettlement(offer.price, service.currency);
+    const purchase = new PackagePurchase({
+      serviceId: service._id,
+      packageId: offer._id,
+      mentorId: service.mentorId,
+      studentId,
+      title: offer.title,
+      totalCredits: offer.sessionCount,
+      remainingCredits: offer.sessionCount,
+      pricePaid,
+      validityDays: offer.validityDays,
+      paymentMethod
+    });
+
+    await purchase.save();
+    return purchase;
+  }
+
+  // Create a Stripe payment intent for a pending purchase
+  static async createPaymentIntent(purchase: IPackagePurchase, customerEmail: string): Promise<{ clientSecret: string; paymentIntentId: string }> {
+    return StripeService.createPaymentIntent({
+      amount: Math.round(purchase.pricePaid * 100), // Convert to cents
+      currency: 'usd',
+      bookingId: `package_${purchase._id.toString()}`,
+      customerEmail,
+      description: `${purchase.title} (${purchase.totalCredits} sessions)`
+    });
+  }
+
+  // Activate a paid purchase and start its expiry clock; safe to call again from webhooks
+  static async activatePurchase(
+    purchaseId: string | mongoose.Types.ObjectId,
+    payment: { paymentMethod: 'stripe' | 'tokens'; stripePaymentIntentId?: string },
+    session?: mongoose.ClientSession
+  ): Promise<IPackagePurchase | null> {
+    const now = new Date();
+    const purchase = await PackagePurchase.findOne({ _id: purchaseId, status: 'pending' }).session(session || null);
+    if (!purchase) {
+      return null;
+    }
+
+    purchase.paymentStatus = 'paid';
+    purchase.paymentMethod = payment.paymentMethod;
+    purchase.stripePaymentIntentId = payment.stripePaymentIntentId;
+    purchase.status = 'active';
+    purchase.purchasedAt = now;
+    purchase.expiresAt = new Date(now.getTime() + purchase.validityDays * 24 * 60 * 60 * 1000);
+    await purchase.save({ session });
+
+    return purchase;
+  }
+
+  // Handle a succeeded Stripe payment intent whose metadata points at a package purchase
+  static async handlePaymentSucceeded(paymentIntent: any): Promise<void> {
+    const purchaseId = (paymentIntent.metadata?.bookingId as string).replace(/^package_/, '');
+    if (!mongoose.Types.ObjectId.isValid(purchaseId)) {
+      return;
+    }
+
+    const purchase = await this.activatePurchase(purchaseId, {
+      paymentMethod: 'stripe',
+      stripePaymentIntentId: paymentIntent.id
+    });
+    if (purchase) {
+      await this.sendPurchaseNotifications(purchase);
+    }
+  }
+
+  // Pay for a pending purchase with tokens
+  static async payWithTokens(purchaseId: string, userId: string): Promise<{ success: boolean; error?: string; transactionId?: string }> {
+    try {
+      const pending = await PackagePurchase.findById(purchaseId).select('pricePaid');
+      if (pending) {
+        await TokenTopUpService.ensureBalance(userId, pending.pricePaid);
+      }
+
+      const session = await User.startSession();
+      let transactionId: string | undefined;
+
+      try {
+        await session.withTransaction(async () => {
+          const user = await User.findById(userId).session(session);
+          const purchase = await PackagePurchase.findById(purchaseId).session(session);
+
+          if (!user) {
+            throw new Error('Student not found');
+          }
+
+          if (!purchase) {
+            throw new Error('Package purchase not found');
+          }
+
+          if (purchase.studentId.toString() !== userId.toString()) {
+            throw new Error('Unauthorized: Package purchase does not belong to user');
+          }
+
+          if (purchase.status !== 'pending') {
+            throw new Error('Package purchase is already paid');
+          }
+
+          const posted = await LedgerService.transfer({
+            idempotencyKey: `package_purchase_${purchaseId}`,
+            type: 'package_purchase',
+            description: `Session package purchase: ${purchase.title}`,
+            reference: `package_${purchaseId}`,
+            from: { account: 'user_wallet', userId },
+            to: { account: 'platform_escrow' },
+            amount: purchase.pricePaid
+          }, session);
+          transactionId = posted.transactionIds[0];
+
+          await this.activatePurchase(purchaseId, { paymentMethod: 'tokens' }, session);
+        });
+      } finally {
+        await session.endSession();
+      }
+
+      await TokenTopUpService.afterDebit(userId);
+
+      const purchase = await PackagePurchase.findById(purchaseId);
+      if (purchase) {
+        await this.sendPurchaseNotifications(purchase);
+      }
+
+      return { success: true, transactionId };
+    } catch (error: any) {
+      console.error('Package token payment error:', error);
+      return {
+        success: false,
+        error: error.message || 'Token payment failed'
+      };
+    }
+  }
+
+  // Check a purchase can pay for a booking of the given service and duration
+  static async getRedeemablePurchase(
+    purchaseId: string,
+    studentId: string,
+    service: IServiceDocument,
+    duration: number
+  ): Promise<{ purchase?: IPackagePurchase; error?: string }> {
+    const purchase = await PackagePurchase.findById(purchaseId);
+    if (!purchase || purchase.studentId.toString() !== studentId.toString()) {
+      return { error: 'Package not found' };
+    }
+
+    if (purchase.serviceId.toString() !== service._id.toString()) {
+      return { error: 'This package cannot be used for this service' };
+    }
+
+    if (purchase.status !== 'active' || purchase.remainingCredits < 1) {
+      return { error: 'This package has no credits left' };
+    }
+
+    if (purchase.expiresAt && purchase.expiresAt <= new Date()) {
+      return { error: 'This package has expired' };
+    }
+
+    if (duration !== service.duration) {
+      return { error: `Package credits cover ${service.duration}-minute sessions` };
+    }
+
+    return { purchase };
+  }
+
+  // Take one credit from a purchase, returning the redeemed value the booking is charged at
+  static async redeemCredit(purchase: IPackagePurchase): Promise<{ success: boolean; amount?: number; error?: string }> {
+    const amount = CommissionService.calculateRedeemedValue(
+      purchase.pricePaid,
+      purchase.totalCredits,
+      purchase.remainingCredits,
+      purchase.redeemedValue
+    );
+
+    // Only succeeds if nobody redeemed a credit since the purchase was loaded
+    const updated = await PackagePurchase.findOneAndUpdate(
+      {
+        _id: purchase._id,
+        status: 'active',
+        remainingCredits: purchase.remainingCredits,
+        expiresAt: { $gt: new Date() }
+      },
+      { $inc: { remainingCredits: -1, redeemedValue: amount } },
+      { new: true }
+    );
+
+    if (!updated) {
+      return { success: false, error: 'Package credit is no longer available, please try again' };
+    }
+
+    if (updated.remainingCredits === 0) {
+      await PackagePurchase.updateOne({ _id: updated._id, remainingCredits: 0 }, { status: 'exhausted' });
+    }
+
+    return { success: true, amount };
+  }
+
+  // Give a cancelled booking's credit back to its package
+  static async restoreCredit(booking: IBooking): Promise<boolean> {
+    if (!booking.packagePurchaseId) {
+      return false;
+    }
+
+    const purchase = await PackagePurchase.findById(booking.packagePurchaseId);
+    if (!purchase || purchase.status === 'refunded') {
+      return false;
+    }
+
+    purchase.remainingCredits += 1;
+    purchase.redeemedValue = Math.max(0, Math.round((purchase.redeemedValue - booking.amount) * 100) / 100);
+    if (purchase.status === 'exhausted') {
+      purchase.status = purchase.expiresAt && purchase.expiresAt <= new Date() ? 'expired' : 'active';
+    }
+    await purchase.save();
+
+    return true;
+  }
+
+  // Refund the value of a purchase's unused credits and close it
+  static async refundUnusedCredits(
+    purchase: IPackagePurchase,
+    reason: string
+  ): Promise<{ success: boolean; amount?: number; credits?: number; refundId?: string; error?: string }> {
+    if (purchase.status !== 'active' || purchase.remainingCredits < 1) {
+      return { success: false, error: 'Package has no unused credits to refund' };
+    }
+
+    const credits = purchase.remainingCredits;
+    const amount = Math.max(0, Math.round((purchase.pricePaid - purchase.redeemedValue) * 100) / 100);
+
+    // Close the package first so its credits cannot be redeemed while the refund is processed
+    const closed = await PackagePurchase.findOneAndUpdate(
+      { _id: purchase._id, status: 'active', remainingCredits: credits },
+      { status: 'refunded', remainingCredits: 0 },
+      { new: true }
+    );
+    if (!closed) {
+      return { success: false, error: 'Package changed while refunding, please try again' };
+    }
+
+    let refundId: string | undefined;
+    try {
+      if (amount > 0 && closed.paymentMethod === 'stripe') {
+        if (!closed.stripePaymentIntentId) {
+          throw new Error('No payment intent found for refund');
+        }
+        const refund = await StripeService.createRefund(closed.stripePaymentIntentId, amount);
+        refundId = refund.id;
+      } else if (amount > 0) {
+        const posted = await LedgerService.transfer({
+          idempotencyKey: `package_refund_${closed._id.toString()}`,
+          type: 'package_refund',
+          description: `Unused package credits refund - ${reason}`,
+          reference: `package_refund_${closed._id.toString()}`,
+          from: { account: 'platform_escrow' },
+          to: { account: 'user_wallet', userId: closed.studentId },
+          amount
+        });
+        refundId = posted.transactionIds[0];
+      }
+    } catch (error: any) {
+      // Reopen the package so the student keeps their credits
+      closed.status = 'active';
+      closed.remainingCredits = credits;
+      closed.refund = { status: 'failed', amount, credits, processedAt: new Date(), reason: `Refund failed: ${error.message}` };
+      await closed.save();
+      return { success: false, error: 'Refund processing failed' };
+    }
+
+    closed.paymentStatus = amount >= closed.pricePaid ? 'refunded' : closed.paymentStatus;
+    closed.refund = {
+      status: 'processed',
+      amount,
+      credits,
+      stripeRefundId: closed.paymentMethod === 'stripe' ? refundId : undefined,
+      processedAt: new Date(),
+      reason
+    };
+    await closed.save();
+
+    return { success: true, amount, credits, refundId };
+  }
+
+  // Mark active purchases past their expiry date as expired
+  static async expirePurchases(now: Date = new Date()): Promise<number> {
+    const result = await PackagePurchase.updateMany(
+      { status: { $in: ['active', 'exhausted'] }, expiresAt: { $lte: now } },
+      { status: 'expired' }
+    );
+    return result.modifiedCount;
+  }
+
+  private static async sendPurchaseNotifications(purchase: IPackagePurchase): Promise<void> {
+    try {
+      const student = await User.findById(purchase.studentId).select('firstName lastName');
+
+      await notificationService.createMultiTypeNotification(
+        purchase.studentId.toString(),
+        'booking',
+        'Session Package Purchased',
+        `You now have ${purchase.totalCredits} session credits for "${purchase.title}", valid until ${purchase.expiresAt?.toLocaleDateString()}.`,
+        {
+          packagePurchaseId: purchase._id.toString(),
+          serviceId: purchase.serviceId.toString(),
+          credits: purchase.totalCredits,
+          amount: purchase.pricePaid,
+          expiresAt: purchase.expiresAt
+        }
+      );
+
+      await notificationService.createNotification({
+        userId: purchase.mentorId.toString(),
+        type: 'in_app',
+        category: 'booking',
+        title: 'Session Package Sold',
+        message: `${student ? `${student.firstName} ${student.lastName}` : 'A student'} bought your "${purchase.title}" package (${purchase.totalCredits} sessions).`,
+        data: {
+          packagePurchaseId: purchase._id.toString(),
+          serviceId: purchase.serviceId.toString(),
+          credits: purchase.totalCredits
+        },
+        priority: 'medium',
+        sendImmediately: true
+      });
+    } catch (notificationError) {
+      // Don't fail the purchase if notifications fail
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import { User } from '../models/User';
+import { StripeService, OffSessionChargeResult, SavedPaymentMethod } from './stripeService';
+import { SETTLEMENT_CURRENCY } from './currencyService';
+import { CurrencyCode } from '../types';
+
+export interface SavedCardChargeParams {
+  amount: number; // Amount in major units of the currency
+  currency?: CurrencyCode; // Defaults to the settlement currency
+  description: string;
+  metadata: Record<string, string>;
+  idempotencyKey: string;
+  paymentMethodId?: string; // Defaults to the user's default card
+}
+
+export class PaymentMethodService {
+  // The user's Stripe Customer id, creating the customer on first use
+  static async getOrCreateCustomerId(userId: string): Promise<string> {
+    const user = await User.findById(userId).select('email firstName lastName stripeCustomerId');
+    if (!user) {
+      throw new Error('User not found');
+    }
+    if (user.stripeCustomerId) {
+      return user.stripeCustomerId;
+    }
+
+    const customer = await StripeService.createCustomer(
+      user.email,
+      `${user.firstName} ${user.lastName}`,
+      { userId }
+    );
+
+    // Another request may have created one first; keep whichever was stored
+    const updated = await User.findOneAndUpdate(
+      { _id: userId, stripeCustomerId: { $exists: false } },
+      { stripeCustomerId: customer.id },
+      { new: true }
+    ).select('stripeCustomerId');
+    if (updated) {
+      return customer.id;
+    }
+
+    const current = await User.findById(userId).select('stripeCustomerId');
+    return current?.stripeCustomerId || customer.id;
+  }
+
+  // Customer id without creating one; undefined if the user has never saved a card
+  static async getCustomerId(userId: string): Promise<string | undefined> {
+    const user = await User.findById(userId).select('stripeCustomerId');
+    return user?.stripeCustomerId;
+  }
+
+  static async listPaymentMethods(userId: string): Promise<SavedPaymentMethod[]> {
+    const customerId = await this.getCustomerId(userId);
+    return customerId ? StripeService.listPaymentMethods(customerId) : [];
+  }
+
+  // Client secret for saving a new card
+  static async createSetupIntent(userId: string): Promise<{ clientSecret: string; setupIntentId: string }> {
+    const customerId = await this.getOrCreateCustomerId(userId);
+    return StripeService.createSetupIntent(customerId);
+  }
+
+  // Returns false if the card isn't saved on the user's customer
+  static async removePaymentMethod(userId: string, paymentMethodId: string): Promise<boolean> {
+    const customerId = await this.getOwningCustomerId(userId, paymentMethodId);
+    if (!customerId) {
+      return false;
+    }
+
+    await StripeService.detachPaymentMethod(paymentMethodId);
+    return true;
+  }
+
+  // Returns false if the card isn't saved on the user's customer
+  static async setDefaultPaymentMethod(userId: string, paymentMethodId: string): Promise<boolean> {
+    const customerId = await this.getOwningCustomerId(userId, paymentMethodId);
+    if (!customerId) {
+      return false;
+    }
+
+    await StripeService.setDefaultPaymentMethod(customerId, paymentMethodId);
+    return true;
+  }
+
+  // Charge a saved card without the user present, for scheduled series payments and auto top-ups
+  static async chargeSavedPaymentMethod(userId: string, params: SavedCardChargeParams): Promise<OffSessionChargeResult> {
+    const customerId = await this.getCustomerId(userId);
+    if (!customerId) {
+      return { success: false, error: 'No saved payment method' };
+    }
+
+    // Without a default, fall back to the first saved card
+    const paymentMethodId = params.paymentMethodId || (await StripeService.listPaymentMethods(customerId))[0]?.id;
+    if (!paymentMethodId) {
+      return { success: false, error: 'No saved payment method' };
+    }
+
+    return StripeService.chargeOffSession({
+      amount: Math.round(params.amount * 100), // Convert to cents
+      currency: params.currency || SETTLEMENT_CURRENCY,
+      customerId,
+      paymentMethodId,
+      description: params.description,
+      metadata: params.metadata,
+      idempotencyKey: params.idempotencyKey
+    });
+  }
+
+  // The user's customer id if the payment method is saved on it
+  private static async getOwningCustomerId(userId: string, paymentMethodId: string): Promise<string | undefined> {
+    const customerId = await this.getCustomerId(userId);
+    if (!customerId) {
+      return undefined;
+    }
+
+    const paymentMethod = await StripeService.getPaymentMethod(paymentMethodId).catch(() => null);
+    const owner = typeof paymentMethod?.customer === 'string' ? paymentMethod.customer : paymentMethod?.customer?.id;
+    return owner === customerId ? customerId : undefined;
+  }
+}
@@ -1,6 +1,7 @@
 import { notificationService } from './notificationService';
 import { User } from '../models/User';
 import { Booking } from '../models/Booking';
+import { PayoutSchedule } from '../types';
 
 export interface PayoutNotificationData {
   mentorId: string;
@@ -170,10 +171,11 @@ class PayoutNotificationService {
     }
   }
 
-  // Send payout summary notification (weekly/monthly)
-  async sendPayoutSummaryNotification(mentorId: string, period: 'weekly' | 'monthly', summary: {
+  // Send payout summary notification for a payout batch (per-session/weekly/monthly)
+  async sendPayoutSummaryNotification(mentorId: string, period: PayoutSchedule, summary: {
     totalAmount: number;
     sessionCount: number;
+    messageCount?: number;
     payoutCount: number;
     periodStart: Date;
     periodEnd: Date;
@@ -185,18 +187,21 @@ class PayoutNotificationService {
         throw new Error('Mentor not found for payout summary notification');
       }
 
-      const periodText = period === 'weekly' ? 'week' : 'month';
+      const periodText = period === 'weekly' ? 'week' : period === 'monthly' ? 'month' : '';
       const periodRange = `${summary.periodStart.toLocaleDateString()} - ${summary.periodEnd.toLocaleDateString()}`;
+      const messageCount = summary.messageCount || 0;
+      const messageText = messageCount > 0 ? ` and ${messageCount} cold message${messageCount !== 1 ? 's' : ''}` : '';
 
       await notificationService.createMultiTypeNotification(
         mentorId,
         'payout',
-        `${periodText.charAt(0).toUpperCase() + periodText.slice(1)}ly Payout Summary`,
-        `Here's your ${periodText}ly earnings summary: $${summary.totalAmount.toFixed(2)} earned from ${summary.sessionCount} session${summary.sessionCount !== 1 ? 's' : ''} across ${summary.payoutCount} payout${summary.payoutCount !== 1 ? 's' : ''} (${periodRange}).`,
+        periodText ? `${periodText.charAt(0).toUpperCase() + periodText.slice(1)}ly Payout Summary` : 'Payout Summary',
+        `Here's your ${periodText ? `${periodText}ly ` : ''}earnings summary: $${summary.totalAmount.toFixed(2)} earned from ${summary.sessionCount} session${summary.sessionCount !== 1 ? 's' : ''}${messageText} across ${summary.payoutCount} payout${summary.payoutCount !== 1 ? 's' : ''} (${periodRange}).`,
         {
           period,
           totalAmount: summary.totalAmount,
           sessionCount: summary.sessionCount,
+          messageCount,
           payoutCount: summary.payoutCount,
           periodStart: summary.periodStart,
           periodEnd: summary.periodEnd,
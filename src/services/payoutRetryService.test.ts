@@ -0,0 +1,78 @@
+import mongoose from 'mongoose';
+import { PayoutRetryService, PayoutAccountError, TaxProfileRequiredError, MAX_PAYOUT_RETRY_ATTEMPTS } from './payoutRetryService';
+import { TransferError } from './stripeService';
+import { EscrowTransitionError } from './escrowService';
+import { PayoutRetry } from '../models/PayoutRetry';
+
+describe('PayoutRetryService.classifyFailure', () => {
+  it('waits on the mentor for account and tax problems', () => {
+    expect(PayoutRetryService.classifyFailure(new PayoutAccountError('No Connect account'))).toBe('mentor_action');
+    expect(PayoutRetryService.classifyFailure(new TaxProfileRequiredError('Tax profile incomplete'))).toBe('mentor_action');
+    expect(PayoutRetryService.classifyFailure(new TransferError('Closed', 'StripeInvalidRequestError', 'account_closed', 400))).toBe('mentor_action');
+  });
+
+  it('retries Stripe outages, rate limits and an empty platform balance', () => {
+    expect(PayoutRetryService.classifyFailure(new TransferError('Down', 'StripeAPIError', undefined, 500))).toBe('transient');
+    expect(PayoutRetryService.classifyFailure(new TransferError('Slow down', undefined, undefined, 429))).toBe('transient');
+    expect(PayoutRetryService.classifyFailure(new TransferError('Low', 'StripeInvalidRequestError', 'balance_insufficient', 400))).toBe('transient');
+    expect(PayoutRetryService.classifyFailure(new Error('connection reset'))).toBe('transient');
+  });
+
+  it('gives up on invalid requests and escrow conflicts', () => {
+    expect(PayoutRetryService.classifyFailure(new TransferError('Bad', 'StripeInvalidRequestError', 'parameter_invalid', 400))).toBe('permanent');
+    expect(PayoutRetryService.classifyFailure(new EscrowTransitionError('refunded', 'released'))).toBe('permanent');
+  });
+});
+
+describe('PayoutRetryService.getRetryDelay', () => {
+  it('doubles the delay after each failure up to a day', () => {
+    expect(PayoutRetryService.getRetryDelay(1)).toBe(15 * 60 * 1000);
+    expect(PayoutRetryService.getRetryDelay(3)).toBe(60 * 60 * 1000);
+    expect(PayoutRetryService.getRetryDelay(20)).toBe(24 * 60 * 60 * 1000);
+  });
+});
+
+describe('PayoutRetryService.recordFailure', () => {
+  const mentorId = new mongoose.Types.ObjectId();
+  const bookingId = new mongoose.Types.ObjectId();
+  const target = { target: 'booking' as const, mentorId, bookingId };
+
+  const recordWith = async (existing: Record<string, any> | null, error: unknown) => {
+    jest.spyOn(PayoutRetry, 'findOne').mockResolvedValue(existing as any);
+    const upsert = jest.spyOn(PayoutRetry, 'findOneAndUpdate').mockResolvedValue({} as any);
+    await PayoutRetryService.recordFailure(target, error);
+    return upsert.mock.calls[0];
+  };
+
+  it('schedules the first transient failure with the base delay', async () => {
+    const before = Date.now();
+    const [filter, update] = await recordWith(null, new Error('timeout')) as any[];
+
+    expect(filter).toEqual({ target: 'booking', bookingId });
+    expect(update).toMatchObject({ status: 'scheduled', failureClass: 'transient', attempts: 1, lastError: 'timeout' });
+    expect(update.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 15 * 60 * 1000);
+  });
+
+  it('fails the payout once the transient attempts run out', async () => {
+    const [, update] = await recordWith(
+      { status: 'processing', attempts: MAX_PAYOUT_RETRY_ATTEMPTS - 1 },
+      new Error('timeout')
+    ) as any[];
+
+    expect(update).toMatchObject({ status: 'failed', attempts: MAX_PAYOUT_RETRY_ATTEMPTS });
+    expect(update.$unset).toEqual({ resolvedAt: 1, nextAttemptAt: 1 });
+  });
+
+  it('restarts the count for a payout that failed again after being resolved', async () => {
+    const [, update] = await recordWith({ status: 'succeeded', attempts: 4 }, new Error('timeout')) as any[];
+
+    expect(update).toMatchObject({ status: 'scheduled', attempts: 1 });
+  });
+
+  it('parks payouts the mentor has to unblock', async () => {
+    const [, update] = await recordWith(null, new PayoutAccountError('Payouts are not enabled')) as any[];
+
+    expect(update).toMatchObject({ status: 'awaiting_mentor', failureClass: 'mentor_action' });
+    expect(update.nextAttemptAt).toBeUndefined();
+  });
+});
@@ -0,0 +1,230 @@
+import mongoose from 'mongoose';
+import { Booking } from '../models/Booking';
+import { PayoutRetry, IPayoutRetry, PayoutFailureClass, PayoutRetryStatus } from '../models/PayoutRetry';
+import { PayoutService } from './payoutService';
+import { TransferError } from './stripeService';
+import { EscrowTransitionError } from './escrowService';
+
+// Transient failures are retried this many times before an admin has to step in
+export const MAX_PAYOUT_RETRY_ATTEMPTS = 6;
+// Delay before the first retry; doubled after each further failure, up to the cap
+const RETRY_BASE_DELAY_MINUTES = 15;
+const RETRY_MAX_DELAY_HOURS = 24;
+// A retry left processing this long is assumed to have crashed and is picked up again
+const RETRY_STALE_MINUTES = 30;
+
+// Stripe error codes that mean the connected account can't take transfers until the mentor fixes it
+const MENTOR_ACTION_CODES = ['account_invalid', 'transfers_not_allowed', 'payouts_not_allowed', 'account_closed'];
+// Stripe error codes that clear up on their own
+const TRANSIENT_CODES = ['balance_insufficient', 'lock_timeout', 'rate_limit'];
+
+// The mentor's Connect account is missing or can't receive payouts yet
+export class PayoutAccountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PayoutAccountError';
+  }
+}
+
+// The payout needs a complete tax profile, which the mentor hasn't filled in yet
+export class TaxProfileRequiredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TaxProfileRequiredError';
+  }
+}
+
+export interface PayoutRetryTarget {
+  target: 'booking' | 'batch';
+  mentorId: string | mongoose.Types.ObjectId;
+  bookingId?: string | mongoose.Types.ObjectId;
+  payoutBatchId?: string | mongoose.Types.ObjectId;
+}
+
+const ACTIVE_STATUSES: PayoutRetryStatus[] = ['scheduled', 'awaiting_mentor', 'processing', 'failed'];
+
+// The entry a booking's or a mentor's batch payouts are tracked under
+const targetFilter = (target: PayoutRetryTarget): Record<string, any> => target.target === 'booking'
+  ? { target: 'booking', bookingId: target.bookingId }
+  : { target: 'batch', mentorId: target.mentorId };
+
+export class PayoutRetryService {
+  static classifyFailure(error: unknown): PayoutFailureClass {
+    if (error instanceof PayoutAccountError || error instanceof TaxProfileRequiredError) {
+      return 'mentor_action';
+    }
+    if (error instanceof EscrowTransitionError) {
+      return 'permanent';
+    }
+    if (error instanceof TransferError) {
+      if (error.code && MENTOR_ACTION_CODES.includes(error.code)) {
+        return 'mentor_action';
+      }
+      if (error.code && TRANSIENT_CODES.includes(error.code)) {
+        return 'transient';
+      }
+      if (['StripeConnectionError', 'StripeAPIError', 'StripeRateLimitError'].includes(error.stripeType || '')) {
+        return 'transient';
+      }
+      if (error.statusCode && (error.statusCode >= 500 || error.statusCode === 429)) {
+        return 'transient';
+      }
+      // Invalid requests, authentication and permission errors won't succeed on a retry
+      return 'permanent';
+    }
+    // Database hiccups and other unexpected errors are worth another try
+    return 'transient';
+  }
+
+  static getRetryDelay(attempts: number): number {
+    const delay = RETRY_BASE_DELAY_MINUTES * 60 * 1000 * Math.pow(2, Math.max(attempts - 1, 0));
+    return Math.min(delay, RETRY_MAX_DELAY_HOURS * 60 * 60 * 1000);
+  }
+
+  // Queue a failed payout for another attempt, according to why it failed
+  static async recordFailure(target: PayoutRetryTarget, error: unknown): Promise<IPayoutRetry> {
+    const now = new Date();
+    const failureClass = this.classifyFailure(error);
+    const filter = targetFilter(target);
+
+    // A payout that failed again after succeeding or being cancelled starts a fresh count
+    const existing = await PayoutRetry.findOne(filter);
+    const attempts = (existing && ACTIVE_STATUSES.includes(existing.status) ? existing.attempts : 0) + 1;
+
+    let status: PayoutRetryStatus;
+    let nextAttemptAt: Date | undefined;
+    if (failureClass === 'mentor_action') {
+      status = 'awaiting_mentor';
+    } else if (failureClass === 'transient' && attempts < MAX_PAYOUT_RETRY_ATTEMPTS) {
+      status = 'scheduled';
+      nextAttemptAt = new Date(now.getTime() + this.getRetryDelay(attempts));
+    } else {
+      status = 'failed';
+    }
+
+    return PayoutRetry.findOneAndUpdate(
+      filter,
+      {
+        ...filter,
+        mentorId: target.mentorId,
+        ...(target.payoutBatchId ? { payoutBatchId: target.payoutBatchId } : {}),
+        status,
+        failureClass,
+        attempts,
+        lastError: (error as Error)?.message || 'Unknown error',
+        lastAttemptAt: now,
+        ...(nextAttemptAt ? { nextAttemptAt } : {}),
+        $unset: { resolvedAt: 1, ...(nextAttemptAt ? {} : { nextAttemptAt: 1 }) }
+      },
+      { upsert: true, new: true }
+    ) as Promise<IPayoutRetry>;
+  }
+
+  // Close a queued payout once it has gone through
+  static async markSucceeded(target: PayoutRetryTarget): Promise<void> {
+    await PayoutRetry.updateOne(
+      { ...targetFilter(target), status: { $in: ACTIVE_STATUSES } },
+      { status: 'succeeded', resolvedAt: new Date(), $unset: { nextAttemptAt: 1 } }
+    );
+  }
+
+  // Retry everything that was waiting on the mentor, now their Connect account or tax profile is ready
+  static async resumeForMentor(mentorId: string | mongoose.Types.ObjectId): Promise<number> {
+    const result = await PayoutRetry.updateMany(
+      { mentorId, status: 'awaiting_mentor' },
+      { status: 'scheduled', nextAttemptAt: new Date() }
+    );
+    return result.modifiedCount;
+  }
+
+  // Run the retries that are due; returns how many were attempted
+  static async processDueRetries(now: Date = new Date()): Promise<number> {
+    const staleBefore = new Date(now.getTime() - RETRY_STALE_MINUTES * 60 * 1000);
+    const due = await PayoutRetry.find({
+      $or: [
+        { status: 'scheduled', nextAttemptAt: { $lte: now } },
+        { status: 'processing', lastAttemptAt: { $lt: staleBefore } }
+      ]
+    }).sort({ nextAttemptAt: 1 });
+
+    let attempted = 0;
+    for (const entry of due) {
+      // Claim the entry so overlapping runs don't retry it twice
+      const claimed = await PayoutRetry.findOneAndUpdate(
+        { _id: entry._id, status: entry.status, updatedAt: entry.updatedAt },
+        { status: 'processing', lastAttemptAt: now, $unset: { nextAttemptAt: 1 } },
+        { new: true }
+      );
+      if (!claimed) {
+        continue;
+      }
+
+      attempted++;
+      try {
+        await this.retry(claimed);
+      } catch (error) {
+        console.error(`Payout retry ${claimed._id} error:`, error);
+        await this.recordFailure({
+          target: claimed.target,
+          mentorId: claimed.mentorId,
+          bookingId: claimed.bookingId,
+          payoutBatchId: claimed.payoutBatchId
+        }, error);
+      }
+    }
+    return attempted;
+  }
+
+  // Try a queued payout again; the payout records its own success or failure on the entry
+  private static async retry(entry: IPayoutRetry): Promise<void> {
+    if (entry.target === 'booking') {
+      const booking = await Booking.findById(entry.bookingId).populate('mentorId', 'firstName lastName email');
+      if (!booking || booking.status !== 'completed' || ['paid', 'completed', 'disputed'].includes(booking.payoutStatus as string)) {
+        await this.cancel(entry, 'Booking no longer needs a payout');
+        return;
+      }
+      await PayoutService.processBookingPayout(booking);
+    } else {
+      const batch = await PayoutService.retryFailedBatchItems(entry.mentorId.toString());
+      if (!batch) {
+        // Nothing was payable right away; the items are back with the mentor's regular payouts
+        await this.cancel(entry, 'Failed items returned to the regular payout schedule');
+        return;
+      }
+    }
+
+    // The payout returned without paying or failing, e.g. a dispute was opened since
+    const current = await PayoutRetry.findById(entry._id);
+    if (current?.status === 'processing') {
+      await this.cancel(entry, 'Nothing left to pay out');
+    }
+  }
+
+  private static async cancel(entry: IPayoutRetry, reason: string): Promise<void> {
+    await PayoutRetry.updateOne(
+      { _id: entry._id },
+      { status: 'cancelled', lastError: reason, resolvedAt: new Date(), $unset: { nextAttemptAt: 1 } }
+    );
+  }
+
+  // Queue state for admins: counts by status and the entries still open
+  static async getQueueState(): Promise<{ counts: Record<string, number>; entries: IPayoutRetry[] }> {
+    const grouped = await PayoutRetry.aggregate([
+      { $match: { status: { $in: ACTIVE_STATUSES } } },
+      { $group: { _id: '$status', count: { $sum: 1 } } }
+    ]);
+
+    const counts: Record<string, number> = { scheduled: 0, awaiting_mentor: 0, processing: 0, failed: 0 };
+    grouped.forEach(group => {
+      counts[group._id] = group.count;
+    });
+
+    const entries = await PayoutRetry.find({ status: { $in: ACTIVE_STATUSES } })
+      .populate('mentorId', 'firstName lastName email')
+      .populate('bookingId', 'amount scheduledAt payoutStatus')
+      .sort({ status: 1, nextAttemptAt: 1, updatedAt: -1 })
+      .limit(200);
+
+    return { counts, entries };
+  }
+}
@@ -0,0 +1,87 @@
+import mongoose from 'mongoose';
+import { PayoutService } from './payoutService';
+import { PayoutRetryService } from './payoutRetryService';
+import { Booking } from '../models/Booking';
+import { User } from '../models/User';
+import { Dispute } from '../models/Dispute';
+import Message from '../models/Message';
+
+describe('PayoutService.isPayoutDue', () => {
+  const now = new Date('2026-10-21T12:00:00Z'); // A Wednesday
+
+  it('pays per-session mentors and first payouts on every check', () => {
+    expect(PayoutService.isPayoutDue({ schedule: 'per_session', minimumAmount: 0, lastPayoutAt: now }, now)).toBe(true);
+    expect(PayoutService.isPayoutDue({ schedule: 'monthly', minimumAmount: 0 }, now)).toBe(true);
+  });
+
+  it('pays weekly mentors once per week starting Monday', () => {
+    expect(PayoutService.isPayoutDue({ schedule: 'weekly', minimumAmount: 0, lastPayoutAt: new Date('2026-10-19T08:00:00Z') }, now)).toBe(false);
+    expect(PayoutService.isPayoutDue({ schedule: 'weekly', minimumAmount: 0, lastPayoutAt: new Date('2026-10-18T23:00:00Z') }, now)).toBe(true);
+  });
+
+  it('pays monthly mentors once per calendar month', () => {
+    expect(PayoutService.isPayoutDue({ schedule: 'monthly', minimumAmount: 0, lastPayoutAt: new Date('2026-10-01T00:00:00Z') }, now)).toBe(false);
+    expect(PayoutService.isPayoutDue({ schedule: 'monthly', minimumAmount: 0, lastPayoutAt: new Date('2026-09-30T23:59:00Z') }, now)).toBe(true);
+  });
+});
+
+describe('PayoutService.processMentorBatch', () => {
+  const mentorId = new mongoose.Types.ObjectId().toString();
+  const now = new Date('2026-10-21T12:00:00Z');
+
+  const readyBooking = (fields: Record<string, any> = {}) => ({
+    _id: new mongoose.Types.ObjectId(),
+    mentorId,
+    status: 'completed',
+    paymentStatus: 'paid',
+    escrowStatus: 'held',
+    amount: 100,
+    updatedAt: new Date('2026-10-18T12:00:00Z'),
+    ...fields
+  });
+
+  let claim: jest.SpyInstance;
+
+  const mentorWith = (payoutSettings: Record<string, any>) => {
+    jest.spyOn(User, 'findById').mockResolvedValue({ _id: mentorId, payoutSettings, mentorEarnings: { commissionTier: 'tier1' } } as any);
+  };
+
+  beforeEach(() => {
+    jest.spyOn(Dispute, 'findOne').mockResolvedValue(null);
+    jest.spyOn(Message, 'find').mockResolvedValue([]);
+    jest.spyOn(Message, 'updateMany').mockResolvedValue({ modifiedCount: 0 } as any);
+    claim = jest.spyOn(Booking, 'updateMany').mockResolvedValue({ modifiedCount: 0 } as any);
+  });
+
+  it('carries totals under the mentor minimum over to a later check', async () => {
+    mentorWith({ schedule: 'per_session', minimumAmount: 100 });
+    jest.spyOn(Booking, 'find').mockResolvedValue([readyBooking()] as any);
+
+    await expect(PayoutService.processMentorBatch(mentorId, now)).resolves.toBeNull();
+    expect(claim).not.toHaveBeenCalled();
+  });
+
+  it('queues a booking that cannot be paid out and still batches the rest', async () => {
+    mentorWith({ schedule: 'per_session', minimumAmount: 0 });
+    const payable = readyBooking();
+    const refunded = readyBooking({ escrowStatus: 'refunded' });
+    jest.spyOn(Booking, 'find')
+      .mockResolvedValueOnce([refunded, payable] as any)
+      .mockResolvedValueOnce([] as any);
+    const markFailed = jest.spyOn(Booking, 'findByIdAndUpdate').mockResolvedValue(null);
+    const recordFailure = jest.spyOn(PayoutRetryService, 'recordFailure').mockResolvedValue({} as any);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await PayoutService.processMentorBatch(mentorId, now);
+
+    expect(markFailed).toHaveBeenCalledWith(refunded._id, expect.objectContaining({ payoutStatus: 'failed' }));
+    expect(recordFailure).toHaveBeenCalledWith(
+      { target: 'booking', mentorId, bookingId: refunded._id },
+      expect.objectContaining({ name: 'EscrowTransitionError' })
+    );
+    expect(claim).toHaveBeenCalledWith(
+      expect.objectContaining({ _id: { $in: [payable._id] } }),
+      expect.objectContaining({ payoutStatus: 'processing' })
+    );
+  });
+});
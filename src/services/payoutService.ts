@@ -1,9 +1,25 @@
+import mongoose from 'mongoose';
 import { Booking } from '../models/Booking';
-import { User } from '../models/User';
+import { User, IUserDocument } from '../models/User';
 import { Dispute } from '../models/Dispute';
+import Message from '../models/Message';
+import { PayoutBatch, IPayoutBatch, IPayoutBatchItem } from '../models/PayoutBatch';
 import { MentorEarningsService } from './mentorEarningsService';
+import { CommissionService } from './commissionService';
 import { StripeService } from './stripeService';
 import { payoutNotificationService } from './payoutNotificationService';
+import { RefundService } from './refundService';
+import { EscrowService } from './escrowService';
+import { LedgerLineInput, LedgerService } from './ledgerService';
+import { SETTLEMENT_CURRENCY } from './currencyService';
+import { PayoutRetryService, PayoutAccountError } from './payoutRetryService';
+import { TaxService } from './taxService';
+import { PayoutSchedule } from '../types';
+
+export const PAYOUT_SCHEDULES: PayoutSchedule[] = ['per_session', 'weekly', 'monthly'];
+export const MAX_MINIMUM_PAYOUT = 1000;
+// Completed bookings can be disputed for this long before they are paid out
+const DISPUTE_WINDOW_HOURS = 48;
 
 export interface PayoutData {
   bookingId: string;
@@ -17,53 +33,484 @@ export interface PayoutData {
   failureReason?: string;
 }
 
+export interface PayoutSettings {
+  schedule: PayoutSchedule;
+  minimumAmount: number;
+  lastPayoutAt?: Date;
+}
+
+// A booking's share of a payout, worked out on what the student kept paid
+interface BookingPayoutAmounts {
+  totalAmount: number;
+  platformCommission: number;
+  mentorPayout: number;
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+// Escrow states a payout can release from; bookings that predate escrow tracking are checked on their payment
+const RELEASABLE_ESCROW_STATES = ['held', 'partially_refunded', 'disputed'];
+
+// Paid, completed bookings past the dispute window whose escrow can still be released and that haven't been paid out
+const readyBookingsFilter = (now: Date): Record<string, any> => ({
+  status: 'completed',
+  paymentStatus: 'paid',
+  updatedAt: { $lte: new Date(now.getTime() - DISPUTE_WINDOW_HOURS * 60 * 60 * 1000) },
+  $and: [
+    {
+      $or: [
+        { payoutStatus: { $exists: false } },
+        { payoutStatus: 'pending' }
+      ]
+    },
+    {
+      $or: [
+        { escrowStatus: { $exists: false } },
+        { escrowStatus: { $in: RELEASABLE_ESCROW_STATES } }
+      ]
+    }
+  ]
+});
+
+// Paid cold messages the mentor has answered, so the tokens are theirs to keep
+const readyColdMessagesFilter = (): Record<string, any> => ({
+  isColdMessage: true,
+  replied: true,
+  paymentStatus: 'paid',
+  tokensDeducted: { $gt: 0 },
+  $or: [
+    { payoutStatus: { $exists: false } },
+    { payoutStatus: 'pending' }
+  ]
+});
+
 export class PayoutService {
-  // Check for bookings ready for payout (48 hours after completion, no disputes)
+  // Pay out bookings ready for payout (48 hours after completion, no disputes) and answered cold messages,
+  // in one batch per mentor whose payout schedule is due
   static async checkPendingPayouts(): Promise<void> {
     try {
       const now = new Date();
-      const fortyEightHoursAgo = new Date(now.getTime() - 48 * 60 * 60 * 1000);
+      const mentorIds = new Set<string>();
 
-      // Find completed bookings that are 48+ hours old and not already processed
-      const readyBookings = await Booking.find({
-        status: 'completed',
-        updatedAt: { $lte: fortyEightHoursAgo },
-        $or: [
-          { payoutStatus: { $exists: false } },
-          { payoutStatus: 'pending' }
-        ]
-      }).populate('mentorId', 'firstName lastName email');
+      const readyBookings = await Booking.find(readyBookingsFilter(now)).select('mentorId');
+      readyBookings.forEach(booking => mentorIds.add(booking.mentorId.toString()));
 
+      const readyMessages = await Message.find(readyColdMessagesFilter()).select('receiverId');
+      readyMessages.forEach(message => mentorIds.add(message.receiverId.toString()));
 
-      for (const booking of readyBookings) {
-        await this.processBookingPayout(booking);
+      for (const mentorId of mentorIds) {
+        try {
+          await this.processMentorBatch(mentorId, now);
+        } catch (error) {
+          console.error(`Payout batch error for mentor ${mentorId}:`, error);
+        }
       }
     } catch (error) {
+      console.error('Payout check error:', error);
     }
   }
 
-  // Process payout for a specific booking
-  static async processBookingPayout(booking: any): Promise<void> {
+  // A mentor's payout schedule and threshold, with defaults for mentors who never set them
+  static getPayoutSettings(mentor: IUserDocument): PayoutSettings {
+    return {
+      schedule: mentor.payoutSettings?.schedule || 'per_session',
+      minimumAmount: mentor.payoutSettings?.minimumAmount || 0,
+      lastPayoutAt: mentor.payoutSettings?.lastPayoutAt
+    };
+  }
+
+  static async updatePayoutSettings(
+    mentorId: string,
+    input: { schedule?: unknown; minimumAmount?: unknown }
+  ): Promise<{ settings?: PayoutSettings; error?: string }> {
+    const update: Record<string, any> = {};
+
+    if (input.schedule !== undefined) {
+      if (!PAYOUT_SCHEDULES.includes(input.schedule as PayoutSchedule)) {
+        return { error: 'Schedule must be per_session, weekly or monthly' };
+      }
+      update['payoutSettings.schedule'] = input.schedule;
+    }
+
+    if (input.minimumAmount !== undefined) {
+      const minimumAmount = Number(input.minimumAmount);
+      if (!Number.isFinite(minimumAmount) || minimumAmount < 0 || minimumAmount > MAX_MINIMUM_PAYOUT) {
+        return { error: `Minimum payout must be between 0 and ${MAX_MINIMUM_PAYOUT}` };
+      }
+      update['payoutSettings.minimumAmount'] = round(minimumAmount);
+    }
+
+    const mentor = await User.findByIdAndUpdate(mentorId, update, { new: true, runValidators: true }).select('payoutSettings');
+    if (!mentor) {
+      return { error: 'Mentor not found' };
+    }
+    return { settings: this.getPayoutSettings(mentor) };
+  }
+
+  // Whether a schedule's next payout has come round: per-session payouts go out on every check,
+  // weekly ones once per UTC week starting Monday and monthly ones once per UTC calendar month
+  static isPayoutDue(settings: PayoutSettings, now: Date = new Date()): boolean {
+    if (settings.schedule === 'per_session' || !settings.lastPayoutAt) {
+      return true;
+    }
+
+    const periodStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    if (settings.schedule === 'weekly') {
+      periodStart.setUTCDate(periodStart.getUTCDate() - ((periodStart.getUTCDay() + 6) % 7));
+    } else {
+      periodStart.setUTCDate(1);
+    }
+    return settings.lastPayoutAt < periodStart;
+  }
+
+  // Pay a mentor's eligible bookings and cold messages with a single transfer, if their schedule is due
+  // and the total reaches their minimum; smaller totals carry over to a later check
+  static async processMentorBatch(mentorId: string, now: Date = new Date()): Promise<IPayoutBatch | null> {
+    const mentor = await User.findById(mentorId);
+    if (!mentor) {
+      return null;
+    }
+
+    const settings = this.getPayoutSettings(mentor);
+    if (!this.isPayoutDue(settings, now)) {
+      return null;
+    }
+
+    const commissionRate = await this.getCommissionRate(mentorId);
+    const bookings = await Booking.find({ ...readyBookingsFilter(now), mentorId });
+    const messages = await Message.find({ ...readyColdMessagesFilter(), receiverId: mentorId });
+
+    const items: IPayoutBatchItem[] = [];
+    const periodDates: Date[] = [];
+    for (const booking of bookings) {
+      // One booking that can't be paid out mustn't hold up the rest of the batch
+      let amounts: BookingPayoutAmounts | null;
+      try {
+        amounts = await this.prepareBookingPayout(booking, commissionRate);
+      } catch (error) {
+        // Paid out on its own through the retry queue, or left there for an admin if it can't be
+        console.error(`Booking ${booking._id} left out of payout batch:`, error);
+        await Booking.findByIdAndUpdate(booking._id, {
+          payoutStatus: 'failed',
+          payoutFailureReason: (error as Error).message || 'Unknown error'
+        });
+        await PayoutRetryService.recordFailure({ target: 'booking', mentorId, bookingId: booking._id as mongoose.Types.ObjectId }, error);
+        continue;
+      }
+      if (!amounts) {
+        continue;
+      }
+      items.push({
+        type: 'session',
+        bookingId: booking._id as mongoose.Types.ObjectId,
+        grossAmount: amounts.totalAmount,
+        platformCommission: amounts.platformCommission,
+        mentorPayout: amounts.mentorPayout
+      });
+      periodDates.push(booking.updatedAt);
+    }
+    for (const message of messages) {
+      const grossAmount = message.tokensDeducted as number;
+      const platformCommission = CommissionService.calculateCommissionAtRate(grossAmount, commissionRate);
+      items.push({
+        type: 'cold_message',
+        messageId: message._id,
+        grossAmount,
+        platformCommission,
+        mentorPayout: round(grossAmount - platformCommission)
+      });
+      periodDates.push(message.createdAt);
+    }
+
+    const total = round(items.reduce((sum, item) => sum + item.mentorPayout, 0));
+    if (total <= 0 || total < settings.minimumAmount) {
+      return null;
+    }
+
+    // Claim the items so an overlapping check can't pay them again
+    const batchId = new mongoose.Types.ObjectId();
+    const bookingIds = items.filter(item => item.bookingId).map(item => item.bookingId);
+    const messageIds = items.filter(item => item.messageId).map(item => item.messageId);
+    await Booking.updateMany(
+      { _id: { $in: bookingIds }, ...readyBookingsFilter(now) },
+      { payoutStatus: 'processing', payoutBatchId: batchId }
+    );
+    await Message.updateMany(
+      { _id: { $in: messageIds }, ...readyColdMessagesFilter() },
+      { payoutStatus: 'processing', payoutBatchId: batchId }
+    );
+    const claimedBookings = await Booking.find({ payoutBatchId: batchId });
+    const claimedMessages = await Message.find({ payoutBatchId: batchId });
+    const claimed = new Set([...claimedBookings, ...claimedMessages].map(doc => doc._id.toString()));
+    const batchItems = items.filter(item => claimed.has(((item.bookingId || item.messageId) as mongoose.Types.ObjectId).toString()));
+    if (batchItems.length === 0) {
+      return null;
+    }
+
+    const batch = await PayoutBatch.create({
+      _id: batchId,
+      mentorId,
+      schedule: settings.schedule,
+      items: batchItems,
+      grossAmount: round(batchItems.reduce((sum, item) => sum + item.grossAmount, 0)),
+      platformCommission: round(batchItems.reduce((sum, item) => sum + item.platformCommission, 0)),
+      amount: round(batchItems.reduce((sum, item) => sum + item.mentorPayout, 0)),
+      currency: SETTLEMENT_CURRENCY,
+      periodStart: new Date(Math.min(...periodDates.map(date => date.getTime()))),
+      periodEnd: now
+    });
+    const sessionBookingIds = claimedBookings.map(booking => booking._id.toString());
+
+    let transferId: string;
     try {
-      // Check if there's an active dispute for this booking
-      const activeDispute = await Dispute.findOne({
-        bookingId: booking._id,
-        status: { $in: ['pending', 'mentor_responded', 'admin_review'] }
+      if (!mentor.stripeConnect?.accountId) {
+        throw new PayoutAccountError('Mentor does not have a connected Stripe account');
+      }
+      const isAccountReady = await StripeService.isAccountReady(mentor.stripeConnect.accountId);
+      if (!isAccountReady) {
+        throw new PayoutAccountError('Mentor Stripe account is not ready for payouts');
+      }
+      await TaxService.assertPayoutAllowed(mentorId, batch.amount, now);
+
+      const transfer = await StripeService.transferToAccount({
+        amount: Math.round(batch.amount * 100), // Convert to cents
+        currency: SETTLEMENT_CURRENCY,
+        destination: mentor.stripeConnect.accountId,
+        description: `Payout for ${claimedBookings.length} session(s) and ${claimedMessages.length} cold message(s)`,
+        metadata: {
+          payoutBatchId: batchId.toString(),
+          mentorId,
+          type: 'batch'
+        },
+        idempotencyKey: `payout_batch_${batchId}`
       });
+      transferId = transfer.id;
+    } catch (error) {
+      const failureReason = (error as Error).message || 'Unknown error';
+      batch.status = 'failed';
+      batch.failureReason = failureReason;
+      await batch.save();
+
+      await Booking.updateMany({ payoutBatchId: batchId }, { payoutStatus: 'failed', payoutFailureReason: failureReason });
+      await Message.updateMany({ payoutBatchId: batchId }, { payoutStatus: 'failed' });
+
+      // Mentors hear about failures that won't fix themselves; transient ones are retried quietly
+      const retry = await PayoutRetryService.recordFailure({ target: 'batch', mentorId, payoutBatchId: batchId }, error);
+      if (retry.status === 'scheduled') {
+        return batch;
+      }
 
-      if (activeDispute) {
-        await Booking.findByIdAndUpdate(booking._id, {
-          payoutStatus: 'disputed',
-          payoutProcessedAt: new Date()
+      try {
+        await payoutNotificationService.sendPayoutFailureNotification({
+          mentorId,
+          payoutId: batchId.toString(),
+          amount: batch.amount,
+          status: 'failed',
+          payoutDate: now,
+          failureReason,
+          bookingIds: sessionBookingIds
         });
-        return;
+      } catch (notificationError) {
+        // Don't fail the error handling if notification fails
       }
+      return batch;
+    }
 
-      // Calculate payout amounts
-      const totalAmount = booking.amount;
-      const commissionRate = await this.getCommissionRate(booking.mentorId._id);
-      const platformCommission = totalAmount * commissionRate;
-      const mentorPayout = totalAmount - platformCommission;
+    // The money has moved; settle each item on its own so one bad record doesn't hold up the rest
+    for (const booking of claimedBookings) {
+      const item = batchItems.find(entry => entry.bookingId?.toString() === booking._id.toString()) as IPayoutBatchItem;
+      try {
+        await this.releaseBookingPayout(booking, {
+          totalAmount: item.grossAmount,
+          platformCommission: item.platformCommission,
+          mentorPayout: item.mentorPayout
+        }, transferId, batchId);
+      } catch (error) {
+        console.error(`Failed to settle booking ${booking._id} in payout batch ${batchId}:`, error);
+      }
+    }
+    for (const message of claimedMessages) {
+      const item = batchItems.find(entry => entry.messageId?.toString() === message._id.toString()) as IPayoutBatchItem;
+      try {
+        await LedgerService.postEntry({
+          idempotencyKey: `cold_message_payout_${message._id}`,
+          type: 'cold_message_payout',
+          description: `Payout for answered cold message ${message._id}`,
+          reference: message._id.toString(),
+          lines: [
+            { account: 'platform_escrow', direction: 'debit', amount: item.grossAmount },
+            { account: 'platform_commission', direction: 'credit', amount: item.platformCommission },
+            { account: 'stripe_clearing', direction: 'credit', amount: item.mentorPayout }
+          ].filter(line => Math.round(line.amount * 100) > 0) as LedgerLineInput[]
+        });
+        await Message.updateOne({ _id: message._id }, { payoutStatus: 'completed' });
+      } catch (error) {
+        console.error(`Failed to settle cold message ${message._id} in payout batch ${batchId}:`, error);
+      }
+    }
+
+    batch.status = 'completed';
+    batch.stripeTransferId = transferId;
+    batch.processedAt = new Date();
+    await batch.save();
+    await User.updateOne({ _id: mentorId }, { 'payoutSettings.lastPayoutAt': now });
+    // A retry stays open while items from an earlier failed batch are still waiting
+    const stillFailed = await Booking.exists({ mentorId, payoutStatus: 'failed', payoutBatchId: { $exists: true } })
+      || await Message.exists({ receiverId: mentorId, payoutStatus: 'failed' });
+    if (!stillFailed) {
+      await PayoutRetryService.markSucceeded({ target: 'batch', mentorId });
+    }
+
+    try {
+      await payoutNotificationService.sendPayoutSummaryNotification(mentorId, settings.schedule, {
+        totalAmount: batch.amount,
+        sessionCount: claimedBookings.length,
+        messageCount: claimedMessages.length,
+        payoutCount: 1,
+        periodStart: batch.periodStart,
+        periodEnd: batch.periodEnd
+      });
+    } catch (notificationError) {
+      // Don't fail the payout if notification fails
+    }
+
+    return batch;
+  }
+
+  // Put a mentor's items from failed batches back up for payout and try a fresh batch straight away;
+  // they are re-checked for disputes and refunds on the way, and the schedule and minimum still apply
+  static async retryFailedBatchItems(mentorId: string): Promise<IPayoutBatch | null> {
+    // Leave updatedAt alone: it is what the dispute window is measured from
+    await Booking.updateMany(
+      { mentorId, payoutStatus: 'failed', payoutBatchId: { $exists: true } },
+      { payoutStatus: 'pending', $unset: { payoutBatchId: 1, payoutFailureReason: 1 } },
+      { timestamps: false }
+    );
+    await Message.updateMany(
+      { receiverId: mentorId, payoutStatus: 'failed' },
+      { payoutStatus: 'pending', $unset: { payoutBatchId: 1 } },
+      { timestamps: false }
+    );
+    return this.processMentorBatch(mentorId);
+  }
+
+  // A mentor's payout batches, newest first
+  static async getMentorPayoutBatches(mentorId: string, limit: number = 20): Promise<IPayoutBatch[]> {
+    return PayoutBatch.find({ mentorId })
+      .sort({ createdAt: -1 })
+      .limit(limit);
+  }
+
+  // Work out what a booking pays out; null when there is nothing to pay because it is disputed
+  // or fully refunded (the booking is marked accordingly). Throws if its escrow can't be released
+  private static async prepareBookingPayout(booking: any, commissionRate: number): Promise<BookingPayoutAmounts | null> {
+    // Check if there's an active dispute for this booking
+    const activeDispute = await Dispute.findOne({
+      bookingId: booking._id,
+      status: { $in: ['pending', 'mentor_responded', 'admin_review'] }
+    });
+
+    if (activeDispute) {
+      if (EscrowService.canTransition(booking, 'disputed')) {
+        await EscrowService.transition(booking, 'disputed', {
+          event: 'payout_blocked_by_dispute',
+          metadata: { disputeId: activeDispute._id.toString() }
+        });
+      }
+      await Booking.findByIdAndUpdate(booking._id, {
+        payoutStatus: 'disputed',
+        payoutProcessedAt: new Date()
+      });
+      return null;
+    }
+
+    // Calculate payout amounts on what the student kept paid; each group attendee's seat is paid out on its own
+    const refundedAmount = booking.refund?.status === 'processed' ? (booking.refund.amount || 0) : 0;
+    const totalAmount = Math.max(booking.amount - refundedAmount, 0);
+
+    if (totalAmount === 0) {
+      // Fully refunded; nothing left to pay out
+      await Booking.findByIdAndUpdate(booking._id, {
+        platformCommission: 0,
+        mentorPayout: 0,
+        payoutStatus: 'paid',
+        payoutDate: new Date()
+      });
+      return null;
+    }
+
+    // Refunded or already released money can't be paid out
+    EscrowService.assertCanTransition(booking, 'released');
+
+    const platformCommission = CommissionService.calculateCommissionAtRate(totalAmount, commissionRate, booking.discount);
+    return { totalAmount, platformCommission, mentorPayout: round(totalAmount - platformCommission) };
+  }
+
+  // Release a booking's escrow once its payout has been transferred, and record the mentor's earnings
+  private static async releaseBookingPayout(
+    booking: any,
+    amounts: BookingPayoutAmounts,
+    transferId: string,
+    payoutBatchId?: mongoose.Types.ObjectId
+  ): Promise<void> {
+    const mentorId = (booking.mentorId._id || booking.mentorId).toString();
+
+    await EscrowService.transition(booking, 'released', {
+      event: 'payout_released',
+      amount: amounts.mentorPayout,
+      metadata: {
+        transferId,
+        platformCommission: amounts.platformCommission,
+        ...(payoutBatchId ? { payoutBatchId: payoutBatchId.toString() } : {})
+      }
+    });
+
+    // Token payments leave escrow as the platform's commission and the mentor's cash payout
+    if (booking.paymentMethod === 'tokens') {
+      await LedgerService.postEntry({
+        idempotencyKey: `booking_payout_${booking._id}`,
+        type: 'booking_payout',
+        description: `Payout for token-paid booking ${booking._id}`,
+        reference: booking._id.toString(),
+        lines: [
+          { account: 'platform_escrow', direction: 'debit', amount: amounts.totalAmount },
+          { account: 'platform_commission', direction: 'credit', amount: amounts.platformCommission },
+          { account: 'stripe_clearing', direction: 'credit', amount: amounts.mentorPayout }
+        ].filter(line => Math.round(line.amount * 100) > 0) as LedgerLineInput[]
+      });
+    }
+
+    // Update booking with transfer ID
+    await Booking.findByIdAndUpdate(booking._id, {
+      platformCommission: amounts.platformCommission,
+      mentorPayout: amounts.mentorPayout,
+      stripeTransferId: transferId,
+      payoutStatus: 'completed',
+      payoutDate: new Date()
+    });
+
+    // Update mentor earnings
+    await MentorEarningsService.addEarnings(
+      mentorId,
+      {
+        amount: amounts.mentorPayout,
+        type: 'session',
+        description: booking.groupSessionId ? 'Group session seat payout' : 'Session payout',
+        bookingId: booking._id.toString(),
+        price: booking.price
+      }
+    );
+  }
+
+  // Process payout for a specific booking on its own, outside any batch
+  static async processBookingPayout(booking: any): Promise<void> {
+    try {
+      const amounts = await this.prepareBookingPayout(booking, await this.getCommissionRate(booking.mentorId._id));
+      if (!amounts) {
+        return;
+      }
+      const { platformCommission, mentorPayout } = amounts;
+      const isGroupSeat = !!booking.groupSessionId;
 
       // Update booking with payout information
       await Booking.findByIdAndUpdate(booking._id, {
@@ -76,44 +523,36 @@ export class PayoutService {
       // Get mentor's Stripe Connect account
       const mentor = await User.findById(booking.mentorId._id);
       if (!mentor || !mentor.stripeConnect?.accountId) {
-        throw new Error('Mentor does not have a connected Stripe account');
+        throw new PayoutAccountError('Mentor does not have a connected Stripe account');
       }
 
       // Check if account is ready for payouts
       const isAccountReady = await StripeService.isAccountReady(mentor.stripeConnect.accountId);
       if (!isAccountReady) {
-        throw new Error('Mentor Stripe account is not ready for payouts');
+        throw new PayoutAccountError('Mentor Stripe account is not ready for payouts');
       }
 
+      // Large payouts wait for a complete tax profile
+      await TaxService.assertPayoutAllowed(mentor._id.toString(), mentorPayout);
+
       // Transfer funds to mentor's Stripe account
       const transfer = await StripeService.transferToAccount({
         amount: Math.round(mentorPayout * 100), // Convert to cents
-        currency: 'usd',
+        currency: SETTLEMENT_CURRENCY,
         destination: mentor.stripeConnect.accountId,
-        description: `Session payout for booking ${booking._id}`,
+        description: isGroupSeat
+          ? `Group session seat payout for booking ${booking._id} (group session ${booking.groupSessionId})`
+          : `Session payout for booking ${booking._id}`,
         metadata: {
           bookingId: booking._id.toString(),
           mentorId: (mentor._id as any).toString(),
-          type: 'session'
+          type: 'session',
+          ...(isGroupSeat ? { groupSessionId: booking.groupSessionId.toString() } : {})
         }
       });
 
-      // Update booking with transfer ID
-      await Booking.findByIdAndUpdate(booking._id, {
-        stripeTransferId: transfer.id,
-        payoutStatus: 'completed'
-      });
-
-      // Update mentor earnings
-      await MentorEarningsService.addEarnings(
-        booking.mentorId._id,
-        {
-          amount: mentorPayout,
-          type: 'session',
-          description: 'Session payout',
-          bookingId: booking._id.toString()
-        }
-      );
+      await this.releaseBookingPayout(booking, amounts, transfer.id);
+      await PayoutRetryService.markSucceeded({ target: 'booking', mentorId: booking.mentorId._id, bookingId: booking._id });
 
       // Send payout success notification
       try {
@@ -137,6 +576,19 @@ export class PayoutService {
         payoutFailureReason: (error as Error).message || 'Unknown error'
       });
 
+      // Queue it for another attempt; transient failures are retried without bothering the mentor
+      try {
+        const retry = await PayoutRetryService.recordFailure(
+          { target: 'booking', mentorId: booking.mentorId._id || booking.mentorId, bookingId: booking._id },
+          error
+        );
+        if (retry.status === 'scheduled') {
+          return;
+        }
+      } catch (retryError) {
+        console.error(`Failed to queue payout retry for booking ${booking._id}:`, retryError);
+      }
+
       // Send payout failure notification
       try {
         await payoutNotificationService.sendPayoutFailureNotification({
@@ -173,6 +625,7 @@ export class PayoutService {
       if (!isAccountReady) {
         return;
       }
+      await TaxService.assertPayoutAllowed(mentorId, mentorPayout);
 
       // Transfer funds to mentor's Stripe account
       const transfer = await StripeService.transferToAccount({
@@ -345,6 +798,16 @@ export class PayoutService {
       
       if (decision === 'refund_mentee') {
         // Refund mentee, no payout to mentor
+        const refund = await RefundService.processRefund({
+          bookingId: booking._id.toString(),
+          refundType: booking.paymentMethod === 'tokens' ? 'tokens' : 'payment_method',
+          reason: 'Dispute resolved in favour of the mentee',
+          cancelledBy: 'mentor'
+        });
+        if (!refund.success) {
+          console.error(`Dispute ${disputeId} refund failed:`, refund.error);
+        }
+
         await Booking.findByIdAndUpdate(booking._id, {
           payoutStatus: 'refunded',
           payoutProcessedAt: new Date()
@@ -353,10 +816,31 @@ export class PayoutService {
         // Pay mentor full amount
         await this.processBookingPayout(booking);
       } else if (decision === 'partial_refund' && amount) {
-        // Partial refund - pay mentor reduced amount
+        // Partial refund - refund the mentee's share and pay mentor reduced amount
+        const refund = await RefundService.processRefund({
+          bookingId: booking._id.toString(),
+          refundType: booking.paymentMethod === 'tokens' ? 'tokens' : 'payment_method',
+          reason: 'Dispute resolved with a partial refund',
+          cancelledBy: 'mentor',
+          amount
+        });
+        if (!refund.success) {
+          console.error(`Dispute ${disputeId} partial refund failed:`, refund.error);
+          return;
+        }
+
+        const refunded = await Booking.findById(booking._id);
+        if (refunded && EscrowService.canTransition(refunded, 'released')) {
+          await EscrowService.transition(refunded, 'released', {
+            event: 'dispute_partial_release',
+            amount: booking.amount - amount,
+            metadata: { disputeId }
+          });
+        }
+
         const mentorPayout = booking.amount - amount;
         const commissionRate = await this.getCommissionRate(booking.mentorId);
-        const platformCommission = mentorPayout * commissionRate;
+        const platformCommission = CommissionService.calculateCommissionAtRate(mentorPayout, commissionRate, booking.discount);
         const finalMentorPayout = mentorPayout - platformCommission;
 
         await Booking.findByIdAndUpdate(booking._id, {
@@ -373,7 +857,8 @@ export class PayoutService {
             amount: finalMentorPayout,
             type: 'session',
             description: 'Partial refund session payout',
-            bookingId: booking._id.toString()
+            bookingId: booking._id.toString(),
+            price: booking.price
           }
         );
       }
@@ -0,0 +1,394 @@
+import mongoose from 'mongoose';
+import { Receipt, IReceipt, IReceiptItem, IReceiptTaxLine, ReceiptKind, ReceiptPaymentMethod } from '../models/Receipt';
+import { Counter } from '../models/Counter';
+import { User } from '../models/User';
+import { Booking } from '../models/Booking';
+import { BookingSeries } from '../models/BookingSeries';
+import { CurrencyCode } from '../types';
+import { CurrencyService, CurrencyAmount, SETTLEMENT_CURRENCY } from './currencyService';
+import { StripeService } from './stripeService';
+import { notificationService } from './notificationService';
+import { buildPDF, fitText, PDFLine } from '../utils/pdf';
+
+// Consumer tax by billing country; prices include it, so it is worked out of the total
+export const TAX_RATES: Record<string, { label: string; rate: number }> = {
+  AT: { label: 'VAT', rate: 0.2 },
+  AU: { label: 'GST', rate: 0.1 },
+  BE: { label: 'VAT', rate: 0.21 },
+  CA: { label: 'GST', rate: 0.05 },
+  DE: { label: 'VAT', rate: 0.19 },
+  ES: { label: 'VAT', rate: 0.21 },
+  FR: { label: 'VAT', rate: 0.2 },
+  GB: { label: 'VAT', rate: 0.2 },
+  IE: { label: 'VAT', rate: 0.23 },
+  IN: { label: 'GST', rate: 0.18 },
+  IT: { label: 'VAT', rate: 0.22 },
+  NL: { label: 'VAT', rate: 0.21 },
+  NZ: { label: 'GST', rate: 0.15 },
+  SG: { label: 'GST', rate: 0.09 }
+};
+
+const KIND_TITLES: Record<ReceiptKind, string> = {
+  booking: 'Session booking',
+  token_top_up: 'Token top-up',
+  cold_message: 'Cold message',
+  verification_fee: 'Verification fee'
+};
+
+const TOKEN_NOTE = 'Tokens are a prepaid balance; tax is shown on the receipts for what they are spent on.';
+
+interface IssueReceiptParams {
+  userId: string | mongoose.Types.ObjectId;
+  kind: ReceiptKind;
+  source: string;
+  bookingId?: string | mongoose.Types.ObjectId;
+  seriesId?: string | mongoose.Types.ObjectId;
+  paymentIntentId?: string;
+  paymentMethod: ReceiptPaymentMethod;
+  currency: CurrencyCode;
+  items: IReceiptItem[];
+  taxable: boolean;
+  note?: string;
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+const money = (value: number): string => value.toFixed(2);
+const dateTime = (date: Date): string => `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+
+export class ReceiptService {
+  // Tax contained in a tax-inclusive total for a billing country; none if the country has no rate
+  static calculateTax(total: number, country?: string): { subtotal: number; taxes: IReceiptTaxLine[]; taxTotal: number } {
+    const code = country?.toUpperCase();
+    const tax = code ? TAX_RATES[code] : undefined;
+    if (!code || !tax || total <= 0) {
+      return { subtotal: total, taxes: [], taxTotal: 0 };
+    }
+
+    const taxTotal = round(total - total / (1 + tax.rate));
+    return {
+      subtotal: round(total - taxTotal),
+      taxes: [{ label: tax.label, country: code, rate: tax.rate, amount: taxTotal }],
+      taxTotal
+    };
+  }
+
+  // Receipt for a single booking's payment; notify: false when the payment confirmation carries it
+  static async issueForBooking(
+    bookingId: string | mongoose.Types.ObjectId,
+    payment: { paymentMethod: ReceiptPaymentMethod; paymentIntentId?: string; notify?: boolean }
+  ): Promise<IReceipt | null> {
+    try {
+      const booking = await Booking.findById(bookingId)
+        .populate('mentorId', 'firstName lastName')
+        .populate('serviceId', 'title');
+      if (!booking) {
+        return null;
+      }
+
+      const mentor = booking.mentorId as any;
+      const service = booking.serviceId as any;
+      const byCard = payment.paymentMethod === 'card';
+      const currency = byCard && booking.charge?.currency ? booking.charge.currency : SETTLEMENT_CURRENCY;
+      const amount = byCard && booking.charge?.amount !== undefined ? booking.charge.amount : booking.amount;
+
+      return await this.issue({
+        userId: booking.studentId,
+        kind: 'booking',
+        source: byCard ? `payment_${payment.paymentIntentId}` : `booking_tokens_${booking._id}`,
+        bookingId: booking._id as mongoose.Types.ObjectId,
+        seriesId: booking.seriesId,
+        paymentIntentId: payment.paymentIntentId,
+        paymentMethod: payment.paymentMethod,
+        currency,
+        items: [{
+          description: `${service?.title || 'Session'} with ${mentor?.firstName || ''} ${mentor?.lastName || ''} on ${dateTime(booking.scheduledAt)}`,
+          quantity: 1,
+          unitAmount: amount,
+          amount
+        }],
+        taxable: true,
+        note: byCard ? undefined : `Paid with ${booking.amount} Mentra tokens.`
+      }, payment.notify !== false);
+    } catch (error) {
+      console.error('Issue booking receipt error:', error);
+      return null;
+    }
+  }
+
+  // Receipt for an upfront series paid in one go
+  static async issueForSeries(
+    seriesId: string | mongoose.Types.ObjectId,
+    payment: { paymentMethod: ReceiptPaymentMethod; paymentIntentId?: string; charge?: CurrencyAmount }
+  ): Promise<IReceipt | null> {
+    try {
+      const series = await BookingSeries.findById(seriesId)
+        .populate('mentorId', 'firstName lastName')
+        .populate('serviceId', 'title');
+      if (!series) {
+        return null;
+      }
+
+      const mentor = series.mentorId as any;
+      const service = series.serviceId as any;
+      const byCard = payment.paymentMethod === 'card';
+      const currency = byCard && payment.charge ? payment.charge.currency : SETTLEMENT_CURRENCY;
+      const amount = byCard && payment.charge ? payment.charge.amount : series.totalAmount;
+
+      return await this.issue({
+        userId: series.studentId,
+        kind: 'booking',
+        source: byCard ? `payment_${payment.paymentIntentId}` : `series_tokens_${series._id}`,
+        seriesId: series._id as mongoose.Types.ObjectId,
+        paymentIntentId: payment.paymentIntentId,
+        paymentMethod: payment.paymentMethod,
+        currency,
+        items: [{
+          description: `${service?.title || 'Session'} with ${mentor?.firstName || ''} ${mentor?.lastName || ''}, ${series.frequency} from ${dateTime(series.firstScheduledAtUTC)}`,
+          quantity: series.occurrenceCount,
+          unitAmount: round(amount / series.occurrenceCount),
+          amount
+        }],
+        taxable: true,
+        note: byCard ? undefined : `Paid with ${series.totalAmount} Mentra tokens.`
+      });
+    } catch (error) {
+      console.error('Issue series receipt error:', error);
+      return null;
+    }
+  }
+
+  // Receipt for tokens bought by card; bonus tokens are listed at no charge
+  static async issueForTopUp(userId: string, paymentIntentId: string, tokens: number, bonusTokens: number = 0): Promise<IReceipt | null> {
+    try {
+      const paymentIntent = await StripeService.getPaymentIntent(paymentIntentId);
+      const amount = paymentIntent.amount / 100;
+      const items: IReceiptItem[] = [{ description: `${tokens} Mentra tokens`, quantity: 1, unitAmount: amount, amount }];
+      if (bonusTokens > 0) {
+        items.push({ description: `${bonusTokens} bonus Mentra tokens`, quantity: 1, unitAmount: 0, amount: 0 });
+      }
+
+      return await this.issue({
+        userId,
+        kind: 'token_top_up',
+        source: `payment_${paymentIntentId}`,
+        paymentIntentId,
+        paymentMethod: 'card',
+        currency: CurrencyService.normalize(paymentIntent.currency),
+        items,
+        taxable: false,
+        note: TOKEN_NOTE
+      });
+    } catch (error) {
+      console.error('Issue top-up receipt error:', error);
+      return null;
+    }
+  }
+
+  // Receipt for the tokens taken for a cold message; reference is the ledger reference of the charge
+  static async issueForColdMessage(userId: string, reference: string, tokens: number, description: string): Promise<IReceipt | null> {
+    try {
+      return await this.issue({
+        userId,
+        kind: 'cold_message',
+        source: reference,
+        paymentMethod: 'tokens',
+        currency: SETTLEMENT_CURRENCY,
+        items: [{ description, quantity: 1, unitAmount: tokens, amount: tokens }],
+        taxable: true,
+        note: `Paid with ${tokens} Mentra tokens.`
+      });
+    } catch (error) {
+      console.error('Issue cold message receipt error:', error);
+      return null;
+    }
+  }
+
+  static async issueForVerificationFee(userId: string, paymentIntentId: string): Promise<IReceipt | null> {
+    try {
+      const paymentIntent = await StripeService.getPaymentIntent(paymentIntentId);
+      const amount = paymentIntent.amount / 100;
+
+      return await this.issue({
+        userId,
+        kind: 'verification_fee',
+        source: `payment_${paymentIntentId}`,
+        paymentIntentId,
+        paymentMethod: 'card',
+        currency: CurrencyService.normalize(paymentIntent.currency),
+        items: [{ description: 'Mentr verification badge fee', quantity: 1, unitAmount: amount, amount }],
+        taxable: true
+      });
+    } catch (error) {
+      console.error('Issue verification receipt error:', error);
+      return null;
+    }
+  }
+
+  // Number and store a receipt once per source, with the student's billing details as they are now
+  private static async issue(params: IssueReceiptParams, notify: boolean = true): Promise<IReceipt> {
+    const existing = await Receipt.findOne({ source: params.source });
+    if (existing) {
+      return existing;
+    }
+
+    const user = await User.findById(params.userId).select('firstName lastName email billingDetails');
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const details = user.billingDetails || {};
+    const total = round(params.items.reduce((sum, item) => sum + item.amount, 0));
+    const tax = params.taxable ? this.calculateTax(total, details.country) : { subtotal: total, taxes: [], taxTotal: 0 };
+    const issuedAt = new Date();
+
+    let receipt: IReceipt;
+    try {
+      receipt = await Receipt.create({
+        number: await this.nextNumber(issuedAt),
+        userId: params.userId,
+        kind: params.kind,
+        source: params.source,
+        bookingId: params.bookingId,
+        seriesId: params.seriesId,
+        paymentIntentId: params.paymentIntentId,
+        paymentMethod: params.paymentMethod,
+        currency: params.currency,
+        items: params.items,
+        subtotal: tax.subtotal,
+        taxes: tax.taxes,
+        taxTotal: tax.taxTotal,
+        total,
+        billing: {
+          name: details.name || `${user.firstName} ${user.lastName}`,
+          email: user.email,
+          company: details.company,
+          addressLine1: details.addressLine1,
+          addressLine2: details.addressLine2,
+          city: details.city,
+          state: details.state,
+          postalCode: details.postalCode,
+          country: details.country,
+          taxId: details.taxId
+        },
+        note: params.note,
+        issuedAt
+      });
+    } catch (error: any) {
+      // Another request issued it first; that one keeps the number
+      if (error?.code === 11000) {
+        const issued = await Receipt.findOne({ source: params.source });
+        if (issued) {
+          return issued;
+        }
+      }
+      throw error;
+    }
+
+    if (notify) {
+      await this.sendReceiptEmail(receipt);
+    }
+    return receipt;
+  }
+
+  // Receipt numbers run per calendar year: RCPT-2026-000001
+  private static async nextNumber(issuedAt: Date): Promise<string> {
+    const year = issuedAt.getUTCFullYear();
+    const counter = await Counter.findOneAndUpdate(
+      { _id: `receipt_${year}` },
+      { $inc: { seq: 1 } },
+      { upsert: true, new: true }
+    );
+    return `RCPT-${year}-${String(counter.seq).padStart(6, '0')}`;
+  }
+
+  // Email the receipt on its own; booking receipts ride on the payment confirmation instead
+  private static async sendReceiptEmail(receipt: IReceipt): Promise<void> {
+    try {
+      await notificationService.createNotification({
+        userId: receipt.userId.toString(),
+        type: 'email',
+        category: 'system',
+        title: `Your Mentr receipt ${receipt.number}`,
+        message: `Thanks for your payment of ${CurrencyService.format(receipt.total, receipt.currency)} (${KIND_TITLES[receipt.kind].toLowerCase()}). Your receipt is attached.`,
+        data: { receiptId: receipt._id.toString() },
+        priority: 'medium'
+      });
+    } catch (error) {
+      // The receipt stays available to download
+      console.error('Send receipt email error:', error);
+    }
+  }
+
+  static async getUserReceipts(
+    userId: string,
+    options: { kind?: ReceiptKind; page?: number; limit?: number } = {}
+  ): Promise<{ receipts: IReceipt[]; total: number; pages: number }> {
+    const page = Math.max(options.page || 1, 1);
+    const limit = Math.min(Math.max(options.limit || 20, 1), 100);
+    const filter: Record<string, any> = { userId: new mongoose.Types.ObjectId(userId) };
+    if (options.kind) {
+      filter.kind = options.kind;
+    }
+
+    const [receipts, total] = await Promise.all([
+      Receipt.find(filter).sort({ issuedAt: -1 }).skip((page - 1) * limit).limit(limit),
+      Receipt.countDocuments(filter)
+    ]);
+
+    return { receipts, total, pages: Math.ceil(total / limit) };
+  }
+
+  static getFilename(receipt: IReceipt): string {
+    return `${receipt.number}.pdf`;
+  }
+
+  static toPDF(receipt: IReceipt): Buffer {
+    const currency = receipt.currency.toUpperCase();
+    const { billing } = receipt;
+    const title = `Receipt ${receipt.number}`;
+
+    const lines: PDFLine[] = [
+      { text: 'Mentr', size: 18, bold: true },
+      { text: title, size: 14, bold: true, spaceBefore: 4 },
+      { columns: [{ text: 'Issued', x: 0 }, { text: dateTime(receipt.issuedAt), x: 110 }], spaceBefore: 6 },
+      { columns: [{ text: 'For', x: 0 }, { text: KIND_TITLES[receipt.kind], x: 110 }] },
+      { columns: [{ text: 'Paid with', x: 0 }, { text: receipt.paymentMethod === 'card' ? 'Card' : 'Mentra tokens', x: 110 }] }
+    ];
+    if (receipt.paymentIntentId) {
+      lines.push({ columns: [{ text: 'Payment reference', x: 0 }, { text: receipt.paymentIntentId, x: 110 }] });
+    }
+
+    lines.push({ text: 'Billed to', bold: true, size: 12, spaceBefore: 12 });
+    const cityLine = [billing.city, billing.state, billing.postalCode].filter(Boolean).join(', ');
+    [billing.name, billing.company, billing.email, billing.addressLine1, billing.addressLine2, cityLine, billing.country]
+      .filter(Boolean)
+      .forEach(text => lines.push({ text: text as string }));
+    if (billing.taxId) {
+      lines.push({ text: `Tax ID: ${billing.taxId}` });
+    }
+
+    const itemX = [0, 300, 350, 430];
+    lines.push({ text: 'Items', bold: true, size: 12, spaceBefore: 12 });
+    lines.push({ columns: ['Description', 'Qty', 'Unit price', 'Amount'].map((text, index) => ({ text, x: itemX[index] })), bold: true, size: 9 });
+    for (const item of receipt.items) {
+      lines.push({
+        size: 9,
+        columns: [fitText(item.description, 290, 9), String(item.quantity), money(item.unitAmount), money(item.amount)]
+          .map((text, index) => ({ text, x: itemX[index] }))
+      });
+    }
+
+    lines.push({ columns: [{ text: 'Subtotal', x: 300 }, { text: money(receipt.subtotal), x: 430 }], spaceBefore: 8 });
+    for (const tax of receipt.taxes) {
+      lines.push({ columns: [{ text: `${tax.label} ${Math.round(tax.rate * 10000) / 100}% (${tax.country})`, x: 300 }, { text: money(tax.amount), x: 430 }] });
+    }
+    lines.push({ columns: [{ text: `Total ${currency}`, x: 300 }, { text: money(receipt.total), x: 430 }], bold: true });
+
+    lines.push({ text: `Amounts in ${currency}; prices include tax.`, size: 8, spaceBefore: 16 });
+    if (receipt.note) {
+      lines.push({ text: receipt.note, size: 8 });
+    }
+
+    return buildPDF(lines, title);
+  }
+}
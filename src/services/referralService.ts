@@ -1,9 +1,10 @@
 import { Referral, IReferral } from '../models/Referral';
 import { ReferralCode, IReferralCode } from '../models/ReferralCode';
 import { ReferralEarning, IReferralEarning } from '../models/ReferralEarning';
-import { TokenTransaction } from '../models/TokenTransaction';
 import { User } from '../models/User';
+import { TokenTransaction } from '../models/TokenTransaction';
 import mongoose from 'mongoose';
+import { LedgerService } from './ledgerService';
 
 export class ReferralService {
   /**
@@ -122,6 +123,12 @@ export class ReferralService {
         return { success: true }; // No referral, no earnings to record
       }
 
+      // Bonus tokens are given away, so they never earn commission
+      if (sourceType === 'token_purchase' && mongoose.Types.ObjectId.isValid(sourceId)
+        && await TokenTransaction.exists({ _id: sourceId, subType: 'bonus' })) {
+        return { success: true };
+      }
+
       // Calculate commission (1% of the amount)
       const commissionRate = 0.01;
       const commissionAmount = Math.round(amount * commissionRate * 100) / 100; // Round to 2 decimal places
@@ -155,6 +162,17 @@ export class ReferralService {
 
       await earning.save();
 
+      // The platform owes the referrer this commission until it is paid out in tokens
+      await LedgerService.transfer({
+        idempotencyKey: `referral_accrual_${earning._id}`,
+        type: 'referral_accrual',
+        description: `Referral commission on ${sourceType.replace('_', ' ')}`,
+        reference: sourceId,
+        from: { account: 'platform_commission' },
+        to: { account: 'referral_payable' },
+        amount: commissionAmount
+      });
+
       // Update referral total earnings
       await Referral.findByIdAndUpdate(referral._id, {
         $inc: { totalEarnings: commissionAmount },
@@ -203,22 +221,16 @@ export class ReferralService {
           );
         }
 
-        // Add tokens to user's balance
-        await User.findByIdAndUpdate(
-          userId,
-          { $inc: { mentraBalance: totalAmount } },
-          { session }
-        );
-
-        // Create token transaction record for processed referral earnings
-        const transaction = new TokenTransaction({
-          userId: userId,
-          type: 'credit',
-          amount: totalAmount,
+        // Pay the owed commission into the referrer's wallet
+        await LedgerService.transfer({
+          idempotencyKey: `referral_payout_${pendingEarnings[0]._id}`, // An earning is only ever paid once
+          type: 'referral_payout',
           description: `Referral earnings processed (${pendingEarnings.length} earnings)`,
-          reference: `referral_earnings_${Date.now()}`
-        });
-        await transaction.save({ session });
+          reference: `referral_earnings_${Date.now()}`,
+          from: { account: 'referral_payable' },
+          to: { account: 'user_wallet', userId },
+          amount: totalAmount
+        }, session);
 
         result = { success: true, totalProcessed: totalAmount };
       });
@@ -0,0 +1,124 @@
+import mongoose from 'mongoose';
+import { RefundService } from './refundService';
+import { StripeService } from './stripeService';
+import { EscrowService } from './escrowService';
+import { Booking } from '../models/Booking';
+import { BookingRefund } from '../models/BookingRefund';
+import { ReferralEarning } from '../models/ReferralEarning';
+
+const paidBooking = (fields: Record<string, any> = {}) => ({
+  _id: new mongoose.Types.ObjectId(),
+  studentId: new mongoose.Types.ObjectId(),
+  mentorId: new mongoose.Types.ObjectId(),
+  status: 'cancelled',
+  paymentStatus: 'paid',
+  paymentMethod: 'stripe',
+  stripePaymentIntentId: 'pi_1',
+  escrowStatus: 'captured',
+  amount: 100,
+  refundReserved: 0,
+  save: jest.fn().mockResolvedValue(undefined),
+  ...fields
+});
+
+const refundEntry = (amount: number) => ({
+  _id: new mongoose.Types.ObjectId(),
+  amount,
+  status: 'pending',
+  save: jest.fn().mockResolvedValue(undefined)
+});
+
+describe('RefundService.processRefund', () => {
+  let booking: ReturnType<typeof paidBooking>;
+  let reserve: jest.SpyInstance;
+
+  beforeEach(() => {
+    booking = paidBooking();
+    jest.spyOn(Booking, 'findById').mockResolvedValue(booking as any);
+    jest.spyOn(BookingRefund, 'find').mockReturnValue({
+      select: jest.fn().mockResolvedValue([]),
+      sort: jest.fn().mockResolvedValue([])
+    } as any);
+    jest.spyOn(ReferralEarning, 'findOne').mockResolvedValue(null);
+    reserve = jest.spyOn(Booking, 'updateOne').mockResolvedValue({ modifiedCount: 1 } as any);
+  });
+
+  const refund = (amount?: number) => RefundService.processRefund({
+    bookingId: booking._id.toString(),
+    refundType: 'payment_method',
+    reason: 'Cancelled',
+    cancelledBy: 'mentee',
+    amount
+  });
+
+  it('reserves the amount against what was paid before refunding', async () => {
+    jest.spyOn(BookingRefund, 'create').mockResolvedValue(refundEntry(40) as any);
+    const stripeRefund = jest.spyOn(StripeService, 'createRefund').mockResolvedValue({ id: 're_1' } as any);
+    const transition = jest.spyOn(EscrowService, 'transition').mockResolvedValue(true);
+
+    const result = await refund(40);
+
+    expect(reserve).toHaveBeenCalledWith(
+      { _id: booking._id, $expr: { $gte: [{ $subtract: ['$amount', '$refundReserved'] }, 40 - 0.005] } },
+      { $inc: { refundReserved: 40 } }
+    );
+    expect(stripeRefund).toHaveBeenCalledWith('pi_1', 40);
+    expect(transition).toHaveBeenCalledWith(booking, 'partially_refunded', expect.objectContaining({ amount: 40 }));
+    expect(result).toEqual({ success: true, refundId: 're_1', amount: 40 });
+  });
+
+  it('refuses a refund a concurrent one has already taken the money for', async () => {
+    reserve.mockResolvedValue({ modifiedCount: 0 });
+    const create = jest.spyOn(BookingRefund, 'create');
+    const stripeRefund = jest.spyOn(StripeService, 'createRefund');
+
+    const result = await refund(60);
+
+    expect(result).toEqual({ success: false, error: 'Refund exceeds the amount still refundable' });
+    expect(create).not.toHaveBeenCalled();
+    expect(stripeRefund).not.toHaveBeenCalled();
+  });
+
+  it('gives the reservation back when Stripe rejects the refund', async () => {
+    const entry = refundEntry(100);
+    jest.spyOn(BookingRefund, 'create').mockResolvedValue(entry as any);
+    jest.spyOn(StripeService, 'createRefund').mockRejectedValue(new Error('card_declined'));
+
+    const result = await refund();
+
+    expect(result).toEqual({ success: false, error: 'Stripe refund failed' });
+    expect(entry).toMatchObject({ status: 'failed', failureReason: 'card_declined' });
+    expect(reserve).toHaveBeenLastCalledWith({ _id: booking._id }, { $inc: { refundReserved: -100 } });
+  });
+
+  it('keeps the refund and flags the booking when escrow cannot follow', async () => {
+    const entry = refundEntry(100);
+    jest.spyOn(BookingRefund, 'create').mockResolvedValue(entry as any);
+    jest.spyOn(StripeService, 'createRefund').mockResolvedValue({ id: 're_2' } as any);
+    jest.spyOn(EscrowService, 'transition').mockRejectedValue(new Error('Booking payment cannot move from released to refunded'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const result = await refund();
+
+    expect(result.success).toBe(true);
+    expect(entry).toMatchObject({ status: 'processed', escrowError: 'Booking payment cannot move from released to refunded' });
+    expect(reserve).toHaveBeenCalledWith({ _id: booking._id }, { escrowReconciliationRequired: true });
+  });
+
+  it('starts the reservation of older bookings from their refund ledger', async () => {
+    booking = paidBooking({ refundReserved: undefined });
+    jest.spyOn(Booking, 'findById').mockResolvedValue(booking as any);
+    jest.spyOn(BookingRefund, 'find').mockReturnValue({
+      select: jest.fn().mockResolvedValue([{ amount: 25 }]),
+      sort: jest.fn().mockResolvedValue([])
+    } as any);
+    reserve.mockResolvedValue({ modifiedCount: 0 });
+
+    await refund(80);
+
+    expect(reserve).toHaveBeenNthCalledWith(1,
+      { _id: booking._id, refundReserved: { $exists: false } },
+      { refundReserved: 25 }
+    );
+  });
+});
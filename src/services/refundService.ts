@@ -1,115 +1,318 @@
+import mongoose from 'mongoose';
 import { StripeService } from './stripeService';
+import { CurrencyService } from './currencyService';
 import { User } from '../models/User';
-import { Booking } from '../models/Booking';
+import { Booking, IBooking } from '../models/Booking';
+import { BookingRefund } from '../models/BookingRefund';
 import { TokenTransaction } from '../models/TokenTransaction';
+import { ReferralEarning } from '../models/ReferralEarning';
+import { Referral } from '../models/Referral';
 import Message from '../models/Message';
+import { PackageService } from './packageService';
+import { LedgerService } from './ledgerService';
+import { EscrowService } from './escrowService';
+import { CancellationPolicyService } from './cancellationPolicyService';
 
 export interface RefundOptions {
   bookingId: string;
   refundType: 'payment_method' | 'tokens';
   reason: string;
   cancelledBy: 'mentor' | 'mentee';
+  amount?: number; // Defaults to everything not yet refunded
 }
 
 export class RefundService {
-  // Process refund for booking cancellation
-  static async processRefund(options: RefundOptions): Promise<{ success: boolean; refundId?: string; error?: string }> {
+  // Process a full or partial refund for a booking and record it in the booking's refund ledger
+  static async processRefund(options: RefundOptions): Promise<{ success: boolean; refundId?: string; amount?: number; error?: string }> {
     try {
       const booking = await Booking.findById(options.bookingId);
       if (!booking) {
         return { success: false, error: 'Booking not found' };
       }
 
+      if (booking.paymentStatus === 'refunded') {
+        return { success: false, error: 'Booking already refunded' };
+      }
+
       // Check if booking was paid
       if (booking.paymentStatus !== 'paid') {
         return { success: false, error: 'Booking was not paid, no refund needed' };
       }
 
-      // Check if already refunded
-      if (booking.refund?.status === 'processed') {
+      await this.backfillLegacyRefund(booking);
+
+      const refundable = await this.getRefundableAmount(booking);
+      if (refundable <= 0) {
         return { success: false, error: 'Booking already refunded' };
       }
 
-      const refundAmount = booking.amount;
+      const refundAmount = this.roundAmount(options.amount !== undefined ? Math.min(options.amount, refundable) : refundable);
+      if (refundAmount <= 0) {
+        return { success: false, error: 'Refund amount must be greater than zero' };
+      }
 
-      if (options.refundType === 'payment_method') {
-        // Process Stripe refund
-        if (!booking.stripePaymentIntentId) {
-          return { success: false, error: 'No payment intent found for refund' };
-        }
+      // Sessions paid with a package credit get the credit back rather than money
+      const type = booking.paymentMethod === 'package' ? 'package_credit' : options.refundType;
+      if (type === 'package_credit' && refundAmount < booking.amount) {
+        return { success: false, error: 'Package credits are only returned for full refunds' };
+      }
+      if (type === 'payment_method' && !booking.stripePaymentIntentId) {
+        return { success: false, error: 'No payment intent found for refund' };
+      }
 
-        try {
+      // Money already released to the mentor can't be refunded from escrow
+      const escrowTarget = refundAmount >= refundable ? 'refunded' : 'partially_refunded';
+      if (!EscrowService.canTransition(booking, escrowTarget)) {
+        return { success: false, error: `This booking's payment is ${EscrowService.getState(booking).replace('_', ' ')} and can no longer be refunded` };
+      }
+
+      // Claim the amount before any money moves so concurrent refunds can't together exceed what was paid
+      if (!(await this.reserveRefund(booking, refundAmount))) {
+        return { success: false, error: 'Refund exceeds the amount still refundable' };
+      }
+
+      let entry;
+      try {
+        entry = await BookingRefund.create({
+          bookingId: booking._id,
+          studentId: booking.studentId,
+          mentorId: booking.mentorId,
+          amount: refundAmount,
+          type,
+          reason: options.reason,
+          cancelledBy: options.cancelledBy
+        });
+      } catch (createError) {
+        await this.releaseRefund(booking, refundAmount);
+        throw createError;
+      }
+
+      let refundId: string | undefined;
+      try {
+        if (type === 'package_credit') {
+          if (!(await PackageService.restoreCredit(booking))) {
+            throw new Error('Package credit could not be restored');
+          }
+          refundId = booking.packagePurchaseId?.toString();
+        } else if (type === 'payment_method') {
+          // Refund in the currency the student paid, at the rate they were charged
           const refund = await StripeService.createRefund(
-            booking.stripePaymentIntentId,
-            refundAmount
+            booking.stripePaymentIntentId as string,
+            CurrencyService.fromSettlement(refundAmount, booking.charge)
           );
-
-          // Update booking with refund info
-          booking.refund = {
-            status: 'processed',
-            type: 'payment_method',
-            amount: refundAmount,
-            stripeRefundId: refund.id,
-            processedAt: new Date(),
-            reason: options.reason
-          };
-          await booking.save();
-
-          return { success: true, refundId: refund.id };
-        } catch (stripeError) {
-          
-          // Mark refund as failed
-          booking.refund = {
-            status: 'failed',
-            type: 'payment_method',
-            amount: refundAmount,
-            processedAt: new Date(),
-            reason: `Stripe refund failed: ${stripeError}`
-          };
-          await booking.save();
-
-          return { success: false, error: 'Stripe refund failed' };
-        }
-      } else {
-        // Process token refund
-        const student = await User.findById(booking.studentId);
-        if (!student) {
-          return { success: false, error: 'Student not found' };
+          entry.stripeRefundId = refund.id;
+          refundId = refund.id;
+        } else {
+          refundId = await this.creditTokens(booking, entry._id.toString(), refundAmount, options.reason);
+          entry.tokenTransactionId = new mongoose.Types.ObjectId(refundId);
         }
+      } catch (refundError) {
+        entry.status = 'failed';
+        entry.failureReason = (refundError as Error).message || String(refundError);
+        entry.processedAt = new Date();
+        await entry.save();
+        await this.releaseRefund(booking, refundAmount);
+        await this.syncRefundSummary(booking);
 
-        // Add tokens to student's balance
-        student.mentraBalance += refundAmount;
-        await student.save();
+        return {
+          success: false,
+          error: type === 'payment_method' ? 'Stripe refund failed' : entry.failureReason
+        };
+      }
 
-        // Create transaction record for token refund
-        const transaction = new TokenTransaction({
-          userId: booking.studentId,
-          type: 'credit',
+      try {
+        await EscrowService.transition(booking, escrowTarget, {
+          event: 'refund_processed',
           amount: refundAmount,
-          description: `Booking cancellation refund - ${options.reason}`,
-          reference: `refund_${options.bookingId}_${Date.now()}`
+          reason: options.reason,
+          metadata: { refundId: entry._id.toString(), type, cancelledBy: options.cancelledBy }
         });
-        await transaction.save();
+      } catch (escrowError) {
+        // The money has already moved, so the refund stands; flag the booking for an admin to reconcile
+        console.error(`Escrow transition failed for refund ${entry._id}:`, escrowError);
+        entry.escrowError = (escrowError as Error).message || String(escrowError);
+        await Booking.updateOne({ _id: booking._id }, { escrowReconciliationRequired: true });
+      }
 
-        // Update booking with refund info
-        booking.refund = {
-          status: 'processed',
-          type: 'tokens',
-          amount: refundAmount,
-          processedAt: new Date(),
-          reason: options.reason
-        };
-        await booking.save();
+      entry.status = 'processed';
+      entry.processedAt = new Date();
+      entry.adjustments = await this.applyRefundAdjustments(booking, entry._id.toString(), refundAmount, refundable);
+      await entry.save();
+      await this.syncRefundSummary(booking);
 
-        return { success: true, refundId: (transaction._id as any).toString() };
-      }
+      return { success: true, refundId, amount: refundAmount };
     } catch (error) {
       return { success: false, error: 'Refund processing failed' };
     }
   }
 
+  // Add refunded tokens to the student's balance; token payments come back out of escrow
+  private static async creditTokens(booking: IBooking, refundId: string, amount: number, reason: string): Promise<string> {
+    const posted = await LedgerService.transfer({
+      idempotencyKey: `booking_refund_${refundId}`,
+      type: 'booking_refund',
+      description: `Booking cancellation refund - ${reason}`,
+      reference: `refund_${booking._id}_${refundId}`,
+      from: { account: booking.paymentMethod === 'tokens' ? 'platform_escrow' : 'stripe_clearing' },
+      to: { account: 'user_wallet', userId: booking.studentId },
+      amount
+    });
+
+    return posted.transactionIds[0] || (await TokenTransaction.findOne({ ledgerEntryId: posted.entry._id }))?._id?.toString() as string;
+  }
+
+  // Atomically add a refund to the booking's reserved total, if it still fits under what was paid
+  private static async reserveRefund(booking: IBooking, amount: number): Promise<boolean> {
+    // Bookings refunded before the reservation existed start from their refund ledger
+    if (booking.refundReserved === undefined) {
+      const entries = await BookingRefund.find({ bookingId: booking._id, status: { $in: ['pending', 'processed'] } }).select('amount');
+      await Booking.updateOne(
+        { _id: booking._id, refundReserved: { $exists: false } },
+        { refundReserved: this.roundAmount(entries.reduce((sum, entry) => sum + entry.amount, 0)) }
+      );
+    }
+
+    // Half a cent of slack absorbs floating point error in the running total
+    const reserved = await Booking.updateOne(
+      {
+        _id: booking._id,
+        $expr: { $gte: [{ $subtract: ['$amount', '$refundReserved'] }, amount - 0.005] }
+      },
+      { $inc: { refundReserved: amount } }
+    );
+    return reserved.modifiedCount > 0;
+  }
+
+  // Give back a reservation whose refund failed
+  private static async releaseRefund(booking: IBooking, amount: number): Promise<void> {
+    await Booking.updateOne({ _id: booking._id }, { $inc: { refundReserved: -amount } });
+  }
+
+  // Money still refundable on a booking; pending refunds count as spent
+  static async getRefundableAmount(booking: IBooking): Promise<number> {
+    const entries = await BookingRefund.find({ bookingId: booking._id, status: { $in: ['pending', 'processed'] } }).select('amount');
+    const refunded = entries.reduce((sum, entry) => sum + entry.amount, 0);
+    return this.roundAmount(booking.amount - refunded);
+  }
+
+  // Take a refund's share off the booking's commission split and any pending referral earning
+  private static async applyRefundAdjustments(
+    booking: IBooking,
+    refundId: string,
+    refundAmount: number,
+    netBefore: number
+  ): Promise<{ platformCommission: number; mentorPayout: number; referralCommission: number }> {
+    const share = netBefore > 0 ? Math.min(refundAmount / netBefore, 1) : 1;
+    const adjustments = { platformCommission: 0, mentorPayout: 0, referralCommission: 0 };
+
+    // Money already transferred to the mentor isn't clawed back here
+    const payoutSettled = ['processing', 'paid', 'completed'].includes(booking.payoutStatus as string);
+    if (!payoutSettled) {
+      if (booking.platformCommission) {
+        adjustments.platformCommission = this.roundAmount(booking.platformCommission * share);
+        booking.platformCommission = this.roundAmount(booking.platformCommission - adjustments.platformCommission);
+      }
+      if (booking.mentorPayout) {
+        adjustments.mentorPayout = this.roundAmount(booking.mentorPayout * share);
+        booking.mentorPayout = this.roundAmount(booking.mentorPayout - adjustments.mentorPayout);
+      }
+    }
+
+    // Earnings already converted to tokens stay with the referrer
+    const earning = await ReferralEarning.findOne({ sourceType: 'booking', sourceId: booking._id, status: 'pending' });
+    if (earning) {
+      adjustments.referralCommission = this.roundAmount(earning.commissionAmount * share);
+      earning.amount = this.roundAmount(earning.amount * (1 - share));
+      earning.commissionAmount = this.roundAmount(earning.commissionAmount - adjustments.referralCommission);
+      if (earning.commissionAmount <= 0) {
+        earning.status = 'cancelled';
+      }
+      await earning.save();
+      await Referral.findByIdAndUpdate(earning.referralId, { $inc: { totalEarnings: -adjustments.referralCommission } });
+
+      if (adjustments.referralCommission > 0) {
+        await LedgerService.transfer({
+          idempotencyKey: `referral_reversal_${refundId}`,
+          type: 'referral_reversal',
+          description: 'Referral commission reversed by booking refund',
+          reference: booking._id.toString(),
+          from: { account: 'referral_payable' },
+          to: { account: 'platform_commission' },
+          amount: adjustments.referralCommission
+        });
+      }
+    }
+
+    return adjustments;
+  }
+
+  // Rebuild Booking.refund from the ledger
+  static async syncRefundSummary(booking: IBooking): Promise<void> {
+    const entries = await BookingRefund.find({ bookingId: booking._id }).sort({ createdAt: 1 });
+    if (entries.length === 0) {
+      return;
+    }
+
+    const processed = entries.filter(entry => entry.status === 'processed');
+    const latest = entries[entries.length - 1];
+    const latestProcessed = processed[processed.length - 1];
+    const total = this.roundAmount(processed.reduce((sum, entry) => sum + entry.amount, 0));
+
+    booking.refund = {
+      status: latestProcessed ? 'processed' : latest.status,
+      type: (latestProcessed || latest).type,
+      amount: total,
+      count: processed.length,
+      stripeRefundId: [...processed].reverse().find(entry => entry.stripeRefundId)?.stripeRefundId,
+      processedAt: (latestProcessed || latest).processedAt,
+      reason: latest.status === 'failed' && latest !== latestProcessed
+        ? `Latest refund failed: ${latest.failureReason}`
+        : (latestProcessed || latest).reason
+    };
+
+    if (total >= booking.amount) {
+      booking.paymentStatus = 'refunded';
+    }
+
+    await booking.save();
+  }
+
+  // Bookings refunded before the ledger existed only have the summary; record it as a ledger entry
+  private static async backfillLegacyRefund(booking: IBooking): Promise<void> {
+    if (booking.refund?.status !== 'processed' || !booking.refund.amount) {
+      return;
+    }
+
+    if (await BookingRefund.exists({ bookingId: booking._id })) {
+      return;
+    }
+
+    await BookingRefund.create({
+      bookingId: booking._id,
+      studentId: booking.studentId,
+      mentorId: booking.mentorId,
+      amount: booking.refund.amount,
+      type: booking.refund.type,
+      status: 'processed',
+      reason: booking.refund.reason || 'Refund',
+      cancelledBy: 'mentee',
+      stripeRefundId: booking.refund.stripeRefundId,
+      processedAt: booking.refund.processedAt
+    });
+  }
+
+  // List a booking's refunds, oldest first
+  static async getRefunds(bookingId: string) {
+    return BookingRefund.find({ bookingId }).sort({ createdAt: 1 });
+  }
+
+  // Round to cents
+  private static roundAmount(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
   // Get refund status for a booking
-  static async getRefundStatus(bookingId: string): Promise<{ status: string; details?: any }> {
+  static async getRefundStatus(bookingId: string): Promise<{ status: string; details?: any; refunds?: any[] }> {
     try {
       const booking = await Booking.findById(bookingId).select('refund');
       if (!booking) {
@@ -118,7 +321,8 @@ export class RefundService {
 
       return {
         status: booking.refund?.status || 'none',
-        details: booking.refund
+        details: booking.refund,
+        refunds: await this.getRefunds(bookingId)
       };
     } catch (error) {
       return { status: 'error' };
@@ -127,27 +331,15 @@ export class RefundService {
 
   // Calculate refund amount based on cancellation time
   static calculateRefundAmount(booking: any, cancelledBy: 'mentor' | 'mentee'): number {
-    const now = new Date();
-    const sessionTime = new Date(booking.scheduledAtUTC);
-    const hoursUntilSession = (sessionTime.getTime() - now.getTime()) / (1000 * 60 * 60);
-    const minimumHours = booking.cancellationPolicy?.minimumCancellationHours || 24;
-
     // If mentor cancels, always full refund
     if (cancelledBy === 'mentor') {
       return booking.amount;
     }
 
-    // If mentee cancels, check timing
-    if (hoursUntilSession >= minimumHours) {
-      // Full refund if cancelled within policy
-      return booking.amount;
-    } else if (hoursUntilSession >= 2) {
-      // 50% refund if cancelled 2-24 hours before
-      return booking.amount * 0.5;
-    } else {
-      // No refund if cancelled less than 2 hours before
-      return 0;
-    }
+    // If mentee cancels, apply the refund tiers snapshotted on the booking
+    const hoursUntilSession = (new Date(booking.scheduledAtUTC).getTime() - Date.now()) / (1000 * 60 * 60);
+    const tier = CancellationPolicyService.findTier(CancellationPolicyService.getBookingTiers(booking), hoursUntilSession);
+    return CancellationPolicyService.toRefundAmount(booking.amount, tier?.refundPercent || 0);
   }
 
   // Process refunds for expired cold messages
@@ -169,19 +361,17 @@ export class RefundService {
 
       for (const message of expiredMessages) {
         try {
-          const sender = await User.findById(message.senderId);
-          if (sender) {
-            // Refund tokens
-            sender.mentraBalance = (sender.mentraBalance || 0) + (message.tokensDeducted || 0);
-            await sender.save();
-
-            // Create transaction
-            await TokenTransaction.create({
-              userId: sender._id,
-              type: 'refund',
-              amount: message.tokensDeducted,
+          // Give the escrowed tokens back to the sender
+          if (await User.exists({ _id: message.senderId })) {
+            await LedgerService.transfer({
+              idempotencyKey: `msg_refund_${message._id}`,
+              type: 'cold_message_refund',
               description: `Refund for unanswered cold message`,
-              reference: `msg_refund_${message._id}`
+              reference: `msg_refund_${message._id}`,
+              from: { account: 'platform_escrow' },
+              to: { account: 'user_wallet', userId: message.senderId },
+              amount: message.tokensDeducted as number,
+              walletTransactionType: 'refund'
             });
           }
 
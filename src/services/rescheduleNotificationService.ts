@@ -2,6 +2,8 @@ import { notificationService } from './notificationService';
 import { User } from '../models/User';
 import { Booking } from '../models/Booking';
 import RescheduleRequest from '../models/RescheduleRequest';
+import { bookingNotificationService } from './bookingNotificationService';
+import { CalendarService } from './calendarService';
 
 export interface RescheduleNotificationData {
   rescheduleRequestId: string;
@@ -81,6 +83,19 @@ class RescheduleNotificationService {
         throw new Error('Required data not found for reschedule notification');
       }
 
+      // Bump the event sequence and send the approver an updated calendar invite
+      await CalendarService.bumpSequence(data.bookingId);
+      await bookingNotificationService.sendCalendarInvite(
+        data.bookingId,
+        data.respondedBy as string,
+        'REQUEST',
+        'Session Rescheduled - Calendar Update',
+        {
+          serviceTitle: (booking.serviceId as any)?.title,
+          bookingDate: data.newScheduledAt
+        }
+      );
+
       // Check if requester has reschedule notifications enabled
       const preferences = await notificationService.getUserPreferences(data.requestedBy);
       if (!preferences?.email?.reschedule || !preferences?.inApp?.reschedule) {
@@ -109,7 +124,8 @@ class RescheduleNotificationService {
           responseReason: data.responseReason,
           status: data.status,
           amount: booking.amount,
-          timestamp: new Date()
+          timestamp: new Date(),
+          calendarInvite: { bookingId: data.bookingId, method: 'REQUEST' }
         },
         'high'
       );
@@ -376,6 +392,38 @@ class RescheduleNotificationService {
       throw error;
     }
   }
+
+  // Ask the mentor to reschedule bookings that fall inside newly blocked time
+  async sendBlackoutConflictNotification(mentorId: string, bookings: Array<{
+    bookingId: string;
+    scheduledAt: Date;
+  }>): Promise<void> {
+    try {
+      if (bookings.length === 0) {
+        return;
+      }
+
+      const sessionList = bookings
+        .map(booking => `${new Date(booking.scheduledAt).toLocaleDateString()} at ${new Date(booking.scheduledAt).toLocaleTimeString()}`)
+        .join(', ');
+
+      await notificationService.createMultiTypeNotification(
+        mentorId,
+        'reschedule',
+        'Sessions Affected by Time Off',
+        `You have ${bookings.length} session(s) scheduled during time you just blocked (${sessionList}). Please send a reschedule request to each student.`,
+        {
+          bookingIds: bookings.map(booking => booking.bookingId),
+          bookings,
+          rescheduleLink: `${process.env.FRONTEND_URL}/bookings`,
+          timestamp: new Date()
+        },
+        'high'
+      );
+    } catch (error) {
+      throw error;
+    }
+  }
 }
 
 export const rescheduleNotificationService = new RescheduleNotificationService();
@@ -0,0 +1,54 @@
+import mongoose from 'mongoose';
+import { SlotHoldService } from './slotHoldService';
+import { SlotHold } from '../models/SlotHold';
+
+const at = (time: string) => new Date(`2026-10-20T${time}:00Z`);
+
+describe('SlotHoldService.getHoldUnits', () => {
+  it('covers the session in five-minute units', () => {
+    expect(SlotHoldService.getHoldUnits(at('10:00'), 15)).toEqual([at('10:00'), at('10:05'), at('10:10')]);
+  });
+
+  it('extends the hold over the buffers on both sides', () => {
+    const units = SlotHoldService.getHoldUnits(at('10:00'), 30, 10, 15);
+
+    expect(units[0]).toEqual(at('09:50'));
+    expect(units[units.length - 1]).toEqual(at('10:40'));
+    expect(units).toHaveLength(11);
+  });
+
+  it('rounds a start between units out to the whole unit', () => {
+    expect(SlotHoldService.getHoldUnits(at('10:02'), 5)).toEqual([at('10:00'), at('10:05')]);
+  });
+});
+
+describe('SlotHoldService.acquireHolds', () => {
+  const params = {
+    mentorId: new mongoose.Types.ObjectId(),
+    studentId: new mongoose.Types.ObjectId(),
+    bookingId: new mongoose.Types.ObjectId(),
+    startUTC: at('10:00'),
+    duration: 30,
+    bufferAfter: 10
+  };
+
+  it('holds the buffered units for the booking', async () => {
+    const insert = jest.spyOn(SlotHold, 'insertMany').mockResolvedValue([] as any);
+
+    await expect(SlotHoldService.acquireHolds(params)).resolves.toMatchObject({ success: true });
+    const holds = insert.mock.calls[0][0] as any[];
+    expect(holds).toHaveLength(8);
+    expect(holds[7]).toMatchObject({ bookingId: params.bookingId, slotUTC: at('10:35') });
+  });
+
+  it('rolls back its units when another booking holds part of the time', async () => {
+    jest.spyOn(SlotHold, 'insertMany').mockRejectedValue(Object.assign(new Error('E11000'), { code: 11000 }));
+    const rollback = jest.spyOn(SlotHold, 'deleteMany').mockResolvedValue({ deletedCount: 2 } as any);
+
+    await expect(SlotHoldService.acquireHolds(params)).resolves.toEqual({
+      success: false,
+      error: 'Time slot is being booked by someone else'
+    });
+    expect(rollback).toHaveBeenCalledWith({ bookingId: params.bookingId });
+  });
+});
@@ -0,0 +1,87 @@
+import mongoose from 'mongoose';
+import { SlotHold } from '../models/SlotHold';
+
+// Holds reserve mentor time in fixed units so overlapping requests collide on the unique index
+export const SLOT_HOLD_UNIT_MINUTES = 5;
+// Matches the window AutoCancelService gives unpaid bookings before cancelling them
+export const SLOT_HOLD_TTL_MINUTES = 4 * 60;
+
+export interface AcquireHoldParams {
+  mentorId: string | mongoose.Types.ObjectId;
+  studentId: string | mongoose.Types.ObjectId;
+  bookingId: string | mongoose.Types.ObjectId;
+  startUTC: Date;
+  duration: number; // in minutes
+  bufferBefore?: number; // in minutes; the service's buffers are held along with the session
+  bufferAfter?: number; // in minutes
+  ttlMinutes?: number; // Defaults to the checkout window
+}
+
+export class SlotHoldService {
+  // Get the hold units covered by a session and its buffers
+  static getHoldUnits(startUTC: Date, duration: number, bufferBefore: number = 0, bufferAfter: number = 0): Date[] {
+    const unitMs = SLOT_HOLD_UNIT_MINUTES * 60000;
+    const first = Math.floor((startUTC.getTime() - bufferBefore * 60000) / unitMs) * unitMs;
+    const end = startUTC.getTime() + (duration + bufferAfter) * 60000;
+    const units: Date[] = [];
+
+    for (let unit = first; unit < end; unit += unitMs) {
+      units.push(new Date(unit));
+    }
+
+    return units;
+  }
+
+  // Reserve the session's time for a booking at checkout; fails if any unit is already held
+  static async acquireHolds(params: AcquireHoldParams): Promise<{ success: boolean; expiresAt?: Date; error?: string }> {
+    const expiresAt = new Date(Date.now() + (params.ttlMinutes || SLOT_HOLD_TTL_MINUTES) * 60000);
+    const holds = this.getHoldUnits(params.startUTC, params.duration, params.bufferBefore, params.bufferAfter).map(slotUTC => ({
+      mentorId: params.mentorId,
+      studentId: params.studentId,
+      bookingId: params.bookingId,
+      slotUTC,
+      expiresAt
+    }));
+
+    try {
+      await SlotHold.insertMany(holds, { ordered: true });
+      return { success: true, expiresAt };
+    } catch (error: any) {
+      // Roll back any units inserted before the collision
+      await SlotHold.deleteMany({ bookingId: params.bookingId });
+
+      if (error?.code === 11000 || error?.writeErrors?.some((writeError: any) => writeError.code === 11000)) {
+        return { success: false, error: 'Time slot is being booked by someone else' };
+      }
+      throw error;
+    }
+  }
+
+  // Restart the checkout window on holds that are still live, e.g. when a waitlist offer is accepted
+  static async renewHolds(bookingId: string | mongoose.Types.ObjectId, now: Date = new Date()): Promise<{ success: boolean; expiresAt?: Date; error?: string }> {
+    const expiresAt = new Date(now.getTime() + SLOT_HOLD_TTL_MINUTES * 60000);
+    const result = await SlotHold.updateMany(
+      { bookingId, expiresAt: { $gt: now } },
+      { expiresAt }
+    );
+    return result.modifiedCount > 0 ? { success: true, expiresAt } : { success: false, error: 'The hold on this slot has expired' };
+  }
+
+  // Convert a booking's holds once payment is confirmed; the paid booking now guards the slot
+  static async convertHolds(bookingId: string | mongoose.Types.ObjectId, session?: mongoose.ClientSession): Promise<number> {
+    const result = await SlotHold.deleteMany({ bookingId }, { session });
+    return result.deletedCount;
+  }
+
+  // Release a booking's holds when it is cancelled before payment
+  static async releaseHolds(bookingId: string | mongoose.Types.ObjectId): Promise<number> {
+    const result = await SlotHold.deleteMany({ bookingId });
+    return result.deletedCount;
+  }
+
+  // Release holds whose checkout window has passed
+  static async releaseExpiredHolds(now: Date = new Date()): Promise<number> {
+    const result = await SlotHold.deleteMany({ expiresAt: { $lt: now } });
+    return result.deletedCount;
+  }
+}
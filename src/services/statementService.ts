@@ -0,0 +1,423 @@
+import mongoose from 'mongoose';
+import { Booking } from '../models/Booking';
+import { User } from '../models/User';
+import Message from '../models/Message';
+import { PayoutBatch, IPayoutBatchItem } from '../models/PayoutBatch';
+import { EarningsStatement } from '../models/EarningsStatement';
+import { MentorEarningsService } from './mentorEarningsService';
+import { CommissionService } from './commissionService';
+import { SETTLEMENT_CURRENCY } from './currencyService';
+import emailService from './emailService';
+import { buildCSV } from '../utils/csv';
+import { buildPDF, fitText, PDFLine } from '../utils/pdf';
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+// Statuses a session can be in once it has taken place
+const HELD_SESSION_STATUSES = ['completed', 'reviewable', 'reviewed'];
+
+export interface StatementLine {
+  date: Date;
+  type: 'session' | 'cold_message';
+  reference: string; // Booking or message id
+  description: string;
+  grossAmount: number; // What the student paid
+  refundedAmount: number;
+  commissionTier?: string;
+  commissionRate: number; // Share of the amount kept that went to the platform
+  platformCommission: number;
+  netEarnings: number;
+  payoutStatus: string;
+}
+
+export interface StatementPayout {
+  date: Date;
+  reference: string; // Stripe transfer id
+  description: string;
+  amount: number;
+  itemCount: number;
+}
+
+export interface MentorStatement {
+  mentor: { id: string; name: string; email: string };
+  year: number;
+  month: number;
+  periodStart: Date;
+  periodEnd: Date; // Exclusive
+  currency: string;
+  lines: StatementLine[];
+  payouts: StatementPayout[];
+  totals: {
+    grossAmount: number;
+    refundedAmount: number;
+    platformCommission: number;
+    netEarnings: number;
+    paidOut: number;
+    sessionCount: number;
+    coldMessageCount: number;
+  };
+  recordedEarnings?: any; // The month's entry from MentorEarningsService.getMonthlyEarnings
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+const money = (value: number): string => value.toFixed(2);
+const day = (date: Date): string => date.toISOString().slice(0, 10);
+const personName = (person: any): string => person?.firstName ? `${person.firstName} ${person.lastName}` : 'Unknown';
+
+export class StatementService {
+  // Validate a statement month; statements cover whole UTC calendar months that have started
+  static parsePeriod(year: unknown, month: unknown): { period?: { year: number; month: number; start: Date; end: Date }; error?: string } {
+    const y = Number(year);
+    const m = Number(month);
+    if (!Number.isInteger(y) || !Number.isInteger(m) || m < 1 || m > 12 || y < 2000) {
+      return { error: 'Invalid statement month' };
+    }
+
+    const start = new Date(Date.UTC(y, m - 1, 1));
+    if (start > new Date()) {
+      return { error: 'Statements are only available for months that have started' };
+    }
+    return { period: { year: y, month: m, start, end: new Date(Date.UTC(y, m, 1)) } };
+  }
+
+  // Build a mentor's statement for a month: each session and cold message earned, refunds,
+  // the commission taken and the payouts transferred during the month
+  static async buildStatement(mentorId: string, year: number, month: number): Promise<MentorStatement | null> {
+    const { period } = this.parsePeriod(year, month);
+    const mentor = await User.findById(mentorId).select('firstName lastName email mentorEarnings');
+    if (!period || !mentor) {
+      return null;
+    }
+
+    const currentTier = mentor.mentorEarnings?.commissionTier || 'tier1';
+    const lines: StatementLine[] = [];
+
+    const bookings = await Booking.find({
+      mentorId,
+      status: { $in: HELD_SESSION_STATUSES },
+      scheduledAt: { $gte: period.start, $lt: period.end }
+    })
+      .populate('serviceId', 'title')
+      .populate('studentId', 'firstName lastName')
+      .sort({ scheduledAt: 1 });
+
+    for (const booking of bookings) {
+      const refundedAmount = booking.refund?.status === 'processed' ? (booking.refund.amount || 0) : 0;
+      const keptAmount = Math.max(booking.amount - refundedAmount, 0);
+      const commissionTier = booking.commissionTier || currentTier;
+      // Paid-out bookings carry the commission actually taken; the rest are estimated at their tier
+      const platformCommission = booking.platformCommission ?? CommissionService.calculateCommissionAtRate(
+        keptAmount, CommissionService.getCommissionRate(commissionTier), booking.discount
+      );
+      const netEarnings = booking.mentorPayout ?? round(keptAmount - platformCommission);
+
+      lines.push({
+        date: booking.scheduledAt,
+        type: 'session',
+        reference: booking._id.toString(),
+        description: `${(booking.serviceId as any)?.title || 'Session'} with ${personName(booking.studentId)}`,
+        grossAmount: booking.amount,
+        refundedAmount,
+        commissionTier,
+        commissionRate: keptAmount > 0 ? round(platformCommission / keptAmount * 100) / 100 : 0,
+        platformCommission: round(platformCommission),
+        netEarnings: round(netEarnings),
+        payoutStatus: booking.payoutStatus || 'pending'
+      });
+    }
+
+    const messages = await Message.find({
+      receiverId: mentorId,
+      isColdMessage: true,
+      tokensDeducted: { $gt: 0 },
+      paymentStatus: { $in: ['paid', 'refunded'] },
+      createdAt: { $gte: period.start, $lt: period.end }
+    })
+      .populate('senderId', 'firstName lastName')
+      .sort({ createdAt: 1 });
+
+    // Paid-out cold messages use the amounts from their payout batch
+    const batchItems = new Map<string, IPayoutBatchItem>();
+    if (messages.length > 0) {
+      const batches = await PayoutBatch.find({ status: 'completed', 'items.messageId': { $in: messages.map(message => message._id) } });
+      batches.forEach(batch => batch.items.forEach(item => {
+        if (item.messageId) {
+          batchItems.set(item.messageId.toString(), item);
+        }
+      }));
+    }
+
+    const currentRate = CommissionService.getCommissionRate(currentTier);
+    for (const message of messages) {
+      const grossAmount = message.tokensDeducted as number;
+      const refundedAmount = message.paymentStatus === 'refunded' ? grossAmount : 0;
+      const item = batchItems.get(message._id.toString());
+      const platformCommission = item
+        ? item.platformCommission
+        : CommissionService.calculateCommissionAtRate(grossAmount - refundedAmount, currentRate);
+
+      lines.push({
+        date: message.createdAt,
+        type: 'cold_message',
+        reference: message._id.toString(),
+        description: `Cold message from ${personName(message.senderId)}`,
+        grossAmount,
+        refundedAmount,
+        commissionTier: item ? undefined : currentTier,
+        commissionRate: grossAmount - refundedAmount > 0 ? round(platformCommission / (grossAmount - refundedAmount) * 100) / 100 : 0,
+        platformCommission: round(platformCommission),
+        netEarnings: item ? item.mentorPayout : round(grossAmount - refundedAmount - platformCommission),
+        payoutStatus: message.paymentStatus === 'refunded' ? 'refunded' : (message.payoutStatus || 'pending')
+      });
+    }
+
+    lines.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    const payouts: StatementPayout[] = [];
+    const batches = await PayoutBatch.find({
+      mentorId,
+      status: 'completed',
+      processedAt: { $gte: period.start, $lt: period.end }
+    });
+    for (const batch of batches) {
+      payouts.push({
+        date: batch.processedAt as Date,
+        reference: batch.stripeTransferId || batch._id.toString(),
+        description: `${batch.schedule.replace('_', '-')} payout`,
+        amount: batch.amount,
+        itemCount: batch.items.length
+      });
+    }
+
+    // Payouts made one booking at a time, outside any batch
+    const singlePayouts = await Booking.find({
+      mentorId,
+      payoutStatus: 'completed',
+      payoutBatchId: { $exists: false },
+      stripeTransferId: { $exists: true },
+      payoutDate: { $gte: period.start, $lt: period.end }
+    }).select('payoutDate stripeTransferId mentorPayout');
+    for (const booking of singlePayouts) {
+      payouts.push({
+        date: booking.payoutDate as Date,
+        reference: booking.stripeTransferId as string,
+        description: `Session payout for booking ${booking._id}`,
+        amount: booking.mentorPayout || 0,
+        itemCount: 1
+      });
+    }
+    payouts.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    const sum = (values: number[]): number => round(values.reduce((total, value) => total + value, 0));
+    const monthlyEarnings = await MentorEarningsService.getMonthlyEarnings(mentorId, year, 12);
+
+    return {
+      mentor: { id: mentorId.toString(), name: personName(mentor), email: mentor.email },
+      year,
+      month,
+      periodStart: period.start,
+      periodEnd: period.end,
+      currency: SETTLEMENT_CURRENCY,
+      lines,
+      payouts,
+      totals: {
+        grossAmount: sum(lines.map(line => line.grossAmount)),
+        refundedAmount: sum(lines.map(line => line.refundedAmount)),
+        platformCommission: sum(lines.map(line => line.platformCommission)),
+        netEarnings: sum(lines.map(line => line.netEarnings)),
+        paidOut: sum(payouts.map(payout => payout.amount)),
+        sessionCount: lines.filter(line => line.type === 'session').length,
+        coldMessageCount: lines.filter(line => line.type === 'cold_message').length
+      },
+      recordedEarnings: monthlyEarnings.find((entry: any) => entry.month === month)
+    };
+  }
+
+  static getFilename(statement: MentorStatement, extension: 'csv' | 'pdf'): string {
+    return `mentr-statement-${statement.year}-${String(statement.month).padStart(2, '0')}.${extension}`;
+  }
+
+  static toCSV(statement: MentorStatement): string {
+    const rows = statement.lines.map(line => [
+      day(line.date),
+      line.type,
+      line.reference,
+      line.description,
+      money(line.grossAmount),
+      money(line.refundedAmount),
+      line.commissionTier,
+      line.commissionRate,
+      money(line.platformCommission),
+      money(line.netEarnings),
+      line.payoutStatus,
+      ''
+    ]);
+
+    for (const payout of statement.payouts) {
+      rows.push([day(payout.date), 'payout', payout.reference, payout.description, '', '', '', '', '', '', 'completed', money(payout.amount)]);
+    }
+
+    const { totals } = statement;
+    rows.push([
+      '', 'total', '', `${MONTH_NAMES[statement.month - 1]} ${statement.year}`,
+      money(totals.grossAmount), money(totals.refundedAmount), '', '',
+      money(totals.platformCommission), money(totals.netEarnings), '', money(totals.paidOut)
+    ]);
+
+    return buildCSV([
+      'Date', 'Type', 'Reference', 'Description', 'Gross', 'Refunded', 'Commission Tier', 'Commission Rate',
+      'Platform Commission', 'Net Earnings', 'Status', 'Paid Out'
+    ], rows);
+  }
+
+  static toPDF(statement: MentorStatement): Buffer {
+    const title = `Earnings statement - ${MONTH_NAMES[statement.month - 1]} ${statement.year}`;
+    const { totals } = statement;
+    const currency = statement.currency.toUpperCase();
+
+    const lines: PDFLine[] = [
+      { text: 'Mentr', size: 18, bold: true },
+      { text: title, size: 14, bold: true, spaceBefore: 4 },
+      { text: `${statement.mentor.name} <${statement.mentor.email}>`, spaceBefore: 6 },
+      { text: `Period: ${day(statement.periodStart)} to ${day(new Date(statement.periodEnd.getTime() - 1))} (UTC). Amounts in ${currency}.` },
+      { text: 'Summary', bold: true, size: 12, spaceBefore: 12 },
+      { columns: [{ text: 'Sessions', x: 0 }, { text: String(totals.sessionCount), x: 180 }] },
+      { columns: [{ text: 'Cold messages', x: 0 }, { text: String(totals.coldMessageCount), x: 180 }] },
+      { columns: [{ text: 'Gross', x: 0 }, { text: money(totals.grossAmount), x: 180 }] },
+      { columns: [{ text: 'Refunded', x: 0 }, { text: money(totals.refundedAmount), x: 180 }] },
+      { columns: [{ text: 'Platform commission', x: 0 }, { text: money(totals.platformCommission), x: 180 }] },
+      { columns: [{ text: 'Net earnings', x: 0 }, { text: money(totals.netEarnings), x: 180 }], bold: true },
+      { columns: [{ text: 'Paid out this month', x: 0 }, { text: money(totals.paidOut), x: 180 }] },
+      { text: 'Earnings', bold: true, size: 12, spaceBefore: 12 }
+    ];
+
+    const earningsHeader = ['Date', 'Description', 'Gross', 'Refund', 'Tier', 'Commission', 'Net', 'Status'];
+    const earningsX = [0, 58, 245, 290, 335, 370, 425, 465];
+    lines.push({ columns: earningsHeader.map((text, index) => ({ text, x: earningsX[index] })), bold: true, size: 8 });
+    if (statement.lines.length === 0) {
+      lines.push({ text: 'No sessions or cold messages this month.', size: 8 });
+    }
+    for (const line of statement.lines) {
+      lines.push({
+        size: 8,
+        columns: [
+          day(line.date),
+          fitText(line.description, 185, 8),
+          money(line.grossAmount),
+          money(line.refundedAmount),
+          line.commissionTier || '',
+          `${money(line.platformCommission)} (${Math.round(line.commissionRate * 100)}%)`,
+          money(line.netEarnings),
+          line.payoutStatus
+        ].map((text, index) => ({ text, x: earningsX[index] }))
+      });
+    }
+
+    lines.push({ text: 'Payouts', bold: true, size: 12, spaceBefore: 12 });
+    const payoutX = [0, 58, 240, 400];
+    lines.push({ columns: ['Date', 'Reference', 'Description', 'Amount'].map((text, index) => ({ text, x: payoutX[index] })), bold: true, size: 8 });
+    if (statement.payouts.length === 0) {
+      lines.push({ text: 'No payouts this month.', size: 8 });
+    }
+    for (const payout of statement.payouts) {
+      lines.push({
+        size: 8,
+        columns: [
+          day(payout.date),
+          fitText(payout.reference, 175, 8),
+          fitText(`${payout.description} (${payout.itemCount} item${payout.itemCount !== 1 ? 's' : ''})`, 155, 8),
+          money(payout.amount)
+        ].map((text, index) => ({ text, x: payoutX[index] }))
+      });
+    }
+
+    lines.push({ text: `Generated ${new Date().toISOString()}`, size: 7, spaceBefore: 16 });
+    return buildPDF(lines, title);
+  }
+
+  // Email every mentor with activity in a month their statement, as CSV and PDF; safe to run again
+  static async sendMonthlyStatements(year: number, month: number): Promise<{ sent: number; failed: number }> {
+    const { period } = this.parsePeriod(year, month);
+    const stats = { sent: 0, failed: 0 };
+    if (!period) {
+      return stats;
+    }
+
+    const inMonth = { $gte: period.start, $lt: period.end };
+    const mentorIds = new Set<string>([
+      ...(await Booking.distinct('mentorId', { status: { $in: HELD_SESSION_STATUSES }, scheduledAt: inMonth })),
+      ...(await Booking.distinct('mentorId', { payoutStatus: 'completed', payoutDate: inMonth })),
+      ...(await Message.distinct('receiverId', { isColdMessage: true, tokensDeducted: { $gt: 0 }, createdAt: inMonth })),
+      ...(await PayoutBatch.distinct('mentorId', { status: 'completed', processedAt: inMonth }))
+    ].map(id => id.toString()));
+
+    for (const mentorId of mentorIds) {
+      try {
+        const existing = await EarningsStatement.findOne({ mentorId, year, month });
+        if (existing?.emailedAt) {
+          continue;
+        }
+
+        const statement = await this.buildStatement(mentorId, year, month);
+        if (!statement) {
+          continue;
+        }
+
+        await EarningsStatement.findOneAndUpdate(
+          { mentorId, year, month },
+          { ...statement.totals },
+          { upsert: true }
+        );
+
+        const monthName = `${MONTH_NAMES[month - 1]} ${year}`;
+        const delivered = await emailService.sendGenericEmail(
+          statement.mentor.email,
+          `Your Mentr earnings statement for ${monthName}`,
+          [
+            `Hi ${statement.mentor.name.split(' ')[0]},`,
+            `Your earnings statement for ${monthName} is attached as a PDF and a CSV for your records.`,
+            `Net earnings: $${money(statement.totals.netEarnings)} from ${statement.totals.sessionCount} session(s) and ${statement.totals.coldMessageCount} cold message(s). Paid out during the month: $${money(statement.totals.paidOut)}.`
+          ].join('\n\n'),
+          mentorId,
+          [
+            { filename: this.getFilename(statement, 'pdf'), content: this.toPDF(statement), contentType: 'application/pdf' },
+            { filename: this.getFilename(statement, 'csv'), content: this.toCSV(statement), contentType: 'text/csv' }
+          ]
+        );
+
+        if (delivered) {
+          await EarningsStatement.updateOne({ mentorId, year, month }, { emailedAt: new Date() });
+          stats.sent++;
+        } else {
+          stats.failed++;
+        }
+      } catch (error) {
+        console.error(`Statement for mentor ${mentorId} (${year}-${month}) failed:`, error);
+        stats.failed++;
+      }
+    }
+
+    return stats;
+  }
+
+  // Statement months for a year, with what was earned and whether the statement was emailed
+  static async listStatements(mentorId: string | mongoose.Types.ObjectId, year: number): Promise<Array<{
+    year: number;
+    month: number;
+    totalEarnings: number;
+    sessionsCompleted: number;
+    coldMessages: number;
+    emailedAt?: Date;
+  }>> {
+    const monthlyEarnings = await MentorEarningsService.getMonthlyEarnings(mentorId.toString(), year, 12);
+    const sent = await EarningsStatement.find({ mentorId, year }).select('month emailedAt');
+
+    return monthlyEarnings.map((entry: any) => ({
+      year,
+      month: entry.month,
+      totalEarnings: entry.totalEarnings,
+      sessionsCompleted: entry.sessionsCompleted,
+      coldMessages: entry.coldMessages,
+      emailedAt: sent.find(statement => statement.month === entry.month)?.emailedAt
+    }));
+  }
+}
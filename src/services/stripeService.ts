@@ -1,6 +1,6 @@
 import Stripe from 'stripe';
 
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+let stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2025-08-27.basil',
 });
 
@@ -10,6 +10,9 @@ export interface CreatePaymentIntentParams {
   bookingId: string;
   customerEmail: string;
   description: string;
+  metadata?: Record<string, string>; // Extra metadata stored alongside bookingId
+  customerId?: string; // Attach to a Stripe Customer so saved cards can be used
+  savePaymentMethod?: boolean; // Keep the card on the customer for later off-session charges
 }
 
 export interface PaymentIntentResponse {
@@ -36,9 +39,49 @@ export interface TransferParams {
   destination: string; // Connected account ID
   description: string;
   metadata?: Record<string, string>;
+  idempotencyKey?: string; // Retrying with the same key never transfers twice
+}
+
+// A failed transfer, keeping what Stripe said so callers can tell a retryable failure from a final one
+export class TransferError extends Error {
+  constructor(message: string, public stripeType?: string, public code?: string, public statusCode?: number) {
+    super(message);
+    this.name = 'TransferError';
+  }
+}
+
+export interface OffSessionChargeParams {
+  amount: number; // Amount in cents
+  currency: string;
+  customerId: string;
+  paymentMethodId: string;
+  description: string;
+  metadata: Record<string, string>;
+  idempotencyKey: string; // Retrying with the same key never charges twice
+}
+
+export interface OffSessionChargeResult {
+  success: boolean;
+  paymentIntentId?: string;
+  requiresAction?: boolean; // The bank wants the customer to authenticate, so they must pay on-session
+  error?: string;
+}
+
+export interface SavedPaymentMethod {
+  id: string;
+  brand?: string;
+  last4?: string;
+  expMonth?: number;
+  expYear?: number;
+  isDefault: boolean;
 }
 
 export class StripeService {
+  // Replace the Stripe client, e.g. with a local mock in tests
+  static setClient(client: Stripe): void {
+    stripe = client;
+  }
+
   // Create a payment intent
   static async createPaymentIntent(params: CreatePaymentIntentParams): Promise<PaymentIntentResponse> {
     try {
@@ -46,10 +89,13 @@ export class StripeService {
         amount: params.amount, // Amount is already in cents from the controller
         currency: params.currency,
         metadata: {
+          ...params.metadata,
           bookingId: params.bookingId,
           customerEmail: params.customerEmail,
         },
         description: params.description,
+        customer: params.customerId,
+        setup_future_usage: params.customerId && params.savePaymentMethod ? 'off_session' : undefined,
         automatic_payment_methods: {
           enabled: true,
         },
@@ -81,17 +127,139 @@ export class StripeService {
   }
 
   // Create a customer
-  static async createCustomer(email: string, name?: string) {
+  static async createCustomer(email: string, name?: string, metadata?: Record<string, string>) {
     try {
       return await stripe.customers.create({
         email,
         name,
+        metadata,
       });
     } catch (error) {
       throw new Error('Failed to create customer');
     }
   }
 
+  // Start saving a card to a customer without charging it
+  static async createSetupIntent(customerId: string): Promise<{ clientSecret: string; setupIntentId: string }> {
+    try {
+      const setupIntent = await stripe.setupIntents.create({
+        customer: customerId,
+        usage: 'off_session',
+        automatic_payment_methods: {
+          enabled: true,
+        },
+      });
+
+      return {
+        clientSecret: setupIntent.client_secret!,
+        setupIntentId: setupIntent.id,
+      };
+    } catch (error) {
+      throw new Error('Failed to create setup intent');
+    }
+  }
+
+  // List a customer's saved cards, default first
+  static async listPaymentMethods(customerId: string): Promise<SavedPaymentMethod[]> {
+    try {
+      const [customer, paymentMethods] = await Promise.all([
+        stripe.customers.retrieve(customerId),
+        stripe.paymentMethods.list({ customer: customerId, type: 'card' }),
+      ]);
+      const defaultId = this.getDefaultPaymentMethodId(customer);
+
+      return paymentMethods.data
+        .map(method => ({
+          id: method.id,
+          brand: method.card?.brand,
+          last4: method.card?.last4,
+          expMonth: method.card?.exp_month,
+          expYear: method.card?.exp_year,
+          isDefault: method.id === defaultId,
+        }))
+        .sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+    } catch (error) {
+      throw new Error('Failed to list payment methods');
+    }
+  }
+
+  // Retrieve a payment method
+  static async getPaymentMethod(paymentMethodId: string) {
+    try {
+      return await stripe.paymentMethods.retrieve(paymentMethodId);
+    } catch (error) {
+      throw new Error('Failed to retrieve payment method');
+    }
+  }
+
+  // Remove a saved payment method from its customer
+  static async detachPaymentMethod(paymentMethodId: string) {
+    try {
+      return await stripe.paymentMethods.detach(paymentMethodId);
+    } catch (error) {
+      throw new Error('Failed to remove payment method');
+    }
+  }
+
+  // Make a saved payment method the customer's default
+  static async setDefaultPaymentMethod(customerId: string, paymentMethodId: string) {
+    try {
+      return await stripe.customers.update(customerId, {
+        invoice_settings: { default_payment_method: paymentMethodId },
+      });
+    } catch (error) {
+      throw new Error('Failed to set default payment method');
+    }
+  }
+
+  // Charge a saved payment method while the customer isn't present
+  static async chargeOffSession(params: OffSessionChargeParams): Promise<OffSessionChargeResult> {
+    try {
+      const paymentIntent = await stripe.paymentIntents.create({
+        amount: params.amount,
+        currency: params.currency,
+        customer: params.customerId,
+        payment_method: params.paymentMethodId,
+        description: params.description,
+        metadata: params.metadata,
+        off_session: true,
+        confirm: true,
+      }, {
+        idempotencyKey: params.idempotencyKey,
+      });
+
+      if (paymentIntent.status !== 'succeeded') {
+        return {
+          success: false,
+          paymentIntentId: paymentIntent.id,
+          requiresAction: paymentIntent.status === 'requires_action',
+          error: `Payment ${paymentIntent.status}`
+        };
+      }
+
+      return { success: true, paymentIntentId: paymentIntent.id };
+    } catch (error: any) {
+      // Declines and authentication requests come back as card errors carrying the payment intent
+      if (error.type === 'StripeCardError') {
+        return {
+          success: false,
+          paymentIntentId: error.raw?.payment_intent?.id,
+          requiresAction: error.code === 'authentication_required',
+          error: error.message
+        };
+      }
+      throw new Error(`Failed to charge saved payment method: ${error.message}`);
+    }
+  }
+
+  private static getDefaultPaymentMethodId(customer: Stripe.Customer | Stripe.DeletedCustomer): string | undefined {
+    if (customer.deleted) {
+      return undefined;
+    }
+    const defaultMethod = customer.invoice_settings?.default_payment_method;
+    return typeof defaultMethod === 'string' ? defaultMethod : defaultMethod?.id;
+  }
+
   // Create a refund
   static async createRefund(paymentIntentId: string, amount?: number) {
     try {
@@ -197,11 +365,11 @@ export class StripeService {
         destination: params.destination,
         description: params.description,
         metadata: params.metadata || {},
-      });
+      }, params.idempotencyKey ? { idempotencyKey: params.idempotencyKey } : undefined);
 
       return transfer;
-    } catch (error) {
-      throw new Error('Failed to transfer funds');
+    } catch (error: any) {
+      throw new TransferError(`Failed to transfer funds: ${error.message}`, error.type, error.code, error.statusCode);
     }
   }
 
@@ -0,0 +1,90 @@
+import mongoose from 'mongoose';
+import { TaxService } from './taxService';
+import { TaxProfileRequiredError } from './payoutRetryService';
+import { TaxProfile } from '../models/TaxProfile';
+import { PayoutBatch } from '../models/PayoutBatch';
+import { Booking } from '../models/Booking';
+
+const completeProfile = {
+  legalName: 'Ada Lovelace',
+  entityType: 'individual' as const,
+  taxResidency: 'US',
+  formType: 'W-9' as const,
+  tinLast4: '6789',
+  address: { line1: '1 Main St', city: 'Springfield', postalCode: '12345', country: 'US' },
+  certifiedAt: new Date('2026-01-15T00:00:00Z')
+};
+
+describe('TaxService.getMissingFields', () => {
+  it('lists everything for a mentor without a profile', () => {
+    expect(TaxService.getMissingFields(null)).toEqual(
+      ['legalName', 'entityType', 'taxResidency', 'formType', 'tin', 'address', 'certification']
+    );
+  });
+
+  it('is empty for a complete, certified profile', () => {
+    expect(TaxService.getMissingFields(completeProfile)).toEqual([]);
+  });
+
+  it('needs a postal code for US addresses only', () => {
+    const { postalCode, ...address } = completeProfile.address;
+    expect(TaxService.getMissingFields({ ...completeProfile, address })).toEqual(['address']);
+    expect(TaxService.getMissingFields({ ...completeProfile, address: { ...address, country: 'GB' } })).toEqual([]);
+  });
+
+  it('needs the form certified', () => {
+    expect(TaxService.getMissingFields({ ...completeProfile, certifiedAt: undefined })).toEqual(['certification']);
+  });
+});
+
+describe('TaxService.assertPayoutAllowed', () => {
+  const mentorId = new mongoose.Types.ObjectId().toString();
+  const now = new Date('2026-10-19T12:00:00Z');
+
+  const profileStatus = (status?: string) => {
+    jest.spyOn(TaxProfile, 'findOne').mockReturnValue({
+      select: jest.fn().mockResolvedValue(status ? { status } : null)
+    } as any);
+  };
+
+  const paidOutThisYear = (batched: number, single: number) => {
+    jest.spyOn(PayoutBatch, 'aggregate').mockResolvedValue(batched ? [{ _id: mentorId, netAmount: batched }] : []);
+    jest.spyOn(Booking, 'aggregate').mockResolvedValue(single ? [{ _id: mentorId, netAmount: single }] : []);
+  };
+
+  afterEach(() => {
+    delete process.env.TAX_PROFILE_PAYOUT_THRESHOLD;
+  });
+
+  it('lets payouts up to the threshold through without a profile', async () => {
+    profileStatus();
+    paidOutThisYear(400, 150);
+
+    await expect(TaxService.assertPayoutAllowed(mentorId, 50, now)).resolves.toBeUndefined();
+  });
+
+  it('holds a payout that takes the year past the threshold until the profile is complete', async () => {
+    profileStatus('incomplete');
+    paidOutThisYear(400, 150);
+
+    await expect(TaxService.assertPayoutAllowed(mentorId, 50.01, now)).rejects.toBeInstanceOf(TaxProfileRequiredError);
+  });
+
+  it('pays mentors with a complete profile without adding up the year', async () => {
+    profileStatus('complete');
+    const totals = jest.spyOn(PayoutBatch, 'aggregate');
+
+    await expect(TaxService.assertPayoutAllowed(mentorId, 5000, now)).resolves.toBeUndefined();
+    expect(totals).not.toHaveBeenCalled();
+  });
+
+  it('uses the configured threshold', async () => {
+    process.env.TAX_PROFILE_PAYOUT_THRESHOLD = '100';
+    profileStatus();
+    paidOutThisYear(0, 0);
+
+    await expect(TaxService.assertPayoutAllowed(mentorId, 150, now)).rejects.toThrow(
+      'Complete your tax profile to receive payouts over 100 USD this year'
+    );
+  });
+});
@@ -0,0 +1,459 @@
+import mongoose from 'mongoose';
+import { User } from '../models/User';
+import { Booking } from '../models/Booking';
+import { PayoutBatch } from '../models/PayoutBatch';
+import { TaxProfile, ITaxProfile, TaxFormType, TaxEntityType, TinType } from '../models/TaxProfile';
+import { TinExport } from '../models/TinExport';
+import { PayoutRetryService, TaxProfileRequiredError } from './payoutRetryService';
+import { SETTLEMENT_CURRENCY } from './currencyService';
+import { encryptValue, decryptValue } from '../utils/encryption';
+import { buildCSV } from '../utils/csv';
+
+// Payouts that take a mentor's paid-out total for the calendar year past this need a complete tax profile
+const DEFAULT_PAYOUT_THRESHOLD = 600;
+const FORM_TYPES: TaxFormType[] = ['W-9', 'W-8BEN', 'W-8BEN-E'];
+const ENTITY_TYPES: TaxEntityType[] = ['individual', 'business'];
+const TIN_TYPES: TinType[] = ['ssn', 'itin', 'ein', 'foreign'];
+const MAX_FIELD_LENGTH = 200;
+const ADDRESS_FIELDS = ['line1', 'line2', 'city', 'state', 'postalCode', 'country'] as const;
+// Changing any of these voids the signature on the form
+const CERTIFIED_FIELDS: (keyof TaxProfileInput)[] = ['legalName', 'businessName', 'entityType', 'taxResidency', 'formType', 'tinType', 'tin', 'address'];
+
+export interface TaxProfileInput {
+  legalName?: unknown;
+  businessName?: unknown;
+  entityType?: unknown;
+  taxResidency?: unknown;
+  formType?: unknown;
+  tinType?: unknown;
+  tin?: unknown;
+  address?: unknown;
+  certifiedName?: unknown;
+}
+
+// What a mentor or admin sees of a tax profile; the TIN never leaves encrypted except in the admin export
+export interface TaxProfileView {
+  legalName?: string;
+  businessName?: string;
+  entityType?: TaxEntityType;
+  taxResidency?: string;
+  formType?: TaxFormType;
+  tinType?: TinType;
+  tinLast4?: string;
+  address?: ITaxProfile['address'];
+  certifiedName?: string;
+  certifiedAt?: Date;
+  status: 'incomplete' | 'complete';
+  missing: string[];
+  payoutThreshold: number;
+}
+
+export interface AnnualEarningsSummary {
+  mentor: { id: string; name: string; email: string };
+  year: number;
+  currency: string;
+  grossAmount: number; // What students paid for the paid-out items, less refunds
+  platformCommission: number;
+  netAmount: number; // Transferred to the mentor
+  payoutCount: number;
+  sessionCount: number;
+  coldMessageCount: number;
+  taxProfile: {
+    status: 'incomplete' | 'complete' | 'missing';
+    formType?: TaxFormType;
+    entityType?: TaxEntityType;
+    taxResidency?: string;
+    legalName?: string;
+    tinType?: TinType;
+    tinLast4?: string;
+  };
+  tin?: string; // Only when the export asks for full TINs
+}
+
+interface PaidOutTotals {
+  grossAmount: number;
+  platformCommission: number;
+  netAmount: number;
+  payoutCount: number;
+  sessionCount: number;
+  coldMessageCount: number;
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+const money = (value: number): string => value.toFixed(2);
+
+const yearRange = (year: number): { start: Date; end: Date } => ({
+  start: new Date(Date.UTC(year, 0, 1)),
+  end: new Date(Date.UTC(year + 1, 0, 1))
+});
+
+export class TaxService {
+  static getPayoutThreshold(): number {
+    const configured = Number(process.env.TAX_PROFILE_PAYOUT_THRESHOLD);
+    return process.env.TAX_PROFILE_PAYOUT_THRESHOLD && Number.isFinite(configured) && configured >= 0
+      ? configured
+      : DEFAULT_PAYOUT_THRESHOLD;
+  }
+
+  // Required details the profile is still missing; empty when it is complete
+  static getMissingFields(profile: Partial<ITaxProfile> | null): string[] {
+    if (!profile) {
+      return ['legalName', 'entityType', 'taxResidency', 'formType', 'tin', 'address', 'certification'];
+    }
+
+    const missing: string[] = [];
+    if (!profile.legalName) missing.push('legalName');
+    if (!profile.entityType) missing.push('entityType');
+    if (!profile.taxResidency) missing.push('taxResidency');
+    if (!profile.formType) missing.push('formType');
+    if (!profile.tinLast4) missing.push('tin');
+    if (!profile.address?.line1 || !profile.address?.city || !profile.address?.country
+      || (profile.address.country === 'US' && !profile.address.postalCode)) {
+      missing.push('address');
+    }
+    if (!profile.certifiedAt) missing.push('certification');
+    return missing;
+  }
+
+  static toView(profile: ITaxProfile | null): TaxProfileView {
+    const missing = this.getMissingFields(profile);
+    return {
+      legalName: profile?.legalName,
+      businessName: profile?.businessName,
+      entityType: profile?.entityType,
+      taxResidency: profile?.taxResidency,
+      formType: profile?.formType,
+      tinType: profile?.tinType,
+      tinLast4: profile?.tinLast4,
+      address: profile?.address,
+      certifiedName: profile?.certifiedName,
+      certifiedAt: profile?.certifiedAt,
+      status: missing.length === 0 ? 'complete' : 'incomplete',
+      missing,
+      payoutThreshold: this.getPayoutThreshold()
+    };
+  }
+
+  static async getProfile(mentorId: string): Promise<TaxProfileView> {
+    return this.toView(await TaxProfile.findOne({ mentorId }));
+  }
+
+  // Save a mentor's tax details; the form type has to match the residency and entity type,
+  // and the TIN its type. Editing signed details voids the signature unless it is given again
+  static async updateProfile(mentorId: string, input: TaxProfileInput): Promise<{ profile?: TaxProfileView; error?: string }> {
+    const profile = await TaxProfile.findOne({ mentorId }) || new TaxProfile({ mentorId });
+
+    for (const field of ['legalName', 'businessName', 'certifiedName'] as const) {
+      const value = input[field];
+      if (value === undefined) {
+        continue;
+      }
+      if (value !== null && (typeof value !== 'string' || value.length > MAX_FIELD_LENGTH)) {
+        return { error: `${field} must be text of at most ${MAX_FIELD_LENGTH} characters` };
+      }
+      if (field !== 'certifiedName') {
+        profile.set(field, (value as string | null)?.trim() || undefined);
+      }
+    }
+
+    if (input.entityType !== undefined) {
+      if (!ENTITY_TYPES.includes(input.entityType as TaxEntityType)) {
+        return { error: 'Entity type must be individual or business' };
+      }
+      profile.entityType = input.entityType as TaxEntityType;
+    }
+
+    if (input.taxResidency !== undefined) {
+      if (typeof input.taxResidency !== 'string' || !/^[A-Za-z]{2}$/.test(input.taxResidency)) {
+        return { error: 'Tax residency must be a two-letter ISO country code' };
+      }
+      profile.taxResidency = input.taxResidency.toUpperCase();
+    }
+
+    if (input.formType !== undefined) {
+      if (!FORM_TYPES.includes(input.formType as TaxFormType)) {
+        return { error: 'Form type must be W-9, W-8BEN or W-8BEN-E' };
+      }
+      profile.formType = input.formType as TaxFormType;
+    }
+
+    if (input.address !== undefined) {
+      if (!input.address || typeof input.address !== 'object') {
+        return { error: 'Address must be an object' };
+      }
+      const address: Record<string, string | undefined> = {};
+      for (const field of ADDRESS_FIELDS) {
+        const value = (input.address as Record<string, unknown>)[field];
+        if (value !== undefined && value !== null && (typeof value !== 'string' || value.length > MAX_FIELD_LENGTH)) {
+          return { error: `address.${field} must be text of at most ${MAX_FIELD_LENGTH} characters` };
+        }
+        address[field] = value?.trim() || undefined;
+      }
+      if (address.country && !/^[A-Za-z]{2}$/.test(address.country)) {
+        return { error: 'address.country must be a two-letter ISO country code' };
+      }
+      profile.address = { ...address, country: address.country?.toUpperCase() };
+    }
+
+    // US persons file a W-9; everyone else a W-8BEN, or a W-8BEN-E for businesses
+    if (profile.formType && profile.taxResidency) {
+      const expected: TaxFormType = profile.taxResidency === 'US'
+        ? 'W-9'
+        : (profile.entityType === 'business' ? 'W-8BEN-E' : 'W-8BEN');
+      if (profile.formType !== expected) {
+        return { error: `Mentors resident in ${profile.taxResidency} as ${profile.entityType === 'business' ? 'a business' : 'an individual'} file a ${expected}` };
+      }
+    }
+
+    if (input.tin !== undefined || input.tinType !== undefined) {
+      if (!TIN_TYPES.includes(input.tinType as TinType) || typeof input.tin !== 'string') {
+        return { error: 'A TIN must be given together with its type (ssn, itin, ein or foreign)' };
+      }
+      const tinType = input.tinType as TinType;
+      const tinError = this.validateTin(tinType, input.tin, profile.formType);
+      if (tinError) {
+        return { error: tinError };
+      }
+
+      const tin = tinType === 'foreign' ? input.tin.trim() : input.tin.replace(/[\s-]/g, '');
+      profile.tinType = tinType;
+      profile.tinEncrypted = encryptValue(tin);
+      profile.tinLast4 = tin.slice(-4);
+    }
+
+    const certifiedChanged = CERTIFIED_FIELDS.some(field => input[field] !== undefined);
+    if (typeof input.certifiedName === 'string' && input.certifiedName.trim()) {
+      profile.certifiedName = input.certifiedName.trim();
+      profile.certifiedAt = new Date();
+    } else if (certifiedChanged) {
+      profile.certifiedName = undefined;
+      profile.certifiedAt = undefined;
+    }
+
+    const wasComplete = profile.status === 'complete';
+    const complete = this.getMissingFields(profile).length === 0;
+    profile.status = complete ? 'complete' : 'incomplete';
+    profile.completedAt = complete ? (wasComplete ? profile.completedAt : new Date()) : undefined;
+    await profile.save();
+
+    // Payouts held back for the profile can go now
+    if (complete && !wasComplete) {
+      await PayoutRetryService.resumeForMentor(mentorId);
+    }
+
+    return { profile: this.toView(profile) };
+  }
+
+  private static validateTin(tinType: TinType, tin: string, formType?: TaxFormType): string | null {
+    if (tinType === 'foreign') {
+      if (formType === 'W-9') {
+        return 'A W-9 needs a US TIN (SSN, ITIN or EIN)';
+      }
+      return /^[A-Za-z0-9][A-Za-z0-9 ./-]{1,29}$/.test(tin.trim()) ? null : 'Foreign TIN must be 2-30 letters or digits';
+    }
+
+    const digits = tin.replace(/[\s-]/g, '');
+    if (!/^\d{9}$/.test(digits)) {
+      return 'US TINs have 9 digits';
+    }
+    if (tinType === 'itin' && !digits.startsWith('9')) {
+      return 'ITINs start with 9';
+    }
+    if (tinType === 'ssn' && (digits.startsWith('9') || digits.startsWith('000') || digits.startsWith('666'))) {
+      return 'This is not a valid SSN';
+    }
+    if (tinType === 'ssn' && formType && formType !== 'W-9' && formType !== 'W-8BEN') {
+      return 'Businesses use an EIN or a foreign TIN';
+    }
+    return null;
+  }
+
+  // Throws TaxProfileRequiredError when a payout would take the mentor's paid-out total for the year
+  // past the threshold and their tax profile is incomplete; the payout waits in the retry queue until it is done
+  static async assertPayoutAllowed(mentorId: string, amount: number, now: Date = new Date()): Promise<void> {
+    const threshold = this.getPayoutThreshold();
+    const profile = await TaxProfile.findOne({ mentorId }).select('status');
+    if (profile?.status === 'complete') {
+      return;
+    }
+
+    const totals = await this.getPaidOutTotals(now.getUTCFullYear(), mentorId);
+    const paidOut = totals.get(mentorId.toString())?.netAmount || 0;
+    if (round(paidOut + amount) > threshold) {
+      throw new TaxProfileRequiredError(
+        `Complete your tax profile to receive payouts over ${threshold} ${SETTLEMENT_CURRENCY.toUpperCase()} this year`
+      );
+    }
+  }
+
+  // Paid-out totals per mentor for a calendar year: payout batches plus bookings paid out on their own
+  private static async getPaidOutTotals(year: number, mentorId?: string): Promise<Map<string, PaidOutTotals>> {
+    const { start, end } = yearRange(year);
+    const mentorFilter = mentorId ? { mentorId: new mongoose.Types.ObjectId(mentorId) } : {};
+
+    const batches = await PayoutBatch.aggregate([
+      { $match: { ...mentorFilter, status: 'completed', processedAt: { $gte: start, $lt: end } } },
+      {
+        $group: {
+          _id: '$mentorId',
+          grossAmount: { $sum: '$grossAmount' },
+          platformCommission: { $sum: '$platformCommission' },
+          netAmount: { $sum: '$amount' },
+          payoutCount: { $sum: 1 },
+          sessionCount: { $sum: { $size: { $filter: { input: '$items', cond: { $eq: ['$$this.type', 'session'] } } } } },
+          coldMessageCount: { $sum: { $size: { $filter: { input: '$items', cond: { $eq: ['$$this.type', 'cold_message'] } } } } }
+        }
+      }
+    ]);
+
+    const singles = await Booking.aggregate([
+      {
+        $match: {
+          ...mentorFilter,
+          payoutStatus: 'completed',
+          payoutBatchId: { $exists: false },
+          stripeTransferId: { $exists: true },
+          payoutDate: { $gte: start, $lt: end }
+        }
+      },
+      {
+        $group: {
+          _id: '$mentorId',
+          grossAmount: {
+            $sum: {
+              $subtract: ['$amount', { $cond: [{ $eq: ['$refund.status', 'processed'] }, { $ifNull: ['$refund.amount', 0] }, 0] }]
+            }
+          },
+          platformCommission: { $sum: { $ifNull: ['$platformCommission', 0] } },
+          netAmount: { $sum: { $ifNull: ['$mentorPayout', 0] } },
+          payoutCount: { $sum: 1 },
+          sessionCount: { $sum: 1 }
+        }
+      }
+    ]);
+
+    const totals = new Map<string, PaidOutTotals>();
+    for (const group of [...batches, ...singles]) {
+      const key = group._id.toString();
+      const current = totals.get(key) || {
+        grossAmount: 0, platformCommission: 0, netAmount: 0, payoutCount: 0, sessionCount: 0, coldMessageCount: 0
+      };
+      totals.set(key, {
+        grossAmount: round(current.grossAmount + (group.grossAmount || 0)),
+        platformCommission: round(current.platformCommission + (group.platformCommission || 0)),
+        netAmount: round(current.netAmount + (group.netAmount || 0)),
+        payoutCount: current.payoutCount + (group.payoutCount || 0),
+        sessionCount: current.sessionCount + (group.sessionCount || 0),
+        coldMessageCount: current.coldMessageCount + (group.coldMessageCount || 0)
+      });
+    }
+    return totals;
+  }
+
+  // Validate a summary year; only years that have started have summaries
+  static parseYear(year: unknown): { year?: number; error?: string } {
+    const y = Number(year);
+    if (!Number.isInteger(y) || y < 2000 || y > new Date().getUTCFullYear()) {
+      return { error: 'Invalid year' };
+    }
+    return { year: y };
+  }
+
+  // One summary per mentor paid out during the year, with their tax profile details
+  static async getAnnualSummaries(year: number, options: { includeTin?: boolean } = {}): Promise<AnnualEarningsSummary[]> {
+    const totals = await this.getPaidOutTotals(year);
+    const mentorIds = [...totals.keys()];
+    if (mentorIds.length === 0) {
+      return [];
+    }
+
+    const profileQuery = TaxProfile.find({ mentorId: { $in: mentorIds } });
+    if (options.includeTin) {
+      profileQuery.select('+tinEncrypted');
+    }
+    const [mentors, profiles] = await Promise.all([
+      User.find({ _id: { $in: mentorIds } }).select('firstName lastName email'),
+      profileQuery
+    ]);
+    const mentorsById = new Map(mentors.map(mentor => [mentor._id.toString(), mentor]));
+    const profilesById = new Map(profiles.map(profile => [profile.mentorId.toString(), profile]));
+
+    const summaries: AnnualEarningsSummary[] = mentorIds.map(mentorId => {
+      const mentor = mentorsById.get(mentorId);
+      const profile = profilesById.get(mentorId);
+      const total = totals.get(mentorId) as PaidOutTotals;
+
+      let tin: string | undefined;
+      if (options.includeTin && profile?.tinEncrypted) {
+        try {
+          tin = decryptValue(profile.tinEncrypted);
+        } catch (error) {
+          console.error(`Failed to decrypt TIN for mentor ${mentorId}:`, error);
+        }
+      }
+
+      return {
+        mentor: {
+          id: mentorId,
+          name: mentor ? `${mentor.firstName} ${mentor.lastName}` : 'Unknown',
+          email: mentor?.email || ''
+        },
+        year,
+        currency: SETTLEMENT_CURRENCY,
+        ...total,
+        taxProfile: {
+          status: profile ? profile.status : 'missing',
+          formType: profile?.formType,
+          entityType: profile?.entityType,
+          taxResidency: profile?.taxResidency,
+          legalName: profile?.legalName,
+          tinType: profile?.tinType,
+          tinLast4: profile?.tinLast4
+        },
+        ...(options.includeTin ? { tin } : {})
+      };
+    });
+
+    return summaries.sort((a, b) => b.netAmount - a.netAmount);
+  }
+
+  // Record an export of full TINs before it is sent, so every one leaves an audit trail
+  static async recordTinExport(adminId: string, year: number, format: 'json' | 'csv', mentorCount: number): Promise<void> {
+    await TinExport.create({ adminId, year, format, mentorCount });
+  }
+
+  static getSummaryFilename(year: number): string {
+    return `mentr-mentor-earnings-${year}.csv`;
+  }
+
+  static summariesToCSV(summaries: AnnualEarningsSummary[], options: { includeTin?: boolean } = {}): string {
+    const headers = [
+      'Mentor ID', 'Name', 'Email', 'Legal Name', 'Entity Type', 'Tax Residency', 'Form', 'TIN Type',
+      options.includeTin ? 'TIN' : 'TIN Last 4', 'Profile Status', 'Year', 'Currency', 'Gross', 'Platform Commission',
+      'Net Paid', 'Payouts', 'Sessions', 'Cold Messages'
+    ];
+
+    const rows = summaries.map(summary => [
+      summary.mentor.id,
+      summary.mentor.name,
+      summary.mentor.email,
+      summary.taxProfile.legalName,
+      summary.taxProfile.entityType,
+      summary.taxProfile.taxResidency,
+      summary.taxProfile.formType,
+      summary.taxProfile.tinType,
+      options.includeTin ? summary.tin : summary.taxProfile.tinLast4,
+      summary.taxProfile.status,
+      summary.year,
+      summary.currency.toUpperCase(),
+      money(summary.grossAmount),
+      money(summary.platformCommission),
+      money(summary.netAmount),
+      summary.payoutCount,
+      summary.sessionCount,
+      summary.coldMessageCount
+    ]);
+
+    return buildCSV(headers, rows);
+  }
+}
@@ -1,7 +1,13 @@
 import { User } from '../models/User';
 import { Booking } from '../models/Booking';
 import { TokenTransaction } from '../models/TokenTransaction';
+import { LedgerService } from './ledgerService';
+import { EscrowService } from './escrowService';
 import { Service } from '../models/Service';
+import { SlotHoldService } from './slotHoldService';
+import { RefundService } from './refundService';
+import { TokenTopUpService } from './tokenTopUpService';
+import { ReceiptService } from './receiptService';
 
 export class TokenPaymentService {
   // Process token payment for a booking
@@ -11,8 +17,12 @@ export class TokenPaymentService {
     amount: number
   ): Promise<{ success: boolean; error?: string; transactionId?: string }> {
     try {
+      // Students with an auto-top-up rule are topped up rather than turned away
+      await TokenTopUpService.ensureBalance(userId, amount);
+
       // Start a session for transaction
       const session = await User.startSession();
+      let transactionId: string | undefined;
       
       try {
         console.log('Token payment - Starting transaction for booking:', bookingId);
@@ -39,37 +49,38 @@ export class TokenPaymentService {
             throw new Error('Booking is already paid');
           }
           
-          // Check if user has sufficient token balance
-          if (user.mentraBalance < amount) {
-            throw new Error('Insufficient token balance');
-          }
-          
-          // Deduct tokens from user's balance
-          user.mentraBalance -= amount;
-          await user.save({ session });
-          
-          // Create token transaction record
-          const transaction = new TokenTransaction({
-            userId: userId,
-            type: 'debit',
-            amount: amount,
+          // Move the tokens into escrow; this fails if the balance doesn't cover them
+          const posted = await LedgerService.transfer({
+            idempotencyKey: `booking_payment_${bookingId}`,
+            type: 'booking_payment',
             description: `Booking payment for ${booking.serviceId}`,
-            reference: `booking_${bookingId}`
+            reference: `booking_${bookingId}`,
+            from: { account: 'user_wallet', userId },
+            to: { account: 'platform_escrow' },
+            amount
+          }, session);
+          transactionId = posted.transactionIds[0];
+          
+          await EscrowService.transition(booking, 'captured', {
+            event: 'token_payment',
+            actorId: userId,
+            amount,
+            session
           });
-          await transaction.save({ session });
-          
+
           // Update booking payment status and status
           booking.paymentStatus = 'paid';
           booking.paymentMethod = 'tokens';
           booking.status = 'confirmed'; // Auto-confirm when paid with tokens
           await booking.save({ session });
-          
 
-          
-          return { success: true, transactionId: (transaction._id as any).toString() };
+          // The paid booking now guards the slot, so the checkout hold is no longer needed
+          await SlotHoldService.convertHolds(bookingId, session);
         });
-        
-        return { success: true };
+
+        await ReceiptService.issueForBooking(bookingId, { paymentMethod: 'tokens' });
+        await TokenTopUpService.afterDebit(userId);
+        return { success: true, transactionId };
       } finally {
         await session.endSession();
       }
@@ -88,79 +99,25 @@ export class TokenPaymentService {
     amount: number,
     reason: string = 'Booking cancelled'
   ): Promise<{ success: boolean; error?: string; transactionId?: string }> {
-    try {
-      const session = await User.startSession();
-      
-      try {
-        await session.withTransaction(async () => {
-          // Get booking
-          const booking = await Booking.findById(bookingId).session(session);
-          
-          if (!booking) {
-            throw new Error('Booking not found');
-          }
-          
-          // Check if booking was paid with tokens
-          if (booking.paymentMethod !== 'tokens') {
-            throw new Error('Booking was not paid with tokens');
-          }
-          
-          // Check if booking was actually paid
-          if (booking.paymentStatus !== 'paid') {
-            throw new Error('Booking was not paid, no refund needed');
-          }
-          
-          // Get user
-          const user = await User.findById(booking.studentId).session(session);
-          if (!user) {
-            throw new Error('User not found');
-          }
-          
-          // Add tokens back to user's balance
-          user.mentraBalance += amount;
-          await user.save({ session });
-          
-          // Create refund transaction record
-          const transaction = new TokenTransaction({
-            userId: booking.studentId,
-            type: 'credit',
-            amount: amount,
-            description: `Refund for cancelled booking: ${reason}`,
-            reference: `booking_refund_${bookingId}`
-          });
-          await transaction.save({ session });
-          
-          // Update booking refund status
-          if (!booking.refund) {
-            booking.refund = {
-              status: 'processed',
-              type: 'tokens',
-              amount: amount,
-              processedAt: new Date(),
-              reason: reason
-            };
-          } else {
-            booking.refund.status = 'processed';
-            booking.refund.processedAt = new Date();
-            booking.refund.reason = reason;
-          }
-          
-          await booking.save({ session });
-          
-          return { success: true, transactionId: (transaction._id as any).toString() };
-        });
-        
-        return { success: true };
-      } finally {
-        await session.endSession();
-      }
-    } catch (error: any) {
-      console.error('Token refund error:', error);
-      return { 
-        success: false, 
-        error: error.message || 'Token refund failed' 
-      };
+    const booking = await Booking.findById(bookingId).select('paymentMethod');
+    if (!booking) {
+      return { success: false, error: 'Booking not found' };
+    }
+
+    if (booking.paymentMethod !== 'tokens') {
+      return { success: false, error: 'Booking was not paid with tokens' };
     }
+
+    // Token refunds go through the same refund ledger as card refunds
+    const result = await RefundService.processRefund({
+      bookingId,
+      refundType: 'tokens',
+      reason,
+      cancelledBy: 'mentee',
+      amount
+    });
+
+    return { success: result.success, error: result.error, transactionId: result.refundId };
   }
   
   // Check if user has sufficient tokens for a booking
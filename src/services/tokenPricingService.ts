@@ -0,0 +1,130 @@
+import mongoose from 'mongoose';
+import { TokenPack, ITokenPack } from '../models/TokenPack';
+import { TokenPromotion, ITokenPromotion } from '../models/TokenPromotion';
+import { TokenTransaction } from '../models/TokenTransaction';
+
+// Custom top-ups outside a pack are charged one dollar per token
+export const MIN_CUSTOM_TOP_UP = 1;
+export const MAX_CUSTOM_TOP_UP = 1000;
+
+export interface TokenQuote {
+  price: number; // USD to charge
+  tokens: number; // Purchased tokens
+  packBonusTokens: number;
+  promotionBonusTokens: number;
+  bonusTokens: number; // packBonusTokens + promotionBonusTokens
+  packId?: string;
+  promotionId?: string;
+  promotionName?: string;
+  firstPurchase: boolean; // The promotion bonus depends on this being the student's first top-up
+}
+
+export class TokenPricingService {
+  // Price a top-up of a pack, or of a custom amount when no pack is given
+  static async quote(userId: string, options: { packId?: string; amount?: number }): Promise<{ quote?: TokenQuote; error?: string }> {
+    let pack: ITokenPack | null = null;
+    let price: number;
+    let tokens: number;
+
+    if (options.packId) {
+      if (!mongoose.Types.ObjectId.isValid(options.packId)) {
+        return { error: 'Token pack not found' };
+      }
+      pack = await TokenPack.findOne({ _id: options.packId, isActive: true });
+      if (!pack) {
+        return { error: 'Token pack not found' };
+      }
+      price = pack.price;
+      tokens = pack.tokens;
+    } else {
+      const amount = Number(options.amount);
+      if (!Number.isFinite(amount) || amount < MIN_CUSTOM_TOP_UP || amount > MAX_CUSTOM_TOP_UP) {
+        return { error: `Top-up amount must be between ${MIN_CUSTOM_TOP_UP} and ${MAX_CUSTOM_TOP_UP} tokens` };
+      }
+      price = Math.round(amount * 100) / 100;
+      tokens = price;
+    }
+
+    const firstPurchase = await this.isFirstPurchase(userId);
+    const promotions = await this.getActivePromotions(new Date(), firstPurchase);
+    const packBonusTokens = pack?.bonusTokens || 0;
+
+    // Promotions don't stack; the student gets the most generous one that applies
+    let best: { promotion: ITokenPromotion; bonus: number } | undefined;
+    for (const promotion of promotions) {
+      if (!this.appliesTo(promotion, pack, tokens)) {
+        continue;
+      }
+      const bonus = this.getPromotionBonus(promotion, tokens);
+      if (bonus > 0 && (!best || bonus > best.bonus)) {
+        best = { promotion, bonus };
+      }
+    }
+
+    const promotionBonusTokens = best?.bonus || 0;
+    return {
+      quote: {
+        price,
+        tokens,
+        packBonusTokens,
+        promotionBonusTokens,
+        bonusTokens: packBonusTokens + promotionBonusTokens,
+        packId: pack ? pack._id.toString() : undefined,
+        promotionId: best ? best.promotion._id.toString() : undefined,
+        promotionName: best?.promotion.name,
+        firstPurchase: best?.promotion.kind === 'first_purchase'
+      }
+    };
+  }
+
+  // Active packs, each priced for the student
+  static async listPacks(userId: string): Promise<Array<{ pack: ITokenPack; quote: TokenQuote }>> {
+    const packs = await TokenPack.find({ isActive: true }).sort({ sortOrder: 1, price: 1 });
+
+    const results: Array<{ pack: ITokenPack; quote: TokenQuote }> = [];
+    for (const pack of packs) {
+      const { quote } = await this.quote(userId, { packId: pack._id.toString() });
+      if (quote) {
+        results.push({ pack, quote });
+      }
+    }
+    return results;
+  }
+
+  // Promotions running now; first-purchase promotions only for students who haven't bought tokens yet
+  static async getActivePromotions(now: Date, includeFirstPurchase: boolean): Promise<ITokenPromotion[]> {
+    return TokenPromotion.find({
+      isActive: true,
+      kind: includeFirstPurchase ? { $in: ['time_limited', 'first_purchase'] } : 'time_limited',
+      $and: [
+        { $or: [{ startsAt: { $exists: false } }, { startsAt: null }, { startsAt: { $lte: now } }] },
+        { $or: [{ endsAt: { $exists: false } }, { endsAt: null }, { endsAt: { $gt: now } }] }
+      ]
+    });
+  }
+
+  // Whether the student has never bought tokens with a card
+  static async isFirstPurchase(userId: string): Promise<boolean> {
+    const purchase = await TokenTransaction.exists({
+      userId,
+      type: 'credit',
+      subType: { $ne: 'bonus' },
+      reference: { $regex: /^stripe_/ }
+    });
+    return !purchase;
+  }
+
+  private static appliesTo(promotion: ITokenPromotion, pack: ITokenPack | null, tokens: number): boolean {
+    if (tokens < (promotion.minPurchaseTokens || 0)) {
+      return false;
+    }
+    if (!promotion.packIds || promotion.packIds.length === 0) {
+      return true;
+    }
+    return !!pack && promotion.packIds.some(id => id.toString() === pack._id.toString());
+  }
+
+  private static getPromotionBonus(promotion: ITokenPromotion, tokens: number): number {
+    return Math.floor(tokens * (promotion.bonusPercent || 0) / 100) + (promotion.bonusTokens || 0);
+  }
+}
@@ -0,0 +1,92 @@
+import mongoose from 'mongoose';
+import { TokenTopUpService, MAX_AUTO_TOP_UP_AMOUNT } from './tokenTopUpService';
+import { PaymentMethodService } from './paymentMethodService';
+import { notificationService } from './notificationService';
+import { User } from '../models/User';
+
+const student = (mentraBalance: number, tokenAutoTopUp?: Record<string, any>) => ({
+  _id: new mongoose.Types.ObjectId(),
+  mentraBalance,
+  tokenAutoTopUp
+});
+
+// User.findById(...).select(...)
+const findsUser = (user: ReturnType<typeof student>) => {
+  jest.spyOn(User, 'findById').mockReturnValue({ select: jest.fn().mockResolvedValue(user) } as any);
+};
+
+describe('TokenTopUpService.ensureBalance', () => {
+  let charge: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(User, 'findOneAndUpdate').mockResolvedValue({} as any);
+    jest.spyOn(User, 'findByIdAndUpdate').mockResolvedValue(null);
+    jest.spyOn(notificationService, 'createMultiTypeNotification').mockResolvedValue(undefined as any);
+    charge = jest.spyOn(PaymentMethodService, 'chargeSavedPaymentMethod')
+      .mockResolvedValue({ success: true, paymentIntentId: 'pi_auto' } as any);
+  });
+
+  it('leaves a balance that already covers the debit alone', async () => {
+    findsUser(student(20, { enabled: true, threshold: 5, amount: 25 }));
+
+    await expect(TokenTopUpService.ensureBalance('user', 15)).resolves.toBe(true);
+    expect(charge).not.toHaveBeenCalled();
+  });
+
+  it('charges the rule amount, not the shortfall, and credits it', async () => {
+    const user = student(2, { enabled: true, threshold: 5, amount: 25, paymentMethodId: 'pm_1' });
+    findsUser(user);
+    const credit = jest.spyOn(TokenTopUpService, 'creditTopUp').mockResolvedValue({} as any);
+
+    await expect(TokenTopUpService.ensureBalance(user._id.toString(), 10)).resolves.toBe(true);
+
+    expect(charge).toHaveBeenCalledWith(user._id.toString(), expect.objectContaining({
+      amount: 25,
+      paymentMethodId: 'pm_1',
+      metadata: { bookingId: `token_topup_${user._id}_auto`, userId: user._id.toString(), tokens: '25' }
+    }));
+    expect(credit).toHaveBeenCalledWith(user._id.toString(), 'pi_auto', 25, expect.any(Object));
+  });
+
+  it('refuses a shortfall larger than the rule amount without charging', async () => {
+    findsUser(student(0, { enabled: true, threshold: 5, amount: 25 }));
+
+    await expect(TokenTopUpService.ensureBalance('user', 40)).resolves.toBe(false);
+    expect(charge).not.toHaveBeenCalled();
+  });
+
+  it('caps a stored rule amount at the maximum', async () => {
+    findsUser(student(0, { enabled: true, threshold: 5, amount: MAX_AUTO_TOP_UP_AMOUNT * 2 }));
+    jest.spyOn(TokenTopUpService, 'creditTopUp').mockResolvedValue({} as any);
+
+    await TokenTopUpService.ensureBalance('user', 10);
+
+    expect(charge).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({ amount: MAX_AUTO_TOP_UP_AMOUNT }));
+  });
+
+  it('does not retry a declined card within the retry window', async () => {
+    findsUser(student(0, { enabled: true, threshold: 5, amount: 25, lastFailureAt: new Date() }));
+
+    await expect(TokenTopUpService.ensureBalance('user', 10)).resolves.toBe(false);
+    expect(charge).not.toHaveBeenCalled();
+  });
+});
+
+describe('TokenTopUpService.creditAutoTopUp', () => {
+  it('retries crediting a charge that has already gone through', async () => {
+    const credit = jest.spyOn(TokenTopUpService, 'creditTopUp')
+      .mockRejectedValueOnce(new Error('WriteConflict'))
+      .mockResolvedValueOnce({ duplicate: false } as any);
+
+    await expect(TokenTopUpService.creditAutoTopUp('user', 'pi_auto', 25)).resolves.toEqual({ duplicate: false });
+    expect(credit).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves the credit to the payment webhook after the last attempt', async () => {
+    const credit = jest.spyOn(TokenTopUpService, 'creditTopUp').mockRejectedValue(new Error('WriteConflict'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(TokenTopUpService.creditAutoTopUp('user', 'pi_auto', 25)).rejects.toThrow('WriteConflict');
+    expect(credit).toHaveBeenCalledTimes(3);
+  });
+});
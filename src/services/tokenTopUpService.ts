@@ -0,0 +1,266 @@
+import mongoose from 'mongoose';
+import { User, IUserDocument } from '../models/User';
+import { LedgerPostResult, LedgerService } from './ledgerService';
+import { ReferralService } from './referralService';
+import { PaymentMethodService } from './paymentMethodService';
+import { notificationService } from './notificationService';
+import { ReceiptService } from './receiptService';
+
+// Students without an auto-top-up rule are warned when their balance drops below this
+export const LOW_BALANCE_THRESHOLD = 10;
+// At most one low-balance warning per window
+const LOW_BALANCE_ALERT_COOLDOWN_HOURS = 24;
+// A declined auto top-up isn't retried on every debit
+const AUTO_TOP_UP_RETRY_HOURS = 24;
+// A top-up left in flight this long is assumed abandoned
+const AUTO_TOP_UP_STALE_MINUTES = 10;
+// Crediting a charged top-up is retried this many times before it is left to the payment webhook
+const AUTO_TOP_UP_CREDIT_ATTEMPTS = 3;
+export const MIN_AUTO_TOP_UP_AMOUNT = 5;
+export const MAX_AUTO_TOP_UP_AMOUNT = 500;
+
+export interface AutoTopUpSettings {
+  enabled: boolean;
+  threshold: number;
+  amount: number;
+  paymentMethodId?: string;
+}
+
+export class TokenTopUpService {
+  // Credit tokens bought with a succeeded Stripe payment, plus any bonus tokens;
+  // crediting the same payment twice credits it once
+  static async creditTopUp(
+    userId: string,
+    paymentIntentId: string,
+    amount: number,
+    options: { description?: string; bonusTokens?: number; bonusDescription?: string } = {}
+  ): Promise<LedgerPostResult> {
+    const session = await mongoose.startSession();
+    let posted: LedgerPostResult | undefined;
+
+    try {
+      await session.withTransaction(async () => {
+        posted = await LedgerService.transfer({
+          idempotencyKey: `top_up_${paymentIntentId}`,
+          type: 'top_up',
+          description: options.description || 'Token top-up via Stripe',
+          reference: `stripe_${paymentIntentId}`,
+          from: { account: 'stripe_clearing' },
+          to: { account: 'user_wallet', userId },
+          amount,
+          walletTransactionSubType: 'purchase'
+        }, session);
+
+        // Bonus tokens are funded by the platform and kept apart from the purchase
+        if (!posted.duplicate && options.bonusTokens && options.bonusTokens > 0) {
+          await LedgerService.transfer({
+            idempotencyKey: `top_up_bonus_${paymentIntentId}`,
+            type: 'top_up_bonus',
+            description: options.bonusDescription || 'Bonus tokens',
+            reference: `bonus_${paymentIntentId}`,
+            from: { account: 'promotions' },
+            to: { account: 'user_wallet', userId },
+            amount: options.bonusTokens,
+            walletTransactionSubType: 'bonus'
+          }, session);
+        }
+      });
+    } finally {
+      await session.endSession();
+    }
+
+    const result = posted as LedgerPostResult;
+    if (!result.duplicate) {
+      // Referral commission is earned on the purchased tokens only
+      await ReferralService.recordEarning(userId, 'token_purchase', result.transactionIds[0], amount);
+      await ReceiptService.issueForTopUp(userId, paymentIntentId, amount, options.bonusTokens);
+    }
+
+    return result;
+  }
+
+  static async getAutoTopUp(userId: string): Promise<AutoTopUpSettings | null> {
+    const user = await User.findById(userId).select('tokenAutoTopUp');
+    if (!user) {
+      return null;
+    }
+
+    const rule = user.tokenAutoTopUp;
+    return {
+      enabled: !!rule?.enabled,
+      threshold: rule?.threshold ?? LOW_BALANCE_THRESHOLD,
+      amount: rule?.amount ?? 0,
+      paymentMethodId: rule?.paymentMethodId
+    };
+  }
+
+  static async updateAutoTopUp(userId: string, settings: AutoTopUpSettings): Promise<void> {
+    await User.findByIdAndUpdate(userId, {
+      'tokenAutoTopUp.enabled': settings.enabled,
+      'tokenAutoTopUp.threshold': settings.threshold,
+      'tokenAutoTopUp.amount': settings.amount,
+      'tokenAutoTopUp.paymentMethodId': settings.paymentMethodId,
+      // A changed rule gets a fresh attempt
+      $unset: { 'tokenAutoTopUp.lastFailureAt': 1, 'tokenAutoTopUp.lastFailureReason': 1 }
+    });
+  }
+
+  // Top up before a debit the balance can't cover; true if the balance now covers it.
+  // Only the rule's amount is ever charged, so a shortfall larger than that is left to the student
+  static async ensureBalance(userId: string, required: number): Promise<boolean> {
+    try {
+      const user = await User.findById(userId).select('mentraBalance tokenAutoTopUp');
+      if (!user) {
+        return false;
+      }
+      if (user.mentraBalance >= required) {
+        return true;
+      }
+
+      const shortfall = Math.ceil(required - user.mentraBalance);
+      if (!user.tokenAutoTopUp?.amount || shortfall > user.tokenAutoTopUp.amount) {
+        return false;
+      }
+      return await this.runAutoTopUp(user) === 'succeeded';
+    } catch (error) {
+      console.error('Token auto-top-up error:', error);
+      return false;
+    }
+  }
+
+  // Run after a wallet debit: top up below the rule's threshold, or warn if there is no rule
+  static async afterDebit(userId: string): Promise<void> {
+    try {
+      const user = await User.findById(userId).select('mentraBalance tokenAutoTopUp lowBalanceNotifiedAt');
+      if (!user) {
+        return;
+      }
+
+      const rule = user.tokenAutoTopUp;
+      if (rule?.enabled && rule.threshold && user.mentraBalance < rule.threshold) {
+        const topUp = await this.runAutoTopUp(user);
+        if (topUp !== 'failed') {
+          return;
+        }
+      }
+
+      const threshold = rule?.enabled && rule.threshold ? rule.threshold : LOW_BALANCE_THRESHOLD;
+      if (user.mentraBalance < threshold) {
+        await this.sendLowBalanceAlert(user, threshold);
+      }
+    } catch (error) {
+      console.error('Token auto-top-up check error:', error);
+    }
+  }
+
+  // Charge the rule's card for the rule's amount and credit the tokens; skipped when no rule applies or one is already running
+  private static async runAutoTopUp(user: IUserDocument): Promise<'succeeded' | 'failed' | 'skipped'> {
+    const rule = user.tokenAutoTopUp;
+    if (!rule?.enabled || !rule.amount) {
+      return 'skipped';
+    }
+
+    const now = new Date();
+    if (rule.lastFailureAt && now.getTime() - rule.lastFailureAt.getTime() < AUTO_TOP_UP_RETRY_HOURS * 60 * 60 * 1000) {
+      return 'failed';
+    }
+
+    // Claim the top-up so concurrent debits don't charge the card twice
+    const claimed = await User.findOneAndUpdate(
+      {
+        _id: user._id,
+        $or: [
+          { 'tokenAutoTopUp.processingSince': { $exists: false } },
+          { 'tokenAutoTopUp.processingSince': { $lt: new Date(now.getTime() - AUTO_TOP_UP_STALE_MINUTES * 60 * 1000) } }
+        ]
+      },
+      { 'tokenAutoTopUp.processingSince': now }
+    );
+    if (!claimed) {
+      return 'skipped';
+    }
+
+    const userId = user._id.toString();
+    const amount = Math.min(rule.amount, MAX_AUTO_TOP_UP_AMOUNT);
+
+    try {
+      const charge = await PaymentMethodService.chargeSavedPaymentMethod(userId, {
+        amount,
+        description: `Mentra Token Auto Top-up - ${amount} tokens`,
+        // Credited here; the payment webhook credits it too in case this process fails after the charge
+        metadata: { bookingId: `token_topup_${userId}_auto`, userId, tokens: amount.toString() },
+        idempotencyKey: `auto_top_up_${userId}_${now.getTime()}`,
+        paymentMethodId: rule.paymentMethodId
+      });
+
+      if (!charge.success || !charge.paymentIntentId) {
+        await User.findByIdAndUpdate(user._id, {
+          'tokenAutoTopUp.lastFailureAt': now,
+          'tokenAutoTopUp.lastFailureReason': charge.error || 'Payment failed',
+          $unset: { 'tokenAutoTopUp.processingSince': 1 }
+        });
+        await this.notify(userId, 'Auto Top-up Failed',
+          `We couldn't charge your saved card for ${amount} Mentra tokens${charge.requiresAction ? ' because your bank needs you to confirm the payment' : ''}. Please top up manually or update your card.`,
+          { amount, reason: charge.error, requiresAction: !!charge.requiresAction },
+          'high');
+        return 'failed';
+      }
+
+      await this.creditAutoTopUp(userId, charge.paymentIntentId, amount);
+      await User.findByIdAndUpdate(user._id, {
+        'tokenAutoTopUp.lastTopUpAt': now,
+        $unset: { 'tokenAutoTopUp.processingSince': 1, 'tokenAutoTopUp.lastFailureAt': 1, 'tokenAutoTopUp.lastFailureReason': 1 }
+      });
+      await this.notify(userId, 'Tokens Topped Up',
+        `Your balance was low, so we added ${amount} Mentra tokens using your saved card.`,
+        { amount, paymentIntentId: charge.paymentIntentId });
+      return 'succeeded';
+    } catch (error) {
+      await User.findByIdAndUpdate(user._id, { $unset: { 'tokenAutoTopUp.processingSince': 1 } });
+      throw error;
+    }
+  }
+
+  // Credit a charged auto top-up, retrying since the card has already been charged
+  static async creditAutoTopUp(userId: string, paymentIntentId: string, amount: number): Promise<LedgerPostResult> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.creditTopUp(userId, paymentIntentId, amount, { description: 'Automatic token top-up via Stripe' });
+      } catch (error) {
+        if (attempt >= AUTO_TOP_UP_CREDIT_ATTEMPTS) {
+          console.error(`Auto top-up ${paymentIntentId} charged but not credited; left to the payment webhook:`, error);
+          throw error;
+        }
+      }
+    }
+  }
+
+  private static async sendLowBalanceAlert(user: IUserDocument, threshold: number): Promise<void> {
+    const now = new Date();
+    const cooldownStart = new Date(now.getTime() - LOW_BALANCE_ALERT_COOLDOWN_HOURS * 60 * 60 * 1000);
+
+    // Claim the alert so concurrent debits send it once
+    const claimed = await User.findOneAndUpdate(
+      {
+        _id: user._id,
+        $or: [{ lowBalanceNotifiedAt: { $exists: false } }, { lowBalanceNotifiedAt: { $lt: cooldownStart } }]
+      },
+      { lowBalanceNotifiedAt: now }
+    );
+    if (!claimed) {
+      return;
+    }
+
+    await this.notify(user._id.toString(), 'Low Token Balance',
+      `You have ${user.mentraBalance} Mentra tokens left. Top up now, or turn on auto top-up so you never run out mid-conversation or at checkout.`,
+      { balance: user.mentraBalance, threshold });
+  }
+
+  private static async notify(userId: string, title: string, message: string, data: any, priority: 'medium' | 'high' = 'medium'): Promise<void> {
+    try {
+      await notificationService.createMultiTypeNotification(userId, 'system', title, message, data, priority);
+    } catch (notificationError) {
+      // Don't fail the payment flow if notifications fail
+    }
+  }
+}
@@ -0,0 +1,271 @@
+import mongoose from 'mongoose';
+import { IBooking } from '../models/Booking';
+import { Service } from '../models/Service';
+import { User } from '../models/User';
+import { IWaitlistEntry, WaitlistEntry } from '../models/WaitlistEntry';
+import { AvailabilityService } from './availabilityService';
+import { SlotHoldService } from './slotHoldService';
+import { notificationService } from './notificationService';
+
+// How long a waitlisted student has to claim a freed slot before it moves to the next student
+export const WAITLIST_OFFER_MINUTES = 60;
+// Longest preferred date range a student can wait on
+export const MAX_WAITLIST_RANGE_DAYS = 60;
+// Students who let this many offers lapse stop being offered slots
+export const MAX_MISSED_WAITLIST_OFFERS = 3;
+
+export interface FreedSlot {
+  mentorId: string | mongoose.Types.ObjectId;
+  startUTC: Date;
+  duration: number; // in minutes
+}
+
+export class WaitlistService {
+  // Validate a preferred range for a new entry
+  static validateRange(preferredFrom: Date, preferredTo: Date, now: Date = new Date()): string | null {
+    if (isNaN(preferredFrom.getTime()) || isNaN(preferredTo.getTime())) {
+      return 'Invalid preferred date range';
+    }
+
+    if (preferredTo <= preferredFrom) {
+      return 'preferredTo must be after preferredFrom';
+    }
+
+    if (preferredTo <= now) {
+      return 'Preferred date range is already in the past';
+    }
+
+    if (preferredTo.getTime() - preferredFrom.getTime() > MAX_WAITLIST_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      return `Preferred date range cannot be longer than ${MAX_WAITLIST_RANGE_DAYS} days`;
+    }
+
+    return null;
+  }
+
+  // Offer a slot freed by a cancelled booking to the waitlist
+  static async handleBookingCancelled(booking: IBooking): Promise<IWaitlistEntry | null> {
+    // Group seats free a seat, not mentor time, and have their own waitlist
+    if (booking.groupSessionId) {
+      return null;
+    }
+
+    return this.offerFreedSlot({
+      mentorId: booking.mentorId._id,
+      startUTC: new Date(booking.scheduledAtUTC),
+      duration: booking.duration
+    });
+  }
+
+  // Hold the freed slot for the first waiting student whose preferences fit it and notify them;
+  // students who already passed on this slot, or keep missing offers, are skipped
+  static async offerFreedSlot(slot: FreedSlot): Promise<IWaitlistEntry | null> {
+    const now = new Date();
+    if (slot.startUTC <= now) {
+      return null;
+    }
+
+    const mentor = await User.findById(slot.mentorId);
+    if (!mentor) {
+      return null;
+    }
+
+    const slotEnd = new Date(slot.startUTC.getTime() + slot.duration * 60000);
+    const candidates = await WaitlistEntry.find({
+      mentorId: slot.mentorId,
+      status: 'waiting',
+      preferredFrom: { $lte: slot.startUTC },
+      preferredTo: { $gte: slotEnd },
+      passedSlots: { $ne: slot.startUTC },
+      missedOffers: { $lt: MAX_MISSED_WAITLIST_OFFERS }
+    })
+      .populate('serviceId')
+      .sort({ createdAt: 1 });
+
+    for (const entry of candidates) {
+      const service = entry.serviceId as any;
+      if (!service || !service.isActive || service.duration > slot.duration) {
+        continue;
+      }
+
+      // The student's service must still fit here (notice period, buffers, other bookings)
+      const check = await AvailabilityService.checkSlot(mentor, slot.startUTC, AvailabilityService.getSlotRules(service), { now });
+      if (!check.available) {
+        continue;
+      }
+
+      const holdId = new mongoose.Types.ObjectId();
+      const hold = await SlotHoldService.acquireHolds({
+        mentorId: slot.mentorId,
+        studentId: entry.studentId,
+        bookingId: holdId,
+        startUTC: slot.startUTC,
+        duration: service.duration,
+        bufferBefore: service.bufferBefore,
+        bufferAfter: service.bufferAfter,
+        ttlMinutes: WAITLIST_OFFER_MINUTES
+      });
+      if (!hold.success) {
+        // Someone else is already checking out this slot
+        return null;
+      }
+
+      const offered = await WaitlistEntry.findOneAndUpdate(
+        { _id: entry._id, status: 'waiting' },
+        {
+          status: 'offered',
+          offer: {
+            holdId,
+            slotUTC: slot.startUTC,
+            duration: service.duration,
+            offeredAt: now,
+            expiresAt: hold.expiresAt
+          }
+        },
+        { new: true }
+      );
+      if (!offered) {
+        // The student left the waitlist meanwhile
+        await SlotHoldService.releaseHolds(holdId);
+        continue;
+      }
+
+      try {
+        // Urgent so quiet hours don't swallow an offer that lapses within the hour
+        await notificationService.createMultiTypeNotification(
+          entry.studentId.toString(),
+          'booking',
+          'A Slot Opened Up',
+          `A "${service.title}" slot with ${mentor.firstName} ${mentor.lastName} on ${slot.startUTC.toLocaleString()} is being held for you until ${(hold.expiresAt as Date).toLocaleString()}. Book it before then to claim it.`,
+          {
+            waitlistEntryId: entry._id.toString(),
+            mentorId: mentor._id.toString(),
+            serviceId: service._id.toString(),
+            scheduledAt: slot.startUTC,
+            duration: service.duration,
+            expiresAt: hold.expiresAt
+          },
+          'urgent'
+        );
+      } catch (notificationError) {
+        // Don't fail the offer if notifications fail
+      }
+
+      return offered;
+    }
+
+    return null;
+  }
+
+  // Find a live offer the student can book against
+  static async getClaimableOffer(
+    entryId: string,
+    studentId: string,
+    serviceId: string,
+    scheduledAtUTC: Date,
+    duration: number
+  ): Promise<{ entry?: IWaitlistEntry; error?: string }> {
+    const entry = await WaitlistEntry.findById(entryId);
+    if (!entry || entry.studentId.toString() !== studentId.toString()) {
+      return { error: 'Waitlist entry not found' };
+    }
+
+    if (entry.status !== 'offered' || !entry.offer?.expiresAt || entry.offer.expiresAt <= new Date()) {
+      return { error: 'This waitlist offer is no longer available' };
+    }
+
+    const matchesOffer = entry.serviceId.toString() === serviceId.toString() &&
+      entry.offer.slotUTC.getTime() === scheduledAtUTC.getTime() &&
+      duration <= entry.offer.duration;
+    if (!matchesOffer) {
+      return { error: 'The booking does not match the offered slot' };
+    }
+
+    return { entry };
+  }
+
+  // Record that an offer was taken up by a booking
+  static async markBooked(entry: IWaitlistEntry, bookingId: mongoose.Types.ObjectId): Promise<void> {
+    await WaitlistEntry.updateOne(
+      { _id: entry._id, status: 'offered' },
+      { status: 'booked', bookingId }
+    );
+  }
+
+  // Turn down an offer; the slot moves on to the next matching student
+  static async declineOffer(entry: IWaitlistEntry): Promise<void> {
+    await this.withdrawOffer(entry, 'waiting');
+  }
+
+  // Leave the waitlist, giving back any slot currently held
+  static async leave(entry: IWaitlistEntry): Promise<void> {
+    if (entry.status === 'offered') {
+      await this.withdrawOffer(entry, 'cancelled');
+      return;
+    }
+
+    entry.status = 'cancelled';
+    await entry.save();
+  }
+
+  // Release an offer's hold and pass the slot on to a student who hasn't passed on it yet
+  private static async withdrawOffer(entry: IWaitlistEntry, nextStatus: 'waiting' | 'cancelled', missed: boolean = false): Promise<void> {
+    const offer = entry.offer;
+    const updated = await WaitlistEntry.updateOne(
+      { _id: entry._id, status: 'offered' },
+      {
+        status: nextStatus,
+        $unset: { offer: 1 },
+        ...(offer?.slotUTC ? { $addToSet: { passedSlots: offer.slotUTC } } : {}),
+        ...(missed ? { $inc: { missedOffers: 1 } } : {})
+      }
+    );
+
+    if (updated.modifiedCount === 0 || !offer?.holdId) {
+      return;
+    }
+
+    await SlotHoldService.releaseHolds(offer.holdId);
+    await this.offerFreedSlot({ mentorId: entry.mentorId, startUTC: offer.slotUTC, duration: offer.duration });
+  }
+
+  // Pass lapsed offers on to the next student and close entries whose preferred range has passed
+  static async processExpiredOffers(now: Date = new Date()): Promise<{ lapsed: number; expired: number }> {
+    const lapsedOffers = await WaitlistEntry.find({
+      status: 'offered',
+      'offer.expiresAt': { $lte: now }
+    });
+
+    for (const entry of lapsedOffers) {
+      try {
+        await this.withdrawOffer(entry, 'waiting', true);
+      } catch (error) {
+        console.error(`Error passing on waitlist offer ${entry._id}:`, error);
+      }
+    }
+
+    const expired = await WaitlistEntry.updateMany(
+      { status: 'waiting', preferredTo: { $lte: now } },
+      { status: 'expired' }
+    );
+
+    return { lapsed: lapsedOffers.length, expired: expired.modifiedCount };
+  }
+
+  // Get a service for a new waitlist entry, or an error
+  static async getWaitlistService(serviceId: string, studentId: string) {
+    const service = await Service.findById(serviceId);
+    if (!service || !service.isActive) {
+      return { error: 'Service not found' };
+    }
+
+    if (service.sessionType === 'group') {
+      return { error: 'Join the waitlist of a specific group session instead' };
+    }
+
+    if (service.mentorId.toString() === studentId.toString()) {
+      return { error: 'You cannot join your own waitlist' };
+    }
+
+    return { service };
+  }
+}
@@ -3,6 +3,21 @@ import { Booking } from '../models/Booking';
 import { notificationService } from './notificationService';
 import { payoutNotificationService } from './payoutNotificationService';
 import { bookingNotificationService } from './bookingNotificationService';
+import { SlotHoldService } from './slotHoldService';
+import { BookingSeriesService } from './bookingSeriesService';
+import { PackageService } from './packageService';
+import { GiftCardService } from './giftCardService';
+import { EscrowService } from './escrowService';
+import { CurrencyService } from './currencyService';
+import { PayoutRetryService } from './payoutRetryService';
+import { ReceiptService } from './receiptService';
+import { TokenTopUpService } from './tokenTopUpService';
+import {
+  IStripeWebhookEvent,
+  StripeWebhookEvent,
+  WebhookEventSource,
+  WebhookEventStatus
+} from '../models/StripeWebhookEvent';
 
 export interface WebhookEvent {
   id: string;
@@ -13,7 +28,162 @@ export interface WebhookEvent {
   error?: string;
 }
 
+export interface WebhookProcessResult {
+  status: WebhookEventStatus;
+  duplicate: boolean; // True when the event had already been received and wasn't run again
+  error?: string;
+}
+
+// Mongo error code for a duplicate unique key
+const DUPLICATE_KEY_ERROR = 11000;
+
+// An event left in processing this long is treated as abandoned and may be run again
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+
 export class WebhookService {
+  // Store a verified Stripe event and run it once; redeliveries of handled events are skipped
+  static async processEvent(event: any, source: WebhookEventSource): Promise<WebhookProcessResult> {
+    const record = await this.claimEvent(event, source);
+    if (!record) {
+      const existing = await StripeWebhookEvent.findOne({ eventId: event.id }).select('status');
+      return { status: existing?.status || 'processing', duplicate: true };
+    }
+
+    return this.runEvent(record);
+  }
+
+  // Run a failed event again from its stored payload
+  static async replayEvent(eventId: string): Promise<WebhookProcessResult | null> {
+    const record = await StripeWebhookEvent.findOneAndUpdate(
+      { eventId, status: 'failed' },
+      { status: 'processing', lastAttemptAt: new Date(), $inc: { attempts: 1, retryCount: 1 } },
+      { new: true }
+    );
+    if (!record) {
+      return null;
+    }
+
+    try {
+      return await this.runEvent(record);
+    } catch (error) {
+      return { status: 'failed', duplicate: false, error: (error as Error).message };
+    }
+  }
+
+  // List stored events, newest first
+  static async getEvents(filters: { status?: WebhookEventStatus; type?: string; source?: WebhookEventSource }, page: number, limit: number) {
+    const query: any = {};
+    if (filters.status) query.status = filters.status;
+    if (filters.type) query.type = filters.type;
+    if (filters.source) query.source = filters.source;
+
+    const [events, total] = await Promise.all([
+      StripeWebhookEvent.find(query)
+        .select('-payload')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      StripeWebhookEvent.countDocuments(query)
+    ]);
+
+    return { events, total };
+  }
+
+  static async getEvent(eventId: string) {
+    return StripeWebhookEvent.findOne({ eventId });
+  }
+
+  // Record a first delivery, or take back a redelivered event whose last attempt failed or was abandoned
+  private static async claimEvent(event: any, source: WebhookEventSource): Promise<IStripeWebhookEvent | null> {
+    try {
+      return await StripeWebhookEvent.create({
+        eventId: event.id,
+        source,
+        type: event.type,
+        account: event.account,
+        payload: event,
+        stripeCreatedAt: event.created ? new Date(event.created * 1000) : undefined
+      });
+    } catch (error: any) {
+      if (error?.code !== DUPLICATE_KEY_ERROR) {
+        throw error;
+      }
+    }
+
+    return StripeWebhookEvent.findOneAndUpdate(
+      {
+        eventId: event.id,
+        $or: [
+          { status: 'failed' },
+          { status: 'processing', lastAttemptAt: { $lt: new Date(Date.now() - STALE_PROCESSING_MS) } }
+        ]
+      },
+      { status: 'processing', lastAttemptAt: new Date(), $inc: { attempts: 1, retryCount: 1 } },
+      { new: true }
+    );
+  }
+
+  // Run a claimed event's handler and record the outcome; handler errors are rethrown
+  private static async runEvent(record: IStripeWebhookEvent): Promise<WebhookProcessResult> {
+    try {
+      const handled = await this.dispatchEvent(record.payload, record.source);
+      record.status = handled ? 'processed' : 'ignored';
+      record.processedAt = new Date();
+      record.lastError = undefined;
+      await record.save();
+      return { status: record.status, duplicate: false };
+    } catch (error) {
+      record.status = 'failed';
+      record.lastError = (error as Error).message;
+      await record.save();
+      throw error;
+    }
+  }
+
+  // Hand an event to its handler; returns false for event types the endpoint doesn't act on
+  private static async dispatchEvent(event: any, source: WebhookEventSource): Promise<boolean> {
+    const object = event.data.object;
+
+    if (source === 'connect') {
+      switch (event.type) {
+        case 'account.updated':
+          await this.processConnectAccountUpdated(object);
+          return true;
+        case 'account.application.deauthorized':
+          await this.processConnectAccountDeauthorized(object);
+          return true;
+        default:
+          return false;
+      }
+    }
+
+    switch (event.type) {
+      case 'payment_intent.succeeded':
+        await this.processPaymentIntentSucceeded(object);
+        return true;
+      case 'payment_intent.payment_failed':
+        await this.processPaymentIntentFailed(object);
+        return true;
+      case 'charge.refunded':
+        await this.processChargeRefunded(object);
+        return true;
+      case 'transfer.created':
+        await this.processTransferCreated(object);
+        return true;
+      case 'transfer.failed':
+        await this.processTransferFailed(object);
+        return true;
+      case 'account.updated':
+        await this.processAccountUpdated(object);
+        return true;
+      case 'account.application.deauthorized':
+        await this.processAccountDeauthorized(object);
+        return true;
+      default:
+        return false;
+    }
+  }
+
   // Process payment intent succeeded event
   static async processPaymentIntentSucceeded(paymentIntent: any): Promise<void> {
     try {
@@ -22,11 +192,39 @@ export class WebhookService {
         return;
       }
 
-      // Skip processing for temporary IDs (amount-based payments) and token top-ups
+      // Auto top-ups are credited when charged; crediting again here is a no-op unless that failed
+      if (bookingId.startsWith('token_topup_') && bookingId.endsWith('_auto')) {
+        const userId = paymentIntent.metadata?.userId;
+        const tokens = Number(paymentIntent.metadata?.tokens);
+        if (userId && tokens > 0) {
+          await TokenTopUpService.creditAutoTopUp(userId, paymentIntent.id, tokens);
+        }
+        return;
+      }
+
+      // Skip processing for temporary IDs (amount-based payments) and manual token top-ups, credited when verified
       if (bookingId.startsWith('temp_') || bookingId.startsWith('token_topup_')) {
         return;
       }
 
+      // Upfront payment for a whole recurring series
+      if (bookingId.startsWith('series_')) {
+        await BookingSeriesService.handlePaymentSucceeded(paymentIntent);
+        return;
+      }
+
+      // Session package purchase
+      if (bookingId.startsWith('package_')) {
+        await PackageService.handlePaymentSucceeded(paymentIntent);
+        return;
+      }
+
+      // Gift card purchase
+      if (bookingId.startsWith('gift_card_')) {
+        await GiftCardService.handlePaymentSucceeded(paymentIntent);
+        return;
+      }
+
       // Update booking status
       const booking = await Booking.findById(bookingId).populate('mentorId serviceId', 'firstName lastName title');
       if (!booking) {
@@ -34,8 +232,26 @@ export class WebhookService {
         return;
       }
 
+      // A late or repeated event for a payment that has already moved on has nothing left to do
+      if (!EscrowService.canTransition(booking, 'captured')) {
+        return;
+      }
+
       // Update payment status and booking status
       let needsUpdate = false;
+
+      await EscrowService.transition(booking, 'captured', {
+        event: 'payment_captured',
+        amount: booking.amount,
+        metadata: { paymentIntentId: paymentIntent.id }
+      });
+
+      // Record the charge from the payment that succeeded, which may predate the latest quote
+      const charge = CurrencyService.chargeFromPaymentIntent(paymentIntent, booking.amount);
+      if (booking.charge?.currency !== charge.currency || booking.charge?.amount !== charge.amount) {
+        booking.charge = charge;
+        needsUpdate = true;
+      }
       
       if (booking.paymentStatus !== 'paid') {
         booking.paymentStatus = 'paid';
@@ -54,7 +270,14 @@ export class WebhookService {
       
       if (needsUpdate) {
         await booking.save();
+        await SlotHoldService.convertHolds(booking._id);
 
+        // The receipt is attached to the payment confirmation email below
+        const receipt = await ReceiptService.issueForBooking(booking._id, {
+          paymentMethod: 'card',
+          paymentIntentId: paymentIntent.id,
+          notify: false
+        });
 
         // Send payment success notification
         try {
@@ -62,7 +285,7 @@ export class WebhookService {
             booking.studentId.toString(),
             'booking',
             'Payment Successful',
-            `Your payment of $${(paymentIntent.amount / 100).toFixed(2)} for the session has been processed successfully.`,
+            `Your payment of ${CurrencyService.format(paymentIntent.amount / 100, paymentIntent.currency)} for the session has been processed successfully.`,
             {
               bookingId: (booking._id as any).toString(),
               paymentIntentId: paymentIntent.id,
@@ -71,7 +294,8 @@ export class WebhookService {
               bookingDate: booking.scheduledAt,
               mentorName: `${(booking.mentorId as any).firstName} ${(booking.mentorId as any).lastName}`,
               serviceTitle: (booking.serviceId as any).title,
-              meetingLink: `${process.env.FRONTEND_URL}/video-call/${(booking._id as any).toString()}`
+              meetingLink: `${process.env.FRONTEND_URL}/video-call/${booking._id.toString()}`,
+              ...(receipt ? { receiptId: receipt._id.toString() } : {})
             }
           );
         } catch (notificationError) {
@@ -80,14 +304,17 @@ export class WebhookService {
 
         // Send booking notifications after payment confirmation
         try {
-          await bookingNotificationService.sendNewBookingNotification({
-            bookingId: (booking._id as any).toString(),
-            menteeId: booking.studentId.toString(),
-            mentorId: booking.mentorId.toString(),
-            serviceId: booking.serviceId.toString(),
-            bookingDate: booking.scheduledAt,
-            meetingLink: `${process.env.FRONTEND_URL}/video-call/${(booking._id as any).toString()}`
-          });
+          // Series participants were already notified (with calendar invites) when the series was booked
+          if (!booking.seriesId) {
+            await bookingNotificationService.sendNewBookingNotification({
+              bookingId: booking._id.toString(),
+              menteeId: booking.studentId.toString(),
+              mentorId: booking.mentorId.toString(),
+              serviceId: booking.serviceId.toString(),
+              bookingDate: booking.scheduledAt,
+              meetingLink: `${process.env.FRONTEND_URL}/video-call/${booking._id.toString()}`
+            });
+          }
 
           // Schedule reminder notifications using UTC time
           await bookingNotificationService.scheduleReminderNotifications({
@@ -115,8 +342,8 @@ export class WebhookService {
         return;
       }
 
-      // Skip processing for temporary IDs (amount-based payments)
-      if (bookingId.startsWith('temp_')) {
+      // Skip processing for temporary IDs (amount-based payments), series, package and gift card payments
+      if (bookingId.startsWith('temp_') || bookingId.startsWith('series_') || bookingId.startsWith('package_') || bookingId.startsWith('gift_card_')) {
         return;
       }
 
@@ -127,6 +354,14 @@ export class WebhookService {
         return;
       }
 
+      if (EscrowService.canTransition(booking, 'voided')) {
+        await EscrowService.transition(booking, 'voided', {
+          event: 'payment_failed',
+          reason: paymentIntent.last_payment_error?.message,
+          metadata: { paymentIntentId: paymentIntent.id }
+        });
+      }
+
       booking.paymentStatus = 'pending'; // Reset to pending for retry
       booking.stripePaymentIntentId = paymentIntent.id;
       await booking.save();
@@ -138,7 +373,7 @@ export class WebhookService {
           booking.studentId.toString(),
           'booking',
           'Payment Failed',
-          `Your payment of $${(paymentIntent.amount / 100).toFixed(2)} for the session could not be processed. Please try again.`,
+          `Your payment of ${CurrencyService.format(paymentIntent.amount / 100, paymentIntent.currency)} for the session could not be processed. Please try again.`,
           {
             bookingId: (booking._id as any).toString(),
             paymentIntentId: paymentIntent.id,
@@ -154,6 +389,29 @@ export class WebhookService {
     }
   }
 
+  // Process charge refunded event
+  static async processChargeRefunded(charge: any): Promise<void> {
+    const paymentIntentId = charge.payment_intent;
+    if (!paymentIntentId) {
+      return;
+    }
+
+    // Series occurrences share one payment intent and track their own partial refunds;
+    // partial refunds are tracked in the booking's refund ledger
+    const booking = await Booking.findOne({ stripePaymentIntentId: paymentIntentId, seriesId: { $exists: false } });
+    if (booking && charge.refunded) {
+      if (EscrowService.canTransition(booking, 'refunded')) {
+        await EscrowService.transition(booking, 'refunded', {
+          event: 'charge_refunded',
+          amount: charge.amount_refunded / 100,
+          metadata: { chargeId: charge.id }
+        });
+      }
+      booking.paymentStatus = 'refunded';
+      await booking.save();
+    }
+  }
+
   // Process transfer created event (successful payout)
   static async processTransferCreated(transfer: any): Promise<void> {
     try {
@@ -245,6 +503,10 @@ export class WebhookService {
       user.stripeConnect.lastUpdated = new Date();
       await user.save();
 
+      if (account.payouts_enabled) {
+        await PayoutRetryService.resumeForMentor(user._id);
+      }
+
       // Only send notification if status changed
       if (previousStatus !== user.stripeConnect.accountStatus) {
         try {
@@ -313,25 +575,35 @@ export class WebhookService {
     }
   }
 
-  // Log webhook event for debugging
-  static logWebhookEvent(eventType: string, eventId: string, data: any, success: boolean, error?: string): void {
-    const logData = {
-      timestamp: new Date().toISOString(),
-      eventType,
-      eventId,
-      success,
-      error: error || null,
-      data: {
-        id: data.id,
-        type: data.type,
-        created: data.created,
-        // Only log essential data, not full payload
-        amount: data.amount,
-        status: data.status,
-        metadata: data.metadata
-      }
-    };
+  // Process account updated event received on the Connect endpoint
+  static async processConnectAccountUpdated(account: any): Promise<void> {
+    const user = await User.findOneAndUpdate(
+      { 'stripeConnect.accountId': account.id },
+      {
+        'stripeConnect.accountStatus': account.details_submitted ? 'active' : 'pending',
+        'stripeConnect.onboardingComplete': account.details_submitted,
+        'stripeConnect.payoutsEnabled': account.payouts_enabled,
+        'stripeConnect.chargesEnabled': account.charges_enabled,
+        'stripeConnect.detailsSubmitted': account.details_submitted,
+        'stripeConnect.lastUpdated': new Date()
+      }
+    );
 
+    // Payouts that were waiting on the mentor's account can go again
+    if (user && account.payouts_enabled) {
+      await PayoutRetryService.resumeForMentor(user._id);
+    }
+  }
+
+  // Process account deauthorized event received on the Connect endpoint
+  static async processConnectAccountDeauthorized(account: any): Promise<void> {
+    await User.findOneAndUpdate(
+      { 'stripeConnect.accountId': account.id },
+      {
+        'stripeConnect.accountStatus': 'rejected',
+        'stripeConnect.lastUpdated': new Date()
+      }
+    );
   }
 
   // Validate webhook event data
@@ -20,6 +20,7 @@ export interface IUser {
   availability: IAvailability[];
   documents: IDocument[];
   timezone: string;
+  currency?: CurrencyCode;
   isOnboarded: boolean;
   mentraBalance?: number;
   createdAt: Date;
@@ -72,6 +73,35 @@ export interface IAvailability {
   timezone: string;
 }
 
+// Cancellation policy Types
+export type CancellationPolicyPreset = 'flexible' | 'moderate' | 'strict' | 'custom';
+
+export interface ICancellationTier {
+  hoursBefore: number; // Applies when cancelling at least this many hours before the session
+  refundPercent: number; // 0-100
+}
+
+// Where a booking's money is: with the processor, held by the platform, or settled
+export type EscrowStatus =
+  | 'none'
+  | 'authorized'
+  | 'voided'
+  | 'captured'
+  | 'held'
+  | 'released'
+  | 'partially_refunded'
+  | 'refunded'
+  | 'disputed';
+
+// Currencies services can be priced and charged in; amounts without a currency are in the settlement currency (USD)
+export type CurrencyCode = 'usd' | 'eur' | 'gbp' | 'inr';
+
+// How often a mentor's eligible earnings are transferred to their Stripe account
+export type PayoutSchedule = 'per_session' | 'weekly' | 'monthly';
+
+// Who gives up revenue when a coupon discounts a booking
+export type CouponAbsorption = 'shared' | 'platform' | 'mentor';
+
 // Service Types
 export interface IService {
   _id: string;
@@ -81,7 +111,23 @@ export interface IService {
   category: string;
   tags: string[];
   hourlyRate: number;
+  currency?: CurrencyCode;
   duration: number; // in minutes
+  bufferBefore?: number; // in minutes
+  bufferAfter?: number; // in minutes
+  minimumNoticeHours?: number;
+  sessionType?: 'one_on_one' | 'group';
+  maxSeats?: number;
+  seatPrice?: number;
+  packages?: Array<{
+    _id: string;
+    title: string;
+    sessionCount: number;
+    price: number;
+    discountPercent: number;
+    validityDays: number;
+    isActive: boolean;
+  }>;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
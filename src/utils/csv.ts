@@ -0,0 +1,36 @@
+/**
+ * Minimal CSV (RFC 4180) builder for downloadable reports.
+ */
+
+export type CSVValue = string | number | boolean | Date | null | undefined;
+
+/**
+ * Escapes a single field, quoting it when it contains a delimiter, quote or line break.
+ * Text that a spreadsheet would run as a formula is prefixed with a quote.
+ * @param value The raw value
+ * @returns The escaped field
+ */
+export const escapeField = (value: CSVValue): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Builds a CSV document from a header row and data rows.
+ * @param headers The column names
+ * @param rows The data rows, one value per column
+ * @returns The serialized CSV with CRLF line endings
+ */
+export const buildCSV = (headers: string[], rows: CSVValue[][]): string => {
+  return [headers, ...rows]
+    .map(row => row.map(escapeField).join(','))
+    .join('\r\n') + '\r\n';
+};
@@ -0,0 +1,50 @@
+/**
+ * Field-level encryption for sensitive values stored in the database, such as tax identification numbers.
+ * AES-256-GCM with a key derived from DATA_ENCRYPTION_KEY; each value gets its own IV.
+ */
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const VERSION = 'v1';
+
+/**
+ * Derives the 32-byte key from the configured secret.
+ * @returns The encryption key
+ */
+const getKey = (): Buffer => {
+  const secret = process.env.DATA_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error('DATA_ENCRYPTION_KEY is not configured');
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+};
+
+/**
+ * Encrypts a value for storage.
+ * @param plaintext The value to encrypt
+ * @returns The version, IV, auth tag and ciphertext, base64-encoded and joined with colons
+ */
+export const encryptValue = (plaintext: string): string => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [VERSION, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+};
+
+/**
+ * Decrypts a value produced by encryptValue.
+ * @param encrypted The stored value
+ * @returns The original plaintext; throws if the value was tampered with or the key is wrong
+ */
+export const decryptValue = (encrypted: string): string => {
+  const [version, iv, tag, ciphertext] = encrypted.split(':');
+  if (version !== VERSION || !iv || !tag || !ciphertext) {
+    throw new Error('Unrecognised encrypted value');
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+};
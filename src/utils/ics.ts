@@ -0,0 +1,123 @@
+/**
+ * Minimal iCalendar (RFC 5545) builder for booking feeds and email invites.
+ */
+
+export type ICSMethod = 'PUBLISH' | 'REQUEST' | 'CANCEL';
+
+export interface ICSEvent {
+  uid: string;
+  sequence: number;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  organizer?: { name?: string; email: string };
+  attendees?: Array<{ name?: string; email: string }>;
+  lastModified?: Date;
+}
+
+/**
+ * Escapes text values (commas, semicolons, backslashes and newlines).
+ * @param value The raw text
+ * @returns The escaped text
+ */
+export const escapeText = (value: string): string => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+/**
+ * Formats a date as a UTC date-time (e.g. 20250101T093000Z).
+ * @param date The date to format
+ * @returns The iCalendar UTC date-time string
+ */
+export const formatDate = (date: Date): string => {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+/**
+ * Folds a content line so no line exceeds 75 octets.
+ * @param line The unfolded content line
+ * @returns The folded line joined with CRLF + space
+ */
+export const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const formatPerson = (property: string, person: { name?: string; email: string }, extra: string = ''): string => {
+  const name = person.name ? `;CN="${person.name.replace(/"/g, "'")}"` : '';
+  return `${property}${name}${extra}:mailto:${person.email}`;
+};
+
+/**
+ * Builds a VCALENDAR document for the given events.
+ * @param method The iTIP method (PUBLISH for feeds, REQUEST/CANCEL for invites)
+ * @param events The events to include
+ * @param calendarName Optional display name for subscribed feeds
+ * @returns The serialized calendar with CRLF line endings
+ */
+export const buildCalendar = (method: ICSMethod, events: ICSEvent[], calendarName?: string): string => {
+  const now = formatDate(new Date());
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Mentr//Bookings//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`
+  ];
+
+  if (calendarName) {
+    lines.push(`X-WR-CALNAME:${escapeText(calendarName)}`);
+  }
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `SEQUENCE:${event.sequence}`,
+      `DTSTAMP:${now}`,
+      `DTSTART:${formatDate(event.start)}`,
+      `DTEND:${formatDate(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      `STATUS:${method === 'CANCEL' ? 'CANCELLED' : (event.status || 'CONFIRMED')}`
+    );
+
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    if (event.lastModified) lines.push(`LAST-MODIFIED:${formatDate(event.lastModified)}`);
+    if (event.organizer) lines.push(formatPerson('ORGANIZER', event.organizer));
+    for (const attendee of event.attendees || []) {
+      lines.push(formatPerson('ATTENDEE', attendee, ';ROLE=REQ-PARTICIPANT;RSVP=FALSE'));
+    }
+
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,115 @@
+/**
+ * Minimal PDF builder for text documents such as statements and receipts.
+ * Uses the standard Helvetica fonts, so no fonts are embedded; text outside Latin-1 is replaced.
+ */
+
+export interface PDFColumn {
+  text: string;
+  x: number; // Offset from the left margin, in points
+}
+
+export interface PDFLine {
+  text?: string;
+  columns?: PDFColumn[]; // Drawn instead of text, each starting at its own offset
+  size?: number; // Font size in points; defaults to 10
+  bold?: boolean;
+  spaceBefore?: number; // Extra space above the line, in points
+}
+
+const PAGE_WIDTH = 612; // US Letter
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const DEFAULT_SIZE = 10;
+
+/**
+ * Escapes a string for a PDF literal and replaces characters the standard fonts can't show.
+ * @param value The raw text
+ * @returns The escaped text
+ */
+export const escapePDFText = (value: string): string => {
+  return value
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+};
+
+/**
+ * Shortens text to roughly fit a width; Helvetica averages about half an em per character.
+ * @param text The text to fit
+ * @param width The available width in points
+ * @param size The font size in points
+ * @returns The text, cut with an ellipsis if it is too long
+ */
+export const fitText = (text: string, width: number, size: number = DEFAULT_SIZE): string => {
+  const maxChars = Math.floor(width / (size * 0.5));
+  return text.length > maxChars ? `${text.slice(0, Math.max(maxChars - 3, 0))}...` : text;
+};
+
+/**
+ * Builds a PDF document of text lines, starting a new page whenever one fills up.
+ * @param lines The lines to draw, top to bottom
+ * @param title Document title stored in the PDF metadata
+ * @returns The PDF file contents
+ */
+export const buildPDF = (lines: PDFLine[], title: string): Buffer => {
+  // Lay the lines out into pages of content stream operators
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    const size = line.size || DEFAULT_SIZE;
+    const height = size * 1.4 + (line.spaceBefore || 0);
+    if (y - height < MARGIN && pages[pages.length - 1].length > 0) {
+      pages.push([]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    y -= height;
+
+    const font = line.bold ? 'F2' : 'F1';
+    const columns = line.columns || [{ text: line.text || '', x: 0 }];
+    for (const column of columns) {
+      if (!column.text) {
+        continue;
+      }
+      pages[pages.length - 1].push(
+        `BT /${font} ${size} Tf ${(MARGIN + column.x).toFixed(2)} ${y.toFixed(2)} Td (${escapePDFText(column.text)}) Tj ET`
+      );
+    }
+  }
+
+  // Objects 1-4 are fixed; each page adds a page object and its content stream
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 5 + index * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+  pages.forEach((operators, index) => {
+    const pageId = pageIds[index];
+    const content = operators.join('\n');
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+  });
+
+  const infoId = objects.length;
+  objects[infoId] = `<< /Title (${escapePDFText(title)}) /Producer (Mentr) >>`;
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(output, 'latin1');
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+};